@@ -132,6 +132,7 @@ export async function PUT(
         const allowedFields = [
             'price',
             'deposit_amount',
+            'daily_payment',
             'weekly_payment',
             'monthly_payment',
             'payment_term_months',
@@ -25,7 +25,7 @@ export async function GET(request: NextRequest) {
         let query = `
       SELECT 
         id, make, model, year, vehicle_type, color, mileage,
-        price, deposit_amount, weekly_payment, monthly_payment,
+        price, deposit_amount, daily_payment, weekly_payment, monthly_payment,
         payment_frequency, payment_term_months, eligibility_tier,
         status, description, images, created_at
       FROM vehicles
@@ -121,6 +121,7 @@ export async function POST(request: NextRequest) {
             mileage: { required: false, type: 'number', min: 0 },
             price: { required: true, type: 'number', min: 1 },
             depositAmount: { required: true, type: 'number', min: 1 },
+            dailyPayment: { required: false, type: 'number', min: 0 },
             weeklyPayment: { required: false, type: 'number', min: 0 },
             monthlyPayment: { required: false, type: 'number', min: 0 },
             paymentFrequency: { required: true, type: 'string' },
@@ -161,7 +162,7 @@ export async function POST(request: NextRequest) {
         }
 
         // Validate payment frequency
-        const validFrequencies = ['weekly', 'monthly'];
+        const validFrequencies = ['daily', 'weekly', 'monthly'];
         if (!validFrequencies.includes(data.paymentFrequency as string)) {
             return NextResponse.json(
                 {
@@ -181,9 +182,9 @@ export async function POST(request: NextRequest) {
         const result = await db.query(
             `INSERT INTO vehicles (
         make, model, year, vehicle_type, color, mileage, price,
-        deposit_amount, weekly_payment, monthly_payment, payment_frequency,
+        deposit_amount, daily_payment, weekly_payment, monthly_payment, payment_frequency,
         payment_term_months, eligibility_tier, description, retailer_id, status
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, 'available')
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, 'available')
       RETURNING id, make, model, year, vehicle_type, price, created_at`,
             [
                 data.make,
@@ -194,6 +195,7 @@ export async function POST(request: NextRequest) {
                 data.mileage || 0,
                 data.price,
                 data.depositAmount,
+                data.dailyPayment || null,
                 data.weeklyPayment || null,
                 data.monthlyPayment || null,
                 data.paymentFrequency,
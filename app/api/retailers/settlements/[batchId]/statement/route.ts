@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUser } from '@/lib/auth';
+import { handleError } from '@/lib/errors';
+import { PaymentServiceClient } from '@/lib/payment-service';
+
+/**
+ * GET /api/retailers/settlements/[batchId]/statement?format=pdf|csv - Download a payout statement
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { batchId: string } }
+) {
+    try {
+        const user = getAuthUser(request);
+
+        if (!user || user.role !== 'retailer' || !user.retailerId) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: {
+                        message: 'Only retailers can access this endpoint',
+                        code: 'FORBIDDEN',
+                    },
+                },
+                { status: 403 }
+            );
+        }
+
+        const { searchParams } = new URL(request.url);
+        const format = searchParams.get('format') === 'csv' ? 'csv' : 'pdf';
+
+        const response = await PaymentServiceClient.get<ArrayBuffer>(
+            `/payments/retailer-settlements/batches/${encodeURIComponent(params.batchId)}/statement`,
+            user,
+            { format },
+            'arraybuffer'
+        );
+
+        return new NextResponse(Buffer.from(response.data), {
+            headers: {
+                'Content-Type': format === 'csv' ? 'text/csv' : 'application/pdf',
+                'Content-Disposition': response.headers['content-disposition'] || `attachment; filename="payout-statement.${format}"`,
+            },
+        });
+    } catch (error) {
+        const errorResponse = handleError(error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: {
+                    message: errorResponse.message,
+                    code: errorResponse.code,
+                },
+            },
+            { status: errorResponse.statusCode }
+        );
+    }
+}
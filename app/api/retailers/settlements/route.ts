@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUser } from '@/lib/auth';
+import { handleError } from '@/lib/errors';
+import { PaymentServiceClient } from '@/lib/payment-service';
+
+/**
+ * GET /api/retailers/settlements - Retailer's settlement totals and payout batches
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const user = getAuthUser(request);
+
+        if (!user || user.role !== 'retailer') {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: {
+                        message: 'Only retailers can access this endpoint',
+                        code: 'FORBIDDEN',
+                    },
+                },
+                { status: 403 }
+            );
+        }
+
+        if (!user.retailerId) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: {
+                        message: 'Retailer profile not found',
+                        code: 'NOT_FOUND',
+                    },
+                },
+                { status: 404 }
+            );
+        }
+
+        const { searchParams } = new URL(request.url);
+        const status = searchParams.get('status');
+
+        const [summaryResponse, batchesResponse] = await Promise.all([
+            PaymentServiceClient.get('/payments/retailer-settlements/summary', user),
+            PaymentServiceClient.get('/payments/retailer-settlements/batches', user, status ? { status } : undefined),
+        ]);
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                summary: summaryResponse.data.data.summary,
+                batches: batchesResponse.data.data.batches,
+            },
+        });
+    } catch (error) {
+        const errorResponse = handleError(error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: {
+                    message: errorResponse.message,
+                    code: errorResponse.code,
+                },
+            },
+            { status: errorResponse.statusCode }
+        );
+    }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUser } from '@/lib/auth';
+import { RateLimiter, RateLimitConfigs } from '@/lib/rate-limiter';
+import { handleError } from '@/lib/errors';
+import { PaymentServiceClient } from '@/lib/payment-service';
+
+/**
+ * POST /api/vehicles/[id]/simulate - Price a plan for the vehicle and check it against the
+ * applicant's income and credit tier. Signed-in customers are checked against their own credit score.
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    const ipAddress = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
+
+    try {
+        const user = getAuthUser(request);
+
+        const rateLimitResult = RateLimiter.check(
+            `simulate_${user?.userId || ipAddress}`,
+            RateLimitConfigs.API_DEFAULT
+        );
+
+        if (!rateLimitResult.allowed) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: {
+                        message: 'Too many requests. Please try again later.',
+                        code: 'RATE_LIMIT_EXCEEDED',
+                        retryAfter: rateLimitResult.retryAfter,
+                    },
+                },
+                {
+                    status: 429,
+                    headers: {
+                        'Retry-After': rateLimitResult.retryAfter?.toString() || '60',
+                    },
+                }
+            );
+        }
+
+        const body = await request.json();
+        const response = await PaymentServiceClient.post(
+            '/payments/simulate',
+            {
+                vehicleId: params.id,
+                depositAmount: body.depositAmount,
+                termLengthMonths: body.termLengthMonths,
+                paymentFrequency: body.paymentFrequency,
+                monthlyIncome: body.monthlyIncome,
+                creditTier: body.creditTier,
+                skipSundays: body.skipSundays,
+                skipPublicHolidays: body.skipPublicHolidays,
+            },
+            user
+        );
+
+        return NextResponse.json({
+            success: true,
+            data: response.data.data,
+        });
+    } catch (error) {
+        const errorResponse = handleError(error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: {
+                    message: errorResponse.message,
+                    code: errorResponse.code,
+                },
+            },
+            { status: errorResponse.statusCode }
+        );
+    }
+}
@@ -24,7 +24,7 @@ export async function GET(request: NextRequest) {
     let query = `
       SELECT 
         v.id, v.make, v.model, v.year, v.vehicle_type, v.color, v.mileage,
-        v.price, v.deposit_amount, v.weekly_payment, v.monthly_payment,
+        v.price, v.deposit_amount, v.daily_payment, v.weekly_payment, v.monthly_payment,
         v.payment_frequency, v.payment_term_months, v.eligibility_tier,
         v.status, v.description, v.images, v.specifications, v.created_at,
         c.id as category_id, c.name as category_name
@@ -137,6 +137,7 @@ export async function POST(request: NextRequest) {
       categoryId,
       price,
       depositAmount,
+      dailyPayment,
       weeklyPayment,
       monthlyPayment,
       paymentFrequency,
@@ -159,9 +160,9 @@ export async function POST(request: NextRequest) {
     const result = await db.query(
       `INSERT INTO vehicles (
         make, model, year, vehicle_type, category_id, price, deposit_amount,
-        weekly_payment, monthly_payment, payment_frequency, payment_term_months,
+        daily_payment, weekly_payment, monthly_payment, payment_frequency, payment_term_months,
         eligibility_tier, description, images, specifications, status
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, 'available')
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, 'available')
       RETURNING *`,
       [
         make,
@@ -171,6 +172,7 @@ export async function POST(request: NextRequest) {
         categoryId || null,
         price,
         depositAmount,
+        dailyPayment || null,
         weeklyPayment || null,
         monthlyPayment || null,
         paymentFrequency || null,
@@ -14,14 +14,40 @@ interface Vehicle {
     created_at: string;
 }
 
+interface SettlementSummary {
+    collectedAmount: number;
+    commissionAmount: number;
+    netAmount: number;
+    unbatchedAmount: number;
+    awaitingPayoutAmount: number;
+    paidAmount: number;
+    currency: string;
+}
+
+interface PayoutBatch {
+    id: string;
+    periodStart: string;
+    periodEnd: string;
+    entryCount: number;
+    grossAmount: number;
+    commissionAmount: number;
+    netAmount: number;
+    status: 'pending' | 'processing' | 'paid' | 'failed';
+    payoutReference?: string;
+    paidAt?: string;
+}
+
 export default function RetailerDashboardPage() {
     const router = useRouter();
     const [vehicles, setVehicles] = useState<Vehicle[]>([]);
     const [loading, setLoading] = useState(true);
     const [deletingVehicle, setDeletingVehicle] = useState<string | null>(null);
+    const [settlementSummary, setSettlementSummary] = useState<SettlementSummary | null>(null);
+    const [payoutBatches, setPayoutBatches] = useState<PayoutBatch[]>([]);
 
     useEffect(() => {
         fetchVehicles();
+        fetchSettlements();
     }, []);
 
     const fetchVehicles = async () => {
@@ -41,6 +67,47 @@ export default function RetailerDashboardPage() {
         }
     };
 
+    const fetchSettlements = async () => {
+        try {
+            const token = localStorage.getItem('accessToken');
+            const response = await fetch('/api/retailers/settlements', {
+                headers: { Authorization: `Bearer ${token}` },
+            });
+            const data = await response.json();
+            if (data.success) {
+                setSettlementSummary(data.data.summary);
+                setPayoutBatches(data.data.batches);
+            }
+        } catch (error) {
+            console.error('Error fetching settlements:', error);
+        }
+    };
+
+    const downloadStatement = async (batch: PayoutBatch, format: 'pdf' | 'csv') => {
+        try {
+            const token = localStorage.getItem('accessToken');
+            const response = await fetch(`/api/retailers/settlements/${batch.id}/statement?format=${format}`, {
+                headers: { Authorization: `Bearer ${token}` },
+            });
+            if (!response.ok) {
+                alert('Error downloading statement');
+                return;
+            }
+
+            const url = URL.createObjectURL(await response.blob());
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `payout-${batch.periodStart}-to-${batch.periodEnd}.${format}`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            alert('Error downloading statement');
+        }
+    };
+
+    const formatMoney = (amount: number) =>
+        `${settlementSummary?.currency || 'UGX'} ${amount.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
     const handleDelete = async () => {
         if (!deletingVehicle) return;
 
@@ -224,6 +291,101 @@ export default function RetailerDashboardPage() {
                         </table>
                     )}
                 </div>
+
+                {/* Settlements */}
+                <div className="bg-white rounded-lg shadow overflow-hidden mt-8">
+                    <div className="px-6 py-4 border-b border-gray-200">
+                        <h2 className="text-lg font-semibold text-gray-900">Settlements</h2>
+                        <p className="text-sm text-gray-600">Your share of customer payments, less platform commission</p>
+                    </div>
+
+                    {settlementSummary && (
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-6 px-6 py-4 border-b border-gray-200">
+                            <div>
+                                <p className="text-sm text-gray-600">Earned</p>
+                                <p className="text-xl font-bold text-gray-900">{formatMoney(settlementSummary.netAmount)}</p>
+                                <p className="text-xs text-gray-500">
+                                    after {formatMoney(settlementSummary.commissionAmount)} commission
+                                </p>
+                            </div>
+                            <div>
+                                <p className="text-sm text-gray-600">Not yet batched</p>
+                                <p className="text-xl font-bold text-gray-900">{formatMoney(settlementSummary.unbatchedAmount)}</p>
+                            </div>
+                            <div>
+                                <p className="text-sm text-gray-600">Awaiting payout</p>
+                                <p className="text-xl font-bold text-yellow-600">{formatMoney(settlementSummary.awaitingPayoutAmount)}</p>
+                            </div>
+                            <div>
+                                <p className="text-sm text-gray-600">Paid out</p>
+                                <p className="text-xl font-bold text-green-600">{formatMoney(settlementSummary.paidAmount)}</p>
+                            </div>
+                        </div>
+                    )}
+
+                    {payoutBatches.length === 0 ? (
+                        <div className="p-8 text-center text-gray-500">No payouts yet</div>
+                    ) : (
+                        <table className="w-full">
+                            <thead className="bg-gray-50">
+                                <tr>
+                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Period</th>
+                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Payments</th>
+                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Commission</th>
+                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Payout</th>
+                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Statement</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-200">
+                                {payoutBatches.map((batch) => (
+                                    <tr key={batch.id} className="hover:bg-gray-50">
+                                        <td className="px-6 py-4 text-sm text-gray-900">
+                                            {batch.periodStart} to {batch.periodEnd}
+                                        </td>
+                                        <td className="px-6 py-4 text-sm text-gray-600">{batch.entryCount}</td>
+                                        <td className="px-6 py-4 text-sm text-gray-600">{formatMoney(batch.commissionAmount)}</td>
+                                        <td className="px-6 py-4 font-medium text-gray-900">{formatMoney(batch.netAmount)}</td>
+                                        <td className="px-6 py-4">
+                                            <span
+                                                className={`px-2 py-1 text-xs font-semibold rounded-full ${batch.status === 'paid'
+                                                    ? 'bg-green-100 text-green-800'
+                                                    : batch.status === 'failed'
+                                                        ? 'bg-red-100 text-red-800'
+                                                        : 'bg-yellow-100 text-yellow-800'
+                                                    }`}
+                                            >
+                                                {batch.status}
+                                            </span>
+                                            {batch.paidAt && (
+                                                <p className="text-xs text-gray-500 mt-1">
+                                                    {new Date(batch.paidAt).toLocaleDateString()}
+                                                    {batch.payoutReference && ` · ${batch.payoutReference}`}
+                                                </p>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4">
+                                            <div className="flex gap-2">
+                                                <button
+                                                    onClick={() => downloadStatement(batch, 'pdf')}
+                                                    className="text-indigo-600 hover:text-indigo-900"
+                                                >
+                                                    PDF
+                                                </button>
+                                                <button
+                                                    onClick={() => downloadStatement(batch, 'csv')}
+                                                    className="text-indigo-600 hover:text-indigo-900"
+                                                >
+                                                    CSV
+                                                </button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
             </div>
 
             {/* Delete Confirmation Modal */}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter, useParams } from 'next/navigation';
+import { useAffordabilitySimulation, PaymentFrequency } from '@/hooks/useAffordabilitySimulation';
 
 interface Vehicle {
     id: string;
@@ -31,6 +32,23 @@ export default function ApplyPage() {
         incomeVerification: '',
     });
 
+    const [planTerms, setPlanTerms] = useState<{
+        depositAmount: string;
+        termLengthMonths: 12 | 18 | 24 | 36;
+        paymentFrequency: PaymentFrequency;
+    }>({
+        depositAmount: '',
+        termLengthMonths: 24,
+        paymentFrequency: 'monthly',
+    });
+
+    const { simulation, loading: simulating, error: simulationError } = useAffordabilitySimulation(vehicleId, {
+        depositAmount: parseFloat(planTerms.depositAmount) || 0,
+        termLengthMonths: planTerms.termLengthMonths,
+        paymentFrequency: planTerms.paymentFrequency,
+        monthlyIncome: parseFloat(formData.monthlyIncome) || 0,
+    });
+
     useEffect(() => {
         fetchVehicle();
     }, [vehicleId]);
@@ -41,6 +59,7 @@ export default function ApplyPage() {
             const data = await response.json();
             if (data.success) {
                 setVehicle(data.data.vehicle);
+                setPlanTerms((terms) => ({ ...terms, depositAmount: String(data.data.vehicle.depositAmount) }));
             }
         } catch (error) {
             console.error('Error fetching vehicle:', error);
@@ -221,6 +240,115 @@ export default function ApplyPage() {
                             <p className="mt-1 text-sm text-gray-500">Enter your gross monthly income</p>
                         </div>
 
+                        <div className="border border-gray-200 rounded-lg p-4">
+                            <h4 className="font-semibold text-gray-900 mb-4">Plan Calculator</h4>
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-2">Deposit</label>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        value={planTerms.depositAmount}
+                                        onChange={(e) => setPlanTerms({ ...planTerms, depositAmount: e.target.value })}
+                                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-2">Term</label>
+                                    <select
+                                        value={planTerms.termLengthMonths}
+                                        onChange={(e) => setPlanTerms({ ...planTerms, termLengthMonths: parseInt(e.target.value) as 12 | 18 | 24 | 36 })}
+                                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                                    >
+                                        <option value={12}>12 months</option>
+                                        <option value={18}>18 months</option>
+                                        <option value={24}>24 months</option>
+                                        <option value={36}>36 months</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-2">Pay</label>
+                                    <select
+                                        value={planTerms.paymentFrequency}
+                                        onChange={(e) => setPlanTerms({ ...planTerms, paymentFrequency: e.target.value as PaymentFrequency })}
+                                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                                    >
+                                        <option value="daily">Daily</option>
+                                        <option value="weekly">Weekly</option>
+                                        <option value="monthly">Monthly</option>
+                                    </select>
+                                </div>
+                            </div>
+
+                            {!formData.monthlyIncome && (
+                                <p className="text-sm text-gray-500">Enter your monthly income to see what this plan would cost you.</p>
+                            )}
+                            {simulating && <p className="text-sm text-gray-500">Calculating...</p>}
+                            {simulationError && <p className="text-sm text-red-600">{simulationError}</p>}
+
+                            {simulation && (
+                                <div className="space-y-4">
+                                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                                        <div>
+                                            <p className="text-sm text-gray-600">Installment</p>
+                                            <p className="text-lg font-bold text-indigo-600">${simulation.schedule.installmentAmount.toLocaleString()}</p>
+                                        </div>
+                                        <div>
+                                            <p className="text-sm text-gray-600">Installments</p>
+                                            <p className="text-lg font-bold text-gray-900">{simulation.schedule.totalInstallments}</p>
+                                        </div>
+                                        <div>
+                                            <p className="text-sm text-gray-600">Total Cost</p>
+                                            <p className="text-lg font-bold text-gray-900">${simulation.totalCost.toLocaleString()}</p>
+                                        </div>
+                                        <div>
+                                            <p className="text-sm text-gray-600">Share of Income</p>
+                                            <p className="text-lg font-bold text-gray-900">{(simulation.installmentToIncomeRatio * 100).toFixed(1)}%</p>
+                                        </div>
+                                    </div>
+
+                                    <div className={`rounded-lg p-4 border ${simulation.fitsTierLimits ? 'bg-green-50 border-green-200' : 'bg-yellow-50 border-yellow-200'}`}>
+                                        <p className={`font-semibold mb-2 ${simulation.fitsTierLimits ? 'text-green-900' : 'text-yellow-900'}`}>
+                                            {simulation.fitsTierLimits
+                                                ? `Fits the limits for credit tier ${simulation.tierLimits.tier}`
+                                                : `Outside the limits for credit tier ${simulation.tierLimits.tier}`}
+                                        </p>
+                                        <ul className="text-sm space-y-1">
+                                            {simulation.checks.map((check) => (
+                                                <li key={check.check} className={check.passed ? 'text-green-800' : 'text-yellow-800'}>
+                                                    {check.passed ? '✓' : '✗'} {check.message}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+
+                                    <details className="text-sm">
+                                        <summary className="cursor-pointer text-indigo-600 hover:text-indigo-700">Show full schedule</summary>
+                                        <div className="mt-2 max-h-64 overflow-y-auto">
+                                            <table className="w-full text-left">
+                                                <thead>
+                                                    <tr className="text-gray-600">
+                                                        <th className="py-1">#</th>
+                                                        <th className="py-1">Due</th>
+                                                        <th className="py-1 text-right">Amount</th>
+                                                    </tr>
+                                                </thead>
+                                                <tbody>
+                                                    {simulation.schedule.installments.map((installment) => (
+                                                        <tr key={installment.installmentNumber} className="border-t border-gray-100">
+                                                            <td className="py-1">{installment.installmentNumber}</td>
+                                                            <td className="py-1">{new Date(installment.dueDate).toLocaleDateString()}</td>
+                                                            <td className="py-1 text-right">${installment.amountDue.toLocaleString()}</td>
+                                                        </tr>
+                                                    ))}
+                                                </tbody>
+                                            </table>
+                                        </div>
+                                    </details>
+                                </div>
+                            )}
+                        </div>
+
                         <div>
                             <label className="block text-sm font-medium text-gray-700 mb-2">
                                 Income Verification (Optional)
@@ -2,21 +2,38 @@
 
 import React, { useState } from 'react';
 import Image from 'next/image';
+import { useRouter } from 'next/navigation';
 import { Button } from './ui/Button';
 import { Slider } from './ui/Slider';
-import { CheckCircle2, ShieldCheck, Calendar, Settings, Fuel, Gauge, Info } from 'lucide-react';
+import { CheckCircle2, ShieldCheck, Calendar, Settings, Fuel, Gauge, Info, XCircle } from 'lucide-react';
+import { useAffordabilitySimulation, PaymentFrequency } from '@/hooks/useAffordabilitySimulation';
 
 interface CarDetailProps {
     vehicle: any; // Replace with proper type
 }
 
+const TERM_OPTIONS = [12, 18, 24, 36] as const;
+
+const FREQUENCY_LABELS: Record<PaymentFrequency, string> = {
+    daily: 'Daily',
+    weekly: 'Weekly',
+    monthly: 'Monthly',
+};
+
 export const CarDetail: React.FC<CarDetailProps> = ({ vehicle }) => {
-    const [downPayment, setDownPayment] = useState(vehicle.deposit_amount || 1000);
-    const [termLength, setTermLength] = useState(48); // months
+    const router = useRouter();
+    const price = Number(vehicle.price);
+    const [downPayment, setDownPayment] = useState(Number(vehicle.deposit_amount) || Math.round(price * 0.2));
+    const [termLength, setTermLength] = useState<typeof TERM_OPTIONS[number]>(24);
+    const [frequency, setFrequency] = useState<PaymentFrequency>('weekly');
+    const [monthlyIncome, setMonthlyIncome] = useState('');
 
-    // Mock calculations
-    const weeklyPayment = Math.round((vehicle.price - downPayment) / (termLength * 4.33));
-    const totalCost = downPayment + (weeklyPayment * termLength * 4.33);
+    const { simulation, loading, error } = useAffordabilitySimulation(vehicle.id, {
+        depositAmount: downPayment,
+        termLengthMonths: termLength,
+        paymentFrequency: frequency,
+        monthlyIncome: parseFloat(monthlyIncome) || 0,
+    });
 
     return (
         <div className="min-h-screen bg-bg-primary pb-20">
@@ -119,51 +136,118 @@ export const CarDetail: React.FC<CarDetailProps> = ({ vehicle }) => {
                     <div className="lg:col-span-1">
                         <div className="sticky top-24 bg-bg-secondary/80 backdrop-blur-xl border border-border-glass p-6 rounded-3xl shadow-glass">
                             <div className="text-center mb-6">
-                                <p className="text-text-secondary mb-1">Weekly Payment</p>
+                                <p className="text-text-secondary mb-1">{FREQUENCY_LABELS[frequency]} Payment</p>
                                 <div className="text-5xl font-bold text-white flex items-start justify-center gap-1">
                                     <span className="text-2xl mt-2">$</span>
-                                    {weeklyPayment}
+                                    {simulation ? Math.round(simulation.schedule.installmentAmount).toLocaleString() : '--'}
                                 </div>
+                                {!simulation && !loading && (
+                                    <p className="text-xs text-text-muted mt-2">Enter your monthly income to see your plan</p>
+                                )}
                             </div>
 
                             <div className="space-y-6 mb-8">
                                 <Slider
                                     label="Down Payment"
-                                    min={500}
-                                    max={5000}
-                                    step={100}
+                                    min={Math.round(price * 0.1)}
+                                    max={Math.round(price * 0.6)}
+                                    step={Math.max(1, Math.round(price / 100))}
                                     value={downPayment}
                                     onChange={setDownPayment}
                                     unit="$"
                                 />
 
-                                <Slider
-                                    label="Term Length (Months)"
-                                    min={12}
-                                    max={60}
-                                    step={12}
-                                    value={termLength}
-                                    onChange={setTermLength}
-                                />
+                                <div>
+                                    <p className="text-sm font-medium text-text-secondary mb-3">Term Length (Months)</p>
+                                    <div className="grid grid-cols-4 gap-2">
+                                        {TERM_OPTIONS.map((term) => (
+                                            <Button
+                                                key={term}
+                                                size="sm"
+                                                variant={termLength === term ? 'primary' : 'secondary'}
+                                                onClick={() => setTermLength(term)}
+                                            >
+                                                {term}
+                                            </Button>
+                                        ))}
+                                    </div>
+                                </div>
+
+                                <div>
+                                    <p className="text-sm font-medium text-text-secondary mb-3">Pay</p>
+                                    <div className="grid grid-cols-3 gap-2">
+                                        {(Object.keys(FREQUENCY_LABELS) as PaymentFrequency[]).map((option) => (
+                                            <Button
+                                                key={option}
+                                                size="sm"
+                                                variant={frequency === option ? 'primary' : 'secondary'}
+                                                onClick={() => setFrequency(option)}
+                                            >
+                                                {FREQUENCY_LABELS[option]}
+                                            </Button>
+                                        ))}
+                                    </div>
+                                </div>
+
+                                <div>
+                                    <label className="text-sm font-medium text-text-secondary mb-3 block">Monthly Income</label>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        value={monthlyIncome}
+                                        onChange={(e) => setMonthlyIncome(e.target.value)}
+                                        className="w-full px-4 py-2 bg-bg-tertiary border border-border-secondary rounded-xl text-white focus:outline-none focus:border-primary"
+                                        placeholder="0"
+                                    />
+                                </div>
                             </div>
 
                             <div className="space-y-3 mb-8 p-4 bg-bg-tertiary rounded-xl border border-border-secondary">
                                 <div className="flex justify-between text-sm">
                                     <span className="text-text-secondary">Vehicle Price</span>
-                                    <span className="font-medium">${vehicle.price.toLocaleString()}</span>
+                                    <span className="font-medium">${price.toLocaleString()}</span>
+                                </div>
+                                <div className="flex justify-between text-sm">
+                                    <span className="text-text-secondary">Cost of Credit</span>
+                                    <span className="font-medium">{simulation ? `$${simulation.totalInterest.toLocaleString()}` : '--'}</span>
                                 </div>
                                 <div className="flex justify-between text-sm">
-                                    <span className="text-text-secondary">Service Fee</span>
-                                    <span className="font-medium">$500</span>
+                                    <span className="text-text-secondary">Share of Income</span>
+                                    <span className="font-medium">
+                                        {simulation ? `${(simulation.installmentToIncomeRatio * 100).toFixed(1)}%` : '--'}
+                                    </span>
                                 </div>
                                 <div className="h-px bg-border-primary" />
                                 <div className="flex justify-between text-sm font-bold text-white">
                                     <span>Total Cost of Ownership</span>
-                                    <span>${totalCost.toLocaleString()}</span>
+                                    <span>{simulation ? `$${simulation.totalCost.toLocaleString()}` : '--'}</span>
                                 </div>
                             </div>
 
-                            <Button size="lg" className="w-full mb-3">
+                            {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+                            {simulation && (
+                                <div className={`mb-8 p-4 rounded-xl border ${simulation.fitsTierLimits ? 'border-accent/40 bg-accent/10' : 'border-red-500/40 bg-red-500/10'}`}>
+                                    <p className="font-bold mb-2 flex items-center gap-2">
+                                        {simulation.fitsTierLimits
+                                            ? <CheckCircle2 className="w-4 h-4 text-accent" />
+                                            : <XCircle className="w-4 h-4 text-red-400" />}
+                                        {simulation.fitsTierLimits ? 'This plan fits your budget' : 'This plan may not be approved'}
+                                    </p>
+                                    <ul className="text-xs text-text-secondary space-y-1">
+                                        {simulation.checks.filter((check) => !check.passed).map((check) => (
+                                            <li key={check.check}>{check.message}</li>
+                                        ))}
+                                    </ul>
+                                    {simulation.tierLimits.source !== 'credit_score' && (
+                                        <p className="text-xs text-text-muted mt-2">
+                                            Estimated for credit tier {simulation.tierLimits.tier}. Sign in for a check against your own credit score.
+                                        </p>
+                                    )}
+                                </div>
+                            )}
+
+                            <Button size="lg" className="w-full mb-3" onClick={() => router.push(`/vehicles/${vehicle.id}/apply`)}>
                                 Start Pre-Approval Now
                             </Button>
                             <p className="text-xs text-center text-text-muted flex items-center justify-center gap-1">
@@ -110,6 +110,7 @@ export default function CheckoutFlow() {
         vehicleId: checkout.vehicleId,
         depositAmount: checkout.depositAmount,
         paymentFrequency: checkout.paymentFrequency,
+        skipSundays: checkout.paymentFrequency === 'daily' ? checkout.skipSundays : undefined,
         paymentTermMonths: checkout.paymentTermMonths,
         paymentMethod: checkout.selectedPaymentMethod,
         mobileMoneyProvider: checkout.mobileMoneyProvider,
@@ -188,6 +189,26 @@ export default function CheckoutFlow() {
   const weeklyPayment = checkout.paymentTermMonths
     ? remainingAmount / (checkout.paymentTermMonths * 4)
     : vehicle?.weeklyPayment || 0
+  // Roughly 26 collection days a month when Sundays are skipped, 30 otherwise
+  const dailyPaymentsPerMonth = checkout.skipSundays ? 26 : 30
+  const dailyPayment = checkout.paymentTermMonths
+    ? remainingAmount / (checkout.paymentTermMonths * dailyPaymentsPerMonth)
+    : vehicle?.dailyPayment || 0
+  const paymentsPerMonth = {
+    daily: dailyPaymentsPerMonth,
+    weekly: 4,
+    monthly: 1,
+  }[checkout.paymentFrequency]
+  const installmentPayment = {
+    daily: dailyPayment,
+    weekly: weeklyPayment,
+    monthly: monthlyPayment,
+  }[checkout.paymentFrequency]
+  const frequencyLabel = {
+    daily: 'Daily',
+    weekly: 'Weekly',
+    monthly: 'Monthly',
+  }[checkout.paymentFrequency]
   
   return (
     <>
@@ -373,15 +394,28 @@ export default function CheckoutFlow() {
                   <Select
                     label="Payment Frequency"
                     options={[
+                      { value: 'daily', label: 'Daily' },
                       { value: 'weekly', label: 'Weekly' },
                       { value: 'monthly', label: 'Monthly' },
                     ]}
                     value={checkout.paymentFrequency}
-                    onChange={(e) => updateCheckout({ paymentFrequency: e.target.value as 'weekly' | 'monthly' })}
+                    onChange={(e) => updateCheckout({ paymentFrequency: e.target.value as 'daily' | 'weekly' | 'monthly' })}
                     error={errors.paymentFrequency}
                     required
                     fullWidth
                   />
+
+                  {checkout.paymentFrequency === 'daily' && (
+                    <label className="flex items-center gap-2 text-sm text-carbon-300">
+                      <input
+                        type="checkbox"
+                        checked={checkout.skipSundays}
+                        onChange={(e) => updateCheckout({ skipSundays: e.target.checked })}
+                        className="rounded border-carbon-700 bg-carbon-900 text-volt-500"
+                      />
+                      No payments on Sundays
+                    </label>
+                  )}
                   
                   <Select
                     label="Payment Term (Months)"
@@ -405,22 +439,20 @@ export default function CheckoutFlow() {
                       <div className="space-y-3">
                         <div className="flex items-center justify-between text-sm">
                           <span className="text-carbon-300">
-                            {checkout.paymentFrequency === 'weekly' ? 'Weekly' : 'Monthly'} Payment
+                            {frequencyLabel} Payment
                           </span>
                           <span className="text-volt-500 font-bold">
                             {new Intl.NumberFormat('en-US', {
                               style: 'currency',
                               currency: 'UGX',
                               minimumFractionDigits: 0,
-                            }).format(checkout.paymentFrequency === 'weekly' ? weeklyPayment : monthlyPayment)}
+                            }).format(installmentPayment)}
                           </span>
                         </div>
                         <div className="flex items-center justify-between text-sm">
                           <span className="text-carbon-300">Total Payments</span>
                           <span className="text-carbon-50 font-semibold">
-                            {checkout.paymentFrequency === 'weekly'
-                              ? checkout.paymentTermMonths * 4
-                              : checkout.paymentTermMonths}
+                            {checkout.paymentTermMonths * paymentsPerMonth}
                           </span>
                         </div>
                         <div className="flex items-center justify-between text-sm pt-3 border-t border-carbon-800">
@@ -431,10 +463,7 @@ export default function CheckoutFlow() {
                               currency: 'UGX',
                               minimumFractionDigits: 0,
                             }).format(
-                              depositAmount +
-                              (checkout.paymentFrequency === 'weekly'
-                                ? weeklyPayment * checkout.paymentTermMonths * 4
-                                : monthlyPayment * checkout.paymentTermMonths)
+                              depositAmount + installmentPayment * checkout.paymentTermMonths * paymentsPerMonth
                             )}
                           </span>
                         </div>
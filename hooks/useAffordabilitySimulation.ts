@@ -0,0 +1,96 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { vehiclesApi } from '@/lib/api';
+
+export type PaymentFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface SimulationTerms {
+    depositAmount: number;
+    termLengthMonths: 12 | 18 | 24 | 36;
+    paymentFrequency: PaymentFrequency;
+    monthlyIncome: number;
+}
+
+export interface AffordabilityCheck {
+    check: string;
+    passed: boolean;
+    message: string;
+}
+
+export interface AffordabilitySimulation {
+    schedule: {
+        installmentAmount: number;
+        totalInstallments: number;
+        paymentFrequency: PaymentFrequency;
+        annualInterestRate: number;
+        effectiveApr: number;
+        installments: Array<{ installmentNumber: number; dueDate: string; amountDue: number }>;
+    };
+    totalCost: number;
+    totalInterest: number;
+    monthlyInstallment: number;
+    installmentToIncomeRatio: number;
+    maxInstallmentToIncomeRatio: number;
+    tierLimits: {
+        tier: string;
+        source: 'credit_score' | 'requested' | 'assumed';
+    };
+    fitsTierLimits: boolean;
+    checks: AffordabilityCheck[];
+}
+
+const DEBOUNCE_MS = 400;
+
+/**
+ * Simulate a plan for a vehicle whenever the terms change. Requests wait until the terms
+ * have settled, so dragging a slider does not send one request per step.
+ */
+export function useAffordabilitySimulation(vehicleId: string, terms: SimulationTerms) {
+    const [simulation, setSimulation] = useState<AffordabilitySimulation | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const { depositAmount, termLengthMonths, paymentFrequency, monthlyIncome } = terms;
+
+    useEffect(() => {
+        if (!vehicleId || !(monthlyIncome > 0) || !(depositAmount > 0)) {
+            setSimulation(null);
+            return;
+        }
+
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            setLoading(true);
+            setError(null);
+
+            try {
+                const response = await vehiclesApi.simulate(vehicleId, {
+                    depositAmount,
+                    termLengthMonths,
+                    paymentFrequency,
+                    monthlyIncome,
+                });
+
+                if (cancelled) return;
+                if (response.success && response.data) {
+                    setSimulation(response.data.simulation);
+                } else {
+                    setSimulation(null);
+                    setError(response.error?.message || 'Failed to simulate plan');
+                }
+            } catch (err) {
+                if (!cancelled) setError('Network error');
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        }, DEBOUNCE_MS);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [vehicleId, depositAmount, termLengthMonths, paymentFrequency, monthlyIncome]);
+
+    return { simulation, loading, error };
+}
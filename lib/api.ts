@@ -66,6 +66,17 @@ export const vehiclesApi = {
             };
         }
     },
+    simulate: async (id: string, data: any) => {
+        try {
+            const response = await api.post(`/vehicles/${id}/simulate`, data);
+            return response.data;
+        } catch (error: any) {
+            return {
+                success: false,
+                error: error.response?.data?.error || { message: error.message }
+            };
+        }
+    },
 };
 
 // Auth API
@@ -113,9 +113,10 @@ export async function initializeDatabase() {
         mileage INTEGER DEFAULT 0 CHECK (mileage >= 0),
         price DECIMAL(12, 2) NOT NULL CHECK (price > 0),
         deposit_amount DECIMAL(12, 2) NOT NULL CHECK (deposit_amount > 0 AND deposit_amount <= price),
+        daily_payment DECIMAL(12, 2) CHECK (daily_payment > 0),
         weekly_payment DECIMAL(12, 2) CHECK (weekly_payment > 0),
         monthly_payment DECIMAL(12, 2) CHECK (monthly_payment > 0),
-        payment_frequency VARCHAR(20) CHECK (payment_frequency IN ('weekly', 'monthly')),
+        payment_frequency VARCHAR(20) CHECK (payment_frequency IN ('daily', 'weekly', 'monthly')),
         payment_term_months INTEGER CHECK (payment_term_months > 0),
         eligibility_tier VARCHAR(50) CHECK (eligibility_tier IN ('basic', 'standard', 'premium', 'luxury')),
         status VARCHAR(50) DEFAULT 'available' CHECK (status IN ('available', 'reserved', 'rented', 'sold', 'maintenance')),
@@ -147,7 +148,7 @@ export async function initializeDatabase() {
         vehicle_price DECIMAL(12, 2) NOT NULL,
         deposit_amount DECIMAL(12, 2) NOT NULL,
         installment_amount DECIMAL(12, 2) NOT NULL,
-        payment_frequency VARCHAR(20) NOT NULL CHECK (payment_frequency IN ('weekly', 'monthly')),
+        payment_frequency VARCHAR(20) NOT NULL CHECK (payment_frequency IN ('daily', 'weekly', 'monthly')),
         term_length_months INTEGER NOT NULL CHECK (term_length_months IN (12, 18, 24, 36)),
         total_installments INTEGER NOT NULL,
         remaining_installments INTEGER NOT NULL,
@@ -195,6 +196,17 @@ export async function initializeDatabase() {
       );
     `);
 
+    // Daily payments for motorcycle (boda-boda) plans on existing databases
+    await db.query(`
+      ALTER TABLE vehicles ADD COLUMN IF NOT EXISTS daily_payment DECIMAL(12, 2) CHECK (daily_payment > 0);
+      ALTER TABLE vehicles DROP CONSTRAINT IF EXISTS vehicles_payment_frequency_check;
+      ALTER TABLE vehicles ADD CONSTRAINT vehicles_payment_frequency_check
+        CHECK (payment_frequency IN ('daily', 'weekly', 'monthly'));
+      ALTER TABLE payment_plans DROP CONSTRAINT IF EXISTS payment_plans_payment_frequency_check;
+      ALTER TABLE payment_plans ADD CONSTRAINT payment_plans_payment_frequency_check
+        CHECK (payment_frequency IN ('daily', 'weekly', 'monthly'));
+    `);
+
     // Credit scoring tables
     await db.query(`
       CREATE TABLE IF NOT EXISTS credit_scores (
@@ -0,0 +1,80 @@
+import axios, { AxiosResponse, ResponseType } from 'axios';
+import { AuthUser } from './auth';
+import { AppError, ServiceUnavailableError } from './errors';
+
+const PAYMENT_SERVICE_URL = process.env.PAYMENT_SERVICE_URL || 'http://localhost:3003';
+
+/**
+ * Payment Service Client
+ * Server-side calls from the API routes to the payment service. The signed-in user is passed
+ * on in the same headers the API gateway sets, so the payment service applies its own access rules.
+ */
+export class PaymentServiceClient {
+    /**
+     * GET a payment service endpoint as the given user. Error responses from the service are
+     * raised as AppErrors with the service's message and code.
+     */
+    static async get<T = any>(
+        path: string,
+        user: AuthUser,
+        params?: Record<string, string>,
+        responseType: ResponseType = 'json'
+    ): Promise<AxiosResponse<T>> {
+        try {
+            return await axios.get<T>(`${PAYMENT_SERVICE_URL}${path}`, {
+                headers: PaymentServiceClient.userHeaders(user),
+                params,
+                responseType,
+                timeout: 10000,
+            });
+        } catch (error: any) {
+            throw PaymentServiceClient.toAppError(error, responseType);
+        }
+    }
+
+    /**
+     * POST to a payment service endpoint, as the given user when there is one
+     */
+    static async post<T = any>(path: string, body: any, user?: AuthUser | null): Promise<AxiosResponse<T>> {
+        try {
+            return await axios.post<T>(`${PAYMENT_SERVICE_URL}${path}`, body, {
+                headers: user ? PaymentServiceClient.userHeaders(user) : {},
+                timeout: 10000,
+            });
+        } catch (error: any) {
+            throw PaymentServiceClient.toAppError(error, 'json');
+        }
+    }
+
+    private static userHeaders(user: AuthUser): Record<string, string> {
+        const headers: Record<string, string> = {
+            'x-user-id': user.userId,
+            'x-user-email': user.email,
+            'x-user-role': user.role,
+        };
+        if (user.retailerId) {
+            headers['x-retailer-id'] = user.retailerId;
+        }
+        return headers;
+    }
+
+    private static toAppError(error: any, responseType: ResponseType): AppError {
+        if (!error.response) {
+            return new ServiceUnavailableError('Payment service');
+        }
+
+        let body = error.response.data;
+        if (responseType === 'arraybuffer' && body) {
+            try {
+                body = JSON.parse(Buffer.from(body).toString('utf8'));
+            } catch {
+                body = undefined;
+            }
+        }
+        return new AppError(
+            body?.error?.message || 'Payment service request failed',
+            error.response.status,
+            body?.error?.code
+        );
+    }
+}
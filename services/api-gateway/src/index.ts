@@ -64,6 +64,9 @@ const proxyOptions = {
       proxyReq.setHeader('x-user-id', req.user.userId);
       proxyReq.setHeader('x-user-email', req.user.email);
       proxyReq.setHeader('x-user-role', req.user.role);
+      if (req.user.retailerId) {
+        proxyReq.setHeader('x-retailer-id', req.user.retailerId);
+      }
     }
   },
 };
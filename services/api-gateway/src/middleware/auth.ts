@@ -8,6 +8,7 @@ export interface AuthRequest extends Request {
     userId: string;
     email: string;
     role: string;
+    retailerId?: string;
   };
 }
 
@@ -31,6 +32,7 @@ export function authenticateToken(req: AuthRequest, res: Response, next: NextFun
       userId: decoded.userId,
       email: decoded.email,
       role: decoded.role,
+      retailerId: decoded.retailerId,
     };
     next();
   } catch (error) {
@@ -125,6 +125,18 @@ export function creditRoutes(pool: Pool, messageQueue: MessageQueueClient): Rout
           },
           timestamp: Date.now(),
         });
+      } else if (assessmentResult === 'rejected') {
+        // Payment service refunds any deposit paid towards the vehicle
+        await messageQueue.publish('credit.events', 'credit.rejected', {
+          type: 'credit.rejected',
+          payload: {
+            assessmentId: assessment.id,
+            userId: assessment.user_id,
+            vehicleId: assessment.vehicle_id,
+            reason: conditions.reason,
+          },
+          timestamp: Date.now(),
+        });
       }
 
       res.status(201).json({
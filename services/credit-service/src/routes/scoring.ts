@@ -1,7 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { Pool } from 'pg';
 import { ValidationError, NotFoundError } from '@rent-to-own/errors';
-import { ScoringEngine } from '../services/scoringEngine';
+import { ScoringEngine, TIER_CONFIGURATIONS } from '../services/scoringEngine';
 import { AuditLogger } from '../services/auditLogger';
 import { ApplicantData, ScoreUpdateData } from '../types/scoring';
 
@@ -302,6 +302,36 @@ export function scoringRoutes(pool: Pool): Router {
     }
   });
 
+  /**
+   * GET /tiers
+   * Get every tier's configuration, so other services can check plans against tier limits
+   */
+  router.get('/tiers', async (req: Request, res: Response) => {
+    try {
+      res.status(200).json({
+        success: true,
+        data: {
+          tiers: TIER_CONFIGURATIONS.map((tierConfig) => ({
+            tier: tierConfig.tier,
+            minScore: tierConfig.minScore,
+            maxScore: tierConfig.maxScore,
+            maxVehicleValue: tierConfig.maxVehicleValue,
+            depositPercentage: tierConfig.depositPercentage,
+            vehicleCategories: tierConfig.vehicleCategories,
+          })),
+        },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
   /**
    * GET /score/:applicantId
    * Get current credit score for an applicant
@@ -6,8 +6,34 @@ import { EncryptionService } from '@rent-to-own/encryption';
 import { errorHandler } from '@rent-to-own/errors';
 import dotenv from 'dotenv';
 import { paymentRoutes } from './routes/payments';
-import { schedulePayments } from './schedulers/paymentScheduler';
+import { penaltyRoutes } from './routes/penalties';
+import { reconciliationRoutes } from './routes/reconciliation';
+import { mandateRoutes } from './routes/mandates';
+import { ownershipTransferRoutes } from './routes/ownershipTransfers';
+import { retailerSettlementRoutes } from './routes/retailerSettlements';
+import { dunningRoutes } from './routes/dunning';
+import { reportRoutes } from './routes/reports';
+import { holidayRoutes } from './routes/holidays';
+import { outboxRoutes } from './routes/outbox';
+import { bankTransferRoutes } from './routes/bankTransfers';
+import { defaultCaseRoutes } from './routes/defaultCases';
+import { planAddonRoutes } from './routes/planAddons';
+import { fraudScreeningRoutes } from './routes/fraudScreening';
+import { OutboxService } from './services/outbox';
+import { HolidayCalendarService } from './services/holidayCalendar';
+import { schedulePayments, pollPendingConfirmations, notifyUpcomingMandatePulls, relayOutboxEvents } from './schedulers/paymentScheduler';
 import { IdempotencyService } from './services/idempotency';
+import { SettlementService } from './services/settlement';
+import { MobileMoneyService } from './services/mobileMoney';
+import { RefundService, RefundSource } from './services/refunds';
+import { ReconciliationService } from './services/reconciliation';
+import { OwnershipTransferService } from './services/ownershipTransfer';
+import { RetailerSettlementService, publishPayoutBatchEvent } from './services/retailerSettlements';
+import { PortfolioReportingService } from './services/portfolioReporting';
+import { BankTransferService } from './services/bankTransfers';
+import { DefaultManagementService } from './services/defaultManagement';
+import { PlanAddonService } from './services/planAddons';
+import { extractUserInfo } from './middleware/auth';
 
 dotenv.config();
 
@@ -35,8 +61,22 @@ const messageQueue = new MessageQueueClient({
 
 // Middleware
 app.use(express.json());
+app.use(extractUserInfo); // Extract user info from headers set by the API gateway
 
 // Routes
+app.use('/payments/penalties', penaltyRoutes(pool, messageQueue));
+app.use('/payments/reconciliation', reconciliationRoutes(pool, messageQueue));
+app.use('/payments/mandates', mandateRoutes(pool, encryptionService, messageQueue));
+app.use('/payments/ownership-transfers', ownershipTransferRoutes(pool, messageQueue));
+app.use('/payments/retailer-settlements', retailerSettlementRoutes(pool, messageQueue));
+app.use('/payments/dunning-rules', dunningRoutes(pool));
+app.use('/payments/reports', reportRoutes(pool));
+app.use('/payments/holidays', holidayRoutes(pool));
+app.use('/payments/outbox', outboxRoutes(pool, messageQueue));
+app.use('/payments/bank-transfers', bankTransferRoutes(pool, messageQueue));
+app.use('/payments/default-cases', defaultCaseRoutes(pool, messageQueue));
+app.use('/payments/addons', planAddonRoutes(pool, messageQueue));
+app.use('/payments/fraud', fraudScreeningRoutes(pool, encryptionService, messageQueue));
 app.use('/payments', paymentRoutes(pool, encryptionService, messageQueue));
 
 // Health check
@@ -132,6 +172,577 @@ async function initializeDatabase() {
         expires_at TIMESTAMP NOT NULL
       );
 
+      CREATE TABLE IF NOT EXISTS payment_installments (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        payment_plan_id UUID REFERENCES payment_plans(id) ON DELETE CASCADE,
+        installment_number INTEGER NOT NULL,
+        due_date DATE NOT NULL,
+        amount_due DECIMAL(12, 2) NOT NULL,
+        amount_paid DECIMAL(12, 2) DEFAULT 0,
+        status VARCHAR(50) DEFAULT 'pending' CHECK (status IN ('pending', 'partially_paid', 'paid', 'overdue', 'settled')),
+        paid_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (payment_plan_id, installment_number)
+      );
+
+      ALTER TABLE payments ADD COLUMN IF NOT EXISTS installment_id UUID REFERENCES payment_installments(id) ON DELETE SET NULL;
+
+      ALTER TABLE payment_plans ADD COLUMN IF NOT EXISTS overpayment_strategy VARCHAR(20) DEFAULT 'prepay' CHECK (overpayment_strategy IN ('prepay', 'credit'));
+      ALTER TABLE payment_plans ADD COLUMN IF NOT EXISTS credit_balance DECIMAL(12, 2) DEFAULT 0;
+
+      ALTER TABLE payment_plans ADD COLUMN IF NOT EXISTS credit_tier VARCHAR(1);
+      ALTER TABLE payment_plans ADD COLUMN IF NOT EXISTS interest_method VARCHAR(20) DEFAULT 'reducing_balance' CHECK (interest_method IN ('flat', 'reducing_balance'));
+      ALTER TABLE payment_plans ADD COLUMN IF NOT EXISTS annual_interest_rate DECIMAL(5, 2) DEFAULT 0;
+      ALTER TABLE payment_plans ADD COLUMN IF NOT EXISTS total_interest DECIMAL(12, 2) DEFAULT 0;
+      ALTER TABLE payment_plans ADD COLUMN IF NOT EXISTS total_payable DECIMAL(12, 2);
+      ALTER TABLE payment_plans ADD COLUMN IF NOT EXISTS effective_apr DECIMAL(7, 2) DEFAULT 0;
+      ALTER TABLE payment_installments ADD COLUMN IF NOT EXISTS principal_due DECIMAL(12, 2);
+      ALTER TABLE payment_installments ADD COLUMN IF NOT EXISTS interest_due DECIMAL(12, 2) DEFAULT 0;
+
+      CREATE TABLE IF NOT EXISTS payment_allocations (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        payment_id UUID REFERENCES payments(id) ON DELETE CASCADE,
+        payment_plan_id UUID REFERENCES payment_plans(id) ON DELETE CASCADE,
+        installment_id UUID REFERENCES payment_installments(id) ON DELETE CASCADE,
+        allocation_type VARCHAR(50) NOT NULL CHECK (allocation_type IN ('installment', 'credit', 'credit_applied')),
+        amount DECIMAL(12, 2) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS settlement_quotes (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        payment_plan_id UUID REFERENCES payment_plans(id) ON DELETE CASCADE,
+        user_id UUID NOT NULL,
+        outstanding_balance DECIMAL(12, 2) NOT NULL,
+        discount_percentage DECIMAL(5, 2) DEFAULT 0,
+        discount_amount DECIMAL(12, 2) DEFAULT 0,
+        settlement_amount DECIMAL(12, 2) NOT NULL,
+        status VARCHAR(50) DEFAULT 'issued' CHECK (status IN ('issued', 'settled', 'expired', 'cancelled')),
+        expires_at TIMESTAMP NOT NULL,
+        payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+        settled_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      ALTER TABLE settlement_quotes ADD COLUMN IF NOT EXISTS interest_rebate DECIMAL(12, 2) DEFAULT 0;
+
+      ALTER TABLE payment_plans ADD COLUMN IF NOT EXISTS product_code VARCHAR(50);
+
+      -- Restructured plans can run beyond the standard 12/18/24/36 month terms
+      ALTER TABLE payment_plans DROP CONSTRAINT IF EXISTS payment_plans_term_length_months_check;
+      ALTER TABLE payment_plans ADD CONSTRAINT payment_plans_term_length_months_check CHECK (term_length_months > 0);
+
+      CREATE TABLE IF NOT EXISTS plan_restructures (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        payment_plan_id UUID REFERENCES payment_plans(id) ON DELETE CASCADE,
+        reason TEXT NOT NULL,
+        requested_by UUID,
+        extend_by_months INTEGER DEFAULT 0,
+        holiday_installments INTEGER DEFAULT 0,
+        previous_terms JSONB NOT NULL,
+        new_terms JSONB NOT NULL,
+        previous_schedule JSONB NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Daily plans (boda-boda riders) can skip Sundays and public holidays
+      ALTER TABLE payment_plans DROP CONSTRAINT IF EXISTS payment_plans_payment_frequency_check;
+      ALTER TABLE payment_plans ADD CONSTRAINT payment_plans_payment_frequency_check
+        CHECK (payment_frequency IN ('daily', 'weekly', 'monthly'));
+      ALTER TABLE payment_plans ADD COLUMN IF NOT EXISTS skip_sundays BOOLEAN DEFAULT false;
+      ALTER TABLE payment_plans ADD COLUMN IF NOT EXISTS skip_public_holidays BOOLEAN DEFAULT false;
+
+      ALTER TABLE payment_installments ADD COLUMN IF NOT EXISTS plan_restructure_id UUID REFERENCES plan_restructures(id) ON DELETE SET NULL;
+      ALTER TABLE payment_installments ADD COLUMN IF NOT EXISTS superseded_by UUID REFERENCES plan_restructures(id) ON DELETE SET NULL;
+      ALTER TABLE payment_installments DROP CONSTRAINT IF EXISTS payment_installments_status_check;
+      ALTER TABLE payment_installments ADD CONSTRAINT payment_installments_status_check
+        CHECK (status IN ('pending', 'partially_paid', 'paid', 'overdue', 'settled', 'superseded'));
+
+      CREATE TABLE IF NOT EXISTS penalty_rules (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        name VARCHAR(255) NOT NULL,
+        scope VARCHAR(20) NOT NULL CHECK (scope IN ('default', 'product', 'plan')),
+        payment_plan_id UUID REFERENCES payment_plans(id) ON DELETE CASCADE,
+        product_code VARCHAR(50),
+        rule_type VARCHAR(50) NOT NULL CHECK (rule_type IN ('fixed_fee', 'daily_percentage')),
+        amount DECIMAL(12, 2) DEFAULT 0,
+        percentage DECIMAL(5, 2) DEFAULT 0,
+        cap_amount DECIMAL(12, 2),
+        start_after_days INTEGER DEFAULT 0,
+        active BOOLEAN DEFAULT true,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS penalty_charges (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        payment_plan_id UUID REFERENCES payment_plans(id) ON DELETE CASCADE,
+        installment_id UUID REFERENCES payment_installments(id) ON DELETE CASCADE,
+        penalty_rule_id UUID REFERENCES penalty_rules(id) ON DELETE SET NULL,
+        charge_date DATE NOT NULL,
+        amount DECIMAL(12, 2) NOT NULL,
+        amount_paid DECIMAL(12, 2) DEFAULT 0,
+        status VARCHAR(50) DEFAULT 'outstanding' CHECK (status IN ('outstanding', 'paid', 'waived')),
+        waived_by UUID,
+        waived_at TIMESTAMP,
+        waiver_reason TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (installment_id, penalty_rule_id, charge_date)
+      );
+
+      ALTER TABLE payment_allocations ADD COLUMN IF NOT EXISTS penalty_charge_id UUID REFERENCES penalty_charges(id) ON DELETE CASCADE;
+      ALTER TABLE payment_allocations DROP CONSTRAINT IF EXISTS payment_allocations_allocation_type_check;
+      ALTER TABLE payment_allocations ADD CONSTRAINT payment_allocations_allocation_type_check
+        CHECK (allocation_type IN ('installment', 'penalty', 'credit', 'credit_applied'));
+
+      CREATE TABLE IF NOT EXISTS payment_audit_logs (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        entity_type VARCHAR(50) NOT NULL,
+        entity_id UUID NOT NULL,
+        action VARCHAR(100) NOT NULL,
+        performed_by UUID,
+        reason TEXT,
+        details JSONB,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS payment_refunds (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        payment_id UUID REFERENCES payments(id) ON DELETE CASCADE,
+        payment_plan_id UUID REFERENCES payment_plans(id) ON DELETE CASCADE,
+        user_id UUID NOT NULL,
+        amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+        reason TEXT NOT NULL,
+        source VARCHAR(50) DEFAULT 'manual' CHECK (source IN ('manual', 'application_rejected', 'reservation_expired')),
+        status VARCHAR(50) DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+        mobile_money_provider VARCHAR(50),
+        encrypted_phone_number VARCHAR(500),
+        external_transaction_id VARCHAR(255),
+        failure_reason TEXT,
+        requested_by UUID,
+        completed_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      ALTER TABLE payments ADD COLUMN IF NOT EXISTS refunded_amount DECIMAL(12, 2) DEFAULT 0;
+      -- Set while a paid-out refund still has to be taken back out of the installments it paid
+      ALTER TABLE payment_refunds ADD COLUMN IF NOT EXISTS reversal_pending BOOLEAN DEFAULT false;
+      -- Refund reversals are recorded as negative allocations
+      ALTER TABLE payment_allocations ADD COLUMN IF NOT EXISTS refund_id UUID REFERENCES payment_refunds(id) ON DELETE CASCADE;
+      -- Allocations written in one transaction share created_at; the sequence keeps the order they were made in
+      ALTER TABLE payment_allocations ADD COLUMN IF NOT EXISTS allocation_sequence BIGSERIAL;
+
+      CREATE TABLE IF NOT EXISTS reconciliation_statements (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        provider VARCHAR(50) NOT NULL CHECK (provider IN ('mtn', 'airtel')),
+        file_name VARCHAR(255),
+        entry_count INTEGER DEFAULT 0,
+        matched_count INTEGER DEFAULT 0,
+        exception_count INTEGER DEFAULT 0,
+        imported_by UUID,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS reconciliation_entries (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        statement_id UUID REFERENCES reconciliation_statements(id) ON DELETE CASCADE,
+        provider VARCHAR(50) NOT NULL,
+        provider_transaction_id VARCHAR(255) NOT NULL,
+        reference VARCHAR(255),
+        amount DECIMAL(12, 2) NOT NULL,
+        currency VARCHAR(3) DEFAULT 'UGX',
+        transaction_date TIMESTAMP,
+        status VARCHAR(50) NOT NULL CHECK (status IN ('successful', 'failed', 'pending')),
+        phone_number VARCHAR(50),
+        payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+        callback_id UUID REFERENCES mobile_money_callbacks(id) ON DELETE SET NULL,
+        match_status VARCHAR(50) NOT NULL CHECK (match_status IN ('matched', 'unmatched', 'duplicate', 'amount_mismatch', 'status_mismatch', 'ignored')),
+        resolution_status VARCHAR(20) CHECK (resolution_status IN ('open', 'resolved')),
+        resolution VARCHAR(50) CHECK (resolution IN ('confirm_payment', 'link_payment', 'dismiss', 'auto_matched')),
+        resolution_notes TEXT,
+        resolved_by UUID,
+        resolved_at TIMESTAMP,
+        raw_data JSONB,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Mobile money payments wait in pending_confirmation until the customer approves the prompt
+      ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_status_check;
+      ALTER TABLE payments ADD CONSTRAINT payments_status_check
+        CHECK (status IN ('pending', 'pending_confirmation', 'on_hold', 'processing', 'completed', 'failed', 'refunded', 'cancelled'));
+      ALTER TABLE payments ADD COLUMN IF NOT EXISTS confirmation_expires_at TIMESTAMP;
+      ALTER TABLE payments ADD COLUMN IF NOT EXISTS settlement_quote_id UUID REFERENCES settlement_quotes(id) ON DELETE SET NULL;
+
+      -- Callbacks failing signature, timestamp or replay checks are kept as 'rejected' for review
+      ALTER TABLE mobile_money_callbacks ADD COLUMN IF NOT EXISTS nonce VARCHAR(255);
+      ALTER TABLE mobile_money_callbacks ADD COLUMN IF NOT EXISTS source_ip VARCHAR(64);
+      ALTER TABLE mobile_money_callbacks DROP CONSTRAINT IF EXISTS mobile_money_callbacks_status_check;
+      ALTER TABLE mobile_money_callbacks ADD CONSTRAINT mobile_money_callbacks_status_check
+        CHECK (status IN ('received', 'processed', 'failed', 'rejected'));
+
+      CREATE TABLE IF NOT EXISTS payment_mandates (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        payment_plan_id UUID REFERENCES payment_plans(id) ON DELETE CASCADE,
+        user_id UUID NOT NULL,
+        provider VARCHAR(50) NOT NULL CHECK (provider IN ('mtn', 'airtel', 'africell', 'other')),
+        encrypted_phone_number VARCHAR(500) NOT NULL,
+        phone_number_last4 VARCHAR(4),
+        cap_amount DECIMAL(12, 2) NOT NULL CHECK (cap_amount > 0),
+        expires_at TIMESTAMP NOT NULL,
+        status VARCHAR(20) DEFAULT 'active' CHECK (status IN ('active', 'paused', 'revoked', 'expired')),
+        consent_text TEXT NOT NULL,
+        consent_ip VARCHAR(64),
+        consented_at TIMESTAMP NOT NULL,
+        paused_at TIMESTAMP,
+        revoked_at TIMESTAMP,
+        revoked_by UUID,
+        revocation_reason TEXT,
+        last_notice_for_date DATE,
+        last_pulled_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      ALTER TABLE payments ADD COLUMN IF NOT EXISTS mandate_id UUID REFERENCES payment_mandates(id) ON DELETE SET NULL;
+
+      -- Amounts are stored in the base currency; what the customer actually tendered is kept for receipts
+      ALTER TABLE payments ADD COLUMN IF NOT EXISTS currency VARCHAR(3) DEFAULT 'UGX';
+      ALTER TABLE payments ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(18, 8) DEFAULT 1;
+      ALTER TABLE payments ADD COLUMN IF NOT EXISTS original_amount DECIMAL(12, 2);
+      ALTER TABLE payments ADD COLUMN IF NOT EXISTS original_currency VARCHAR(3);
+
+      CREATE SEQUENCE IF NOT EXISTS payment_receipt_number_seq;
+      CREATE TABLE IF NOT EXISTS payment_receipts (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        payment_id UUID UNIQUE REFERENCES payments(id) ON DELETE CASCADE,
+        receipt_number VARCHAR(50) UNIQUE NOT NULL,
+        issued_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE SEQUENCE IF NOT EXISTS ownership_transfer_letter_seq;
+      CREATE TABLE IF NOT EXISTS ownership_transfers (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        payment_plan_id UUID UNIQUE REFERENCES payment_plans(id) ON DELETE CASCADE,
+        user_id UUID NOT NULL,
+        vehicle_id UUID NOT NULL,
+        status VARCHAR(20) DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed')),
+        letter_number VARCHAR(50) UNIQUE,
+        letter_issued_at TIMESTAMP,
+        vehicle_details JSONB,
+        started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        completed_at TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS ownership_transfer_steps (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        transfer_id UUID REFERENCES ownership_transfers(id) ON DELETE CASCADE,
+        step VARCHAR(50) NOT NULL CHECK (step IN (
+          'vehicle_marked_sold', 'telematics_released', 'device_removal_scheduled', 'transfer_letter_generated', 'customer_notified'
+        )),
+        status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'completed')),
+        details JSONB,
+        notes TEXT,
+        completed_by UUID,
+        completed_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (transfer_id, step)
+      );
+
+      ALTER TABLE payment_plans ADD COLUMN IF NOT EXISTS retailer_id UUID;
+      ALTER TABLE payment_plans ADD COLUMN IF NOT EXISTS retailer_commission_percent DECIMAL(5, 2);
+
+      CREATE TABLE IF NOT EXISTS retailer_payout_batches (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        retailer_id UUID NOT NULL,
+        period_start DATE NOT NULL,
+        period_end DATE NOT NULL,
+        entry_count INTEGER DEFAULT 0,
+        collected_amount DECIMAL(12, 2) DEFAULT 0,
+        gross_amount DECIMAL(12, 2) DEFAULT 0,
+        commission_amount DECIMAL(12, 2) DEFAULT 0,
+        net_amount DECIMAL(12, 2) DEFAULT 0,
+        status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'paid', 'failed')),
+        payout_reference VARCHAR(255),
+        failure_reason TEXT,
+        status_updated_by UUID,
+        paid_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (retailer_id, period_start, period_end)
+      );
+
+      CREATE TABLE IF NOT EXISTS retailer_settlement_entries (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        retailer_id UUID NOT NULL,
+        payment_plan_id UUID REFERENCES payment_plans(id) ON DELETE CASCADE,
+        payment_id UUID REFERENCES payments(id) ON DELETE CASCADE,
+        refund_id UUID REFERENCES payment_refunds(id) ON DELETE CASCADE,
+        entry_type VARCHAR(20) NOT NULL CHECK (entry_type IN ('deposit', 'installment', 'settlement', 'refund')),
+        collected_amount DECIMAL(12, 2) NOT NULL,
+        gross_amount DECIMAL(12, 2) NOT NULL,
+        commission_percent DECIMAL(5, 2) NOT NULL,
+        commission_amount DECIMAL(12, 2) NOT NULL,
+        net_amount DECIMAL(12, 2) NOT NULL,
+        payout_batch_id UUID REFERENCES retailer_payout_batches(id) ON DELETE SET NULL,
+        earned_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS dunning_rules (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        name VARCHAR(255) NOT NULL,
+        provider VARCHAR(50),
+        failure_code VARCHAR(50) CHECK (failure_code IN ('insufficient_funds', 'subscriber_unreachable', 'timeout', 'limit_exceeded', 'declined', 'invalid_account', 'provider_error', 'unknown')),
+        retry_offsets_minutes INTEGER[] NOT NULL,
+        max_attempts INTEGER NOT NULL CHECK (max_attempts >= 0),
+        pay_day_aware BOOLEAN DEFAULT false,
+        notify_customer BOOLEAN DEFAULT true,
+        active BOOLEAN DEFAULT true,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      ALTER TABLE payments ADD COLUMN IF NOT EXISTS failure_code VARCHAR(50);
+      ALTER TABLE payment_retries ADD COLUMN IF NOT EXISTS failure_code VARCHAR(50);
+      ALTER TABLE payment_retries ADD COLUMN IF NOT EXISTS dunning_rule_id UUID REFERENCES dunning_rules(id) ON DELETE SET NULL;
+      ALTER TABLE payment_retries ADD COLUMN IF NOT EXISTS scheduled_for TIMESTAMP;
+
+      ALTER TABLE payment_plans ADD COLUMN IF NOT EXISTS vehicle_type VARCHAR(50);
+
+      CREATE TABLE IF NOT EXISTS portfolio_snapshot_plans (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        snapshot_date DATE NOT NULL,
+        payment_plan_id UUID REFERENCES payment_plans(id) ON DELETE CASCADE,
+        vehicle_type VARCHAR(50) NOT NULL,
+        retailer VARCHAR(50) NOT NULL,
+        credit_tier VARCHAR(20) NOT NULL,
+        cohort VARCHAR(7) NOT NULL,
+        outstanding_balance DECIMAL(12, 2) NOT NULL,
+        days_past_due INTEGER NOT NULL,
+        bucket VARCHAR(10) NOT NULL CHECK (bucket IN ('current', '1-30', '31-60', '61-90', '90+')),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (snapshot_date, payment_plan_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS portfolio_snapshots (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        snapshot_date DATE NOT NULL,
+        dimension VARCHAR(20) NOT NULL CHECK (dimension IN ('portfolio', 'vehicle_type', 'retailer', 'credit_tier', 'cohort')),
+        segment VARCHAR(50) NOT NULL,
+        plan_count INTEGER NOT NULL,
+        outstanding_balance DECIMAL(14, 2) NOT NULL,
+        par1_balance DECIMAL(14, 2) NOT NULL,
+        par30_balance DECIMAL(14, 2) NOT NULL,
+        par60_balance DECIMAL(14, 2) NOT NULL,
+        par90_balance DECIMAL(14, 2) NOT NULL,
+        installment_count INTEGER DEFAULT 0,
+        amount_due DECIMAL(14, 2) DEFAULT 0,
+        amount_collected DECIMAL(14, 2) DEFAULT 0,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (snapshot_date, dimension, segment)
+      );
+
+      CREATE TABLE IF NOT EXISTS public_holidays (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        name VARCHAR(100) NOT NULL,
+        holiday_date DATE NOT NULL,
+        recurring BOOLEAN DEFAULT false,
+        active BOOLEAN DEFAULT true,
+        created_by UUID,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (holiday_date, recurring)
+      );
+
+      CREATE TABLE IF NOT EXISTS outbox_events (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        exchange VARCHAR(100) NOT NULL,
+        routing_key VARCHAR(100) NOT NULL,
+        message JSONB NOT NULL,
+        status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+        attempts INTEGER DEFAULT 0,
+        last_error TEXT,
+        next_attempt_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        sent_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Customers quote their plan's payment reference on bank transfers so credits can be matched
+      ALTER TABLE payment_plans ADD COLUMN IF NOT EXISTS payment_reference VARCHAR(20) UNIQUE;
+
+      CREATE TABLE IF NOT EXISTS bank_statements (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        format VARCHAR(20) NOT NULL CHECK (format IN ('csv', 'mt940')),
+        file_name VARCHAR(255),
+        account_number VARCHAR(50),
+        entry_count INTEGER DEFAULT 0,
+        matched_count INTEGER DEFAULT 0,
+        queued_count INTEGER DEFAULT 0,
+        imported_by UUID,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS bank_transfer_entries (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        statement_id UUID REFERENCES bank_statements(id) ON DELETE CASCADE,
+        account_number VARCHAR(50),
+        bank_transaction_id VARCHAR(255) NOT NULL,
+        value_date DATE,
+        amount DECIMAL(12, 2) NOT NULL,
+        currency VARCHAR(3) DEFAULT 'UGX',
+        direction VARCHAR(10) NOT NULL CHECK (direction IN ('credit', 'debit')),
+        narration TEXT,
+        reference VARCHAR(20),
+        payment_plan_id UUID REFERENCES payment_plans(id) ON DELETE SET NULL,
+        payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+        match_status VARCHAR(50) NOT NULL CHECK (match_status IN ('matched', 'unmatched', 'amount_mismatch', 'plan_inactive', 'duplicate', 'ignored')),
+        resolution_status VARCHAR(20) CHECK (resolution_status IN ('open', 'resolving', 'resolved')),
+        resolution VARCHAR(50) CHECK (resolution IN ('apply_to_plan', 'dismiss')),
+        resolution_notes TEXT,
+        resolved_by UUID,
+        resolved_at TIMESTAMP,
+        raw_data JSONB,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Plans in default: final notice, repossession, recovery and resale or write-off
+      CREATE TABLE IF NOT EXISTS default_cases (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        payment_plan_id UUID NOT NULL REFERENCES payment_plans(id) ON DELETE CASCADE,
+        user_id UUID NOT NULL,
+        vehicle_id UUID NOT NULL,
+        stage VARCHAR(30) NOT NULL CHECK (stage IN ('overdue', 'final_notice', 'repossession_ordered', 'recovered', 'resold', 'written_off', 'cured')),
+        overdue_days INTEGER DEFAULT 0,
+        exposure DECIMAL(12, 2) NOT NULL,
+        receivable_balance DECIMAL(12, 2) NOT NULL,
+        provision_balance DECIMAL(12, 2) DEFAULT 0,
+        inventory_value DECIMAL(12, 2) DEFAULT 0,
+        final_notice_sent_at TIMESTAMP,
+        final_notice_expires_at TIMESTAMP,
+        repossession_ordered_at TIMESTAMP,
+        vehicle_location JSONB,
+        immobilized_at TIMESTAMP,
+        recovered_at TIMESTAMP,
+        vehicle_condition VARCHAR(20) CHECK (vehicle_condition IN ('good', 'fair', 'poor', 'salvage')),
+        condition_notes TEXT,
+        odometer_km DECIMAL(10, 2),
+        estimated_value DECIMAL(12, 2),
+        recovery_costs DECIMAL(12, 2),
+        sale_amount DECIMAL(12, 2),
+        buyer_reference VARCHAR(255),
+        write_off_amount DECIMAL(12, 2),
+        opened_by UUID,
+        closed_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- One balanced journal per default case transition
+      CREATE TABLE IF NOT EXISTS default_accounting_entries (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        default_case_id UUID NOT NULL REFERENCES default_cases(id) ON DELETE CASCADE,
+        payment_plan_id UUID NOT NULL REFERENCES payment_plans(id) ON DELETE CASCADE,
+        transition VARCHAR(30) NOT NULL,
+        description TEXT,
+        posted_by UUID,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS default_accounting_entry_lines (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        entry_id UUID NOT NULL REFERENCES default_accounting_entries(id) ON DELETE CASCADE,
+        line_number INTEGER NOT NULL,
+        account VARCHAR(50) NOT NULL,
+        debit DECIMAL(12, 2) DEFAULT 0,
+        credit DECIMAL(12, 2) DEFAULT 0
+      );
+
+      -- Insurance, tracker subscriptions and service packages charged with a plan's installments
+      CREATE TABLE IF NOT EXISTS plan_addons (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        payment_plan_id UUID NOT NULL REFERENCES payment_plans(id) ON DELETE CASCADE,
+        addon_type VARCHAR(30) NOT NULL CHECK (addon_type IN ('insurance', 'tracker', 'service_package')),
+        description TEXT,
+        provider VARCHAR(255),
+        amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+        frequency VARCHAR(20) NOT NULL CHECK (frequency IN ('per_installment', 'monthly', 'quarterly', 'annually', 'one_off')),
+        starts_on DATE NOT NULL,
+        ends_on DATE,
+        status VARCHAR(20) DEFAULT 'active' CHECK (status IN ('active', 'renewed', 'expired', 'cancelled', 'ended')),
+        renewal_of UUID REFERENCES plan_addons(id) ON DELETE SET NULL,
+        cancelled_at TIMESTAMP,
+        cancelled_by UUID,
+        cancellation_reason TEXT,
+        created_by UUID,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- An add-on's line item on one installment
+      CREATE TABLE IF NOT EXISTS installment_addon_charges (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        plan_addon_id UUID NOT NULL REFERENCES plan_addons(id) ON DELETE CASCADE,
+        payment_plan_id UUID NOT NULL REFERENCES payment_plans(id) ON DELETE CASCADE,
+        installment_id UUID NOT NULL REFERENCES payment_installments(id) ON DELETE CASCADE,
+        charge_date DATE NOT NULL,
+        amount DECIMAL(12, 2) NOT NULL,
+        amount_paid DECIMAL(12, 2) DEFAULT 0,
+        cancelled_amount DECIMAL(12, 2) DEFAULT 0,
+        status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'partially_paid', 'paid', 'cancelled', 'moved', 'settled')),
+        moved_from UUID REFERENCES installment_addon_charges(id) ON DELETE SET NULL,
+        cancelled_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      ALTER TABLE payment_installments ADD COLUMN IF NOT EXISTS addon_due DECIMAL(12, 2) DEFAULT 0;
+      ALTER TABLE payment_installments ADD COLUMN IF NOT EXISTS addon_paid DECIMAL(12, 2) DEFAULT 0;
+      ALTER TABLE payment_allocations ADD COLUMN IF NOT EXISTS addon_charge_id UUID REFERENCES installment_addon_charges(id) ON DELETE CASCADE;
+
+      -- Fraud screening of customer payment attempts; blocked attempts have no payment
+      CREATE TABLE IF NOT EXISTS fraud_screenings (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+        payment_plan_id UUID NOT NULL REFERENCES payment_plans(id) ON DELETE CASCADE,
+        user_id UUID NOT NULL,
+        phone_hash VARCHAR(64),
+        phone_last4 VARCHAR(4),
+        device_id VARCHAR(255),
+        ip_address VARCHAR(100),
+        amount DECIMAL(12, 2) NOT NULL,
+        decision VARCHAR(10) NOT NULL CHECK (decision IN ('allow', 'review', 'block')),
+        reasons JSONB NOT NULL DEFAULT '[]',
+        review_status VARCHAR(20) CHECK (review_status IN ('pending', 'released', 'rejected')),
+        reviewed_by UUID,
+        reviewed_at TIMESTAMP,
+        review_notes TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Phones (hashed), customers and devices that may not pay
+      CREATE TABLE IF NOT EXISTS fraud_blocklist (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        entry_type VARCHAR(10) NOT NULL CHECK (entry_type IN ('phone', 'user', 'device')),
+        value VARCHAR(255) NOT NULL,
+        display_value VARCHAR(20),
+        reason TEXT NOT NULL,
+        active BOOLEAN DEFAULT true,
+        created_by UUID NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(entry_type, value)
+      );
+
+      ALTER TABLE payment_plans ADD COLUMN IF NOT EXISTS business_day_rule VARCHAR(20) DEFAULT 'following' CHECK (business_day_rule IN ('following', 'preceding'));
+
       CREATE INDEX IF NOT EXISTS idx_payment_plans_user_id ON payment_plans(user_id);
       CREATE INDEX IF NOT EXISTS idx_payment_plans_vehicle_id ON payment_plans(vehicle_id);
       CREATE INDEX IF NOT EXISTS idx_payment_plans_status ON payment_plans(status);
@@ -150,6 +761,61 @@ async function initializeDatabase() {
       CREATE INDEX IF NOT EXISTS idx_mobile_money_callbacks_payment_id ON mobile_money_callbacks(payment_id);
       CREATE INDEX IF NOT EXISTS idx_idempotency_keys_key ON idempotency_keys(key);
       CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires ON idempotency_keys(expires_at);
+      CREATE INDEX IF NOT EXISTS idx_payment_installments_plan_id ON payment_installments(payment_plan_id);
+      CREATE INDEX IF NOT EXISTS idx_payment_installments_open ON payment_installments(status, due_date) WHERE status IN ('pending', 'partially_paid', 'overdue');
+      CREATE INDEX IF NOT EXISTS idx_payments_installment_id ON payments(installment_id);
+      CREATE INDEX IF NOT EXISTS idx_payment_allocations_payment_id ON payment_allocations(payment_id);
+      CREATE INDEX IF NOT EXISTS idx_payment_allocations_plan_id ON payment_allocations(payment_plan_id);
+      CREATE INDEX IF NOT EXISTS idx_settlement_quotes_plan_id ON settlement_quotes(payment_plan_id);
+      CREATE INDEX IF NOT EXISTS idx_settlement_quotes_open ON settlement_quotes(status, expires_at) WHERE status = 'issued';
+      CREATE INDEX IF NOT EXISTS idx_penalty_rules_plan_id ON penalty_rules(payment_plan_id);
+      CREATE INDEX IF NOT EXISTS idx_penalty_rules_product_code ON penalty_rules(product_code);
+      CREATE INDEX IF NOT EXISTS idx_penalty_charges_plan_id ON penalty_charges(payment_plan_id, status);
+      CREATE INDEX IF NOT EXISTS idx_plan_restructures_plan_id ON plan_restructures(payment_plan_id);
+      CREATE INDEX IF NOT EXISTS idx_payment_audit_logs_entity ON payment_audit_logs(entity_type, entity_id);
+      CREATE INDEX IF NOT EXISTS idx_payment_refunds_payment_id ON payment_refunds(payment_id);
+      CREATE INDEX IF NOT EXISTS idx_payment_refunds_reversal_pending ON payment_refunds(completed_at) WHERE reversal_pending = true;
+      CREATE INDEX IF NOT EXISTS idx_payments_external_transaction_id ON payments(external_transaction_id);
+      CREATE INDEX IF NOT EXISTS idx_reconciliation_entries_statement_id ON reconciliation_entries(statement_id);
+      CREATE INDEX IF NOT EXISTS idx_reconciliation_entries_provider_txn ON reconciliation_entries(provider, provider_transaction_id);
+      CREATE INDEX IF NOT EXISTS idx_payments_awaiting_confirmation ON payments(confirmation_expires_at) WHERE status IN ('pending_confirmation', 'processing');
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_mobile_money_callbacks_nonce ON mobile_money_callbacks(provider, nonce) WHERE status != 'rejected';
+      CREATE INDEX IF NOT EXISTS idx_mobile_money_callbacks_rejected ON mobile_money_callbacks(created_at DESC) WHERE status = 'rejected';
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_mandates_live_plan ON payment_mandates(payment_plan_id) WHERE status IN ('active', 'paused');
+      CREATE INDEX IF NOT EXISTS idx_payment_mandates_status ON payment_mandates(status, expires_at);
+      CREATE INDEX IF NOT EXISTS idx_reconciliation_entries_payment_id ON reconciliation_entries(payment_id);
+      CREATE INDEX IF NOT EXISTS idx_ownership_transfers_status ON ownership_transfers(status, started_at);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_retailer_settlement_entries_payment ON retailer_settlement_entries(payment_id) WHERE refund_id IS NULL;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_retailer_settlement_entries_refund ON retailer_settlement_entries(refund_id) WHERE refund_id IS NOT NULL;
+      CREATE INDEX IF NOT EXISTS idx_retailer_settlement_entries_unbatched ON retailer_settlement_entries(retailer_id, earned_at) WHERE payout_batch_id IS NULL;
+      CREATE INDEX IF NOT EXISTS idx_retailer_payout_batches_retailer ON retailer_payout_batches(retailer_id, period_end);
+      CREATE INDEX IF NOT EXISTS idx_reconciliation_entries_open ON reconciliation_entries(resolution_status, match_status) WHERE resolution_status = 'open';
+      CREATE INDEX IF NOT EXISTS idx_dunning_rules_match ON dunning_rules(failure_code, provider) WHERE active = true;
+      CREATE INDEX IF NOT EXISTS idx_portfolio_snapshots_trend ON portfolio_snapshots(dimension, segment, snapshot_date);
+      CREATE INDEX IF NOT EXISTS idx_public_holidays_active ON public_holidays(holiday_date) WHERE active = true;
+      CREATE INDEX IF NOT EXISTS idx_outbox_events_due ON outbox_events(next_attempt_at) WHERE status = 'pending';
+      CREATE INDEX IF NOT EXISTS idx_outbox_events_status ON outbox_events(status, created_at);
+      CREATE INDEX IF NOT EXISTS idx_bank_transfer_entries_statement_id ON bank_transfer_entries(statement_id);
+      CREATE INDEX IF NOT EXISTS idx_bank_transfer_entries_txn ON bank_transfer_entries(bank_transaction_id, account_number);
+      -- Each bank transaction is recorded once per account, even when a statement is imported twice at the same time
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_bank_transfer_entries_txn_unique
+        ON bank_transfer_entries(bank_transaction_id, COALESCE(account_number, ''))
+        WHERE match_status != 'duplicate';
+      CREATE INDEX IF NOT EXISTS idx_bank_transfer_entries_open ON bank_transfer_entries(resolution_status, match_status) WHERE resolution_status = 'open';
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_default_cases_open_plan ON default_cases(payment_plan_id) WHERE stage NOT IN ('resold', 'written_off', 'cured');
+      CREATE INDEX IF NOT EXISTS idx_default_cases_stage ON default_cases(stage);
+      CREATE INDEX IF NOT EXISTS idx_default_accounting_entries_case_id ON default_accounting_entries(default_case_id);
+      CREATE INDEX IF NOT EXISTS idx_default_accounting_entry_lines_entry_id ON default_accounting_entry_lines(entry_id);
+      CREATE INDEX IF NOT EXISTS idx_plan_addons_plan_id ON plan_addons(payment_plan_id);
+      CREATE INDEX IF NOT EXISTS idx_plan_addons_status_ends_on ON plan_addons(status, ends_on);
+      CREATE INDEX IF NOT EXISTS idx_installment_addon_charges_installment_id ON installment_addon_charges(installment_id);
+      CREATE INDEX IF NOT EXISTS idx_installment_addon_charges_addon_id ON installment_addon_charges(plan_addon_id);
+      CREATE INDEX IF NOT EXISTS idx_installment_addon_charges_plan_status ON installment_addon_charges(payment_plan_id, status);
+      CREATE INDEX IF NOT EXISTS idx_fraud_screenings_phone_hash ON fraud_screenings(phone_hash, created_at);
+      CREATE INDEX IF NOT EXISTS idx_fraud_screenings_user_id ON fraud_screenings(user_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_fraud_screenings_device_id ON fraud_screenings(device_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_fraud_screenings_pending_review ON fraud_screenings(created_at) WHERE review_status = 'pending';
+      CREATE INDEX IF NOT EXISTS idx_fraud_screenings_payment_id ON fraud_screenings(payment_id);
     `);
     console.log('Database schema initialized');
   } catch (error) {
@@ -157,6 +823,26 @@ async function initializeDatabase() {
   }
 }
 
+function createRefundService(): RefundService {
+  const mobileMoneyService = new MobileMoneyService(
+    {
+      provider: (process.env.MOBILE_MONEY_PROVIDER as any) || 'mtn',
+      apiKey: process.env.MOBILE_MONEY_API_KEY || '',
+      apiSecret: process.env.MOBILE_MONEY_API_SECRET || '',
+      callbackUrl: process.env.MOBILE_MONEY_CALLBACK_URL || 'http://localhost:3003/payments/callbacks/mobile-money',
+      environment: (process.env.MOBILE_MONEY_ENV as any) || 'sandbox',
+      apiBaseUrl: process.env.MOBILE_MONEY_API_URL,
+    },
+    encryptionService
+  );
+  return new RefundService(pool, mobileMoneyService, encryptionService, messageQueue);
+}
+
+// Refund deposits for a vehicle the customer will not be getting; each refund publishes its own event
+async function refundDeposits(userId: string, vehicleId: string, source: RefundSource, reason: string) {
+  await createRefundService().refundDeposits(userId, vehicleId, source, reason);
+}
+
 // Subscribe to events
 async function subscribeToEvents() {
   try {
@@ -171,6 +857,48 @@ async function subscribeToEvents() {
       console.log('Vehicle reserved event received:', message);
       // Could trigger payment plan creation if needed
     });
+
+    // Handlers that act on an event get a queue of their own: consumers sharing a queue are handed
+    // its messages in turn, whatever routing key each was bound for
+
+    // Refund the deposit when the credit application is rejected
+    await messageQueue.subscribe('credit.events', 'payment-service.credit-rejected', 'credit.rejected', async (message) => {
+      const { userId, vehicleId } = message.payload;
+      await refundDeposits(userId, vehicleId, 'application_rejected', 'Credit application rejected');
+    });
+
+    // Refund the deposit when the vehicle reservation lapses
+    await messageQueue.subscribe('vehicle.events', 'payment-service.reservation-expired', 'reservation.expired', async (message) => {
+      const { userId, vehicleId } = message.payload;
+      await refundDeposits(userId, vehicleId, 'reservation_expired', 'Vehicle reservation expired');
+    });
+
+    // Ownership transfer checklist: confirmations from the services releasing the vehicle
+    await messageQueue.subscribe('vehicle.events', 'payment-service.vehicle-sold', 'vehicle.sold', async (message) => {
+      const { transferId, vehicle } = message.payload;
+      if (transferId) {
+        await new OwnershipTransferService(pool, messageQueue).recordVehicleSold(transferId, vehicle || {});
+      }
+    });
+
+    await messageQueue.subscribe('telematics.events', 'payment-service.ownership-released', 'telematics.ownership.released', async (message) => {
+      const { transferId, ...release } = message.payload;
+      if (transferId) {
+        await new OwnershipTransferService(pool, messageQueue).recordTelematicsReleased(transferId, release);
+      }
+    });
+
+    // Repossession orders: where telematics found the vehicle and whether it is immobilized
+    await messageQueue.subscribe('telematics.events', 'payment-service.repossession-located', 'telematics.repossession.located', async (message) => {
+      const { caseId, location, immobilized, immobilizedAt } = message.payload;
+      if (caseId) {
+        await new DefaultManagementService(pool, messageQueue).recordVehicleLocated(caseId, {
+          location,
+          immobilized: immobilized === true,
+          immobilizedAt: immobilizedAt ? new Date(immobilizedAt) : undefined,
+        });
+      }
+    });
   } catch (error) {
     console.error('Failed to subscribe to events:', error);
   }
@@ -206,7 +934,7 @@ cron.schedule('0 * * * *', async () => {
   }
 });
 
-// Cleanup expired idempotency keys (runs daily at 3 AM)
+// Cleanup expired idempotency keys and old sent outbox events (runs daily at 3 AM)
 cron.schedule('0 3 * * *', async () => {
   console.log('Cleaning up expired idempotency keys...');
   try {
@@ -216,12 +944,182 @@ cron.schedule('0 3 * * *', async () => {
   } catch (error) {
     console.error('Error cleaning up idempotency keys:', error);
   }
+
+  try {
+    const outboxService = new OutboxService(pool, messageQueue);
+    const purgedCount = await outboxService.purgeSent(parseInt(process.env.OUTBOX_RETENTION_DAYS || '7'));
+    console.log(`Purged ${purgedCount} sent outbox events`);
+  } catch (error) {
+    console.error('Error purging sent outbox events:', error);
+  }
+});
+
+// Expire unused settlement quotes (runs every hour at minute 30)
+cron.schedule('30 * * * *', async () => {
+  try {
+    const settlementService = new SettlementService(pool);
+    const expiredCount = await settlementService.expireStaleQuotes();
+    if (expiredCount > 0) {
+      console.log(`Expired ${expiredCount} settlement quotes`);
+    }
+  } catch (error) {
+    console.error('Error expiring settlement quotes:', error);
+  }
+});
+
+// Re-match open reconciliation exceptions against late callbacks (runs every hour at minute 45)
+cron.schedule('45 * * * *', async () => {
+  try {
+    const reconciliationService = new ReconciliationService(pool);
+    const resolvedCount = await reconciliationService.rematchOpenExceptions();
+    if (resolvedCount > 0) {
+      console.log(`Auto-resolved ${resolvedCount} reconciliation exceptions`);
+    }
+  } catch (error) {
+    console.error('Error re-matching reconciliation exceptions:', error);
+  }
+});
+
+// Poll the provider for unconfirmed mobile money payments and fail abandoned prompts (runs every 2 minutes)
+cron.schedule('*/2 * * * *', async () => {
+  try {
+    await pollPendingConfirmations(pool, encryptionService, messageQueue);
+  } catch (error) {
+    console.error('Error polling pending confirmations:', error);
+  }
+});
+
+// Publish outbox events and retry ones RabbitMQ did not take (runs every minute)
+cron.schedule('* * * * *', async () => {
+  try {
+    await relayOutboxEvents(pool, messageQueue);
+  } catch (error) {
+    console.error('Error relaying outbox events:', error);
+  }
+});
+
+// Tell customers about upcoming auto-debit pulls (runs daily at 9 AM)
+cron.schedule('0 9 * * *', async () => {
+  try {
+    await notifyUpcomingMandatePulls(pool, encryptionService, messageQueue);
+  } catch (error) {
+    console.error('Error sending auto-debit pull notices:', error);
+  }
+});
+
+// Start ownership transfers for plans completed outside the payment flow, e.g. by plan credit (runs every hour at minute 15)
+cron.schedule('15 * * * *', async () => {
+  try {
+    const ownershipTransferService = new OwnershipTransferService(pool, messageQueue);
+    const startedCount = await ownershipTransferService.startPendingTransfers();
+    if (startedCount > 0) {
+      console.log(`Started ${startedCount} ownership transfers`);
+    }
+  } catch (error) {
+    console.error('Error starting ownership transfers:', error);
+  }
+});
+
+// Re-open what refunds paid out earlier could not take back at the time (runs every hour at minute 20)
+cron.schedule('20 * * * *', async () => {
+  try {
+    const reversedCount = await createRefundService().reversePendingRefunds();
+    if (reversedCount > 0) {
+      console.log(`Reversed allocations for ${reversedCount} refunds`);
+    }
+  } catch (error) {
+    console.error('Error reversing refunded allocations:', error);
+  }
+});
+
+// Settle refunds stuck in processing by asking the provider about their disbursement (runs every 15 minutes)
+cron.schedule('*/15 * * * *', async () => {
+  try {
+    const { completed, failed, unresolved } = await createRefundService().resolveStaleRefunds(
+      parseInt(process.env.REFUND_STALE_AFTER_MINUTES || '30')
+    );
+    if (completed + failed + unresolved > 0) {
+      console.log(`Stale refunds: ${completed} completed, ${failed} failed, ${unresolved} still to check`);
+    }
+  } catch (error) {
+    console.error('Error resolving stale refunds:', error);
+  }
+});
+
+// Batch retailer earnings for the last whole payout period (runs daily at 4 AM; a period is only batched once)
+cron.schedule('0 4 * * *', async () => {
+  try {
+    const retailerSettlementService = new RetailerSettlementService(pool);
+    const batches = await retailerSettlementService.createBatchesForLastPeriod();
+    for (const batch of batches) {
+      await publishPayoutBatchEvent(messageQueue, 'payment.retailer.payout_batch.created', batch);
+    }
+    if (batches.length > 0) {
+      console.log(`Created ${batches.length} retailer payout batches`);
+    }
+  } catch (error) {
+    console.error('Error creating retailer payout batches:', error);
+  }
+});
+
+// Snapshot portfolio-at-risk and collection metrics for trending (runs daily at 11:50 PM; a rerun replaces the day's snapshot)
+cron.schedule('50 23 * * *', async () => {
+  try {
+    const reportingService = new PortfolioReportingService(pool);
+    const snapshots = await reportingService.takeSnapshot();
+    console.log(`Recorded ${snapshots.length} portfolio snapshot rows`);
+  } catch (error) {
+    console.error('Error taking portfolio snapshot:', error);
+  }
+});
+
+// Open default cases for plans overdue past DEFAULT_THRESHOLD_DAYS and cure cases whose arrears are paid (runs daily at 5 AM)
+cron.schedule('0 5 * * *', async () => {
+  try {
+    const defaultManagementService = new DefaultManagementService(pool, messageQueue);
+    const cured = await defaultManagementService.cureCaughtUpCases();
+    const opened = await defaultManagementService.openCasesPastThreshold();
+    if (opened.length > 0 || cured > 0) {
+      console.log(`Opened ${opened.length} default cases, cured ${cured}`);
+    }
+  } catch (error) {
+    console.error('Error updating default cases:', error);
+  }
+});
+
+// Expire add-ons whose cover period has ended so they show up for renewal (runs daily at 1 AM)
+cron.schedule('0 1 * * *', async () => {
+  try {
+    const addonService = new PlanAddonService(pool);
+    const expired = await addonService.expireLapsedAddons();
+    for (const addon of expired) {
+      await messageQueue.publish('payment.events', 'payment.addon.expired', {
+        type: 'payment.addon.expired',
+        payload: {
+          addonId: addon.id,
+          paymentPlanId: addon.paymentPlanId,
+          addonType: addon.addonType,
+          endsOn: addon.endsOn,
+        },
+        timestamp: Date.now(),
+      });
+    }
+    if (expired.length > 0) {
+      console.log(`Expired ${expired.length} plan add-ons`);
+    }
+  } catch (error) {
+    console.error('Error expiring plan add-ons:', error);
+  }
 });
 
 // Start server
 async function start() {
   try {
     await initializeDatabase();
+    const holidayCalendar = new HolidayCalendarService(pool);
+    await holidayCalendar.ensureDefaults();
+    await holidayCalendar.refresh();
+    await new BankTransferService(pool, messageQueue).assignMissingReferences();
     await messageQueue.connect();
     await subscribeToEvents();
     
@@ -231,7 +1129,17 @@ async function start() {
       console.log('  - Payment collection: Daily at 2 AM');
       console.log('  - Overdue check: Every 6 hours');
       console.log('  - Retry processing: Every hour');
-      console.log('  - Idempotency cleanup: Daily at 3 AM');
+      console.log('  - Idempotency and outbox cleanup: Daily at 3 AM');
+      console.log('  - Settlement quote expiry: Hourly');
+      console.log('  - Reconciliation re-match: Hourly');
+      console.log('  - Payment confirmation polling: Every 2 minutes');
+      console.log('  - Outbox relay: Every minute');
+      console.log('  - Auto-debit pull notices: Daily at 9 AM');
+      console.log('  - Ownership transfer start: Hourly');
+      console.log('  - Retailer payout batches: Daily at 4 AM');
+      console.log('  - Portfolio snapshot: Daily at 11:50 PM');
+      console.log('  - Default case review: Daily at 5 AM');
+      console.log('  - Add-on expiry: Daily at 1 AM');
     });
   } catch (error) {
     console.error('Failed to start server:', error);
@@ -0,0 +1,61 @@
+import { Request, Response, NextFunction } from 'express';
+import { UnauthorizedError, ForbiddenError } from '@rent-to-own/errors';
+
+export interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: string;
+    email: string;
+    role: string;
+    retailerId?: string; // For retailer users
+  };
+}
+
+/**
+ * Extract user information from headers (set by API gateway)
+ */
+export function extractUserInfo(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  const userId = req.headers['x-user-id'] as string;
+  const userEmail = req.headers['x-user-email'] as string;
+  const userRole = req.headers['x-user-role'] as string;
+  const retailerId = req.headers['x-retailer-id'] as string;
+
+  if (userId && userEmail && userRole) {
+    req.user = {
+      userId,
+      email: userEmail,
+      role: userRole,
+      retailerId: retailerId || undefined,
+    };
+  }
+
+  next();
+}
+
+/**
+ * Check if user has one of the specified roles
+ */
+export function checkRole(...roles: string[]) {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const user = req.user;
+
+      if (!user) {
+        throw new UnauthorizedError('Authentication required');
+      }
+
+      if (!roles.includes(user.role)) {
+        throw new ForbiddenError(`Access denied: ${roles.join(' or ')} role required`);
+      }
+
+      next();
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  };
+}
@@ -0,0 +1,268 @@
+import express, { Router, Response } from 'express';
+import { Pool } from 'pg';
+import { MessageQueueClient } from '@rent-to-own/message-queue';
+import { NotFoundError, ValidationError } from '@rent-to-own/errors';
+import { AuthenticatedRequest, checkRole } from '../middleware/auth';
+import { BankTransferService, BankStatementFormat } from '../services/bankTransfers';
+import { AuditLogger } from '../services/auditLogger';
+
+export function bankTransferRoutes(pool: Pool, messageQueue: MessageQueueClient): Router {
+  const router = Router();
+  const bankTransferService = new BankTransferService(pool, messageQueue);
+  const auditLogger = new AuditLogger(pool);
+
+  /**
+   * Where to send a bank transfer for a plan, the reference to quote and the amounts that will match
+   * GET /payments/bank-transfers/plans/:planId
+   */
+  router.get('/plans/:planId', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const instructions = await bankTransferService.getInstructions(req.params.planId);
+      if (!instructions) {
+        throw new NotFoundError('Payment plan');
+      }
+
+      res.json({
+        success: true,
+        data: { instructions },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Import a bank statement and apply the credits that match a plan
+   * POST /payments/bank-transfers/statements?format=csv|mt940&fileName=statement.csv (text body)
+   */
+  router.post(
+    '/statements',
+    checkRole('admin'),
+    express.text({ type: ['text/csv', 'text/plain'], limit: '10mb' }),
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const isTextBody = typeof req.body === 'string';
+        const format = (req.query.format || (!isTextBody && req.body.format) || 'csv') as string;
+        const fileName = (req.query.fileName || (!isTextBody && req.body.fileName)) as string | undefined;
+        const content = isTextBody ? req.body : req.body?.content;
+
+        if (!['csv', 'mt940'].includes(format)) {
+          throw new ValidationError('format must be csv or mt940');
+        }
+
+        if (!content || typeof content !== 'string') {
+          throw new ValidationError('Statement content is required, either as a text body or as content in JSON');
+        }
+
+        let result;
+        try {
+          result = await bankTransferService.importStatement(
+            format as BankStatementFormat,
+            content,
+            fileName,
+            req.user!.userId
+          );
+        } catch (importError: any) {
+          throw new ValidationError(importError.message);
+        }
+
+        await auditLogger.logAction('bank_statement', result.statement.id, 'bank_statement.imported', req.user!.userId, undefined, {
+          format,
+          fileName,
+          accountNumber: result.statement.accountNumber,
+          entryCount: result.statement.entryCount,
+          matchedCount: result.statement.matchedCount,
+          queuedCount: result.statement.queuedCount,
+        });
+
+        res.status(201).json({
+          success: true,
+          data: result,
+        });
+      } catch (error: any) {
+        if (error.statusCode) {
+          return res.status(error.statusCode).json({
+            success: false,
+            error: { message: error.message, code: error.code },
+          });
+        }
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * List imported bank statements
+   * GET /payments/bank-transfers/statements
+   */
+  router.get('/statements', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { limit = 50 } = req.query;
+      const statements = await bankTransferService.listStatements(parseInt(limit as string));
+
+      res.json({
+        success: true,
+        data: { statements },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Get a bank statement with every entry and how it matched
+   * GET /payments/bank-transfers/statements/:statementId
+   */
+  router.get('/statements/:statementId', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const result = await bankTransferService.getStatement(req.params.statementId);
+      if (!result) {
+        throw new NotFoundError('Bank statement');
+      }
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * List credits waiting for manual matching
+   * GET /payments/bank-transfers/queue?status=open&type=amount_mismatch
+   */
+  router.get('/queue', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { status = 'open', type } = req.query;
+      const entries = await bankTransferService.listQueue({
+        status: status === 'all' ? undefined : (status as string),
+        matchStatus: type as string | undefined,
+      });
+
+      res.json({
+        success: true,
+        data: { entries },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Apply a queued credit to a plan, or dismiss it
+   * POST /payments/bank-transfers/queue/:entryId/resolve
+   */
+  router.post('/queue/:entryId/resolve', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { entryId } = req.params;
+      const { resolution, notes, isDeposit = false } = req.body;
+
+      if (!['apply_to_plan', 'dismiss'].includes(resolution)) {
+        throw new ValidationError('resolution must be apply_to_plan or dismiss');
+      }
+
+      if (!notes) {
+        throw new ValidationError('notes are required');
+      }
+
+      const entry = await bankTransferService.getEntry(entryId);
+      if (!entry || !entry.resolutionStatus) {
+        throw new NotFoundError('Queued bank credit');
+      }
+
+      if (entry.resolutionStatus !== 'open') {
+        throw new ValidationError('Credit has already been resolved');
+      }
+
+      // Defaults to the plan the reference pointed at, for credits queued on their amount
+      const planId = req.body.planId || entry.paymentPlanId;
+      if (resolution === 'apply_to_plan' && !planId) {
+        throw new ValidationError('planId is required for credits that did not match a plan');
+      }
+
+      let resolved;
+      try {
+        resolved = resolution === 'apply_to_plan'
+          ? await bankTransferService.applyToPlan(entryId, planId, isDeposit === true, req.user!.userId, notes)
+          : await bankTransferService.dismiss(entryId, req.user!.userId, notes);
+      } catch (resolveError: any) {
+        if (resolveError.message === 'Payment plan not found') {
+          throw new NotFoundError('Payment plan');
+        }
+        throw new ValidationError(resolveError.message);
+      }
+
+      await auditLogger.logAction('bank_transfer_entry', entryId, `bank_transfer.${resolution}`, req.user!.userId, notes, {
+        matchStatus: entry.matchStatus,
+        bankTransactionId: entry.bankTransactionId,
+        amount: entry.amount,
+        paymentPlanId: resolved.paymentPlanId,
+        paymentId: resolved.paymentId,
+      });
+
+      res.json({
+        success: true,
+        data: { entry: resolved },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Get the audit trail for a queued bank credit
+   * GET /payments/bank-transfers/queue/:entryId/audit
+   */
+  router.get('/queue/:entryId/audit', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const logs = await auditLogger.getAuditLogs('bank_transfer_entry', req.params.entryId);
+
+      res.json({
+        success: true,
+        data: { logs },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,480 @@
+import { Router, Response } from 'express';
+import { Pool } from 'pg';
+import { MessageQueueClient } from '@rent-to-own/message-queue';
+import { NotFoundError, ValidationError } from '@rent-to-own/errors';
+import { AuthenticatedRequest, checkRole } from '../middleware/auth';
+import { DefaultManagementService, DefaultCase, DefaultStage, DEFAULT_STAGES } from '../services/defaultManagement';
+import { AuditLogger } from '../services/auditLogger';
+
+export function defaultCaseRoutes(pool: Pool, messageQueue: MessageQueueClient): Router {
+  const router = Router();
+  const defaultManagementService = new DefaultManagementService(pool, messageQueue);
+  const auditLogger = new AuditLogger(pool);
+
+  async function getCaseOrThrow(caseId: string): Promise<DefaultCase> {
+    const defaultCase = await defaultManagementService.getCase(caseId);
+    if (!defaultCase) {
+      throw new NotFoundError('Default case');
+    }
+    return defaultCase;
+  }
+
+  // Service errors for a transition that is not allowed become 400s
+  function transitionError(error: any): Error {
+    if (error.statusCode) {
+      return error;
+    }
+    if (error.message === 'Default case not found') {
+      return new NotFoundError('Default case');
+    }
+    if (error.message === 'Payment plan not found') {
+      return new NotFoundError('Payment plan');
+    }
+    return new ValidationError(error.message);
+  }
+
+  async function logTransition(defaultCase: DefaultCase, from: DefaultStage, userId: string, notes?: string, details: Record<string, any> = {}) {
+    await auditLogger.logAction('default_case', defaultCase.id, `default_case.${defaultCase.stage}`, userId, notes, {
+      paymentPlanId: defaultCase.paymentPlanId,
+      from,
+      to: defaultCase.stage,
+      ...details,
+    });
+  }
+
+  /**
+   * List default cases
+   * GET /payments/default-cases?stage=final_notice&open=true
+   */
+  router.get('/', checkRole('admin', 'agent'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { stage, open, limit = 100 } = req.query;
+
+      if (stage && !DEFAULT_STAGES.includes(stage as DefaultStage)) {
+        throw new ValidationError(`stage must be one of ${DEFAULT_STAGES.join(', ')}`);
+      }
+
+      const cases = await defaultManagementService.listCases(
+        {
+          stage: stage as DefaultStage | undefined,
+          open: open === undefined ? undefined : open === 'true',
+        },
+        parseInt(limit as string)
+      );
+
+      res.json({
+        success: true,
+        data: { cases },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Get the default cases for a plan, most recent first
+   * GET /payments/default-cases/plan/:planId
+   */
+  router.get('/plan/:planId', checkRole('admin', 'agent'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const cases = await defaultManagementService.getCasesForPlan(req.params.planId);
+
+      res.json({
+        success: true,
+        data: { cases },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Put a plan into default management without waiting for the threshold
+   * POST /payments/default-cases/plans/:planId
+   */
+  router.post('/plans/:planId', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { planId } = req.params;
+      const { notes } = req.body;
+
+      if (!notes) {
+        throw new ValidationError('notes are required');
+      }
+
+      let defaultCase;
+      try {
+        defaultCase = await defaultManagementService.openCase(planId, req.user!.userId);
+      } catch (openError: any) {
+        throw transitionError(openError);
+      }
+      if (!defaultCase) {
+        throw new ValidationError('Plan already has an open default case');
+      }
+
+      await auditLogger.logAction('default_case', defaultCase.id, 'default_case.opened', req.user!.userId, notes, {
+        paymentPlanId: planId,
+        overdueDays: defaultCase.overdueDays,
+        exposure: defaultCase.exposure,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { case: defaultCase },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Get a default case
+   * GET /payments/default-cases/:caseId
+   */
+  router.get('/:caseId', checkRole('admin', 'agent'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const defaultCase = await getCaseOrThrow(req.params.caseId);
+
+      res.json({
+        success: true,
+        data: { case: defaultCase },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Issue the final notice before repossession
+   * POST /payments/default-cases/:caseId/final-notice
+   */
+  router.post('/:caseId/final-notice', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { notes } = req.body;
+      const current = await getCaseOrThrow(req.params.caseId);
+
+      let defaultCase;
+      try {
+        defaultCase = await defaultManagementService.sendFinalNotice(current.id, req.user!.userId, notes);
+      } catch (transitionFailure: any) {
+        throw transitionError(transitionFailure);
+      }
+
+      await logTransition(defaultCase, current.stage, req.user!.userId, notes, {
+        finalNoticeExpiresAt: defaultCase.finalNoticeExpiresAt,
+      });
+
+      res.json({
+        success: true,
+        data: { case: defaultCase },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Terminate the plan and order the vehicle repossessed. Telematics immobilizes the vehicle and
+   * reports its last location back onto the case.
+   * POST /payments/default-cases/:caseId/repossession
+   */
+  router.post('/:caseId/repossession', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { notes } = req.body;
+
+      if (!notes) {
+        throw new ValidationError('notes are required');
+      }
+
+      const current = await getCaseOrThrow(req.params.caseId);
+
+      let defaultCase;
+      try {
+        defaultCase = await defaultManagementService.orderRepossession(current.id, req.user!.userId, notes);
+      } catch (transitionFailure: any) {
+        throw transitionError(transitionFailure);
+      }
+
+      await logTransition(defaultCase, current.stage, req.user!.userId, notes, {
+        vehicleId: defaultCase.vehicleId,
+      });
+
+      res.json({
+        success: true,
+        data: { case: defaultCase },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Log the vehicle as recovered, with its condition and appraised value
+   * POST /payments/default-cases/:caseId/recovery
+   */
+  router.post('/:caseId/recovery', checkRole('admin', 'agent'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { condition, estimatedValue, recoveryCosts = 0, odometerKm, notes } = req.body;
+
+      if (!['good', 'fair', 'poor', 'salvage'].includes(condition)) {
+        throw new ValidationError('condition must be good, fair, poor or salvage');
+      }
+
+      if (typeof estimatedValue !== 'number' || estimatedValue < 0) {
+        throw new ValidationError('estimatedValue must be 0 or more');
+      }
+
+      if (typeof recoveryCosts !== 'number' || recoveryCosts < 0) {
+        throw new ValidationError('recoveryCosts must be 0 or more');
+      }
+
+      if (odometerKm !== undefined && (typeof odometerKm !== 'number' || odometerKm < 0)) {
+        throw new ValidationError('odometerKm must be 0 or more');
+      }
+
+      const current = await getCaseOrThrow(req.params.caseId);
+
+      let defaultCase;
+      try {
+        defaultCase = await defaultManagementService.recordRecovery(current.id, req.user!.userId, {
+          condition,
+          estimatedValue,
+          recoveryCosts,
+          odometerKm,
+          notes,
+        });
+      } catch (transitionFailure: any) {
+        throw transitionError(transitionFailure);
+      }
+
+      await logTransition(defaultCase, current.stage, req.user!.userId, notes, {
+        condition,
+        estimatedValue,
+        recoveryCosts,
+        odometerKm,
+      });
+
+      res.json({
+        success: true,
+        data: { case: defaultCase },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Record the resale of a recovered vehicle; any balance the sale did not cover is written off
+   * POST /payments/default-cases/:caseId/resale
+   */
+  router.post('/:caseId/resale', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { saleAmount, buyerReference, notes } = req.body;
+
+      if (typeof saleAmount !== 'number' || saleAmount <= 0) {
+        throw new ValidationError('saleAmount must be greater than 0');
+      }
+
+      const current = await getCaseOrThrow(req.params.caseId);
+
+      let defaultCase;
+      try {
+        defaultCase = await defaultManagementService.recordResale(
+          current.id,
+          req.user!.userId,
+          { saleAmount, buyerReference },
+          notes
+        );
+      } catch (transitionFailure: any) {
+        throw transitionError(transitionFailure);
+      }
+
+      await logTransition(defaultCase, current.stage, req.user!.userId, notes, {
+        saleAmount,
+        buyerReference,
+        writeOffAmount: defaultCase.writeOffAmount,
+      });
+
+      res.json({
+        success: true,
+        data: { case: defaultCase },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Write off what is left on a case
+   * POST /payments/default-cases/:caseId/write-off
+   */
+  router.post('/:caseId/write-off', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { notes } = req.body;
+
+      if (!notes) {
+        throw new ValidationError('notes are required');
+      }
+
+      const current = await getCaseOrThrow(req.params.caseId);
+
+      let defaultCase;
+      try {
+        defaultCase = await defaultManagementService.writeOff(current.id, req.user!.userId, notes);
+      } catch (transitionFailure: any) {
+        throw transitionError(transitionFailure);
+      }
+
+      await logTransition(defaultCase, current.stage, req.user!.userId, notes, {
+        writeOffAmount: defaultCase.writeOffAmount,
+      });
+
+      res.json({
+        success: true,
+        data: { case: defaultCase },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Close a case before repossession, e.g. after the arrears were paid or settled outside the platform
+   * POST /payments/default-cases/:caseId/cure
+   */
+  router.post('/:caseId/cure', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { notes } = req.body;
+
+      if (!notes) {
+        throw new ValidationError('notes are required');
+      }
+
+      const current = await getCaseOrThrow(req.params.caseId);
+
+      let defaultCase;
+      try {
+        defaultCase = await defaultManagementService.cure(current.id, req.user!.userId, notes);
+      } catch (transitionFailure: any) {
+        throw transitionError(transitionFailure);
+      }
+
+      await logTransition(defaultCase, current.stage, req.user!.userId, notes);
+
+      res.json({
+        success: true,
+        data: { case: defaultCase },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Get the accounting entries posted for a case
+   * GET /payments/default-cases/:caseId/accounting-entries
+   */
+  router.get('/:caseId/accounting-entries', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      await getCaseOrThrow(req.params.caseId);
+      const entries = await defaultManagementService.getAccountingEntries(req.params.caseId);
+
+      res.json({
+        success: true,
+        data: { entries },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Get the audit trail for a default case
+   * GET /payments/default-cases/:caseId/audit
+   */
+  router.get('/:caseId/audit', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const logs = await auditLogger.getAuditLogs('default_case', req.params.caseId);
+
+      res.json({
+        success: true,
+        data: { logs },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  return router;
+}
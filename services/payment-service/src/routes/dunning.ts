@@ -0,0 +1,189 @@
+import { Router, Response } from 'express';
+import { Pool } from 'pg';
+import { NotFoundError, ValidationError } from '@rent-to-own/errors';
+import { AuthenticatedRequest, checkRole } from '../middleware/auth';
+import { DunningPolicyService, FailureCode, FAILURE_CODES } from '../services/dunningPolicy';
+import { AuditLogger } from '../services/auditLogger';
+
+export function dunningRoutes(pool: Pool): Router {
+  const router = Router();
+  const dunningPolicy = new DunningPolicyService(pool);
+  const auditLogger = new AuditLogger(pool);
+
+  /**
+   * Create a dunning rule
+   * POST /payments/dunning-rules
+   */
+  router.post('/', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const {
+        name,
+        provider,
+        failureCode,
+        retryOffsetsMinutes,
+        maxAttempts,
+        payDayAware = false,
+        notifyCustomer = true,
+      } = req.body;
+
+      if (!name || !Array.isArray(retryOffsetsMinutes)) {
+        throw new ValidationError('name and retryOffsetsMinutes are required');
+      }
+
+      if (failureCode && !FAILURE_CODES.includes(failureCode)) {
+        throw new ValidationError(`failureCode must be one of ${FAILURE_CODES.join(', ')}`);
+      }
+
+      if (!retryOffsetsMinutes.every((offset: any) => Number.isInteger(offset) && offset > 0)) {
+        throw new ValidationError('retryOffsetsMinutes must be positive whole numbers of minutes');
+      }
+
+      const attempts = maxAttempts ?? retryOffsetsMinutes.length;
+      if (!Number.isInteger(attempts) || attempts < 0) {
+        throw new ValidationError('maxAttempts must be 0 or more');
+      }
+
+      if (attempts > 0 && retryOffsetsMinutes.length === 0) {
+        throw new ValidationError('retryOffsetsMinutes needs at least one offset when retries are allowed');
+      }
+
+      const rule = await dunningPolicy.createRule({
+        name,
+        provider: provider || undefined,
+        failureCode: (failureCode as FailureCode) || undefined,
+        retryOffsetsMinutes,
+        maxAttempts: attempts,
+        payDayAware: payDayAware === true,
+        notifyCustomer: notifyCustomer === true,
+      });
+
+      await auditLogger.logAction('dunning_rule', rule.id!, 'dunning_rule.created', req.user!.userId, undefined, rule);
+
+      res.status(201).json({
+        success: true,
+        data: { rule },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * List dunning rules
+   * GET /payments/dunning-rules?provider=mtn&failureCode=insufficient_funds
+   */
+  router.get('/', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { provider, failureCode } = req.query;
+      const rules = await dunningPolicy.listRules({
+        provider: provider as string | undefined,
+        failureCode: failureCode as FailureCode | undefined,
+      });
+
+      res.json({
+        success: true,
+        data: { rules },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Show how a failure would be retried: the normalized failure code, the rule that applies and the attempt times
+   * GET /payments/dunning-rules/preview?provider=mtn&reason=Insufficient%20funds
+   */
+  router.get('/preview', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const provider = req.query.provider as string | undefined;
+      const reason = req.query.reason as string | undefined;
+      const failedAt = req.query.failedAt ? new Date(req.query.failedAt as string) : new Date();
+
+      if (isNaN(failedAt.getTime())) {
+        throw new ValidationError('failedAt must be a valid date');
+      }
+
+      const failureCode = DunningPolicyService.normalizeFailureReason(reason, provider);
+      const rule = await dunningPolicy.resolveRule(provider, failureCode);
+
+      // Each retry is assumed to fail the same way when it runs
+      const attempts = [];
+      let attemptAt = failedAt;
+      for (let completed = 0; completed < rule.maxAttempts; completed++) {
+        const plannedRetry = DunningPolicyService.planRetry(rule, completed, attemptAt);
+        if (!plannedRetry) {
+          break;
+        }
+        attempts.push(plannedRetry);
+        attemptAt = plannedRetry.nextRetryAt;
+      }
+
+      res.json({
+        success: true,
+        data: { failureCode, rule, attempts },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Enable or disable a dunning rule
+   * PATCH /payments/dunning-rules/:ruleId
+   */
+  router.patch('/:ruleId', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { ruleId } = req.params;
+      const { active } = req.body;
+
+      if (typeof active !== 'boolean') {
+        throw new ValidationError('active must be true or false');
+      }
+
+      const rule = await dunningPolicy.setRuleActive(ruleId, active);
+      if (!rule) {
+        throw new NotFoundError('Dunning rule');
+      }
+
+      await auditLogger.logAction(
+        'dunning_rule',
+        rule.id!,
+        active ? 'dunning_rule.enabled' : 'dunning_rule.disabled',
+        req.user!.userId
+      );
+
+      res.json({
+        success: true,
+        data: { rule },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  return router;
+}
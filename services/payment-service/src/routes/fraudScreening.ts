@@ -0,0 +1,429 @@
+import { Router, Response } from 'express';
+import { Pool } from 'pg';
+import { EncryptionService } from '@rent-to-own/encryption';
+import { MessageQueueClient } from '@rent-to-own/message-queue';
+import { NotFoundError, ValidationError } from '@rent-to-own/errors';
+import { AuthenticatedRequest, checkRole } from '../middleware/auth';
+import {
+  FraudScreeningService,
+  FraudScreening,
+  FraudDecision,
+  FraudReviewStatus,
+  BlocklistEntryType,
+  BLOCKLIST_ENTRY_TYPES,
+} from '../services/fraudScreening';
+import { MobileMoneyService, MobileMoneyPaymentRequest } from '../services/mobileMoney';
+import { PaymentConfirmationService } from '../services/paymentConfirmation';
+import { AuditLogger } from '../services/auditLogger';
+import { OutboxService } from '../services/outbox';
+import { withTransaction, Queryable } from '../services/transaction';
+
+export function fraudScreeningRoutes(
+  pool: Pool,
+  encryptionService: EncryptionService,
+  messageQueue: MessageQueueClient
+): Router {
+  const router = Router();
+  const fraudScreeningService = new FraudScreeningService(pool, encryptionService);
+  const confirmationService = new PaymentConfirmationService(pool, messageQueue);
+  const auditLogger = new AuditLogger(pool);
+  const outboxService = new OutboxService(pool, messageQueue);
+  const mobileMoneyService = new MobileMoneyService(
+    {
+      provider: (process.env.MOBILE_MONEY_PROVIDER as any) || 'mtn',
+      apiKey: process.env.MOBILE_MONEY_API_KEY || '',
+      apiSecret: process.env.MOBILE_MONEY_API_SECRET || '',
+      callbackUrl: process.env.MOBILE_MONEY_CALLBACK_URL || 'http://localhost:3003/payments/callbacks/mobile-money',
+      environment: (process.env.MOBILE_MONEY_ENV as any) || 'sandbox',
+      apiBaseUrl: process.env.MOBILE_MONEY_API_URL,
+    },
+    encryptionService
+  );
+
+  async function getPendingReviewOrThrow(screeningId: string): Promise<FraudScreening> {
+    const screening = await fraudScreeningService.getScreening(screeningId);
+    if (!screening) {
+      throw new NotFoundError('Fraud screening');
+    }
+    if (screening.reviewStatus !== 'pending' || !screening.paymentId) {
+      throw new ValidationError(
+        screening.reviewStatus ? `Screening has already been ${screening.reviewStatus}` : 'Only held payments can be reviewed'
+      );
+    }
+    return screening;
+  }
+
+  /**
+   * Send a released payment to the provider, as if it had been allowed when it was made
+   */
+  async function submitHeldPayment(paymentId: string): Promise<any> {
+    const heldResult = await pool.query(
+      `UPDATE payments SET status = 'processing', updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status = 'on_hold'
+       RETURNING *`,
+      [paymentId]
+    );
+    if (heldResult.rows.length === 0) {
+      throw new ValidationError('Payment is no longer on hold');
+    }
+    const payment = heldResult.rows[0];
+
+    try {
+      if (payment.payment_method !== 'mobile_money') {
+        return await confirmationService.confirmPayment(payment.id, 'direct');
+      }
+
+      const mobileMoneyRequest: MobileMoneyPaymentRequest = {
+        amount: parseFloat(payment.original_amount ?? payment.amount),
+        phoneNumber: encryptionService.decrypt(payment.encrypted_phone_number),
+        provider: payment.mobile_money_provider,
+        reference: payment.id,
+        description: payment.settlement_quote_id
+          ? 'Vehicle early settlement payment'
+          : payment.is_deposit ? 'Vehicle deposit payment' : 'Vehicle installment payment',
+      };
+
+      const mobileMoneyResponse = await mobileMoneyService.initiatePayment(mobileMoneyRequest);
+      if (!mobileMoneyResponse.success) {
+        throw new Error(mobileMoneyResponse.message || 'Mobile money payment failed');
+      }
+
+      // The customer still has to approve the prompt; the callback or status poller completes it
+      const pendingResult = await pool.query(
+        `UPDATE payments
+         SET status = 'pending_confirmation', external_transaction_id = $1, confirmation_expires_at = $2
+         WHERE id = $3
+         RETURNING *`,
+        [mobileMoneyResponse.externalTransactionId, PaymentConfirmationService.confirmationDeadline(), payment.id]
+      );
+      return pendingResult.rows[0];
+    } catch (paymentError: any) {
+      // Marks the payment failed, schedules installment retries and publishes payment.failed
+      return confirmationService.failPayment(payment.id, paymentError.message, 'direct');
+    }
+  }
+
+  // Review outcomes are written to the outbox with the review, so the event is never lost
+  async function enqueueReviewEvent(db: Queryable, routingKey: string, screening: FraudScreening, reviewedBy: string): Promise<string> {
+    return OutboxService.enqueue(db, 'payment.events', routingKey, {
+      type: routingKey,
+      payload: {
+        screeningId: screening.id,
+        paymentId: screening.paymentId,
+        paymentPlanId: screening.paymentPlanId,
+        userId: screening.userId,
+        amount: screening.amount,
+        reviewedBy,
+      },
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * List fraud screenings, e.g. the payments waiting for review
+   * GET /payments/fraud/screenings?decision=review&reviewStatus=pending&userId=uuid&planId=uuid&limit=100
+   */
+  router.get('/screenings', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { decision, reviewStatus, userId, planId, limit = 100 } = req.query;
+
+      if (decision && !['allow', 'review', 'block'].includes(decision as string)) {
+        throw new ValidationError('decision must be allow, review, or block');
+      }
+
+      if (reviewStatus && !['pending', 'released', 'rejected'].includes(reviewStatus as string)) {
+        throw new ValidationError('reviewStatus must be pending, released, or rejected');
+      }
+
+      const screenings = await fraudScreeningService.listScreenings(
+        {
+          decision: decision as FraudDecision | undefined,
+          reviewStatus: reviewStatus as FraudReviewStatus | undefined,
+          userId: userId as string | undefined,
+          paymentPlanId: planId as string | undefined,
+        },
+        parseInt(limit as string)
+      );
+
+      res.json({
+        success: true,
+        data: { screenings },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Get a fraud screening with the reasons for its decision
+   * GET /payments/fraud/screenings/:screeningId
+   */
+  router.get('/screenings/:screeningId', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const screening = await fraudScreeningService.getScreening(req.params.screeningId);
+      if (!screening) {
+        throw new NotFoundError('Fraud screening');
+      }
+
+      res.json({
+        success: true,
+        data: { screening },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Release a held payment; it is sent to the provider and the payer gets the usual prompt
+   * POST /payments/fraud/screenings/:screeningId/release
+   */
+  router.post('/screenings/:screeningId/release', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { notes } = req.body;
+      const pending = await getPendingReviewOrThrow(req.params.screeningId);
+
+      const { screening, eventId } = await withTransaction(pool, async (client) => {
+        let screening: FraudScreening;
+        try {
+          screening = await fraudScreeningService.resolveReview(pending.id, 'released', req.user!.userId, notes, client);
+        } catch (reviewError: any) {
+          throw new ValidationError(reviewError.message);
+        }
+        const eventId = await enqueueReviewEvent(client, 'payment.fraud.released', screening, req.user!.userId);
+        return { screening, eventId };
+      });
+      const payment = await submitHeldPayment(pending.paymentId!);
+
+      await auditLogger.logAction('fraud_screening', screening.id, 'fraud_screening.released', req.user!.userId, notes, {
+        paymentId: screening.paymentId,
+        paymentStatus: payment?.status,
+      });
+      await outboxService.publishNow([eventId]);
+
+      res.json({
+        success: true,
+        data: { screening: { ...screening, paymentStatus: payment?.status }, payment },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Reject a held payment. It is cancelled without contacting the provider; the payer phone and
+   * device can be blocklisted at the same time.
+   * POST /payments/fraud/screenings/:screeningId/reject
+   */
+  router.post('/screenings/:screeningId/reject', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { notes, blocklistPayer = false } = req.body;
+
+      if (!notes) {
+        throw new ValidationError('notes are required when rejecting a payment');
+      }
+
+      const pending = await getPendingReviewOrThrow(req.params.screeningId);
+
+      const { screening, paymentResult, eventId } = await withTransaction(pool, async (client) => {
+        let screening: FraudScreening;
+        try {
+          screening = await fraudScreeningService.resolveReview(pending.id, 'rejected', req.user!.userId, notes, client);
+        } catch (reviewError: any) {
+          throw new ValidationError(reviewError.message);
+        }
+
+        const paymentResult = await client.query(
+          `UPDATE payments
+           SET status = 'cancelled', failure_reason = 'Rejected by fraud review', updated_at = CURRENT_TIMESTAMP
+           WHERE id = $1 AND status = 'on_hold'
+           RETURNING *`,
+          [screening.paymentId]
+        );
+
+        const eventId = await enqueueReviewEvent(client, 'payment.fraud.rejected', screening, req.user!.userId);
+        return { screening, paymentResult, eventId };
+      });
+
+      const blocklistEntries = blocklistPayer
+        ? await fraudScreeningService.blocklistScreeningSources(screening, notes, req.user!.userId)
+        : [];
+
+      await auditLogger.logAction('fraud_screening', screening.id, 'fraud_screening.rejected', req.user!.userId, notes, {
+        paymentId: screening.paymentId,
+        blocklistEntryIds: blocklistEntries.map((entry) => entry.id),
+      });
+      await outboxService.publishNow([eventId]);
+
+      res.json({
+        success: true,
+        data: {
+          screening: { ...screening, paymentStatus: paymentResult.rows[0]?.status ?? screening.paymentStatus },
+          payment: paymentResult.rows[0] || null,
+          blocklistEntries,
+        },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Get the audit trail for a fraud screening
+   * GET /payments/fraud/screenings/:screeningId/audit
+   */
+  router.get('/screenings/:screeningId/audit', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const logs = await auditLogger.getAuditLogs('fraud_screening', req.params.screeningId);
+
+      res.json({
+        success: true,
+        data: { logs },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * List blocklist entries
+   * GET /payments/fraud/blocklist?entryType=phone&active=true
+   */
+  router.get('/blocklist', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { entryType, active } = req.query;
+
+      if (entryType && !BLOCKLIST_ENTRY_TYPES.includes(entryType as BlocklistEntryType)) {
+        throw new ValidationError(`entryType must be one of ${BLOCKLIST_ENTRY_TYPES.join(', ')}`);
+      }
+
+      const entries = await fraudScreeningService.listBlocklist({
+        entryType: entryType as BlocklistEntryType | undefined,
+        active: active === undefined ? undefined : active === 'true',
+      });
+
+      res.json({
+        success: true,
+        data: { entries },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Blocklist a phone number, customer or device
+   * POST /payments/fraud/blocklist
+   */
+  router.post('/blocklist', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { entryType, value, reason } = req.body;
+
+      if (!entryType || !value || !reason) {
+        throw new ValidationError('entryType, value, and reason are required');
+      }
+
+      if (!BLOCKLIST_ENTRY_TYPES.includes(entryType)) {
+        throw new ValidationError(`entryType must be one of ${BLOCKLIST_ENTRY_TYPES.join(', ')}`);
+      }
+
+      const entry = await fraudScreeningService.addToBlocklist(entryType, String(value), reason, req.user!.userId);
+
+      await auditLogger.logAction('fraud_blocklist', entry.id, 'fraud_blocklist.added', req.user!.userId, reason, {
+        entryType,
+        value: entry.value,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { entry },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Lift or reinstate a blocklist entry
+   * PATCH /payments/fraud/blocklist/:entryId
+   */
+  router.patch('/blocklist/:entryId', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { active, notes } = req.body;
+
+      if (typeof active !== 'boolean') {
+        throw new ValidationError('active must be true or false');
+      }
+
+      const entry = await fraudScreeningService.setBlocklistEntryActive(req.params.entryId, active);
+      if (!entry) {
+        throw new NotFoundError('Blocklist entry');
+      }
+
+      await auditLogger.logAction(
+        'fraud_blocklist',
+        entry.id,
+        active ? 'fraud_blocklist.enabled' : 'fraud_blocklist.disabled',
+        req.user!.userId,
+        notes
+      );
+
+      res.json({
+        success: true,
+        data: { entry },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,127 @@
+import { Router, Response } from 'express';
+import { Pool } from 'pg';
+import { NotFoundError, ValidationError } from '@rent-to-own/errors';
+import { AuthenticatedRequest, checkRole } from '../middleware/auth';
+import { HolidayCalendarService } from '../services/holidayCalendar';
+import { AuditLogger } from '../services/auditLogger';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function holidayRoutes(pool: Pool): Router {
+  const router = Router();
+  const holidayCalendar = new HolidayCalendarService(pool);
+  const auditLogger = new AuditLogger(pool);
+
+  /**
+   * List public holidays, optionally only those falling in a year
+   * GET /payments/holidays?year=2024
+   */
+  router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      let year: number | undefined;
+      if (req.query.year) {
+        year = parseInt(req.query.year as string);
+        if (isNaN(year)) {
+          throw new ValidationError('year must be a number');
+        }
+      }
+
+      const holidays = await holidayCalendar.listHolidays(year);
+
+      res.json({
+        success: true,
+        data: { holidays },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Add a public holiday. Recurring holidays fall on the same day every year.
+   * POST /payments/holidays
+   */
+  router.post('/', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { name, date, recurring = false } = req.body;
+
+      if (!name || !date) {
+        throw new ValidationError('name and date are required');
+      }
+
+      if (!DATE_PATTERN.test(date) || isNaN(new Date(date).getTime())) {
+        throw new ValidationError('date must be a date (YYYY-MM-DD)');
+      }
+
+      const holiday = await holidayCalendar.createHoliday({
+        name,
+        date,
+        recurring: recurring === true,
+        createdBy: req.user!.userId,
+      });
+
+      await auditLogger.logAction('public_holiday', holiday.id, 'holiday.created', req.user!.userId, undefined, holiday);
+
+      res.status(201).json({
+        success: true,
+        data: { holiday },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Enable or disable a public holiday. Due dates already generated are not moved.
+   * PATCH /payments/holidays/:holidayId
+   */
+  router.patch('/:holidayId', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { holidayId } = req.params;
+      const { active } = req.body;
+
+      if (typeof active !== 'boolean') {
+        throw new ValidationError('active must be true or false');
+      }
+
+      const holiday = await holidayCalendar.setHolidayActive(holidayId, active);
+      if (!holiday) {
+        throw new NotFoundError('Holiday');
+      }
+
+      await auditLogger.logAction(
+        'public_holiday',
+        holiday.id,
+        active ? 'holiday.enabled' : 'holiday.disabled',
+        req.user!.userId
+      );
+
+      res.json({
+        success: true,
+        data: { holiday },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,247 @@
+import { Router, Response } from 'express';
+import { Pool } from 'pg';
+import { EncryptionService } from '@rent-to-own/encryption';
+import { MessageQueueClient } from '@rent-to-own/message-queue';
+import { NotFoundError, UnauthorizedError, ValidationError } from '@rent-to-own/errors';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { MandateService, PaymentMandate, DEFAULT_MANDATE_CONSENT_TEXT } from '../services/mandates';
+import { AuditLogger } from '../services/auditLogger';
+
+export function mandateRoutes(pool: Pool, encryptionService: EncryptionService, messageQueue: MessageQueueClient): Router {
+  const router = Router();
+  const mandateService = new MandateService(pool, encryptionService);
+  const auditLogger = new AuditLogger(pool);
+
+  /**
+   * Customers manage their own mandates; admins can see and manage any
+   */
+  function requireUser(req: AuthenticatedRequest): { userId: string; role: string } {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+    return req.user;
+  }
+
+  async function getAccessibleMandate(req: AuthenticatedRequest, mandateId: string): Promise<PaymentMandate> {
+    const user = requireUser(req);
+    const mandate = await mandateService.getMandate(mandateId);
+    if (!mandate || (user.role !== 'admin' && mandate.userId !== user.userId)) {
+      throw new NotFoundError('Payment mandate');
+    }
+    return mandate;
+  }
+
+  async function publishMandateEvent(action: string, mandate: PaymentMandate, performedBy: string): Promise<void> {
+    await messageQueue.publish('payment.events', `payment.mandate.${action}`, {
+      type: `payment.mandate.${action}`,
+      payload: {
+        mandateId: mandate.id,
+        paymentPlanId: mandate.paymentPlanId,
+        userId: mandate.userId,
+        provider: mandate.provider,
+        capAmount: mandate.capAmount,
+        expiresAt: mandate.expiresAt,
+        status: mandate.status,
+        performedBy,
+      },
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Authorise the platform to pull each installment automatically
+   * POST /payments/mandates
+   */
+  router.post('/', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = requireUser(req);
+      const { paymentPlanId, provider, phoneNumber, capAmount, expiresAt, consent, consentText } = req.body;
+
+      if (!paymentPlanId || !provider || !phoneNumber || capAmount === undefined || !expiresAt) {
+        throw new ValidationError('paymentPlanId, provider, phoneNumber, capAmount, and expiresAt are required');
+      }
+
+      if (consent !== true) {
+        throw new ValidationError('The customer must explicitly consent to the mandate', 'CONSENT_REQUIRED');
+      }
+
+      if (!['mtn', 'airtel', 'africell', 'other'].includes(provider)) {
+        throw new ValidationError('provider must be mtn, airtel, africell, or other');
+      }
+
+      if (typeof capAmount !== 'number' || capAmount <= 0) {
+        throw new ValidationError('capAmount must be a positive number');
+      }
+
+      const expiry = new Date(expiresAt);
+      if (isNaN(expiry.getTime())) {
+        throw new ValidationError('expiresAt must be a valid date');
+      }
+
+      let mandate: PaymentMandate;
+      try {
+        mandate = await mandateService.createMandate({
+          paymentPlanId,
+          userId: user.userId,
+          provider,
+          phoneNumber,
+          capAmount,
+          expiresAt: expiry,
+          consentText: consentText || DEFAULT_MANDATE_CONSENT_TEXT,
+          consentIp: req.ip,
+        });
+      } catch (createError: any) {
+        if (createError.message === 'Payment plan not found') {
+          throw new NotFoundError('Payment plan');
+        }
+        throw new ValidationError(createError.message);
+      }
+
+      await auditLogger.logAction('payment_mandate', mandate.id, 'mandate.created', user.userId, undefined, {
+        paymentPlanId,
+        provider,
+        capAmount,
+        expiresAt: expiry,
+      });
+      await publishMandateEvent('created', mandate, user.userId);
+
+      res.status(201).json({
+        success: true,
+        data: { mandate },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * List the mandates on a plan
+   * GET /payments/mandates/plan/:planId
+   */
+  router.get('/plan/:planId', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = requireUser(req);
+      const { planId } = req.params;
+
+      const planResult = await pool.query('SELECT user_id FROM payment_plans WHERE id = $1', [planId]);
+      if (planResult.rows.length === 0 || (user.role !== 'admin' && planResult.rows[0].user_id !== user.userId)) {
+        throw new NotFoundError('Payment plan');
+      }
+
+      const mandates = await mandateService.getMandatesForPlan(planId);
+
+      res.json({
+        success: true,
+        data: { planId, mandates },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Get a mandate
+   * GET /payments/mandates/:mandateId
+   */
+  router.get('/:mandateId', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const mandate = await getAccessibleMandate(req, req.params.mandateId);
+
+      res.json({
+        success: true,
+        data: { mandate },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Pause, resume or revoke a mandate
+   * POST /payments/mandates/:mandateId/pause
+   * POST /payments/mandates/:mandateId/resume
+   * POST /payments/mandates/:mandateId/revoke
+   */
+  router.post('/:mandateId/:action(pause|resume|revoke)', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = requireUser(req);
+      const { mandateId, action } = req.params;
+      const { reason } = req.body;
+      await getAccessibleMandate(req, mandateId);
+
+      let mandate: PaymentMandate;
+      try {
+        if (action === 'pause') {
+          mandate = await mandateService.pauseMandate(mandateId);
+        } else if (action === 'resume') {
+          mandate = await mandateService.resumeMandate(mandateId);
+        } else {
+          mandate = await mandateService.revokeMandate(mandateId, user.userId, reason);
+        }
+      } catch (updateError: any) {
+        throw new ValidationError(updateError.message);
+      }
+
+      const eventAction = { pause: 'paused', resume: 'resumed', revoke: 'revoked' }[action as 'pause' | 'resume' | 'revoke'];
+      await auditLogger.logAction('payment_mandate', mandateId, `mandate.${eventAction}`, user.userId, reason);
+      await publishMandateEvent(eventAction, mandate, user.userId);
+
+      res.json({
+        success: true,
+        data: { mandate },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Get the audit trail for a mandate
+   * GET /payments/mandates/:mandateId/audit
+   */
+  router.get('/:mandateId/audit', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      await getAccessibleMandate(req, req.params.mandateId);
+      const logs = await auditLogger.getAuditLogs('payment_mandate', req.params.mandateId);
+
+      res.json({
+        success: true,
+        data: { logs },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,138 @@
+import { Router, Response } from 'express';
+import { Pool } from 'pg';
+import { MessageQueueClient } from '@rent-to-own/message-queue';
+import { NotFoundError, ValidationError } from '@rent-to-own/errors';
+import { AuthenticatedRequest, checkRole } from '../middleware/auth';
+import { OutboxService } from '../services/outbox';
+import { AuditLogger } from '../services/auditLogger';
+
+export function outboxRoutes(pool: Pool, messageQueue: MessageQueueClient): Router {
+  const router = Router();
+  const outboxService = new OutboxService(pool, messageQueue);
+  const auditLogger = new AuditLogger(pool);
+
+  /**
+   * Event counts by status and the age of the oldest unsent event
+   * GET /payments/outbox/summary
+   */
+  router.get('/summary', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const summary = await outboxService.getSummary();
+
+      res.json({
+        success: true,
+        data: { summary },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Events that failed for good or have been pending too long
+   * GET /payments/outbox/stuck?olderThanMinutes=15
+   */
+  router.get('/stuck', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const olderThanMinutes = req.query.olderThanMinutes
+        ? parseInt(req.query.olderThanMinutes as string)
+        : parseInt(process.env.OUTBOX_STUCK_AFTER_MINUTES || '15');
+      const limit = parseInt(req.query.limit as string) || 100;
+
+      if (isNaN(olderThanMinutes) || olderThanMinutes < 0) {
+        throw new ValidationError('olderThanMinutes must be 0 or more');
+      }
+
+      const events = await outboxService.listStuck(olderThanMinutes, limit);
+
+      res.json({
+        success: true,
+        data: { olderThanMinutes, events },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Get an outbox event
+   * GET /payments/outbox/:eventId
+   */
+  router.get('/:eventId', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const event = await outboxService.getEvent(req.params.eventId);
+      if (!event) {
+        throw new NotFoundError('Outbox event');
+      }
+
+      res.json({
+        success: true,
+        data: { event },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Queue a failed event for publishing again and try it straight away
+   * POST /payments/outbox/:eventId/retry
+   */
+  router.post('/:eventId/retry', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { eventId } = req.params;
+
+      const existing = await outboxService.getEvent(eventId);
+      if (!existing) {
+        throw new NotFoundError('Outbox event');
+      }
+
+      const requeued = await outboxService.retryEvent(eventId);
+      if (!requeued) {
+        throw new ValidationError(`Only failed events can be retried; this event is ${existing.status}`);
+      }
+
+      await auditLogger.logAction('outbox_event', eventId, 'outbox_event.retried', req.user!.userId, undefined, {
+        routingKey: existing.routingKey,
+        attempts: existing.attempts,
+        lastError: existing.lastError,
+      });
+
+      await outboxService.publishNow([eventId]);
+      const event = await outboxService.getEvent(eventId);
+
+      res.json({
+        success: true,
+        data: { event },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  return router;
+}
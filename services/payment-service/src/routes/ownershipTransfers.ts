@@ -0,0 +1,237 @@
+import { Router, Response } from 'express';
+import { Pool } from 'pg';
+import { MessageQueueClient } from '@rent-to-own/message-queue';
+import { NotFoundError, UnauthorizedError, ValidationError } from '@rent-to-own/errors';
+import { AuthenticatedRequest, checkRole } from '../middleware/auth';
+import {
+  OwnershipTransferService,
+  OwnershipTransfer,
+  OwnershipTransferStep,
+  OWNERSHIP_TRANSFER_STEPS,
+} from '../services/ownershipTransfer';
+import { AuditLogger } from '../services/auditLogger';
+
+export function ownershipTransferRoutes(pool: Pool, messageQueue: MessageQueueClient): Router {
+  const router = Router();
+  const ownershipTransferService = new OwnershipTransferService(pool, messageQueue);
+  const auditLogger = new AuditLogger(pool);
+
+  async function getTransferOrThrow(transferId: string): Promise<OwnershipTransfer> {
+    const transfer = await ownershipTransferService.getTransfer(transferId);
+    if (!transfer) {
+      throw new NotFoundError('Ownership transfer');
+    }
+    return transfer;
+  }
+
+  /**
+   * List ownership transfers with their checklists
+   * GET /payments/ownership-transfers?status=in_progress
+   */
+  router.get('/', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { status, limit = 50 } = req.query;
+
+      if (status && !['in_progress', 'completed'].includes(status as string)) {
+        throw new ValidationError('status must be in_progress or completed');
+      }
+
+      const transfers = await ownershipTransferService.listTransfers(status as any, parseInt(limit as string));
+
+      res.json({
+        success: true,
+        data: { transfers },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Get the transfer for a plan
+   * GET /payments/ownership-transfers/plan/:planId
+   */
+  router.get('/plan/:planId', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const transfer = await ownershipTransferService.getTransferForPlan(req.params.planId);
+      if (!transfer) {
+        throw new NotFoundError('Ownership transfer');
+      }
+
+      res.json({
+        success: true,
+        data: { transfer },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Get a transfer and its checklist
+   * GET /payments/ownership-transfers/:transferId
+   */
+  router.get('/:transferId', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const transfer = await getTransferOrThrow(req.params.transferId);
+
+      res.json({
+        success: true,
+        data: { transfer },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Ask vehicle-service and telematics again, for transfers stuck waiting on them
+   * POST /payments/ownership-transfers/:transferId/retry
+   */
+  router.post('/:transferId/retry', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const transfer = await getTransferOrThrow(req.params.transferId);
+      if (transfer.status === 'completed') {
+        throw new ValidationError('Ownership transfer is already complete');
+      }
+
+      await ownershipTransferService.requestRelease(transfer);
+      await auditLogger.logAction('ownership_transfer', transfer.id, 'transfer.retried', req.user!.userId);
+
+      res.json({
+        success: true,
+        data: { transfer },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Complete a checklist step by hand
+   * POST /payments/ownership-transfers/:transferId/steps/:step/complete
+   */
+  router.post('/:transferId/steps/:step/complete', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { transferId, step } = req.params;
+      const { notes } = req.body;
+
+      if (!OWNERSHIP_TRANSFER_STEPS.includes(step as OwnershipTransferStep)) {
+        throw new ValidationError(`step must be one of ${OWNERSHIP_TRANSFER_STEPS.join(', ')}`);
+      }
+      if (!notes) {
+        throw new ValidationError('notes are required when completing a step by hand');
+      }
+      await getTransferOrThrow(transferId);
+
+      let transfer: OwnershipTransfer | null;
+      try {
+        transfer = await ownershipTransferService.completeStepManually(
+          transferId,
+          step as OwnershipTransferStep,
+          req.user!.userId,
+          notes
+        );
+      } catch (stepError: any) {
+        throw new ValidationError(stepError.message);
+      }
+
+      await auditLogger.logAction('ownership_transfer', transferId, 'transfer.step_completed', req.user!.userId, notes, { step });
+
+      res.json({
+        success: true,
+        data: { transfer },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Download the transfer letter for the logbook (the customer or an admin)
+   * GET /payments/ownership-transfers/:transferId/letter
+   */
+  router.get('/:transferId/letter', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        throw new UnauthorizedError('Authentication required');
+      }
+
+      const transfer = await getTransferOrThrow(req.params.transferId);
+      if (req.user.role !== 'admin' && transfer.userId !== req.user.userId) {
+        throw new NotFoundError('Ownership transfer');
+      }
+      if (!transfer.letterNumber) {
+        throw new ValidationError('The transfer letter has not been issued yet', 'LETTER_NOT_ISSUED');
+      }
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${transfer.letterNumber}.pdf"`);
+      res.send(OwnershipTransferService.renderTransferLetterPdf(transfer));
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Get the audit trail for a transfer
+   * GET /payments/ownership-transfers/:transferId/audit
+   */
+  router.get('/:transferId/audit', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      await getTransferOrThrow(req.params.transferId);
+      const logs = await auditLogger.getAuditLogs('ownership_transfer', req.params.transferId);
+
+      res.json({
+        success: true,
+        data: { logs },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  return router;
+}
@@ -2,13 +2,177 @@ import { Router, Request, Response } from 'express';
 import { Pool } from 'pg';
 import { EncryptionService } from '@rent-to-own/encryption';
 import { MessageQueueClient } from '@rent-to-own/message-queue';
-import { NotFoundError, ValidationError } from '@rent-to-own/errors';
-import { PaymentScheduleService } from '../services/paymentSchedule';
+import { NotFoundError, ValidationError, ServiceUnavailableError, ForbiddenError } from '@rent-to-own/errors';
+import { PaymentScheduleService, PaymentScheduleInput, PaymentSchedule, PlanAddonInput } from '../services/paymentSchedule';
+import { CreditTier } from '../services/financeCharges';
 import { MobileMoneyService, MobileMoneyPaymentRequest } from '../services/mobileMoney';
-import { PaymentRetryService } from '../services/paymentRetry';
 import { IdempotencyService } from '../services/idempotency';
+import { SettlementService } from '../services/settlement';
+import { InstallmentService } from '../services/installments';
+import { PaymentAllocationService } from '../services/paymentAllocation';
+import { RestructureService } from '../services/restructure';
+import { AuditLogger } from '../services/auditLogger';
+import { RefundService } from '../services/refunds';
+import { PaymentConfirmationService, AWAITING_CONFIRMATION_STATUSES } from '../services/paymentConfirmation';
+import { CallbackVerificationService, CallbackRejectionCode } from '../services/callbackVerification';
+import { StatementService } from '../services/statements';
+import { RetailerSettlementService } from '../services/retailerSettlements';
+import { AffordabilityService, SimulationVehicle, TierLimits } from '../services/affordability';
+import { BankTransferService } from '../services/bankTransfers';
+import { PlanAddonService, PLAN_ADDON_TYPES, ADDON_FREQUENCIES } from '../services/planAddons';
+import { FraudScreeningService, FraudScreening } from '../services/fraudScreening';
+import { OutboxService } from '../services/outbox';
+import { withTransaction, Queryable } from '../services/transaction';
+import { AuthenticatedRequest, checkRole } from '../middleware/auth';
 import { CurrencyService } from '../../../../lib/external-apis/currency-service';
 
+interface ProcessPaymentInput {
+  paymentPlanId: string;
+  userId: string;
+  amount: number;
+  paymentMethod: 'mobile_money' | 'bank_transfer' | 'cash';
+  mobileMoneyProvider?: string;
+  phoneNumber?: string;
+  idempotencyKey?: string;
+  isDeposit?: boolean;
+  currency?: string;
+  settlementQuoteId?: string; // Set when the payment settles the whole plan early
+  deviceId?: string; // Device the customer paid from, for fraud velocity checks
+  ipAddress?: string;
+}
+
+// HTTP status for each way a mobile money callback can be rejected
+const CALLBACK_REJECTION_STATUS: Record<CallbackRejectionCode, number> = {
+  INVALID_CALLBACK: 400,
+  UNKNOWN_PROVIDER: 401,
+  INVALID_SIGNATURE: 401,
+  CALLBACK_EXPIRED: 401,
+  CALLBACK_REPLAYED: 409,
+};
+
+/**
+ * Validate an insurance, tracker or service package add-on
+ */
+export function parseAddonInput(addon: any): PlanAddonInput {
+  if (!addon || typeof addon !== 'object') {
+    throw new ValidationError('Each add-on must be an object');
+  }
+
+  const { addonType, amount, frequency, description, provider, termMonths } = addon;
+
+  if (!PLAN_ADDON_TYPES.includes(addonType)) {
+    throw new ValidationError(`addonType must be one of: ${PLAN_ADDON_TYPES.join(', ')}`);
+  }
+
+  if (typeof amount !== 'number' || !(amount > 0)) {
+    throw new ValidationError('Add-on amount must be a positive number');
+  }
+
+  if (!ADDON_FREQUENCIES.includes(frequency)) {
+    throw new ValidationError(`Add-on frequency must be one of: ${ADDON_FREQUENCIES.join(', ')}`);
+  }
+
+  if (termMonths !== undefined && termMonths !== null && !(Number.isInteger(termMonths) && termMonths > 0)) {
+    throw new ValidationError('Add-on termMonths must be a positive whole number');
+  }
+
+  return {
+    addonType,
+    amount,
+    frequency,
+    description: description || undefined,
+    provider: provider || undefined,
+    termMonths: termMonths || undefined,
+  };
+}
+
+/**
+ * Validate the plan terms shared by plan creation and price quotes. Unless the caller may override
+ * pricing, the credit tier and its configured rate are left for the plan to be priced from.
+ */
+function parseScheduleInput(body: any, allowRateOverride: boolean = true): PaymentScheduleInput {
+  if (
+    !allowRateOverride &&
+    (body.creditTier !== undefined || body.annualInterestRate !== undefined || body.interestMethod !== undefined)
+  ) {
+    throw new ForbiddenError('Only admins can set creditTier, annualInterestRate or interestMethod on a plan');
+  }
+
+  const {
+    vehiclePrice,
+    depositAmount,
+    termLengthMonths,
+    paymentFrequency,
+    gracePeriodDays,
+    creditTier,
+    annualInterestRate,
+    interestMethod = process.env.FINANCE_INTEREST_METHOD || 'reducing_balance',
+    skipSundays,
+    skipPublicHolidays,
+    businessDayRule,
+    addons = [],
+  } = body;
+
+  if (![12, 18, 24, 36].includes(termLengthMonths)) {
+    throw new ValidationError('termLengthMonths must be 12, 18, 24, or 36');
+  }
+
+  if (!['daily', 'weekly', 'monthly'].includes(paymentFrequency)) {
+    throw new ValidationError('paymentFrequency must be daily, weekly, or monthly');
+  }
+
+  if ((skipSundays || skipPublicHolidays) && paymentFrequency !== 'daily') {
+    throw new ValidationError('skipSundays and skipPublicHolidays only apply to daily plans');
+  }
+
+  if (businessDayRule !== undefined && !['following', 'preceding'].includes(businessDayRule)) {
+    throw new ValidationError('businessDayRule must be following or preceding');
+  }
+
+  if (businessDayRule !== undefined && paymentFrequency === 'daily') {
+    throw new ValidationError('businessDayRule only applies to weekly and monthly plans');
+  }
+
+  if (creditTier !== undefined && !['A', 'B', 'C', 'D', 'E'].includes(creditTier)) {
+    throw new ValidationError('creditTier must be A, B, C, D, or E');
+  }
+
+  if (!['flat', 'reducing_balance'].includes(interestMethod)) {
+    throw new ValidationError('interestMethod must be flat or reducing_balance');
+  }
+
+  if (annualInterestRate !== undefined && (typeof annualInterestRate !== 'number' || annualInterestRate < 0)) {
+    throw new ValidationError('annualInterestRate must be a non-negative number');
+  }
+
+  if (!Array.isArray(addons)) {
+    throw new ValidationError('addons must be an array');
+  }
+
+  return {
+    vehiclePrice,
+    depositAmount,
+    termLengthMonths,
+    paymentFrequency,
+    gracePeriodDays,
+    creditTier,
+    annualInterestRate,
+    interestMethod,
+    skipSundays: !!skipSundays,
+    skipPublicHolidays: !!skipPublicHolidays,
+    businessDayRule,
+    addons: addons.map(parseAddonInput),
+  };
+}
+
+function buildSchedule(input: PaymentScheduleInput): PaymentSchedule {
+  try {
+    return PaymentScheduleService.calculateSchedule(input);
+  } catch (scheduleError: any) {
+    throw new ValidationError(scheduleError.message);
+  }
+}
+
 export function paymentRoutes(
   pool: Pool,
   encryptionService: EncryptionService,
@@ -24,17 +188,40 @@ export function paymentRoutes(
       apiSecret: process.env.MOBILE_MONEY_API_SECRET || '',
       callbackUrl: process.env.MOBILE_MONEY_CALLBACK_URL || 'http://localhost:3003/payments/callbacks/mobile-money',
       environment: (process.env.MOBILE_MONEY_ENV as any) || 'sandbox',
+      apiBaseUrl: process.env.MOBILE_MONEY_API_URL,
     },
     encryptionService
   );
-  const retryService = new PaymentRetryService(pool);
   const idempotencyService = new IdempotencyService(pool);
+  const installmentService = new InstallmentService(pool);
+  const allocationService = new PaymentAllocationService(pool);
+  const restructureService = new RestructureService(pool);
+  const auditLogger = new AuditLogger(pool);
+  const refundService = new RefundService(pool, mobileMoneyService, encryptionService, messageQueue);
+  const confirmationService = new PaymentConfirmationService(pool, messageQueue);
+  const callbackVerificationService = new CallbackVerificationService(pool, messageQueue);
+  const statementService = new StatementService(pool);
+  const bankTransferService = new BankTransferService(pool, messageQueue);
+  const addonService = new PlanAddonService(pool);
+  const fraudScreeningService = new FraudScreeningService(pool, encryptionService);
+  const outboxService = new OutboxService(pool, messageQueue);
+  const settlementService = new SettlementService(pool, {
+    discountPercentage: parseFloat(process.env.EARLY_SETTLEMENT_DISCOUNT_PERCENT || '0'),
+    quoteValidityHours: parseInt(process.env.SETTLEMENT_QUOTE_VALIDITY_HOURS || '72'),
+  });
+  const maxInstallmentToIncomeRatio = parseFloat(process.env.AFFORDABILITY_MAX_INSTALLMENT_TO_INCOME || '0.35');
+  const affordabilityService = new AffordabilityService({
+    vehicleServiceUrl: process.env.VEHICLE_SERVICE_URL || 'http://localhost:3002',
+    creditServiceUrl: process.env.CREDIT_SERVICE_URL || 'http://localhost:3004',
+    maxInstallmentToIncomeRatio,
+    assumedTier: (process.env.AFFORDABILITY_ASSUMED_TIER as any) || 'C',
+  });
 
   /**
    * Create payment plan based on vehicle price, deposit, and term length
    * POST /payments/plans
    */
-  router.post('/plans', async (req: Request, res: Response) => {
+  router.post('/plans', async (req: AuthenticatedRequest, res: Response) => {
     try {
       const {
         userId,
@@ -43,71 +230,260 @@ export function paymentRoutes(
         depositAmount,
         termLengthMonths,
         paymentFrequency,
-        gracePeriodDays,
+        overpaymentStrategy = 'prepay',
+        productCode,
+        vehicleType,
       } = req.body;
 
       if (!userId || !vehicleId || !vehiclePrice || !depositAmount || !termLengthMonths || !paymentFrequency) {
         throw new ValidationError('userId, vehicleId, vehiclePrice, depositAmount, termLengthMonths, and paymentFrequency are required');
       }
 
-      if (![12, 18, 24, 36].includes(termLengthMonths)) {
-        throw new ValidationError('termLengthMonths must be 12, 18, 24, or 36');
+      if (!['prepay', 'credit'].includes(overpaymentStrategy)) {
+        throw new ValidationError('overpaymentStrategy must be prepay or credit');
       }
 
-      if (!['weekly', 'monthly'].includes(paymentFrequency)) {
-        throw new ValidationError('paymentFrequency must be weekly or monthly');
+      if (vehicleType && !['motorcycle', 'car', 'van', 'truck'].includes(vehicleType)) {
+        throw new ValidationError('vehicleType must be motorcycle, car, van, or truck');
       }
 
-      // Calculate payment schedule
-      const schedule = PaymentScheduleService.calculateSchedule({
-        vehiclePrice,
-        depositAmount,
-        termLengthMonths,
-        paymentFrequency,
-        gracePeriodDays,
+      // Commission goes to the retailer selling the vehicle; only admins may credit a different one
+      let vehicle: SimulationVehicle | null;
+      try {
+        vehicle = await affordabilityService.getVehicle(vehicleId);
+      } catch (vehicleError: any) {
+        console.error('Error fetching vehicle for plan:', vehicleError.message);
+        throw new ServiceUnavailableError('Vehicle service');
+      }
+      if (!vehicle) {
+        throw new NotFoundError('Vehicle');
+      }
+      const retailerId = (req.user?.role === 'admin' && req.body.retailerId) || vehicle.retailerId;
+
+      // Calculate payment schedule, including finance charges for the customer's credit tier
+      const scheduleInput = parseScheduleInput(req.body, req.user?.role === 'admin');
+      if (!scheduleInput.creditTier && scheduleInput.annualInterestRate === undefined) {
+        // The tier prices the plan, so it comes from the customer's credit score
+        let scoredTier: CreditTier | null;
+        try {
+          scoredTier = await affordabilityService.getScoredTier(userId);
+        } catch (tierError: any) {
+          console.error('Error fetching credit tier for plan:', tierError.message);
+          throw new ServiceUnavailableError('Credit service');
+        }
+        if (!scoredTier) {
+          throw new ValidationError('Customer has no credit tier; plans can only be created for scored customers');
+        }
+        scheduleInput.creditTier = scoredTier;
+      }
+      const schedule = buildSchedule(scheduleInput);
+
+      // Create the plan with its installments, add-ons and payment reference, all or nothing
+      const { plan, addons, eventId } = await withTransaction(pool, async (client) => {
+        const result = await client.query(
+          `INSERT INTO payment_plans (
+            user_id, vehicle_id, vehicle_price, deposit_amount, installment_amount,
+            payment_frequency, term_length_months, total_installments, remaining_installments,
+            next_payment_date, grace_period_days, overpayment_strategy, credit_tier,
+            interest_method, annual_interest_rate, total_interest, total_payable, effective_apr, product_code,
+            skip_sundays, skip_public_holidays, retailer_id, retailer_commission_percent, vehicle_type, business_day_rule, status
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, 'active')
+          RETURNING *`,
+          [
+            userId,
+            vehicleId,
+            schedule.totalAmount,
+            schedule.depositAmount,
+            schedule.installmentAmount,
+            schedule.paymentFrequency,
+            schedule.termLengthMonths,
+            schedule.totalInstallments,
+            schedule.remainingInstallments,
+            schedule.nextPaymentDate,
+            schedule.gracePeriodDays,
+            overpaymentStrategy,
+            schedule.creditTier || null,
+            schedule.interestMethod,
+            schedule.annualInterestRate,
+            schedule.totalInterest,
+            schedule.totalPayable,
+            schedule.effectiveApr,
+            productCode || null,
+            schedule.skipSundays,
+            schedule.skipPublicHolidays,
+            retailerId || null,
+            retailerId ? RetailerSettlementService.defaultCommissionPercent() : null,
+            vehicleType || null,
+            schedule.businessDayRule,
+          ]
+        );
+
+        const plan = result.rows[0];
+        await installmentService.createInstallments(plan.id, schedule.installments, undefined, client);
+        const addons = await addonService.recordScheduledAddons(
+          plan.id,
+          scheduleInput.addons || [],
+          schedule.installments,
+          schedule.startDate,
+          undefined,
+          client
+        );
+        plan.payment_reference = await bankTransferService.assignReference(plan.id, client);
+
+        const eventId = await OutboxService.enqueue(client, 'payment.events', 'payment.plan.created', {
+          type: 'payment.plan.created',
+          payload: {
+            planId: plan.id,
+            userId: plan.user_id,
+            vehicleId: plan.vehicle_id,
+            retailerId: plan.retailer_id,
+            installmentAmount: plan.installment_amount,
+            termLengthMonths: plan.term_length_months,
+            totalPayable: plan.total_payable,
+            totalAddonCharges: schedule.totalAddonCharges,
+            addons: addons.map((addon) => ({ addonId: addon.id, addonType: addon.addonType, amount: addon.amount, frequency: addon.frequency })),
+            paymentReference: plan.payment_reference,
+          },
+          timestamp: Date.now(),
+        });
+        return { plan, addons, eventId };
       });
+      await outboxService.publishNow([eventId]);
 
-      // Create payment plan
-      const result = await pool.query(
-        `INSERT INTO payment_plans (
-          user_id, vehicle_id, vehicle_price, deposit_amount, installment_amount,
-          payment_frequency, term_length_months, total_installments, remaining_installments,
-          next_payment_date, grace_period_days, status
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, 'active')
-        RETURNING *`,
-        [
-          userId,
-          vehicleId,
-          schedule.totalAmount,
-          schedule.depositAmount,
-          schedule.installmentAmount,
-          schedule.paymentFrequency,
-          schedule.termLengthMonths,
-          schedule.totalInstallments,
-          schedule.remainingInstallments,
-          schedule.nextPaymentDate,
-          schedule.gracePeriodDays,
-        ]
-      );
+      res.status(201).json({
+        success: true,
+        data: { plan, addons },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Price a plan without creating it, so retailers can show the full cost of credit up front
+   * POST /payments/plans/quote
+   */
+  router.post('/plans/quote', async (req: Request, res: Response) => {
+    try {
+      const { vehiclePrice, depositAmount, termLengthMonths, paymentFrequency } = req.body;
 
-      const plan = result.rows[0];
+      if (!vehiclePrice || !depositAmount || !termLengthMonths || !paymentFrequency) {
+        throw new ValidationError('vehiclePrice, depositAmount, termLengthMonths, and paymentFrequency are required');
+      }
 
-      // Publish payment plan created event
-      await messageQueue.publish('payment.events', 'payment.plan.created', {
-        type: 'payment.plan.created',
-        payload: {
-          planId: plan.id,
-          userId: plan.user_id,
-          vehicleId: plan.vehicle_id,
-          installmentAmount: plan.installment_amount,
-          termLengthMonths: plan.term_length_months,
+      const schedule = buildSchedule(parseScheduleInput(req.body));
+
+      res.json({
+        success: true,
+        data: {
+          quote: {
+            vehiclePrice: schedule.totalAmount,
+            depositAmount: schedule.depositAmount,
+            amountFinanced: Math.round((schedule.totalAmount - schedule.depositAmount) * 100) / 100,
+            creditTier: schedule.creditTier,
+            interestMethod: schedule.interestMethod,
+            annualInterestRate: schedule.annualInterestRate,
+            effectiveApr: schedule.effectiveApr,
+            paymentFrequency: schedule.paymentFrequency,
+            skipSundays: schedule.skipSundays,
+            skipPublicHolidays: schedule.skipPublicHolidays,
+            termLengthMonths: schedule.termLengthMonths,
+            totalInstallments: schedule.totalInstallments,
+            installmentAmount: schedule.installmentAmount,
+            totalInterest: schedule.totalInterest,
+            totalPayable: schedule.totalPayable,
+            totalAddonCharges: schedule.totalAddonCharges,
+            installments: schedule.installments,
+          },
         },
-        timestamp: Date.now(),
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Simulate a plan for a vehicle before applying: the full schedule, total cost, installment-to-income
+   * ratio and whether the terms fit the applicant's credit tier limits
+   * POST /payments/simulate
+   */
+  router.post('/simulate', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { vehicleId, depositAmount, termLengthMonths, paymentFrequency, monthlyIncome } = req.body;
+
+      if (!vehicleId || !termLengthMonths || !paymentFrequency || monthlyIncome === undefined) {
+        throw new ValidationError('vehicleId, termLengthMonths, paymentFrequency, and monthlyIncome are required');
+      }
+
+      if (typeof monthlyIncome !== 'number' || monthlyIncome <= 0) {
+        throw new ValidationError('monthlyIncome must be a positive number');
+      }
+
+      if (depositAmount !== undefined && (typeof depositAmount !== 'number' || depositAmount <= 0)) {
+        throw new ValidationError('depositAmount must be a positive number');
+      }
+
+      let vehicle: SimulationVehicle | null;
+      try {
+        vehicle = await affordabilityService.getVehicle(vehicleId);
+      } catch (vehicleError: any) {
+        console.error('Error fetching vehicle for simulation:', vehicleError.message);
+        throw new ServiceUnavailableError('Vehicle service');
+      }
+      if (!vehicle) {
+        throw new NotFoundError('Vehicle');
+      }
+
+      // Validates the terms the same way plan creation does; the vehicle's own price is always used
+      const scheduleInput = parseScheduleInput({
+        ...req.body,
+        vehiclePrice: vehicle.price,
+        depositAmount: depositAmount ?? vehicle.depositAmount,
       });
 
-      res.status(201).json({
+      let tierLimits: TierLimits;
+      try {
+        tierLimits = await affordabilityService.getTierLimits(req.user?.userId, scheduleInput.creditTier);
+      } catch (tierError: any) {
+        console.error('Error fetching tier limits for simulation:', tierError.message);
+        throw new ServiceUnavailableError('Credit service');
+      }
+
+      let simulation;
+      try {
+        simulation = AffordabilityService.simulate(
+          {
+            vehicle,
+            depositAmount: scheduleInput.depositAmount,
+            termLengthMonths: scheduleInput.termLengthMonths,
+            paymentFrequency: scheduleInput.paymentFrequency,
+            monthlyIncome,
+            tierLimits,
+            interestMethod: scheduleInput.interestMethod,
+            skipSundays: scheduleInput.skipSundays,
+            skipPublicHolidays: scheduleInput.skipPublicHolidays,
+          },
+          maxInstallmentToIncomeRatio
+        );
+      } catch (scheduleError: any) {
+        throw new ValidationError(scheduleError.message);
+      }
+
+      res.json({
         success: true,
-        data: { plan },
+        data: { simulation },
       });
     } catch (error: any) {
       if (error.statusCode) {
@@ -161,13 +537,7 @@ export function paymentRoutes(
       }
 
       const plan = planResult.rows[0];
-      const outstandingBalance = PaymentScheduleService.calculateOutstandingBalance(
-        plan.vehicle_price,
-        plan.deposit_amount,
-        plan.installment_amount,
-        plan.total_installments,
-        plan.remaining_installments
-      );
+      const balance = await allocationService.getPlanBalance(plan);
 
       // Get total paid
       const paidResult = await pool.query(
@@ -184,7 +554,11 @@ export function paymentRoutes(
           totalAmount: plan.vehicle_price,
           depositAmount: plan.deposit_amount,
           totalPaid: parseFloat(paidResult.rows[0].total_paid),
-          outstandingBalance,
+          outstandingBalance: balance.outstandingBalance,
+          overdueAmount: balance.overdueAmount,
+          penaltyBalance: balance.penaltyBalance,
+          addonBalance: balance.addonBalance,
+          creditBalance: balance.creditBalance,
           remainingInstallments: plan.remaining_installments,
           nextPaymentDate: plan.next_payment_date,
         },
@@ -201,218 +575,173 @@ export function paymentRoutes(
   });
 
   /**
-   * Make payment (with idempotency support)
-   * POST /payments
+   * Get the installment schedule for a payment plan
+   * GET /payments/plans/:planId/schedule
    */
-  router.post('/', async (req: Request, res: Response) => {
-    let paymentId: string | undefined;
+  router.get('/plans/:planId/schedule', async (req: Request, res: Response) => {
     try {
-      const {
-        paymentPlanId,
-        userId,
-        amount,
-        paymentMethod,
-        mobileMoneyProvider,
-        phoneNumber,
-        idempotencyKey,
-        isDeposit = false,
-        currency = 'UGX', // Default to base currency
-      } = req.body;
-
-      if (!paymentPlanId || !userId || !amount || !paymentMethod) {
-        throw new ValidationError('paymentPlanId, userId, amount, and paymentMethod are required');
-      }
-
-      if (paymentMethod === 'mobile_money' && (!mobileMoneyProvider || !phoneNumber)) {
-        throw new ValidationError('mobileMoneyProvider and phoneNumber are required for mobile money payments');
-      }
-
-      // Handle currency conversion
-      let finalAmount = amount;
-      let exchangeRate = 1.0;
-      let originalAmount = amount;
-      let originalCurrency = currency;
+      const { planId } = req.params;
+      const planResult = await pool.query('SELECT * FROM payment_plans WHERE id = $1', [planId]);
 
-      if (currency !== 'UGX') {
-        try {
-          // Get exchange rate from currency to UGX
-          exchangeRate = await CurrencyService.getExchangeRate(currency, 'UGX');
-          finalAmount = amount * exchangeRate;
-
-          // Round to 2 decimal places
-          finalAmount = Math.round(finalAmount * 100) / 100;
-        } catch (error) {
-          console.error('Currency conversion error:', error);
-          throw new ValidationError(`Failed to convert currency from ${currency} to UGX`);
-        }
+      if (planResult.rows.length === 0) {
+        throw new NotFoundError('Payment plan');
       }
 
-      // Check idempotency key
-      const idempotencyKeyToUse = idempotencyKey || IdempotencyService.generateIdempotencyKey();
-      const idempotencyCheck = await idempotencyService.checkIdempotencyKey(idempotencyKeyToUse);
+      // Installments replaced by a restructure are only returned when asked for
+      const includeSuperseded = req.query.includeSuperseded === 'true';
+      const installments = (await installmentService.getSchedule(planId)).filter(
+        (installment) => includeSuperseded || installment.status !== 'superseded'
+      );
 
-      if (idempotencyCheck.exists && idempotencyCheck.responseData) {
-        return res.json({
-          success: true,
-          data: idempotencyCheck.responseData,
-          idempotent: true,
+      res.json({
+        success: true,
+        data: {
+          planId,
+          totalInstallments: planResult.rows[0].total_installments,
+          remainingInstallments: planResult.rows[0].remaining_installments,
+          installments,
+        },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
         });
       }
+      throw error;
+    }
+  });
 
-      // Verify payment plan exists
-      const planCheck = await pool.query('SELECT * FROM payment_plans WHERE id = $1 AND user_id = $2', [
-        paymentPlanId,
-        userId,
-      ]);
-      if (planCheck.rows.length === 0) {
+  /**
+   * Get an early settlement quote for a payment plan
+   * GET /payments/plans/:planId/settlement-quote
+   */
+  router.get('/plans/:planId/settlement-quote', async (req: Request, res: Response) => {
+    try {
+      const { planId } = req.params;
+      const planResult = await pool.query('SELECT * FROM payment_plans WHERE id = $1', [planId]);
+
+      if (planResult.rows.length === 0) {
         throw new NotFoundError('Payment plan');
       }
 
-      const plan = planCheck.rows[0];
-      if (plan.status !== 'active') {
-        throw new ValidationError('Payment plan is not active');
+      let quote;
+      try {
+        quote = await settlementService.createQuote(planResult.rows[0]);
+      } catch (quoteError: any) {
+        throw new ValidationError(quoteError.message);
       }
 
-      // Encrypt phone number if provided
-      const encryptedPhoneNumber = phoneNumber ? encryptionService.encrypt(phoneNumber) : null;
+      res.json({
+        success: true,
+        data: { quote },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
 
-      // Create payment record
-      const paymentResult = await pool.query(
-        `INSERT INTO payments (
-          payment_plan_id, user_id, amount, payment_method, mobile_money_provider,
-          phone_number, encrypted_phone_number, idempotency_key, status, is_deposit, due_date,
-          currency, exchange_rate, original_amount, original_currency
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'processing', $9, $10, $11, $12, $13, $14)
-        RETURNING *`,
-        [
-          paymentPlanId,
-          userId,
-          finalAmount,
-          paymentMethod,
-          mobileMoneyProvider,
-          phoneNumber,
-          encryptedPhoneNumber,
-          idempotencyKeyToUse,
-          isDeposit,
-          isDeposit ? null : plan.next_payment_date,
-          'UGX',
-          exchangeRate,
-          originalAmount,
-          originalCurrency
-        ]
-      );
+  /**
+   * Restructure a plan: extend the term, add a payment holiday or change frequency
+   * POST /payments/plans/:planId/restructure
+   */
+  router.post('/plans/:planId/restructure', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { planId } = req.params;
+      const { extendByMonths, paymentHolidayInstallments, paymentFrequency, reason } = req.body;
 
-      const payment = paymentResult.rows[0];
-      paymentId = payment.id;
+      if (!reason) {
+        throw new ValidationError('reason is required');
+      }
 
-      // Process payment
-      try {
-        let externalTransactionId: string | undefined;
+      if (extendByMonths !== undefined && !(Number.isInteger(extendByMonths) && extendByMonths > 0 && extendByMonths <= 36)) {
+        throw new ValidationError('extendByMonths must be a whole number between 1 and 36');
+      }
 
-        if (paymentMethod === 'mobile_money') {
-          const mobileMoneyRequest: MobileMoneyPaymentRequest = {
-            amount,
-            phoneNumber: phoneNumber!,
-            provider: mobileMoneyProvider as any,
-            reference: payment.id,
-            description: isDeposit ? 'Vehicle deposit payment' : 'Vehicle installment payment',
-          };
+      if (
+        paymentHolidayInstallments !== undefined &&
+        !(Number.isInteger(paymentHolidayInstallments) && paymentHolidayInstallments > 0 && paymentHolidayInstallments <= 12)
+      ) {
+        throw new ValidationError('paymentHolidayInstallments must be a whole number between 1 and 12');
+      }
 
-          const mobileMoneyResponse = await mobileMoneyService.initiatePayment(mobileMoneyRequest);
+      if (paymentFrequency !== undefined && !['daily', 'weekly', 'monthly'].includes(paymentFrequency)) {
+        throw new ValidationError('paymentFrequency must be daily, weekly, or monthly');
+      }
 
-          if (!mobileMoneyResponse.success) {
-            throw new Error(mobileMoneyResponse.message || 'Mobile money payment failed');
-          }
+      const planResult = await pool.query('SELECT * FROM payment_plans WHERE id = $1', [planId]);
+      if (planResult.rows.length === 0) {
+        throw new NotFoundError('Payment plan');
+      }
+      const existingPlan = planResult.rows[0];
 
-          externalTransactionId = mobileMoneyResponse.externalTransactionId;
+      const changesFrequency = paymentFrequency !== undefined && paymentFrequency !== existingPlan.payment_frequency;
+      if (!extendByMonths && !paymentHolidayInstallments && !changesFrequency) {
+        throw new ValidationError('Provide extendByMonths, paymentHolidayInstallments, or a new paymentFrequency');
+      }
 
-          // Update payment with external transaction ID
-          await pool.query(
-            `UPDATE payments SET external_transaction_id = $1 WHERE id = $2`,
-            [externalTransactionId, payment.id]
+      // The restructure and its event commit together
+      const { restructure, plan, eventId } = await withTransaction(pool, async (client) => {
+        let result;
+        try {
+          result = await restructureService.restructurePlan(
+            existingPlan.id,
+            {
+              extendByMonths,
+              paymentHolidayInstallments,
+              paymentFrequency,
+              reason,
+              requestedBy: req.user!.userId,
+            },
+            client
           );
+        } catch (restructureError: any) {
+          throw new ValidationError(restructureError.message);
         }
+        const { restructure, plan } = result;
 
-        // Update payment status to completed
-        await pool.query(
-          `UPDATE payments SET status = 'completed', processed_at = CURRENT_TIMESTAMP WHERE id = $1`,
-          [payment.id]
+        // Give the customer until the first restructured installment (plus grace) before any immobilization
+        const holdUntil = PaymentScheduleService.calculateDueDateWithGrace(
+          new Date(plan.next_payment_date),
+          plan.grace_period_days
         );
 
-        // Update payment plan if not a deposit
-        if (!isDeposit) {
-          const newRemaining = plan.remaining_installments - 1;
-          const nextPaymentDate = PaymentScheduleService.calculateNextPaymentDate(
-            new Date(plan.next_payment_date),
-            plan.payment_frequency
-          );
-          const planStatus = newRemaining === 0 ? 'completed' : 'active';
-
-          await pool.query(
-            `UPDATE payment_plans 
-             SET remaining_installments = $1, next_payment_date = $2, status = $3, updated_at = CURRENT_TIMESTAMP 
-             WHERE id = $4`,
-            [newRemaining, nextPaymentDate, planStatus, paymentPlanId]
-          );
-        }
-
-        // Store idempotency key
-        const responseData = {
-          payment: {
-            ...payment,
-            status: 'completed',
-            external_transaction_id: externalTransactionId,
-          },
-        };
-        await idempotencyService.storeIdempotencyKey(idempotencyKeyToUse, payment.id, responseData);
-
-        // Publish payment completed event
-        await messageQueue.publish('payment.events', 'payment.completed', {
-          type: 'payment.completed',
+        const eventId = await OutboxService.enqueue(client, 'payment.events', 'payment.plan.restructured', {
+          type: 'payment.plan.restructured',
           payload: {
-            paymentId: payment.id,
-            paymentPlanId: payment.payment_plan_id,
-            userId: payment.user_id,
-            amount: payment.amount,
-            isDeposit,
+            planId: plan.id,
+            userId: plan.user_id,
+            vehicleId: plan.vehicle_id,
+            restructureId: restructure.id,
+            installmentAmount: plan.installment_amount,
+            paymentFrequency: plan.payment_frequency,
+            nextPaymentDate: plan.next_payment_date,
+            holidayInstallments: restructure.holidayInstallments,
+            holdUntil,
           },
           timestamp: Date.now(),
         });
+        return { restructure, plan, eventId };
+      });
+      await outboxService.publishNow([eventId]);
 
-        res.json({
-          success: true,
-          data: responseData,
-        });
-      } catch (paymentError: any) {
-        // Update payment status to failed
-        await pool.query(
-          `UPDATE payments SET status = 'failed', failure_reason = $1 WHERE id = $2`,
-          [paymentError.message, payment.id]
-        );
-
-        // Schedule retry if not a deposit and retries available
-        if (!isDeposit && payment.retry_count < payment.max_retries) {
-          try {
-            await retryService.scheduleRetry(payment.id, payment.retry_count);
-          } catch (retryError) {
-            console.error('Failed to schedule retry:', retryError);
-          }
-        }
-
-        // Publish payment failed event
-        await messageQueue.publish('payment.events', 'payment.failed', {
-          type: 'payment.failed',
-          payload: {
-            paymentId: payment.id,
-            paymentPlanId: payment.payment_plan_id,
-            userId: payment.user_id,
-            reason: paymentError.message,
-          },
-          timestamp: Date.now(),
-        });
+      await auditLogger.logAction('payment_plan', plan.id, 'plan.restructured', req.user!.userId, reason, {
+        restructureId: restructure.id,
+        previousTerms: restructure.previousTerms,
+        newTerms: restructure.newTerms,
+      });
 
-        throw paymentError;
-      }
+      res.json({
+        success: true,
+        data: { plan, restructure },
+      });
     } catch (error: any) {
       if (error.statusCode) {
         return res.status(error.statusCode).json({
@@ -425,104 +754,501 @@ export function paymentRoutes(
   });
 
   /**
-   * Mobile money callback endpoint
-   * POST /payments/callbacks/mobile-money
+   * Get restructuring history for a plan
+   * GET /payments/plans/:planId/restructures
    */
-  router.post('/callbacks/mobile-money', async (req: Request, res: Response) => {
+  router.get('/plans/:planId/restructures', async (req: Request, res: Response) => {
     try {
-      const callback = req.body;
-
-      // Process callback
-      const callbackResult = await mobileMoneyService.processCallback(callback);
+      const { planId } = req.params;
+      const restructures = await restructureService.getRestructures(planId);
 
-      if (!callbackResult.valid || !callbackResult.paymentId) {
-        return res.status(400).json({
+      res.json({
+        success: true,
+        data: { planId, restructures },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
           success: false,
-          error: { message: 'Invalid callback', code: 'INVALID_CALLBACK' },
+          error: { message: error.message, code: error.code },
         });
       }
+      throw error;
+    }
+  });
 
-      // Store callback
-      await pool.query(
-        `INSERT INTO mobile_money_callbacks (payment_id, provider, callback_data, status)
-         VALUES ($1, $2, $3, 'received')
-         RETURNING *`,
-        [callbackResult.paymentId, callback.provider, JSON.stringify(callback)]
-      );
+  /**
+   * Download a statement of a plan's account for a period
+   * GET /payments/plans/:planId/statement?from=2024-01-01&to=2024-01-31&format=pdf|csv|json
+   */
+  router.get('/plans/:planId/statement', async (req: Request, res: Response) => {
+    try {
+      const { planId } = req.params;
+      const { from, to, format = 'pdf' } = req.query;
 
-      // Update payment based on callback status
-      if (callback.status === 'success') {
-        await pool.query(
-          `UPDATE payments 
-           SET status = 'completed', 
-               external_transaction_id = $1,
-               processed_at = CURRENT_TIMESTAMP
-           WHERE id = $2 AND status != 'completed'`,
-          [callback.externalTransactionId, callbackResult.paymentId]
-        );
+      if (!['pdf', 'csv', 'json'].includes(format as string)) {
+        throw new ValidationError('format must be pdf, csv, or json');
+      }
 
-        // Get payment details
-        const paymentResult = await pool.query('SELECT * FROM payments WHERE id = $1', [callbackResult.paymentId]);
-        if (paymentResult.rows.length > 0) {
-          const payment = paymentResult.rows[0];
-
-          // Update payment plan
-          const planResult = await pool.query('SELECT * FROM payment_plans WHERE id = $1', [payment.payment_plan_id]);
-          if (planResult.rows.length > 0 && !payment.is_deposit) {
-            const plan = planResult.rows[0];
-            const newRemaining = plan.remaining_installments - 1;
-            const nextPaymentDate = PaymentScheduleService.calculateNextPaymentDate(
-              new Date(plan.next_payment_date),
-              plan.payment_frequency
-            );
-            const planStatus = newRemaining === 0 ? 'completed' : 'active';
-
-            await pool.query(
-              `UPDATE payment_plans 
-               SET remaining_installments = $1, next_payment_date = $2, status = $3, updated_at = CURRENT_TIMESTAMP 
-               WHERE id = $4`,
-              [newRemaining, nextPaymentDate, planStatus, payment.payment_plan_id]
-            );
-          }
-
-          // Publish payment completed event
-          await messageQueue.publish('payment.events', 'payment.completed', {
-            type: 'payment.completed',
-            payload: {
-              paymentId: payment.id,
-              paymentPlanId: payment.payment_plan_id,
-              userId: payment.user_id,
-              amount: payment.amount,
-            },
-            timestamp: Date.now(),
+      // Defaults to the current month to date
+      const today = new Date();
+      const periodStart = from ? new Date(from as string) : new Date(today.getFullYear(), today.getMonth(), 1);
+      const periodEnd = to ? new Date(to as string) : today;
+      if (isNaN(periodStart.getTime()) || isNaN(periodEnd.getTime())) {
+        throw new ValidationError('from and to must be valid dates (YYYY-MM-DD)');
+      }
+      if (periodStart > periodEnd) {
+        throw new ValidationError('from must be on or before to');
+      }
+
+      const statement = await statementService.getStatement(planId, periodStart, periodEnd);
+      if (!statement) {
+        throw new NotFoundError('Payment plan');
+      }
+
+      if (format === 'json') {
+        return res.json({
+          success: true,
+          data: { statement },
+        });
+      }
+
+      const fileName = `statement-${planId}-${periodStart.toISOString().slice(0, 10)}-${periodEnd.toISOString().slice(0, 10)}`;
+      if (format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="${fileName}.csv"`);
+        return res.send(StatementService.renderStatementCsv(statement));
+      }
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}.pdf"`);
+      res.send(StatementService.renderStatementPdf(statement));
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Settle a payment plan early using a previously issued quote
+   * POST /payments/plans/:planId/settle
+   */
+  router.post('/plans/:planId/settle', async (req: Request, res: Response) => {
+    try {
+      const { planId } = req.params;
+      const { quoteId, userId, paymentMethod, mobileMoneyProvider, phoneNumber, idempotencyKey } = req.body;
+
+      if (!quoteId || !userId || !paymentMethod) {
+        throw new ValidationError('quoteId, userId, and paymentMethod are required');
+      }
+
+      if (paymentMethod === 'mobile_money' && (!mobileMoneyProvider || !phoneNumber)) {
+        throw new ValidationError('mobileMoneyProvider and phoneNumber are required for mobile money payments');
+      }
+
+      // Replays of a settled quote must return the original response, not fail on the used quote
+      if (idempotencyKey) {
+        const idempotencyCheck = await idempotencyService.checkIdempotencyKey(idempotencyKey);
+        if (idempotencyCheck.exists && idempotencyCheck.responseData) {
+          return res.json({
+            success: true,
+            data: idempotencyCheck.responseData,
+            idempotent: true,
           });
         }
-      } else {
-        await pool.query(
-          `UPDATE payments SET status = 'failed', failure_reason = $1 WHERE id = $2`,
-          [callback.message || 'Payment failed', callbackResult.paymentId]
+      }
+
+      const quote = await settlementService.getValidQuote(quoteId, planId);
+      if (!quote) {
+        throw new ValidationError('Settlement quote is invalid or has expired', 'INVALID_SETTLEMENT_QUOTE');
+      }
+
+      if (quote.userId !== userId) {
+        throw new NotFoundError('Payment plan');
+      }
+
+      // Stop a second settlement being collected while the customer is still approving the first, or it is held for review
+      const awaitingCheck = await pool.query(
+        `SELECT id FROM payments WHERE settlement_quote_id = $1 AND status = ANY($2)`,
+        [quote.id, [...AWAITING_CONFIRMATION_STATUSES, 'on_hold']]
+      );
+      if (awaitingCheck.rows.length > 0) {
+        throw new ValidationError('A payment for this settlement quote is already awaiting confirmation', 'SETTLEMENT_PENDING_CONFIRMATION');
+      }
+
+      const { responseData, idempotent } = await processPayment({
+        paymentPlanId: planId,
+        userId,
+        amount: quote.settlementAmount,
+        paymentMethod,
+        mobileMoneyProvider,
+        phoneNumber,
+        idempotencyKey,
+        settlementQuoteId: quote.id,
+        deviceId: req.body.deviceId || (req.headers['x-device-id'] as string | undefined),
+        ipAddress: req.ip,
+      });
+
+      res.json({
+        success: true,
+        data: {
+          ...responseData,
+          quote: { ...quote, status: responseData.payment.status === 'completed' ? 'settled' : quote.status },
+        },
+        ...(idempotent && { idempotent: true }),
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  // Fraud screening outcomes are published for the admin alerting that reviews them. They are written to
+  // the outbox with the screening or held payment, so an alert is never lost.
+  async function enqueueFraudEvent(db: Queryable, routingKey: string, screening: FraudScreening): Promise<string> {
+    return OutboxService.enqueue(db, 'payment.events', routingKey, {
+      type: routingKey,
+      payload: {
+        screeningId: screening.id,
+        paymentId: screening.paymentId,
+        paymentPlanId: screening.paymentPlanId,
+        userId: screening.userId,
+        amount: screening.amount,
+        decision: screening.decision,
+        rules: screening.reasons.map((reason) => reason.rule),
+      },
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Collect a payment against a plan and apply it on success.
+   * Shared by POST /payments and early settlement so both get the same
+   * idempotency, retry and event handling. Mobile money payments are left
+   * pending_confirmation until the customer approves the prompt; payments
+   * held by fraud screening are left on_hold until an admin reviews them.
+   */
+  async function processPayment(input: ProcessPaymentInput): Promise<{ responseData: any; idempotent: boolean }> {
+    const {
+      paymentPlanId,
+      userId,
+      amount,
+      paymentMethod,
+      mobileMoneyProvider,
+      phoneNumber,
+      idempotencyKey,
+      isDeposit = false,
+      currency = 'UGX', // Default to base currency
+      settlementQuoteId,
+      deviceId,
+      ipAddress,
+    } = input;
+
+    // Nothing can be collected from a bank account - the transfer is applied when it shows up on a statement
+    if (paymentMethod === 'bank_transfer') {
+      throw new ValidationError(
+        'Bank transfers are applied automatically once they arrive; pay to the plan\'s payment reference',
+        'BANK_TRANSFER_BY_REFERENCE'
+      );
+    }
+
+    // Handle currency conversion
+    let finalAmount = amount;
+    let exchangeRate = 1.0;
+    let originalAmount = amount;
+    let originalCurrency = currency;
+
+    if (currency !== 'UGX') {
+      try {
+        // Get exchange rate from currency to UGX
+        exchangeRate = await CurrencyService.getExchangeRate(currency, 'UGX');
+        finalAmount = amount * exchangeRate;
+
+        // Round to 2 decimal places
+        finalAmount = Math.round(finalAmount * 100) / 100;
+      } catch (error) {
+        console.error('Currency conversion error:', error);
+        throw new ValidationError(`Failed to convert currency from ${currency} to UGX`);
+      }
+    }
+
+    // Check idempotency key
+    const idempotencyKeyToUse = idempotencyKey || IdempotencyService.generateIdempotencyKey();
+    const idempotencyCheck = await idempotencyService.checkIdempotencyKey(idempotencyKeyToUse);
+
+    if (idempotencyCheck.exists && idempotencyCheck.responseData) {
+      return { responseData: idempotencyCheck.responseData, idempotent: true };
+    }
+
+    // Verify payment plan exists
+    const planCheck = await pool.query('SELECT * FROM payment_plans WHERE id = $1 AND user_id = $2', [
+      paymentPlanId,
+      userId,
+    ]);
+    if (planCheck.rows.length === 0) {
+      throw new NotFoundError('Payment plan');
+    }
+
+    const plan = planCheck.rows[0];
+    // Overdue plans can still pay their arrears and penalties, or settle in full
+    if (!['active', 'overdue'].includes(plan.status)) {
+      throw new ValidationError('Payment plan is not active');
+    }
+
+    // Screen the attempt before anything is sent to the provider
+    const { screening, blockedEventId } = await withTransaction(pool, async (client) => {
+      const screening = await fraudScreeningService.screen({
+        paymentPlanId,
+        userId,
+        amount: finalAmount,
+        phoneNumber,
+        deviceId,
+        ipAddress,
+        isDeposit,
+        isSettlement: !!settlementQuoteId,
+        installmentAmount: parseFloat(plan.installment_amount),
+        depositAmount: parseFloat(plan.deposit_amount),
+      }, client);
+      const blockedEventId = screening.decision === 'block'
+        ? await enqueueFraudEvent(client, 'payment.fraud.blocked', screening)
+        : null;
+      return { screening, blockedEventId };
+    });
+
+    if (blockedEventId) {
+      await outboxService.publishNow([blockedEventId]);
+      // The payer is not told which rule stopped them
+      throw new ForbiddenError('This payment cannot be accepted. Please contact support.', 'PAYMENT_BLOCKED');
+    }
+
+    // Encrypt phone number if provided
+    const encryptedPhoneNumber = phoneNumber ? encryptionService.encrypt(phoneNumber) : null;
+
+    // Create payment record; a held payment is announced with the hold
+    const { payment, reviewEventIds } = await withTransaction(pool, async (client) => {
+      const paymentResult = await client.query(
+        `INSERT INTO payments (
+          payment_plan_id, user_id, amount, payment_method, mobile_money_provider,
+          phone_number, encrypted_phone_number, idempotency_key, status, is_deposit, due_date,
+          currency, exchange_rate, original_amount, original_currency, settlement_quote_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+        RETURNING *`,
+        [
+          paymentPlanId,
+          userId,
+          finalAmount,
+          paymentMethod,
+          mobileMoneyProvider,
+          phoneNumber,
+          encryptedPhoneNumber,
+          idempotencyKeyToUse,
+          screening.decision === 'review' ? 'on_hold' : 'processing',
+          isDeposit,
+          isDeposit ? null : plan.next_payment_date,
+          'UGX',
+          exchangeRate,
+          originalAmount,
+          originalCurrency,
+          settlementQuoteId || null,
+        ]
+      );
+
+      const payment = paymentResult.rows[0];
+      await fraudScreeningService.attachPayment(screening.id, payment.id, client);
+
+      const reviewEventIds = screening.decision === 'review'
+        ? [await enqueueFraudEvent(client, 'payment.fraud.review_required', { ...screening, paymentId: payment.id })]
+        : [];
+      return { payment, reviewEventIds };
+    });
+
+    // Held payments go to the provider only once an admin releases them
+    if (screening.decision === 'review') {
+      const responseData = { payment };
+      await idempotencyService.storeIdempotencyKey(idempotencyKeyToUse, payment.id, responseData);
+      await outboxService.publishNow(reviewEventIds);
+      return { responseData, idempotent: false };
+    }
+
+    // Process payment
+    try {
+      let responseData: any;
+
+      if (paymentMethod === 'mobile_money') {
+        const mobileMoneyRequest: MobileMoneyPaymentRequest = {
+          amount,
+          phoneNumber: phoneNumber!,
+          provider: mobileMoneyProvider as any,
+          reference: payment.id,
+          description: settlementQuoteId
+            ? 'Vehicle early settlement payment'
+            : isDeposit ? 'Vehicle deposit payment' : 'Vehicle installment payment',
+        };
+
+        const mobileMoneyResponse = await mobileMoneyService.initiatePayment(mobileMoneyRequest);
+
+        if (!mobileMoneyResponse.success) {
+          throw new Error(mobileMoneyResponse.message || 'Mobile money payment failed');
+        }
+
+        // The customer still has to approve the prompt; the callback or status poller completes it
+        const pendingResult = await pool.query(
+          `UPDATE payments
+           SET status = 'pending_confirmation', external_transaction_id = $1, confirmation_expires_at = $2
+           WHERE id = $3
+           RETURNING *`,
+          [mobileMoneyResponse.externalTransactionId, PaymentConfirmationService.confirmationDeadline(), payment.id]
         );
+        responseData = { payment: pendingResult.rows[0] };
+      } else {
+        const confirmedPayment = await confirmationService.confirmPayment(payment.id, 'direct');
+        responseData = { payment: confirmedPayment };
+      }
 
-        // Publish payment failed event
-        await messageQueue.publish('payment.events', 'payment.failed', {
-          type: 'payment.failed',
-          payload: {
-            paymentId: callbackResult.paymentId,
-            reason: callback.message || 'Payment failed',
-          },
-          timestamp: Date.now(),
+      // Store idempotency key
+      await idempotencyService.storeIdempotencyKey(idempotencyKeyToUse, payment.id, responseData);
+
+      return { responseData, idempotent: false };
+    } catch (paymentError: any) {
+      // Marks the payment failed, schedules installment retries and publishes payment.failed
+      await confirmationService.failPayment(payment.id, paymentError.message, 'direct');
+
+      throw paymentError;
+    }
+  }
+
+  /**
+   * Make payment (with idempotency support)
+   * POST /payments
+   */
+  router.post('/', async (req: Request, res: Response) => {
+    try {
+      const {
+        paymentPlanId,
+        userId,
+        amount,
+        paymentMethod,
+        mobileMoneyProvider,
+        phoneNumber,
+        idempotencyKey,
+        isDeposit = false,
+        currency = 'UGX',
+      } = req.body;
+
+      if (!paymentPlanId || !userId || !amount || !paymentMethod) {
+        throw new ValidationError('paymentPlanId, userId, amount, and paymentMethod are required');
+      }
+
+      if (paymentMethod === 'mobile_money' && (!mobileMoneyProvider || !phoneNumber)) {
+        throw new ValidationError('mobileMoneyProvider and phoneNumber are required for mobile money payments');
+      }
+
+      const { responseData, idempotent } = await processPayment({
+        paymentPlanId,
+        userId,
+        amount,
+        paymentMethod,
+        mobileMoneyProvider,
+        phoneNumber,
+        idempotencyKey,
+        isDeposit,
+        currency,
+        deviceId: req.body.deviceId || (req.headers['x-device-id'] as string | undefined),
+        ipAddress: req.ip,
+      });
+
+      res.json({
+        success: true,
+        data: responseData,
+        ...(idempotent && { idempotent: true }),
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Mobile money callback endpoint
+   * POST /payments/callbacks/mobile-money
+   */
+  router.post('/callbacks/mobile-money', async (req: Request, res: Response) => {
+    try {
+      const callback = req.body;
+
+      // Signature, timestamp window and nonce must all check out before anything is touched
+      const verification = await callbackVerificationService.verify(callback);
+      if (!verification.valid) {
+        await callbackVerificationService.recordRejection(callback, verification, req.ip);
+        return res.status(CALLBACK_REJECTION_STATUS[verification.code!]).json({
+          success: false,
+          error: { message: verification.reason, code: verification.code },
         });
       }
 
+      // Process callback
+      const callbackResult = await mobileMoneyService.processCallback(callback);
+
+      if (!callbackResult.valid || !callbackResult.paymentId) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Invalid callback', code: 'INVALID_CALLBACK' },
+        });
+      }
+
+      const paymentCheck = await pool.query('SELECT id FROM payments WHERE id = $1', [callbackResult.paymentId]);
+      if (paymentCheck.rows.length === 0) {
+        throw new NotFoundError('Payment');
+      }
+
+      // Store callback; a concurrent request with the same nonce is a replay
+      const callbackId = await callbackVerificationService.recordCallback(callback, callbackResult.paymentId, req.ip);
+      if (!callbackId) {
+        const replay = { valid: false, code: 'CALLBACK_REPLAYED' as const, reason: 'Callback nonce has already been used' };
+        await callbackVerificationService.recordRejection(callback, replay, req.ip);
+        return res.status(CALLBACK_REJECTION_STATUS[replay.code]).json({
+          success: false,
+          error: { message: replay.reason, code: replay.code },
+        });
+      }
+
+      // Both outcomes are guarded, so duplicate or late callbacks are not applied twice
+      if (callback.status === 'success') {
+        await confirmationService.confirmPayment(callbackResult.paymentId, 'callback', callback.externalTransactionId);
+      } else {
+        await confirmationService.failPayment(callbackResult.paymentId, callback.message || 'Payment failed', 'callback');
+      }
+
       // Mark callback as processed
       await pool.query(
         `UPDATE mobile_money_callbacks SET status = 'processed', processed_at = CURRENT_TIMESTAMP 
-         WHERE payment_id = $1`,
-        [callbackResult.paymentId]
+         WHERE id = $1`,
+        [callbackId]
       );
 
       res.json({ success: true, message: 'Callback processed' });
     } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
       console.error('Error processing callback:', error);
       res.status(500).json({
         success: false,
@@ -531,6 +1257,30 @@ export function paymentRoutes(
     }
   });
 
+  /**
+   * List rejected mobile money callbacks for review
+   * GET /payments/callbacks/rejected
+   */
+  router.get('/callbacks/rejected', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { limit = 50 } = req.query;
+      const callbacks = await callbackVerificationService.getRejectedCallbacks(parseInt(limit as string));
+
+      res.json({
+        success: true,
+        data: { callbacks },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
   /**
    * Get payment history
    * GET /payments/history/:userId
@@ -540,23 +1290,26 @@ export function paymentRoutes(
       const { userId } = req.params;
       const { limit = 50, offset = 0, status, paymentPlanId } = req.query;
 
-      let query = `SELECT * FROM payments WHERE user_id = $1`;
+      let query = `SELECT p.*, r.receipt_number
+                   FROM payments p
+                   LEFT JOIN payment_receipts r ON r.payment_id = p.id
+                   WHERE p.user_id = $1`;
       const params: any[] = [userId];
       let paramIndex = 2;
 
       if (status) {
-        query += ` AND status = $${paramIndex}`;
+        query += ` AND p.status = $${paramIndex}`;
         params.push(status);
         paramIndex++;
       }
 
       if (paymentPlanId) {
-        query += ` AND payment_plan_id = $${paramIndex}`;
+        query += ` AND p.payment_plan_id = $${paramIndex}`;
         params.push(paymentPlanId);
         paramIndex++;
       }
 
-      query += ` ORDER BY created_at DESC LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`;
+      query += ` ORDER BY p.created_at DESC LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`;
       params.push(parseInt(limit as string), parseInt(offset as string));
 
       const result = await pool.query(query, params);
@@ -601,19 +1354,17 @@ export function paymentRoutes(
       const planBalances: any[] = [];
 
       for (const plan of plansResult.rows) {
-        const balance = PaymentScheduleService.calculateOutstandingBalance(
-          plan.vehicle_price,
-          plan.deposit_amount,
-          plan.installment_amount,
-          plan.total_installments,
-          plan.remaining_installments
-        );
-        totalOutstanding += balance;
+        const balance = await allocationService.getPlanBalance(plan);
+        totalOutstanding += balance.outstandingBalance;
 
         planBalances.push({
           planId: plan.id,
           vehicleId: plan.vehicle_id,
-          outstandingBalance: balance,
+          outstandingBalance: balance.outstandingBalance,
+          overdueAmount: balance.overdueAmount,
+          penaltyBalance: balance.penaltyBalance,
+          addonBalance: balance.addonBalance,
+          creditBalance: balance.creditBalance,
           remainingInstallments: plan.remaining_installments,
           nextPaymentDate: plan.next_payment_date,
           status: plan.status,
@@ -624,7 +1375,7 @@ export function paymentRoutes(
         success: true,
         data: {
           userId,
-          totalOutstandingBalance: totalOutstanding,
+          totalOutstandingBalance: Math.round(totalOutstanding * 100) / 100,
           plans: planBalances,
         },
       });
@@ -639,5 +1390,206 @@ export function paymentRoutes(
     }
   });
 
+  /**
+   * Get the current status of a payment, so clients can poll while the customer approves the prompt
+   * GET /payments/:paymentId/status
+   */
+  router.get('/:paymentId/status', async (req: Request, res: Response) => {
+    try {
+      const { paymentId } = req.params;
+      const result = await pool.query(
+        `SELECT id, payment_plan_id, status, amount, failure_reason, external_transaction_id,
+                confirmation_expires_at, processed_at
+         FROM payments WHERE id = $1`,
+        [paymentId]
+      );
+      if (result.rows.length === 0) {
+        throw new NotFoundError('Payment');
+      }
+
+      const payment = result.rows[0];
+      res.json({
+        success: true,
+        data: {
+          paymentId: payment.id,
+          paymentPlanId: payment.payment_plan_id,
+          status: payment.status,
+          amount: parseFloat(payment.amount),
+          awaitingConfirmation: AWAITING_CONFIRMATION_STATUSES.includes(payment.status),
+          confirmationExpiresAt: payment.confirmation_expires_at,
+          failureReason: payment.failure_reason,
+          externalTransactionId: payment.external_transaction_id,
+          processedAt: payment.processed_at,
+        },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Refund all or part of a completed payment
+   * POST /payments/:paymentId/refund
+   */
+  router.post('/:paymentId/refund', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { paymentId } = req.params;
+      const { amount, reason, phoneNumber, mobileMoneyProvider } = req.body;
+
+      if (!reason) {
+        throw new ValidationError('reason is required');
+      }
+
+      if (amount !== undefined && (typeof amount !== 'number' || amount <= 0)) {
+        throw new ValidationError('amount must be a positive number');
+      }
+
+      let result;
+      try {
+        result = await refundService.refundPayment(paymentId, {
+          amount,
+          reason,
+          requestedBy: req.user!.userId,
+          phoneNumber,
+          mobileMoneyProvider,
+        });
+      } catch (refundError: any) {
+        throw new ValidationError(refundError.message);
+      }
+
+      if (!result) {
+        throw new NotFoundError('Payment');
+      }
+
+      const { refund, payment, reversals } = result;
+      await auditLogger.logAction('payment', payment.id, `refund.${refund.status}`, req.user!.userId, reason, {
+        refundId: refund.id,
+        amount: refund.amount,
+        failureReason: refund.failureReason,
+      });
+
+      // payment.refunded / payment.refund.failed were written to the outbox with the refund
+      if (refund.status !== 'completed') {
+        throw new ValidationError(refund.failureReason || 'Refund failed', 'REFUND_FAILED');
+      }
+
+      res.json({
+        success: true,
+        data: { refund, payment, reversals },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Get the refunds made against a payment
+   * GET /payments/:paymentId/refunds
+   */
+  router.get('/:paymentId/refunds', async (req: Request, res: Response) => {
+    try {
+      const { paymentId } = req.params;
+      const refunds = await refundService.getRefundsForPayment(paymentId);
+
+      res.json({
+        success: true,
+        data: { paymentId, refunds },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Get how a payment was allocated across installments and plan credit
+   * GET /payments/:paymentId/allocations
+   */
+  router.get('/:paymentId/allocations', async (req: Request, res: Response) => {
+    try {
+      const { paymentId } = req.params;
+      const paymentResult = await pool.query('SELECT id FROM payments WHERE id = $1', [paymentId]);
+
+      if (paymentResult.rows.length === 0) {
+        throw new NotFoundError('Payment');
+      }
+
+      const allocations = await allocationService.getAllocationsForPayment(paymentId);
+
+      res.json({
+        success: true,
+        data: { paymentId, allocations },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Download the receipt for a completed payment
+   * GET /payments/:paymentId/receipt?format=pdf|json
+   */
+  router.get('/:paymentId/receipt', async (req: Request, res: Response) => {
+    try {
+      const { paymentId } = req.params;
+      const { format = 'pdf' } = req.query;
+
+      if (!['pdf', 'json'].includes(format as string)) {
+        throw new ValidationError('format must be pdf or json');
+      }
+
+      const receipt = await statementService.getReceipt(paymentId);
+      if (!receipt) {
+        const paymentResult = await pool.query('SELECT status FROM payments WHERE id = $1', [paymentId]);
+        if (paymentResult.rows.length === 0) {
+          throw new NotFoundError('Payment');
+        }
+        throw new ValidationError('Receipts are only available for completed payments', 'PAYMENT_NOT_COMPLETED');
+      }
+
+      if (format === 'json') {
+        return res.json({
+          success: true,
+          data: { receipt },
+        });
+      }
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${receipt.receiptNumber}.pdf"`);
+      res.send(StatementService.renderReceiptPdf(receipt));
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
   return router;
 }
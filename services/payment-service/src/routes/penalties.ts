@@ -0,0 +1,274 @@
+import { Router, Response } from 'express';
+import { Pool } from 'pg';
+import { MessageQueueClient } from '@rent-to-own/message-queue';
+import { NotFoundError, ValidationError } from '@rent-to-own/errors';
+import { AuthenticatedRequest, checkRole } from '../middleware/auth';
+import { PenaltyService, PenaltyRuleScope, PenaltyRuleType } from '../services/penalties';
+import { AuditLogger } from '../services/auditLogger';
+
+export function penaltyRoutes(pool: Pool, messageQueue: MessageQueueClient): Router {
+  const router = Router();
+  const penaltyService = new PenaltyService(pool);
+  const auditLogger = new AuditLogger(pool);
+
+  /**
+   * Create a penalty rule
+   * POST /payments/penalties/rules
+   */
+  router.post('/rules', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const {
+        name,
+        scope,
+        paymentPlanId,
+        productCode,
+        ruleType,
+        amount = 0,
+        percentage = 0,
+        capAmount,
+        startAfterDays = 0,
+      } = req.body;
+
+      if (!name || !scope || !ruleType) {
+        throw new ValidationError('name, scope, and ruleType are required');
+      }
+
+      if (!['default', 'product', 'plan'].includes(scope)) {
+        throw new ValidationError('scope must be default, product, or plan');
+      }
+
+      if (scope === 'plan' && !paymentPlanId) {
+        throw new ValidationError('paymentPlanId is required for plan rules');
+      }
+
+      if (scope === 'product' && !productCode) {
+        throw new ValidationError('productCode is required for product rules');
+      }
+
+      if (!['fixed_fee', 'daily_percentage'].includes(ruleType)) {
+        throw new ValidationError('ruleType must be fixed_fee or daily_percentage');
+      }
+
+      if (ruleType === 'fixed_fee' && !(amount > 0)) {
+        throw new ValidationError('amount must be greater than 0 for fixed_fee rules');
+      }
+
+      if (ruleType === 'daily_percentage' && !(percentage > 0 && percentage <= 100)) {
+        throw new ValidationError('percentage must be between 0 and 100 for daily_percentage rules');
+      }
+
+      if (capAmount !== undefined && capAmount !== null && !(capAmount > 0)) {
+        throw new ValidationError('capAmount must be greater than 0');
+      }
+
+      const rule = await penaltyService.createRule({
+        name,
+        scope: scope as PenaltyRuleScope,
+        paymentPlanId: scope === 'plan' ? paymentPlanId : undefined,
+        productCode: scope === 'product' ? productCode : undefined,
+        ruleType: ruleType as PenaltyRuleType,
+        amount,
+        percentage,
+        capAmount: capAmount ?? undefined,
+        startAfterDays,
+      });
+
+      await auditLogger.logAction('penalty_rule', rule.id, 'penalty_rule.created', req.user!.userId, undefined, rule);
+
+      res.status(201).json({
+        success: true,
+        data: { rule },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * List penalty rules
+   * GET /payments/penalties/rules?planId=uuid&productCode=code
+   */
+  router.get('/rules', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { planId, productCode } = req.query;
+      const rules = await penaltyService.listRules({
+        paymentPlanId: planId as string | undefined,
+        productCode: productCode as string | undefined,
+      });
+
+      res.json({
+        success: true,
+        data: { rules },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Enable or disable a penalty rule
+   * PATCH /payments/penalties/rules/:ruleId
+   */
+  router.patch('/rules/:ruleId', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { ruleId } = req.params;
+      const { active } = req.body;
+
+      if (typeof active !== 'boolean') {
+        throw new ValidationError('active must be true or false');
+      }
+
+      const rule = await penaltyService.setRuleActive(ruleId, active);
+      if (!rule) {
+        throw new NotFoundError('Penalty rule');
+      }
+
+      await auditLogger.logAction(
+        'penalty_rule',
+        rule.id,
+        active ? 'penalty_rule.enabled' : 'penalty_rule.disabled',
+        req.user!.userId
+      );
+
+      res.json({
+        success: true,
+        data: { rule },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Get penalty charges for a payment plan
+   * GET /payments/penalties/plans/:planId
+   */
+  router.get('/plans/:planId', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { planId } = req.params;
+      const charges = await penaltyService.getChargesForPlan(planId);
+
+      const outstanding = charges
+        .filter((charge) => charge.status === 'outstanding')
+        .reduce((sum, charge) => sum + charge.amount - charge.amountPaid, 0);
+
+      res.json({
+        success: true,
+        data: {
+          planId,
+          outstandingPenalties: Math.round(outstanding * 100) / 100,
+          charges,
+        },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Waive a penalty charge
+   * POST /payments/penalties/:chargeId/waive
+   */
+  router.post('/:chargeId/waive', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { chargeId } = req.params;
+      const { reason } = req.body;
+
+      if (!reason) {
+        throw new ValidationError('reason is required');
+      }
+
+      const existing = await penaltyService.getCharge(chargeId);
+      if (!existing) {
+        throw new NotFoundError('Penalty charge');
+      }
+
+      let charge;
+      try {
+        charge = await penaltyService.waiveCharge(chargeId, req.user!.userId, reason);
+      } catch (waiveError: any) {
+        throw new ValidationError(waiveError.message);
+      }
+
+      const waivedAmount = Math.round((charge.amount - charge.amountPaid) * 100) / 100;
+      await auditLogger.logAction('penalty_charge', charge.id, 'penalty.waived', req.user!.userId, reason, {
+        paymentPlanId: charge.paymentPlanId,
+        waivedAmount,
+      });
+
+      await messageQueue.publish('payment.events', 'payment.penalty.waived', {
+        type: 'payment.penalty.waived',
+        payload: {
+          penaltyChargeId: charge.id,
+          paymentPlanId: charge.paymentPlanId,
+          waivedAmount,
+          waivedBy: req.user!.userId,
+        },
+        timestamp: Date.now(),
+      });
+
+      res.json({
+        success: true,
+        data: { charge },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Get the audit trail for a penalty charge
+   * GET /payments/penalties/:chargeId/audit
+   */
+  router.get('/:chargeId/audit', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { chargeId } = req.params;
+      const logs = await auditLogger.getAuditLogs('penalty_charge', chargeId);
+
+      res.json({
+        success: true,
+        data: { logs },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,289 @@
+import { Router, Request, Response } from 'express';
+import { Pool } from 'pg';
+import { MessageQueueClient } from '@rent-to-own/message-queue';
+import { NotFoundError, ValidationError } from '@rent-to-own/errors';
+import { AuthenticatedRequest, checkRole } from '../middleware/auth';
+import { PlanAddonService, PlanAddon } from '../services/planAddons';
+import { AuditLogger } from '../services/auditLogger';
+import { parseAddonInput } from './payments';
+
+export function planAddonRoutes(pool: Pool, messageQueue: MessageQueueClient): Router {
+  const router = Router();
+  const addonService = new PlanAddonService(pool);
+  const auditLogger = new AuditLogger(pool);
+
+  // Service errors for a change that is not allowed become 400s
+  function addonError(error: any): Error {
+    if (error.statusCode) {
+      return error;
+    }
+    if (error.message === 'Add-on not found') {
+      return new NotFoundError('Add-on');
+    }
+    if (error.message === 'Payment plan not found') {
+      return new NotFoundError('Payment plan');
+    }
+    return new ValidationError(error.message);
+  }
+
+  async function publishAddonEvent(routingKey: string, addon: PlanAddon, details: Record<string, any> = {}) {
+    await messageQueue.publish('payment.events', routingKey, {
+      type: routingKey,
+      payload: {
+        addonId: addon.id,
+        paymentPlanId: addon.paymentPlanId,
+        addonType: addon.addonType,
+        amount: addon.amount,
+        frequency: addon.frequency,
+        startsOn: addon.startsOn,
+        endsOn: addon.endsOn,
+        ...details,
+      },
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * List a plan's add-ons with their installment charges
+   * GET /payments/addons/plans/:planId
+   */
+  router.get('/plans/:planId', async (req: Request, res: Response) => {
+    try {
+      const { planId } = req.params;
+      const planResult = await pool.query('SELECT id FROM payment_plans WHERE id = $1', [planId]);
+      if (planResult.rows.length === 0) {
+        throw new NotFoundError('Payment plan');
+      }
+
+      const addons = await addonService.getAddonsForPlan(planId);
+      const charges = await addonService.getCharges({ planId });
+
+      res.json({
+        success: true,
+        data: { addons, charges },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Add an add-on to a running plan; it is charged on the open installments in its cover period
+   * POST /payments/addons/plans/:planId
+   */
+  router.post('/plans/:planId', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { planId } = req.params;
+      const { startsOn } = req.body;
+      const input = parseAddonInput(req.body);
+
+      if (startsOn !== undefined && isNaN(new Date(startsOn).getTime())) {
+        throw new ValidationError('startsOn must be a valid date');
+      }
+
+      let addon: PlanAddon;
+      try {
+        addon = await addonService.addAddon(planId, input, req.user!.userId, startsOn ? new Date(startsOn) : undefined);
+      } catch (addError: any) {
+        throw addonError(addError);
+      }
+
+      await auditLogger.logAction('plan_addon', addon.id, 'plan_addon.added', req.user!.userId, undefined, {
+        paymentPlanId: planId,
+        ...input,
+      });
+      await publishAddonEvent('payment.addon.added', addon, { totalCharged: addon.totalCharged });
+
+      res.status(201).json({
+        success: true,
+        data: { addon },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * List active add-ons whose cover ends soon, for renewal follow-up
+   * GET /payments/addons/renewals-due?withinDays=30
+   */
+  router.get('/renewals-due', checkRole('admin', 'agent'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const withinDays = req.query.withinDays === undefined ? 30 : Number(req.query.withinDays);
+      if (!Number.isInteger(withinDays) || withinDays < 0) {
+        throw new ValidationError('withinDays must be a non-negative whole number');
+      }
+
+      const addons = await addonService.listRenewalsDue(withinDays);
+
+      res.json({
+        success: true,
+        data: { addons },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Get an add-on with its installment charges
+   * GET /payments/addons/:addonId
+   */
+  router.get('/:addonId', async (req: Request, res: Response) => {
+    try {
+      const addon = await addonService.getAddon(req.params.addonId);
+      if (!addon) {
+        throw new NotFoundError('Add-on');
+      }
+      const charges = await addonService.getCharges({ addonId: addon.id });
+
+      res.json({
+        success: true,
+        data: { addon, charges },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Renew an add-on for another cover period, optionally at a new amount, term or provider
+   * POST /payments/addons/:addonId/renew
+   */
+  router.post('/:addonId/renew', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { addonId } = req.params;
+      const { amount, termMonths, provider } = req.body;
+
+      if (amount !== undefined && (typeof amount !== 'number' || !(amount > 0))) {
+        throw new ValidationError('amount must be a positive number');
+      }
+
+      if (termMonths !== undefined && !(Number.isInteger(termMonths) && termMonths > 0)) {
+        throw new ValidationError('termMonths must be a positive whole number');
+      }
+
+      let addon: PlanAddon;
+      try {
+        addon = await addonService.renewAddon(addonId, req.user!.userId, { amount, termMonths, provider });
+      } catch (renewError: any) {
+        throw addonError(renewError);
+      }
+
+      await auditLogger.logAction('plan_addon', addonId, 'plan_addon.renewed', req.user!.userId, undefined, {
+        paymentPlanId: addon.paymentPlanId,
+        renewalId: addon.id,
+        amount: addon.amount,
+        startsOn: addon.startsOn,
+        endsOn: addon.endsOn,
+      });
+      await publishAddonEvent('payment.addon.renewed', addon, { renewalOf: addonId, totalCharged: addon.totalCharged });
+
+      res.status(201).json({
+        success: true,
+        data: { addon },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Cancel an add-on. Charges on installments already due stay owed; later ones are taken off.
+   * POST /payments/addons/:addonId/cancel
+   */
+  router.post('/:addonId/cancel', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { addonId } = req.params;
+      const { reason } = req.body;
+
+      if (!reason) {
+        throw new ValidationError('reason is required');
+      }
+
+      let result: { addon: PlanAddon; cancelledAmount: number };
+      try {
+        result = await addonService.cancelAddon(addonId, req.user!.userId, reason);
+      } catch (cancelError: any) {
+        throw addonError(cancelError);
+      }
+
+      await auditLogger.logAction('plan_addon', addonId, 'plan_addon.cancelled', req.user!.userId, reason, {
+        paymentPlanId: result.addon.paymentPlanId,
+        cancelledAmount: result.cancelledAmount,
+      });
+      await publishAddonEvent('payment.addon.cancelled', result.addon, {
+        cancelledAmount: result.cancelledAmount,
+        reason,
+      });
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Get the audit trail for an add-on
+   * GET /payments/addons/:addonId/audit
+   */
+  router.get('/:addonId/audit', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const logs = await auditLogger.getAuditLogs('plan_addon', req.params.addonId);
+
+      res.json({
+        success: true,
+        data: { logs },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  return router;
+}
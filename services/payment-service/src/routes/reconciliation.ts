@@ -0,0 +1,260 @@
+import express, { Router, Response } from 'express';
+import { Pool } from 'pg';
+import { MessageQueueClient } from '@rent-to-own/message-queue';
+import { NotFoundError, ValidationError } from '@rent-to-own/errors';
+import { AuthenticatedRequest, checkRole } from '../middleware/auth';
+import { ReconciliationService, StatementProvider, ExceptionResolution } from '../services/reconciliation';
+import { PaymentConfirmationService } from '../services/paymentConfirmation';
+import { AuditLogger } from '../services/auditLogger';
+
+export function reconciliationRoutes(pool: Pool, messageQueue: MessageQueueClient): Router {
+  const router = Router();
+  const reconciliationService = new ReconciliationService(pool);
+  const confirmationService = new PaymentConfirmationService(pool, messageQueue);
+  const auditLogger = new AuditLogger(pool);
+
+  // Every reconciliation endpoint is for finance admins
+  router.use(checkRole('admin'));
+
+  /**
+   * Import a provider settlement statement
+   * POST /payments/reconciliation/statements?provider=mtn&fileName=statement.csv (text/csv body)
+   */
+  router.post(
+    '/statements',
+    express.text({ type: ['text/csv', 'text/plain'], limit: '10mb' }),
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const isCsvBody = typeof req.body === 'string';
+        const provider = (req.query.provider || (!isCsvBody && req.body.provider)) as string;
+        const fileName = (req.query.fileName || (!isCsvBody && req.body.fileName)) as string | undefined;
+        const content = isCsvBody ? req.body : req.body?.content;
+
+        if (!['mtn', 'airtel'].includes(provider)) {
+          throw new ValidationError('provider must be mtn or airtel');
+        }
+
+        if (!content || typeof content !== 'string') {
+          throw new ValidationError('Statement content is required, either as a text/csv body or as content in JSON');
+        }
+
+        let result;
+        try {
+          result = await reconciliationService.importStatement(
+            provider as StatementProvider,
+            content,
+            fileName,
+            req.user!.userId
+          );
+        } catch (importError: any) {
+          throw new ValidationError(importError.message);
+        }
+
+        await auditLogger.logAction('reconciliation_statement', result.statement.id, 'statement.imported', req.user!.userId, undefined, {
+          provider,
+          fileName,
+          entryCount: result.statement.entryCount,
+          exceptionCount: result.statement.exceptionCount,
+        });
+
+        res.status(201).json({
+          success: true,
+          data: result,
+        });
+      } catch (error: any) {
+        if (error.statusCode) {
+          return res.status(error.statusCode).json({
+            success: false,
+            error: { message: error.message, code: error.code },
+          });
+        }
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * List imported statements
+   * GET /payments/reconciliation/statements
+   */
+  router.get('/statements', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { limit = 50 } = req.query;
+      const statements = await reconciliationService.listStatements(parseInt(limit as string));
+
+      res.json({
+        success: true,
+        data: { statements },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Get a statement with every entry and how it matched
+   * GET /payments/reconciliation/statements/:statementId
+   */
+  router.get('/statements/:statementId', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const result = await reconciliationService.getStatement(req.params.statementId);
+      if (!result) {
+        throw new NotFoundError('Reconciliation statement');
+      }
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * List reconciliation exceptions
+   * GET /payments/reconciliation/exceptions?status=open&type=unmatched&provider=mtn
+   */
+  router.get('/exceptions', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { status = 'open', type, provider } = req.query;
+      const exceptions = await reconciliationService.listExceptions({
+        status: status === 'all' ? undefined : (status as string),
+        matchStatus: type as string | undefined,
+        provider: provider as string | undefined,
+      });
+
+      res.json({
+        success: true,
+        data: { exceptions },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Resolve a reconciliation exception
+   * POST /payments/reconciliation/exceptions/:entryId/resolve
+   */
+  router.post('/exceptions/:entryId/resolve', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { entryId } = req.params;
+      const { resolution, notes, paymentId } = req.body;
+
+      if (!['confirm_payment', 'link_payment', 'dismiss'].includes(resolution)) {
+        throw new ValidationError('resolution must be confirm_payment, link_payment, or dismiss');
+      }
+
+      if (!notes) {
+        throw new ValidationError('notes are required');
+      }
+
+      const entry = await reconciliationService.getEntry(entryId);
+      if (!entry || !entry.resolutionStatus) {
+        throw new NotFoundError('Reconciliation exception');
+      }
+
+      if (entry.resolutionStatus !== 'open') {
+        throw new ValidationError('Exception has already been resolved');
+      }
+
+      const targetPaymentId = paymentId || entry.paymentId;
+      if (resolution !== 'dismiss') {
+        if (!targetPaymentId) {
+          throw new ValidationError('paymentId is required for entries that did not match a payment');
+        }
+
+        const paymentCheck = await pool.query('SELECT id FROM payments WHERE id = $1', [targetPaymentId]);
+        if (paymentCheck.rows.length === 0) {
+          throw new NotFoundError('Payment');
+        }
+      }
+
+      let confirmedPayment = null;
+      if (resolution === 'confirm_payment') {
+        if (entry.status !== 'successful' || !['unmatched', 'status_mismatch'].includes(entry.matchStatus)) {
+          throw new ValidationError('Only successful unmatched or status-mismatched entries can confirm a payment');
+        }
+
+        confirmedPayment = await confirmationService.confirmPayment(targetPaymentId, 'reconciliation', entry.providerTransactionId);
+        if (!confirmedPayment) {
+          throw new ValidationError('Payment is already completed');
+        }
+      }
+
+      const resolved = await reconciliationService.resolveException(
+        entryId,
+        resolution as ExceptionResolution,
+        req.user!.userId,
+        notes,
+        resolution === 'dismiss' ? undefined : targetPaymentId
+      );
+
+      await auditLogger.logAction('reconciliation_entry', entryId, `reconciliation.${resolution}`, req.user!.userId, notes, {
+        matchStatus: entry.matchStatus,
+        paymentId: resolved.paymentId,
+        providerTransactionId: entry.providerTransactionId,
+      });
+
+      res.json({
+        success: true,
+        data: {
+          exception: resolved,
+          ...(confirmedPayment && { payment: confirmedPayment }),
+        },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Get the audit trail for a reconciliation exception
+   * GET /payments/reconciliation/exceptions/:entryId/audit
+   */
+  router.get('/exceptions/:entryId/audit', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const logs = await auditLogger.getAuditLogs('reconciliation_entry', req.params.entryId);
+
+      res.json({
+        success: true,
+        data: { logs },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  return router;
+}
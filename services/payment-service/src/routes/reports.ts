@@ -0,0 +1,178 @@
+import { Router, Response } from 'express';
+import { Pool } from 'pg';
+import { ValidationError } from '@rent-to-own/errors';
+import { AuthenticatedRequest, checkRole } from '../middleware/auth';
+import { PortfolioReportingService, ReportDimension, REPORT_DIMENSIONS } from '../services/portfolioReporting';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseDimension(value: unknown): ReportDimension {
+  const dimension = (value as string) || 'portfolio';
+  if (!REPORT_DIMENSIONS.includes(dimension as ReportDimension)) {
+    throw new ValidationError(`groupBy must be one of ${REPORT_DIMENSIONS.join(', ')}`);
+  }
+  return dimension as ReportDimension;
+}
+
+function parseDate(value: unknown, name: string, fallback?: string): string {
+  const date = (value as string) || fallback;
+  if (!date || !DATE_PATTERN.test(date)) {
+    throw new ValidationError(`${name} must be a date (YYYY-MM-DD)`);
+  }
+  return date;
+}
+
+function daysBefore(date: string, days: number): string {
+  return new Date(new Date(date).getTime() - days * 86400000).toISOString().slice(0, 10);
+}
+
+export function reportRoutes(pool: Pool): Router {
+  const router = Router();
+  const reportingService = new PortfolioReportingService(pool);
+
+  /**
+   * Portfolio at risk (PAR1/30/60/90) as it stands now
+   * GET /payments/reports/portfolio-at-risk?groupBy=vehicle_type|retailer|credit_tier|cohort
+   */
+  router.get('/portfolio-at-risk', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const dimension = parseDimension(req.query.groupBy);
+      const segments = await reportingService.getPortfolioAtRisk(dimension);
+
+      res.json({
+        success: true,
+        data: { groupBy: dimension, asOf: new Date().toISOString().slice(0, 10), segments },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Collection efficiency for installments falling due in a period (defaults to the last 30 days)
+   * GET /payments/reports/collection-efficiency?from=2024-01-01&to=2024-01-31&groupBy=retailer
+   */
+  router.get('/collection-efficiency', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const dimension = parseDimension(req.query.groupBy);
+      const to = parseDate(req.query.to, 'to', new Date().toISOString().slice(0, 10));
+      const from = parseDate(req.query.from, 'from', daysBefore(to, 29));
+      if (from > to) {
+        throw new ValidationError('from must not be after to');
+      }
+
+      const segments = await reportingService.getCollectionEfficiency(from, to, dimension);
+
+      res.json({
+        success: true,
+        data: { groupBy: dimension, from, to, segments },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Roll rates between two daily snapshots (defaults to the 30 days up to yesterday's snapshot)
+   * GET /payments/reports/roll-rates?from=2024-01-01&to=2024-01-31&groupBy=credit_tier
+   */
+  router.get('/roll-rates', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const dimension = parseDimension(req.query.groupBy);
+      const to = parseDate(req.query.to, 'to', daysBefore(new Date().toISOString().slice(0, 10), 1));
+      const from = parseDate(req.query.from, 'from', daysBefore(to, 30));
+      if (from >= to) {
+        throw new ValidationError('from must be before to');
+      }
+
+      let rollRates;
+      try {
+        rollRates = await reportingService.getRollRates(from, to, dimension);
+      } catch (reportError: any) {
+        throw new ValidationError(reportError.message);
+      }
+
+      res.json({
+        success: true,
+        data: { groupBy: dimension, from, to, rollRates },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Daily snapshots for trending
+   * GET /payments/reports/snapshots?groupBy=cohort&segment=2024-01&from=2024-01-01&to=2024-03-31
+   */
+  router.get('/snapshots', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const dimension = parseDimension(req.query.groupBy);
+      const from = req.query.from ? parseDate(req.query.from, 'from') : undefined;
+      const to = req.query.to ? parseDate(req.query.to, 'to') : undefined;
+
+      const snapshots = await reportingService.getSnapshots({
+        dimension,
+        segment: req.query.segment as string | undefined,
+        from,
+        to,
+      });
+
+      res.json({
+        success: true,
+        data: { groupBy: dimension, snapshots },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Take today's snapshot now, replacing any taken earlier today
+   * POST /payments/reports/snapshots
+   */
+  router.post('/snapshots', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const snapshots = await reportingService.takeSnapshot();
+
+      res.status(201).json({
+        success: true,
+        data: { snapshots },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,324 @@
+import { Router, Response } from 'express';
+import { Pool } from 'pg';
+import { MessageQueueClient } from '@rent-to-own/message-queue';
+import { ForbiddenError, NotFoundError, UnauthorizedError, ValidationError } from '@rent-to-own/errors';
+import { AuthenticatedRequest, checkRole } from '../middleware/auth';
+import {
+  RetailerSettlementService,
+  PayoutBatch,
+  PayoutBatchStatus,
+  publishPayoutBatchEvent,
+} from '../services/retailerSettlements';
+import { AuditLogger } from '../services/auditLogger';
+
+const PAYOUT_BATCH_STATUSES: PayoutBatchStatus[] = ['pending', 'processing', 'paid', 'failed'];
+
+export function retailerSettlementRoutes(pool: Pool, messageQueue: MessageQueueClient): Router {
+  const router = Router();
+  const retailerSettlementService = new RetailerSettlementService(pool);
+  const auditLogger = new AuditLogger(pool);
+
+  /**
+   * Retailers only see their own settlements; admins pick the retailer with ?retailerId=
+   */
+  function resolveRetailerId(req: AuthenticatedRequest, required: boolean = true): string | undefined {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+    if (req.user.role === 'admin') {
+      const retailerId = req.query.retailerId as string | undefined;
+      if (!retailerId && required) {
+        throw new ValidationError('retailerId is required');
+      }
+      return retailerId;
+    }
+    if (req.user.role === 'retailer' && req.user.retailerId) {
+      return req.user.retailerId;
+    }
+    throw new ForbiddenError('Access denied: retailer or admin role required');
+  }
+
+  async function getAccessibleBatch(req: AuthenticatedRequest, batchId: string): Promise<PayoutBatch> {
+    const retailerId = resolveRetailerId(req, false);
+    const batch = await retailerSettlementService.getBatch(batchId);
+    if (!batch || (req.user!.role !== 'admin' && batch.retailerId !== retailerId)) {
+      throw new NotFoundError('Payout batch');
+    }
+    return batch;
+  }
+
+  /**
+   * Totals earned, awaiting payout and paid out
+   * GET /payments/retailer-settlements/summary
+   */
+  router.get('/summary', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const retailerId = resolveRetailerId(req)!;
+      const summary = await retailerSettlementService.getSummary(retailerId);
+
+      res.json({
+        success: true,
+        data: { summary },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Individual earnings and clawbacks
+   * GET /payments/retailer-settlements/entries?unbatched=true
+   */
+  router.get('/entries', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const retailerId = resolveRetailerId(req)!;
+      const { unbatched, limit = 100 } = req.query;
+
+      const entries = await retailerSettlementService.getEntries(retailerId, {
+        unbatched: unbatched === 'true',
+        limit: parseInt(limit as string),
+      });
+
+      res.json({
+        success: true,
+        data: { entries },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Payout batches, newest period first
+   * GET /payments/retailer-settlements/batches?status=pending
+   */
+  router.get('/batches', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const retailerId = resolveRetailerId(req, false);
+      const { status, limit = 50 } = req.query;
+
+      if (status && !PAYOUT_BATCH_STATUSES.includes(status as PayoutBatchStatus)) {
+        throw new ValidationError(`status must be one of ${PAYOUT_BATCH_STATUSES.join(', ')}`);
+      }
+
+      const batches = await retailerSettlementService.listBatches({
+        retailerId,
+        status: status as PayoutBatchStatus | undefined,
+        limit: parseInt(limit as string),
+      });
+
+      res.json({
+        success: true,
+        data: { batches },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Batch every retailer's unpaid earnings for a period (defaults to the last whole payout period)
+   * POST /payments/retailer-settlements/batches
+   */
+  router.post('/batches', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      let { periodStart, periodEnd } = req.body;
+
+      if (!periodStart && !periodEnd) {
+        ({ periodStart, periodEnd } = RetailerSettlementService.previousPeriod(RetailerSettlementService.payoutPeriod()));
+      }
+
+      const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+      if (!datePattern.test(periodStart || '') || !datePattern.test(periodEnd || '')) {
+        throw new ValidationError('periodStart and periodEnd must be dates (YYYY-MM-DD)');
+      }
+      if (periodStart > periodEnd) {
+        throw new ValidationError('periodStart must not be after periodEnd');
+      }
+      if (new Date(periodEnd) >= new Date(new Date().toISOString().slice(0, 10))) {
+        throw new ValidationError('Only periods that have ended can be paid out');
+      }
+
+      const batches = await retailerSettlementService.createPayoutBatches(periodStart, periodEnd);
+
+      for (const batch of batches) {
+        await auditLogger.logAction('retailer_payout_batch', batch.id, 'payout_batch.created', req.user!.userId, undefined, {
+          periodStart,
+          periodEnd,
+          netAmount: batch.netAmount,
+        });
+        await publishPayoutBatchEvent(messageQueue, 'payment.retailer.payout_batch.created', batch);
+      }
+
+      res.status(201).json({
+        success: true,
+        data: { periodStart, periodEnd, batches },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Get a payout batch
+   * GET /payments/retailer-settlements/batches/:batchId
+   */
+  router.get('/batches/:batchId', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const batch = await getAccessibleBatch(req, req.params.batchId);
+
+      res.json({
+        success: true,
+        data: { batch },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Download the statement for a payout batch
+   * GET /payments/retailer-settlements/batches/:batchId/statement?format=pdf|csv|json
+   */
+  router.get('/batches/:batchId/statement', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const format = (req.query.format as string) || 'pdf';
+      if (!['pdf', 'csv', 'json'].includes(format)) {
+        throw new ValidationError('format must be pdf, csv, or json');
+      }
+
+      const batch = await getAccessibleBatch(req, req.params.batchId);
+      const statement = (await retailerSettlementService.getPayoutStatement(batch.id))!;
+      const filename = `payout-${batch.periodStart}-to-${batch.periodEnd}`;
+
+      if (format === 'pdf') {
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}.pdf"`);
+        return res.send(RetailerSettlementService.renderPayoutStatementPdf(statement));
+      }
+
+      if (format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+        return res.send(RetailerSettlementService.renderPayoutStatementCsv(statement));
+      }
+
+      res.json({
+        success: true,
+        data: { statement },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Record the progress of a payout
+   * PATCH /payments/retailer-settlements/batches/:batchId/status
+   */
+  router.patch('/batches/:batchId/status', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { batchId } = req.params;
+      const { status, payoutReference, failureReason } = req.body;
+
+      if (!PAYOUT_BATCH_STATUSES.includes(status)) {
+        throw new ValidationError(`status must be one of ${PAYOUT_BATCH_STATUSES.join(', ')}`);
+      }
+
+      let batch: PayoutBatch | null;
+      try {
+        batch = await retailerSettlementService.updateBatchStatus(batchId, {
+          status,
+          performedBy: req.user!.userId,
+          payoutReference,
+          failureReason,
+        });
+      } catch (updateError: any) {
+        throw new ValidationError(updateError.message);
+      }
+      if (!batch) {
+        throw new NotFoundError('Payout batch');
+      }
+
+      await auditLogger.logAction('retailer_payout_batch', batchId, `payout_batch.${status}`, req.user!.userId, failureReason, {
+        payoutReference,
+      });
+      await publishPayoutBatchEvent(messageQueue, `payment.retailer.payout.${status}`, batch);
+
+      res.json({
+        success: true,
+        data: { batch },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Get the audit trail for a payout batch
+   * GET /payments/retailer-settlements/batches/:batchId/audit
+   */
+  router.get('/batches/:batchId/audit', checkRole('admin'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      await getAccessibleBatch(req, req.params.batchId);
+      const logs = await auditLogger.getAuditLogs('retailer_payout_batch', req.params.batchId);
+
+      res.json({
+        success: true,
+        data: { logs },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  return router;
+}
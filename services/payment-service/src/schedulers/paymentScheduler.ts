@@ -4,6 +4,15 @@ import { MessageQueueClient } from '@rent-to-own/message-queue';
 import { PaymentScheduleService } from '../services/paymentSchedule';
 import { MobileMoneyService, MobileMoneyPaymentRequest } from '../services/mobileMoney';
 import { PaymentRetryService } from '../services/paymentRetry';
+import { InstallmentService } from '../services/installments';
+import { PaymentAllocationService } from '../services/paymentAllocation';
+import { PenaltyService } from '../services/penalties';
+import { CollectionCalendar } from '../services/collectionCalendar';
+import { PaymentConfirmationService } from '../services/paymentConfirmation';
+import { MandateService } from '../services/mandates';
+import { HolidayCalendarService } from '../services/holidayCalendar';
+import { OutboxService } from '../services/outbox';
+import { withTransaction } from '../services/transaction';
 
 export async function schedulePayments(
   pool: Pool,
@@ -11,6 +20,9 @@ export async function schedulePayments(
   messageQueue: MessageQueueClient
 ): Promise<void> {
   try {
+    // Pick up holiday calendar changes made through other instances
+    await new HolidayCalendarService(pool).refresh();
+
     // 1. Process due payments
     await processDuePayments(pool, encryptionService, messageQueue);
 
@@ -46,8 +58,8 @@ async function processDuePayments(
        ORDER BY created_at DESC
        LIMIT 1
      ) p ON true
-     WHERE pp.status = 'active' 
-       AND pp.next_payment_date <= $1 
+     WHERE pp.status IN ('active', 'overdue')
+       AND pp.next_payment_date <= $1
        AND pp.remaining_installments > 0`,
     [today]
   );
@@ -61,35 +73,80 @@ async function processDuePayments(
       apiSecret: process.env.MOBILE_MONEY_API_SECRET || '',
       callbackUrl: process.env.MOBILE_MONEY_CALLBACK_URL || 'http://localhost:3003/payments/callbacks/mobile-money',
       environment: (process.env.MOBILE_MONEY_ENV as any) || 'sandbox',
+      apiBaseUrl: process.env.MOBILE_MONEY_API_URL,
     },
     encryptionService
   );
+  const installmentService = new InstallmentService(pool);
+  const allocationService = new PaymentAllocationService(pool);
+  const confirmationService = new PaymentConfirmationService(pool, messageQueue);
+  const mandateService = new MandateService(pool, encryptionService);
+
+  const expiredMandates = await mandateService.expireMandates();
+  if (expiredMandates.length > 0) {
+    console.log(`Expired ${expiredMandates.length} auto-debit mandates`);
+  }
 
   for (const plan of result.rows) {
     try {
-      // Check if payment already exists for this due date
+      // Daily plans are not collected on their rest days, even when catching up on arrears
+      const collectionDays = { skipSundays: !!plan.skip_sundays, skipPublicHolidays: !!plan.skip_public_holidays };
+      if (plan.payment_frequency === 'daily' && !CollectionCalendar.isCollectionDay(new Date(), collectionDays)) {
+        continue;
+      }
+
+      // Check if a payment already exists for this due date. Plans behind on payments keep the same
+      // due date until it is paid, so the check is on the date being collected, not today. A failed
+      // payment is left to its retries; once they run out, a new pull is made at most once a day.
+      const scheduledDate = new Date(plan.next_payment_date);
       const existingPayment = await pool.query(
-        `SELECT * FROM payments 
-         WHERE payment_plan_id = $1 
-           AND scheduled_date = $2 
-           AND status IN ('pending', 'processing', 'completed')`,
-        [plan.id, today]
+        `SELECT id FROM payments
+         WHERE payment_plan_id = $1
+           AND scheduled_date = $2
+           AND (status IN ('pending', 'pending_confirmation', 'on_hold', 'processing', 'completed')
+             OR (status = 'failed' AND (next_retry_at IS NOT NULL OR created_at >= CURRENT_DATE)))`,
+        [plan.id, scheduledDate]
       );
 
       if (existingPayment.rows.length > 0) {
-        console.log(`Payment already exists for plan ${plan.id} on ${today}`);
+        console.log(`Payment already exists for plan ${plan.id} due ${scheduledDate.toISOString().split('T')[0]}`);
         continue;
       }
 
-      if (!plan.payment_method || !plan.encrypted_phone_number) {
+      // An active mandate is the customer's standing consent and takes precedence over the last payment's details
+      const mandate = await mandateService.getActiveMandateForPlan(plan.id);
+      if (!mandate && (!plan.payment_method || !plan.encrypted_phone_number)) {
         console.log(`No payment method found for plan ${plan.id}`);
         continue;
       }
 
-      const phoneNumber = encryptionService.decrypt(plan.encrypted_phone_number);
+      const paymentMethod = mandate ? 'mobile_money' : plan.payment_method;
+      const mobileMoneyProvider = mandate ? mandate.provider : plan.mobile_money_provider;
+      const phoneNumber = mandate
+        ? await mandateService.getPhoneNumber(mandate.id)
+        : encryptionService.decrypt(plan.encrypted_phone_number);
+
+      // Use any credit from earlier overpayments before pulling from the customer
+      const creditApplied = await allocationService.applyCredit(plan.id);
+      if (creditApplied > 0) {
+        console.log(`Applied ${creditApplied} of credit to plan ${plan.id}`);
+      }
+
+      // Collect whatever is still owed on the oldest open installment
+      const installment = await installmentService.getNextOpenInstallment(plan.id);
+      if (creditApplied > 0 && (!installment || new Date(installment.dueDate) > new Date())) {
+        console.log(`Plan ${plan.id} is fully covered by credit`);
+        continue;
+      }
+      const outstanding = installment
+        ? Math.round((installment.amountDue - installment.amountPaid) * 100) / 100
+        : parseFloat(plan.installment_amount);
+      const amountDue = mandate ? MandateService.pullAmount(outstanding, mandate.capAmount) : outstanding;
+      if (mandate && amountDue < outstanding) {
+        console.log(`Pull for plan ${plan.id} limited to the mandate cap of ${mandate.capAmount}`);
+      }
 
       // Calculate due date with grace period
-      const scheduledDate = new Date(plan.next_payment_date);
       const dueDate = PaymentScheduleService.calculateDueDateWithGrace(
         scheduledDate,
         plan.grace_period_days
@@ -100,18 +157,20 @@ async function processDuePayments(
         `INSERT INTO payments (
           payment_plan_id, user_id, amount, payment_method, 
           mobile_money_provider, encrypted_phone_number, 
-          scheduled_date, due_date, status, max_retries
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'pending', 3)
+          scheduled_date, due_date, status, max_retries, installment_id, mandate_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'pending', 3, $9, $10)
         RETURNING *`,
         [
           plan.id,
           plan.user_id,
-          plan.installment_amount,
-          plan.payment_method,
-          plan.mobile_money_provider,
-          plan.encrypted_phone_number,
+          amountDue,
+          paymentMethod,
+          mobileMoneyProvider,
+          mandate ? encryptionService.encrypt(phoneNumber) : plan.encrypted_phone_number,
           scheduledDate,
           dueDate,
+          installment?.id || null,
+          mandate?.id || null,
         ]
       );
 
@@ -119,13 +178,15 @@ async function processDuePayments(
 
       // Attempt automatic collection
       try {
-        if (plan.payment_method === 'mobile_money') {
+        if (paymentMethod === 'mobile_money') {
           const mobileMoneyRequest: MobileMoneyPaymentRequest = {
-            amount: plan.installment_amount,
+            amount: amountDue,
             phoneNumber,
-            provider: plan.mobile_money_provider as any,
+            provider: mobileMoneyProvider as any,
             reference: payment.id,
-            description: `Vehicle installment payment - Plan ${plan.id}`,
+            description: mandate
+              ? `Vehicle installment auto-debit - Mandate ${mandate.id}`
+              : `Vehicle installment payment - Plan ${plan.id}`,
           };
 
           const mobileMoneyResponse = await mobileMoneyService.initiatePayment(mobileMoneyRequest);
@@ -138,49 +199,53 @@ async function processDuePayments(
           await pool.query(
             `UPDATE payments SET 
              external_transaction_id = $1,
-             status = 'processing'
-             WHERE id = $2`,
-            [mobileMoneyResponse.externalTransactionId, payment.id]
+             status = 'pending_confirmation',
+             confirmation_expires_at = $2
+             WHERE id = $3`,
+            [mobileMoneyResponse.externalTransactionId, PaymentConfirmationService.confirmationDeadline(), payment.id]
           );
 
-          // Note: Payment will be confirmed via callback
-          // For now, we'll wait for the callback to complete the payment
-          console.log(`Payment initiated for plan ${plan.id}, waiting for callback`);
+          if (mandate) {
+            await mandateService.markPulled(mandate.id);
+          }
+
+          // The callback or status poller completes the payment once the customer approves it
+          console.log(`Payment initiated for plan ${plan.id}, waiting for confirmation`);
         } else {
           // For other payment methods, mark as completed immediately
-          await pool.query(
-            `UPDATE payments SET status = 'completed', processed_at = CURRENT_TIMESTAMP WHERE id = $1`,
-            [payment.id]
-          );
-
-          await updatePaymentPlanAfterSuccess(pool, plan, payment);
+          await confirmationService.confirmPayment(payment.id, 'direct');
         }
       } catch (paymentError: any) {
-        // Update payment status to failed
-        await pool.query(
-          `UPDATE payments SET status = 'failed', failure_reason = $1 WHERE id = $2`,
-          [paymentError.message, payment.id]
-        );
+        // Mark the payment failed and record the event in one transaction
+        const eventId = await withTransaction(pool, async (client) => {
+          await client.query(
+            `UPDATE payments SET status = 'failed', failure_reason = $1 WHERE id = $2`,
+            [paymentError.message, payment.id]
+          );
+          return OutboxService.enqueue(client, 'payment.events', 'payment.failed', {
+            type: 'payment.failed',
+            payload: {
+              paymentId: payment.id,
+              paymentPlanId: plan.id,
+              userId: plan.user_id,
+              reason: paymentError.message,
+            },
+            timestamp: Date.now(),
+          });
+        });
 
         // Schedule retry
-        const retryService = new PaymentRetryService(pool);
+        const retryService = new PaymentRetryService(pool, messageQueue);
         try {
-          await retryService.scheduleRetry(payment.id, 0);
+          await retryService.scheduleRetry(payment.id, 0, {
+            message: paymentError.message,
+            provider: payment.mobile_money_provider,
+          });
         } catch (retryError) {
           console.error(`Failed to schedule retry for payment ${payment.id}:`, retryError);
         }
 
-        // Publish payment failed event
-        await messageQueue.publish('payment.events', 'payment.failed', {
-          type: 'payment.failed',
-          payload: {
-            paymentId: payment.id,
-            paymentPlanId: plan.id,
-            userId: plan.user_id,
-            reason: paymentError.message,
-          },
-          timestamp: Date.now(),
-        });
+        await new OutboxService(pool, messageQueue).publishNow([eventId]);
 
         console.error(`Failed to process payment for plan ${plan.id}:`, paymentError.message);
       }
@@ -198,7 +263,7 @@ async function processPaymentRetries(
   encryptionService: EncryptionService,
   messageQueue: MessageQueueClient
 ): Promise<void> {
-  const retryService = new PaymentRetryService(pool);
+  const retryService = new PaymentRetryService(pool, messageQueue);
   const paymentsDueForRetry = await retryService.getPaymentsDueForRetry(100);
 
   console.log(`Found ${paymentsDueForRetry.length} payments due for retry`);
@@ -210,14 +275,39 @@ async function processPaymentRetries(
       apiSecret: process.env.MOBILE_MONEY_API_SECRET || '',
       callbackUrl: process.env.MOBILE_MONEY_CALLBACK_URL || 'http://localhost:3003/payments/callbacks/mobile-money',
       environment: (process.env.MOBILE_MONEY_ENV as any) || 'sandbox',
+      apiBaseUrl: process.env.MOBILE_MONEY_API_URL,
     },
     encryptionService
   );
+  const mandateService = new MandateService(pool, encryptionService);
 
   for (const payment of paymentsDueForRetry) {
     try {
-      // Mark retry as processing
-      await retryService.markRetryProcessing(payment.id, payment.retry_count + 1);
+      // A mandate pull is only retried while the customer's consent still stands, and within its current cap
+      if (payment.mandate_id) {
+        const mandate = await mandateService.getActiveMandateForPlan(payment.payment_plan_id);
+        if (!mandate || mandate.id !== payment.mandate_id) {
+          await pool.query(
+            `UPDATE payments SET next_retry_at = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+            [payment.id]
+          );
+          console.log(`Mandate for payment ${payment.id} is no longer active; retry cancelled`);
+          continue;
+        }
+
+        const cappedAmount = MandateService.pullAmount(parseFloat(payment.amount), mandate.capAmount);
+        if (cappedAmount < parseFloat(payment.amount)) {
+          await pool.query(
+            `UPDATE payments SET amount = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2`,
+            [cappedAmount, payment.id]
+          );
+          payment.amount = cappedAmount;
+          console.log(`Retry for payment ${payment.id} limited to the mandate cap of ${mandate.capAmount}`);
+        }
+      }
+
+      // Mark retry as processing (retry_count already counts the attempt being made)
+      await retryService.markRetryProcessing(payment.id, payment.retry_count);
 
       // Get payment plan
       const planResult = await pool.query('SELECT * FROM payment_plans WHERE id = $1', [payment.payment_plan_id]);
@@ -251,14 +341,15 @@ async function processPaymentRetries(
         await pool.query(
           `UPDATE payments SET 
            external_transaction_id = $1,
-           status = 'processing',
+           status = 'pending_confirmation',
+           confirmation_expires_at = $2,
            next_retry_at = NULL
-           WHERE id = $2`,
-          [mobileMoneyResponse.externalTransactionId, payment.id]
+           WHERE id = $3`,
+          [mobileMoneyResponse.externalTransactionId, PaymentConfirmationService.confirmationDeadline(), payment.id]
         );
 
-        // Mark retry as completed (will be confirmed via callback)
-        await retryService.markRetryCompleted(payment.id, payment.retry_count + 1);
+        // Mark retry as completed (will be confirmed via callback or status poller)
+        await retryService.markRetryCompleted(payment.id, payment.retry_count);
 
         console.log(`Retry initiated for payment ${payment.id}`);
       } else {
@@ -266,17 +357,19 @@ async function processPaymentRetries(
       }
     } catch (error: any) {
       // Mark retry as failed
-      await retryService.markRetryFailed(payment.id, payment.retry_count + 1, error.message);
+      await retryService.markRetryFailed(payment.id, payment.retry_count, error.message);
 
-      // Check if we should schedule another retry
-      if (payment.retry_count + 1 < payment.max_retries) {
-        try {
-          await retryService.scheduleRetry(payment.id, payment.retry_count + 1);
-        } catch (retryError) {
-          console.error(`Failed to schedule next retry for payment ${payment.id}:`, retryError);
+      // The dunning policy for this failure decides whether another retry is scheduled
+      try {
+        const nextRetry = await retryService.scheduleRetry(payment.id, payment.retry_count, {
+          message: error.message,
+          provider: payment.mobile_money_provider,
+        });
+        if (!nextRetry) {
+          console.log(`No further retries for payment ${payment.id}`);
         }
-      } else {
-        console.log(`Max retries reached for payment ${payment.id}`);
+      } catch (retryError) {
+        console.error(`Failed to schedule next retry for payment ${payment.id}:`, retryError);
       }
 
       console.error(`Retry failed for payment ${payment.id}:`, error.message);
@@ -284,6 +377,114 @@ async function processPaymentRetries(
   }
 }
 
+/**
+ * Publish outbox events that are due, retrying ones that failed earlier
+ */
+export async function relayOutboxEvents(pool: Pool, messageQueue: MessageQueueClient): Promise<void> {
+  const published = await new OutboxService(pool, messageQueue).relay();
+  if (published > 0) {
+    console.log(`Published ${published} outbox events`);
+  }
+}
+
+/**
+ * Tell customers with an auto-debit mandate about the pull coming up.
+ * MANDATE_PULL_NOTICE_DAYS (default 1) sets how far ahead; each due date is only announced once.
+ */
+export async function notifyUpcomingMandatePulls(
+  pool: Pool,
+  encryptionService: EncryptionService,
+  messageQueue: MessageQueueClient
+): Promise<void> {
+  const noticeDays = parseInt(process.env.MANDATE_PULL_NOTICE_DAYS || '1');
+  const mandateService = new MandateService(pool, encryptionService);
+  const installmentService = new InstallmentService(pool);
+  const outboxService = new OutboxService(pool, messageQueue);
+
+  await new HolidayCalendarService(pool).refresh();
+  const due = await mandateService.getMandatesDueForNotice(noticeDays);
+  console.log(`Sending ${due.length} auto-debit pull notices`);
+
+  for (const { mandate, plan } of due) {
+    try {
+      const installment = await installmentService.getNextOpenInstallment(plan.id);
+      const outstanding = installment
+        ? Math.round((installment.amountDue - installment.amountPaid) * 100) / 100
+        : parseFloat(plan.installment_amount);
+
+      // Record the notice and its event together so a due date is announced exactly once
+      const eventId = await withTransaction(pool, async (client) => {
+        await mandateService.markNoticeSent(mandate.id, plan.next_payment_date, client);
+        return OutboxService.enqueue(client, 'payment.events', 'payment.mandate.pull_scheduled', {
+          type: 'payment.mandate.pull_scheduled',
+          payload: {
+            mandateId: mandate.id,
+            paymentPlanId: plan.id,
+            userId: mandate.userId,
+            amount: MandateService.pullAmount(outstanding, mandate.capAmount),
+            dueDate: plan.next_payment_date,
+            provider: mandate.provider,
+            phoneNumberLast4: mandate.phoneNumberLast4,
+          },
+          timestamp: Date.now(),
+        });
+      });
+      await outboxService.publishNow([eventId]);
+    } catch (error) {
+      console.error(`Error sending pull notice for mandate ${mandate.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Ask the provider about mobile money payments still awaiting confirmation, in case the callback
+ * was lost, then fail any whose prompt was never approved
+ */
+export async function pollPendingConfirmations(
+  pool: Pool,
+  encryptionService: EncryptionService,
+  messageQueue: MessageQueueClient
+): Promise<void> {
+  const confirmationService = new PaymentConfirmationService(pool, messageQueue);
+  const mobileMoneyService = new MobileMoneyService(
+    {
+      provider: (process.env.MOBILE_MONEY_PROVIDER as any) || 'mtn',
+      apiKey: process.env.MOBILE_MONEY_API_KEY || '',
+      apiSecret: process.env.MOBILE_MONEY_API_SECRET || '',
+      callbackUrl: process.env.MOBILE_MONEY_CALLBACK_URL || 'http://localhost:3003/payments/callbacks/mobile-money',
+      environment: (process.env.MOBILE_MONEY_ENV as any) || 'sandbox',
+      apiBaseUrl: process.env.MOBILE_MONEY_API_URL,
+    },
+    encryptionService
+  );
+
+  const awaiting = await confirmationService.getAwaitingConfirmation(100);
+  console.log(`Checking ${awaiting.length} payments awaiting confirmation`);
+
+  for (const payment of awaiting) {
+    try {
+      const statusResponse = await mobileMoneyService.checkPaymentStatus(payment.external_transaction_id);
+      if (!statusResponse.success) {
+        // The status check itself failed; try again on the next run
+        continue;
+      }
+
+      if (statusResponse.status === 'completed') {
+        await confirmationService.confirmPayment(payment.id, 'status_check');
+      } else if (statusResponse.status === 'failed') {
+        await confirmationService.failPayment(payment.id, statusResponse.message || 'Payment failed', 'status_check');
+      }
+    } catch (error) {
+      console.error(`Error checking status of payment ${payment.id}:`, error);
+    }
+  }
+
+  const expired = await confirmationService.expireAbandonedPrompts();
+  if (expired > 0) {
+    console.log(`Failed ${expired} payments whose prompt was not approved in time`);
+  }
+}
+
 /**
  * Check for overdue payments and update status
  */
@@ -298,12 +499,28 @@ async function checkOverduePayments(pool: Pool, messageQueue: MessageQueueClient
      JOIN payment_plans pp ON p.payment_plan_id = pp.id
      WHERE p.status IN ('pending', 'failed')
        AND p.due_date < $1
-       AND pp.status = 'active'`,
+       AND pp.status = 'active'
+       -- A restructure replaces the schedule these payments were collecting against
+       AND NOT EXISTS (
+         SELECT 1 FROM plan_restructures pr
+         WHERE pr.payment_plan_id = pp.id AND pr.created_at > p.due_date
+       )`,
     [today]
   );
 
   console.log(`Found ${overdueResult.rows.length} overdue payments`);
 
+  // Keep the installment schedule in step with the overdue payments
+  const installmentService = new InstallmentService(pool);
+  const overdueInstallments = await installmentService.markOverdueInstallments();
+  console.log(`Marked ${overdueInstallments} installments as overdue`);
+
+  // Charge late fees - each rule charges an installment at most once per day
+  const penaltyService = new PenaltyService(pool);
+  const { charges: penaltyCharges, eventIds: penaltyEventIds } = await penaltyService.applyDailyPenalties();
+  console.log(`Charged ${penaltyCharges.length} penalties`);
+  await new OutboxService(pool, messageQueue).publishNow(penaltyEventIds);
+
   for (const payment of overdueResult.rows) {
     try {
       // Calculate days overdue
@@ -355,37 +572,3 @@ async function checkOverduePayments(pool: Pool, messageQueue: MessageQueueClient
     }
   }
 }
-
-/**
- * Update payment plan after successful payment
- */
-async function updatePaymentPlanAfterSuccess(pool: Pool, plan: any, payment: any): Promise<void> {
-  const newRemaining = plan.remaining_installments - 1;
-  const nextPaymentDate = PaymentScheduleService.calculateNextPaymentDate(
-    new Date(plan.next_payment_date),
-    plan.payment_frequency
-  );
-  const planStatus = newRemaining === 0 ? 'completed' : 'active';
-
-  await pool.query(
-    `UPDATE payment_plans 
-     SET remaining_installments = $1, 
-         next_payment_date = $2, 
-         status = $3,
-         overdue_days = 0,
-         updated_at = CURRENT_TIMESTAMP 
-     WHERE id = $4`,
-    [newRemaining, nextPaymentDate, planStatus, plan.id]
-  );
-
-  // Publish payment completed event
-  await pool.query(
-    `SELECT * FROM payments WHERE id = $1`,
-    [payment.id]
-  ).then(async (result) => {
-    if (result.rows.length > 0) {
-      const completedPayment = result.rows[0];
-      // Event will be published by the route handler or callback handler
-    }
-  });
-}
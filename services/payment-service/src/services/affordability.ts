@@ -0,0 +1,243 @@
+/**
+ * Affordability Simulator
+ * Prices a plan for a vehicle before the customer applies and checks it against their declared
+ * income and the limits of their credit tier. Vehicle details come from vehicle-service and tier
+ * limits from credit-service; nothing is written.
+ */
+
+import { PaymentScheduleService, PaymentSchedule } from './paymentSchedule';
+import { FinanceChargeService, CreditTier, InterestMethod, PaymentFrequency } from './financeCharges';
+
+export type TierSource = 'credit_score' | 'requested' | 'assumed';
+
+export type AffordabilityCheckName = 'eligibility' | 'vehicle_value' | 'deposit' | 'vehicle_category' | 'installment_to_income';
+
+export interface SimulationVehicle {
+  id: string;
+  price: number;
+  depositAmount: number; // The retailer's suggested deposit
+  vehicleType: string;
+  status: string;
+  retailerId?: string; // The retailer selling the vehicle
+}
+
+export interface TierLimits {
+  tier: CreditTier;
+  source: TierSource;
+  maxVehicleValue: number;
+  depositPercentage: number; // Minimum deposit as a percentage of the vehicle price
+  vehicleCategories: string[];
+}
+
+export interface SimulationRequest {
+  vehicle: SimulationVehicle;
+  depositAmount: number;
+  termLengthMonths: 12 | 18 | 24 | 36;
+  paymentFrequency: PaymentFrequency;
+  monthlyIncome: number;
+  tierLimits: TierLimits;
+  interestMethod?: InterestMethod;
+  skipSundays?: boolean;
+  skipPublicHolidays?: boolean;
+}
+
+export interface AffordabilityCheck {
+  check: AffordabilityCheckName;
+  passed: boolean;
+  message: string;
+}
+
+export interface AffordabilitySimulation {
+  vehicle: SimulationVehicle;
+  schedule: PaymentSchedule;
+  totalCost: number; // Deposit plus every installment
+  totalInterest: number;
+  monthlyIncome: number;
+  monthlyInstallment: number; // Installments falling due in an average month
+  installmentToIncomeRatio: number;
+  maxInstallmentToIncomeRatio: number;
+  tierLimits: TierLimits;
+  fitsTierLimits: boolean;
+  checks: AffordabilityCheck[];
+}
+
+export interface AffordabilityConfig {
+  vehicleServiceUrl: string;
+  creditServiceUrl: string;
+  maxInstallmentToIncomeRatio: number; // e.g. 0.35 - installments may take up to 35% of income
+  assumedTier: CreditTier; // Used for applicants who have not been scored and did not pick a tier
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export class AffordabilityService {
+  private config: AffordabilityConfig;
+
+  constructor(config: AffordabilityConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Vehicle details from vehicle-service, or null when the vehicle does not exist
+   */
+  async getVehicle(vehicleId: string): Promise<SimulationVehicle | null> {
+    const data = await this.request(this.config.vehicleServiceUrl, `/vehicles/${encodeURIComponent(vehicleId)}`);
+    if (!data) {
+      return null;
+    }
+
+    const vehicle = data.vehicle;
+    return {
+      id: vehicle.id,
+      price: parseFloat(vehicle.price),
+      depositAmount: parseFloat(vehicle.deposit_amount),
+      vehicleType: vehicle.vehicle_type,
+      status: vehicle.status,
+      retailerId: vehicle.retailer_id || undefined,
+    };
+  }
+
+  /**
+   * The tier credit-service scored the customer at, or null when they have not been scored
+   */
+  async getScoredTier(userId: string): Promise<CreditTier | null> {
+    const scored = await this.request(this.config.creditServiceUrl, `/scoring/getTier/${encodeURIComponent(userId)}`);
+    return scored ? scored.tier : null;
+  }
+
+  /**
+   * Tier limits for the applicant: their scored tier and personal limits when they have a credit score,
+   * otherwise the limits of the tier they asked about (or the assumed tier)
+   */
+  async getTierLimits(userId?: string, requestedTier?: CreditTier): Promise<TierLimits> {
+    if (userId) {
+      const scored = await this.request(this.config.creditServiceUrl, `/scoring/getTier/${encodeURIComponent(userId)}`);
+      if (scored) {
+        return {
+          tier: scored.tier,
+          source: 'credit_score',
+          maxVehicleValue: parseFloat(scored.maximumVehicleValue),
+          depositPercentage: parseFloat(scored.requiredDepositPercentage),
+          vehicleCategories: scored.tierConfiguration.vehicleCategories,
+        };
+      }
+    }
+
+    const tier = requestedTier || this.config.assumedTier;
+    const data = await this.request(this.config.creditServiceUrl, '/scoring/tiers');
+    const tierConfig = data?.tiers?.find((config: any) => config.tier === tier);
+    if (!tierConfig) {
+      throw new Error(`Credit service has no configuration for tier ${tier}`);
+    }
+
+    return {
+      tier,
+      source: requestedTier ? 'requested' : 'assumed',
+      maxVehicleValue: parseFloat(tierConfig.maxVehicleValue),
+      depositPercentage: parseFloat(tierConfig.depositPercentage),
+      vehicleCategories: tierConfig.vehicleCategories,
+    };
+  }
+
+  /**
+   * Build the schedule for the requested terms and check it against the applicant's income and tier limits.
+   * Pure calculation - nothing is written.
+   */
+  static simulate(request: SimulationRequest, maxInstallmentToIncomeRatio: number): AffordabilitySimulation {
+    const { vehicle, depositAmount, monthlyIncome, tierLimits } = request;
+    const eligible = tierLimits.maxVehicleValue > 0;
+
+    // Priced at the tier's interest rate; tiers not eligible for financing are shown without finance charges
+    const schedule = PaymentScheduleService.calculateSchedule({
+      vehiclePrice: vehicle.price,
+      depositAmount,
+      termLengthMonths: request.termLengthMonths,
+      paymentFrequency: request.paymentFrequency,
+      creditTier: eligible ? tierLimits.tier : undefined,
+      interestMethod: request.interestMethod,
+      skipSundays: request.skipSundays,
+      skipPublicHolidays: request.skipPublicHolidays,
+    });
+
+    const monthlyInstallment = AffordabilityService.monthlyInstallment(schedule);
+    const installmentToIncomeRatio = Math.round((monthlyInstallment / monthlyIncome) * 10000) / 10000;
+    const depositPercentage = round2((depositAmount / vehicle.price) * 100);
+
+    const checks: AffordabilityCheck[] = [
+      {
+        check: 'eligibility',
+        passed: eligible,
+        message: eligible
+          ? `Tier ${tierLimits.tier} is eligible for financing`
+          : `Tier ${tierLimits.tier} is not eligible for financing`,
+      },
+      {
+        check: 'vehicle_value',
+        passed: vehicle.price <= tierLimits.maxVehicleValue,
+        message: `Vehicle price ${vehicle.price} against a tier limit of ${tierLimits.maxVehicleValue}`,
+      },
+      {
+        check: 'deposit',
+        passed: depositPercentage >= tierLimits.depositPercentage,
+        message: `Deposit of ${depositPercentage}% against a required ${tierLimits.depositPercentage}%`,
+      },
+      {
+        check: 'vehicle_category',
+        passed: tierLimits.vehicleCategories.includes(vehicle.vehicleType),
+        message: tierLimits.vehicleCategories.includes(vehicle.vehicleType)
+          ? `Tier ${tierLimits.tier} can finance a ${vehicle.vehicleType}`
+          : `Tier ${tierLimits.tier} cannot finance a ${vehicle.vehicleType}`,
+      },
+      {
+        check: 'installment_to_income',
+        passed: installmentToIncomeRatio <= maxInstallmentToIncomeRatio,
+        message: `Installments take ${round2(installmentToIncomeRatio * 100)}% of income against a limit of ${round2(maxInstallmentToIncomeRatio * 100)}%`,
+      },
+    ];
+
+    return {
+      vehicle,
+      schedule,
+      totalCost: schedule.totalPayable,
+      totalInterest: schedule.totalInterest,
+      monthlyIncome,
+      monthlyInstallment,
+      installmentToIncomeRatio,
+      maxInstallmentToIncomeRatio,
+      tierLimits,
+      fitsTierLimits: checks.every((check) => check.passed),
+      checks,
+    };
+  }
+
+  /**
+   * What the installments come to in an average month, so daily and weekly plans compare with monthly income
+   */
+  static monthlyInstallment(schedule: PaymentSchedule): number {
+    const periodsPerYear = FinanceChargeService.getPeriodsPerYear(schedule.paymentFrequency, {
+      skipSundays: schedule.skipSundays,
+      skipPublicHolidays: schedule.skipPublicHolidays,
+    });
+    return round2((schedule.installmentAmount * periodsPerYear) / 12);
+  }
+
+  /**
+   * GET another service's endpoint and return its `data`, or null on 404
+   */
+  private async request(baseUrl: string, path: string): Promise<any> {
+    const response = await fetch(`${baseUrl}${path}`, {
+      headers: { 'Content-Type': 'application/json' },
+      signal: AbortSignal.timeout(10000),
+    });
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    const body: any = await response.json();
+    if (!response.ok || !body.success) {
+      throw new Error(body.error?.message || `Request to ${baseUrl}${path} failed with status ${response.status}`);
+    }
+    return body.data;
+  }
+}
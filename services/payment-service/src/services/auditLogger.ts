@@ -0,0 +1,67 @@
+import { Pool } from 'pg';
+
+export interface AuditLog {
+  id: string;
+  entityType: string;
+  entityId: string;
+  action: string;
+  performedBy?: string;
+  reason?: string;
+  details?: any;
+  timestamp: Date;
+}
+
+/**
+ * Service for logging manual interventions on payments for auditability
+ */
+export class AuditLogger {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Log an action taken against a payment record
+   */
+  async logAction(
+    entityType: string,
+    entityId: string,
+    action: string,
+    performedBy: string | null,
+    reason?: string,
+    details?: any
+  ): Promise<void> {
+    try {
+      await this.pool.query(
+        `INSERT INTO payment_audit_logs
+         (entity_type, entity_id, action, performed_by, reason, details)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [entityType, entityId, action, performedBy, reason || null, details ? JSON.stringify(details) : null]
+      );
+    } catch (error) {
+      console.error('Failed to log audit action:', error);
+      // Don't throw - audit logging should not break the main flow
+    }
+  }
+
+  /**
+   * Get audit logs for a record
+   */
+  async getAuditLogs(entityType: string, entityId: string, limit: number = 100): Promise<AuditLog[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM payment_audit_logs
+       WHERE entity_type = $1 AND entity_id = $2
+       ORDER BY created_at DESC
+       LIMIT $3`,
+      [entityType, entityId, limit]
+    );
+
+    return result.rows.map((row) => ({
+      id: row.id,
+      entityType: row.entity_type,
+      entityId: row.entity_id,
+      action: row.action,
+      performedBy: row.performed_by || undefined,
+      reason: row.reason || undefined,
+      details: row.details || undefined,
+      timestamp: row.created_at,
+    }));
+  }
+}
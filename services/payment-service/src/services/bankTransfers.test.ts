@@ -0,0 +1,165 @@
+import { BankTransferService, ExpectedPayment } from './bankTransfers';
+
+describe('BankTransferService', () => {
+  const reference = BankTransferService.generateReference();
+
+  describe('payment references', () => {
+    it('should generate references that pass their own check', () => {
+      expect(reference).toMatch(/^RTO[A-Z2-9]{8}$/);
+      expect(BankTransferService.isValidReference(reference)).toBe(true);
+      expect(BankTransferService.isValidReference(reference.toLowerCase())).toBe(true);
+    });
+
+    it('should reject a reference with a mistyped character', () => {
+      const typo = reference.slice(0, 5) + (reference[5] === 'A' ? 'B' : 'A') + reference.slice(6);
+
+      expect(BankTransferService.isValidReference(typo)).toBe(false);
+    });
+
+    it('should find a reference in a narration despite spaces and dashes', () => {
+      const spaced = `${reference.slice(0, 3)}-${reference.slice(3, 7)} ${reference.slice(7)}`;
+
+      expect(BankTransferService.extractReference(undefined, `Boda loan ${spaced} thanks`)).toBe(reference);
+      expect(BankTransferService.extractReference('no reference here')).toBeUndefined();
+    });
+  });
+
+  describe('parseCsvStatement', () => {
+    it('should read credits and debits from a signed amount column', () => {
+      const csv = [
+        'Transaction ID,Value Date,Amount,Currency,Narration',
+        `TXN-1,2024-03-01,"1,500,000.00",ugx,"Deposit, ${reference}"`,
+        'TXN-2,2024-03-02,-25000,UGX,Bank charges',
+      ].join('\n');
+
+      const { entries } = BankTransferService.parseCsvStatement(csv);
+
+      expect(entries).toHaveLength(2);
+      expect(entries[0]).toMatchObject({
+        bankTransactionId: 'TXN-1',
+        valueDate: new Date('2024-03-01'),
+        amount: 1500000,
+        currency: 'UGX',
+        direction: 'credit',
+        narration: `Deposit, ${reference}`,
+        reference,
+      });
+      expect(entries[1]).toMatchObject({ bankTransactionId: 'TXN-2', amount: 25000, direction: 'debit', reference: undefined });
+    });
+
+    it('should read separate credit and debit columns and a DR marker', () => {
+      const csv = [
+        'Bank Reference,Date,Credit,Debit,Payment Reference',
+        `B1,01/03/2024,50000,,${reference}`,
+        'B2,02/03/2024,,12000,',
+      ].join('\r\n');
+
+      const { entries } = BankTransferService.parseCsvStatement(csv);
+
+      expect(entries.map((entry) => [entry.amount, entry.direction, entry.reference])).toEqual([
+        [50000, 'credit', reference],
+        [12000, 'debit', undefined],
+      ]);
+
+      const marked = BankTransferService.parseCsvStatement('Ref No,Amount,DR/CR\nX1,4000,DR\nX2,5000,CR');
+      expect(marked.entries.map((entry) => entry.direction)).toEqual(['debit', 'credit']);
+    });
+
+    it('should keep the original row for the audit trail', () => {
+      const { entries } = BankTransferService.parseCsvStatement('Transaction ID,Amount\nTXN-1,100');
+
+      expect(entries[0].raw).toEqual({ 'Transaction ID': 'TXN-1', Amount: '100' });
+    });
+
+    it('should reject statements without a transaction ID or amount column', () => {
+      expect(() => BankTransferService.parseCsvStatement('')).toThrow('Statement file is empty');
+      expect(() => BankTransferService.parseCsvStatement('Date,Amount\n2024-03-01,100')).toThrow(
+        'Statement is missing a column for bankTransactionId'
+      );
+      expect(() => BankTransferService.parseCsvStatement('Transaction ID,Narration\nTXN-1,Hello')).toThrow(
+        'Statement is missing an amount column'
+      );
+    });
+
+    it('should name the row with a missing transaction ID or bad amount', () => {
+      expect(() => BankTransferService.parseCsvStatement('Transaction ID,Amount\nTXN-1,100\n,200')).toThrow(
+        'Missing transaction ID on statement row 3'
+      );
+      expect(() => BankTransferService.parseCsvStatement('Transaction ID,Amount\nTXN-1,abc')).toThrow(
+        'Invalid amount on statement row 2'
+      );
+    });
+  });
+
+  describe('parseMt940Statement', () => {
+    const mt940 = [
+      '{1:F01BANKUGKAXXXX0000000000}{2:I940BANKUGKAXXXXN}{4:',
+      ':20:STMT240301',
+      ':25:0123456789',
+      ':28C:1/1',
+      ':60F:C240301UGX1000000,00',
+      ':61:2403010301C500000,00NTRFNONREF//FT24061ABC',
+      `:86:Transfer from JOHN DOE ${reference}`,
+      'Mobile banking',
+      ':61:240302D20000,00NCHGNONREF',
+      ':86:Monthly charges',
+      `:61:240303C75000,50NTRF${reference}`,
+      ':62F:C240303UGX1555000,50',
+      '-}',
+    ].join('\r\n');
+
+    it('should turn each statement line into an entry with its narration', () => {
+      const statement = BankTransferService.parseMt940Statement(mt940);
+
+      expect(statement.accountNumber).toBe('0123456789');
+      expect(statement.entries).toHaveLength(3);
+      expect(statement.entries[0]).toMatchObject({
+        bankTransactionId: 'FT24061ABC',
+        valueDate: new Date(Date.UTC(2024, 2, 1)),
+        amount: 500000,
+        currency: 'UGX',
+        direction: 'credit',
+        narration: `Transfer from JOHN DOE ${reference} Mobile banking`,
+        reference,
+      });
+      expect(statement.entries[1]).toMatchObject({ amount: 20000, direction: 'debit', narration: 'Monthly charges' });
+    });
+
+    it('should fall back to the customer reference, then the statement and line number, for the transaction ID', () => {
+      const { entries } = BankTransferService.parseMt940Statement(mt940);
+
+      expect(entries[1].bankTransactionId).toBe('STMT240301:2');
+      expect(entries[2]).toMatchObject({ bankTransactionId: reference, amount: 75000.5, reference });
+    });
+
+    it('should treat a reversed debit as money coming in', () => {
+      const { entries } = BankTransferService.parseMt940Statement(':20:S1\n:61:240301RD1000,00NTRFNONREF//R1');
+
+      expect(entries[0].direction).toBe('credit');
+    });
+
+    it('should reject files without statement lines', () => {
+      expect(() => BankTransferService.parseMt940Statement('Transaction ID,Amount\nTXN-1,100')).toThrow(
+        'Statement has no :61: statement lines'
+      );
+    });
+  });
+
+  describe('matchExpectedPayment', () => {
+    const expected: ExpectedPayment[] = [
+      { kind: 'installment', amount: 150000 },
+      { kind: 'settlement', amount: 2400000, settlementQuoteId: 'quote-1' },
+    ];
+
+    it('should match an amount within a cent of an expected payment', () => {
+      expect(BankTransferService.matchExpectedPayment(150000, expected)).toBe(expected[0]);
+      expect(BankTransferService.matchExpectedPayment(2400000.004, expected)).toBe(expected[1]);
+    });
+
+    it('should return null when the amount fits nothing the plan expects', () => {
+      expect(BankTransferService.matchExpectedPayment(100000, expected)).toBeNull();
+      expect(BankTransferService.matchExpectedPayment(150000.5, expected)).toBeNull();
+      expect(BankTransferService.matchExpectedPayment(150000, [])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,861 @@
+/**
+ * Bank Transfer Service
+ * Customers pay by bank transfer quoting their plan's payment reference. Bank statements (CSV
+ * exports or MT940 files) are imported and each credit is matched to a plan by that reference and
+ * its amount; matched credits are recorded as bank_transfer payments and confirmed through the
+ * normal completed path. Credits that cannot be matched wait in a queue for an admin to apply or dismiss.
+ */
+
+import { randomInt } from 'crypto';
+import { Pool, PoolClient } from 'pg';
+import { MessageQueueClient } from '@rent-to-own/message-queue';
+import { PaymentConfirmationService } from './paymentConfirmation';
+import { inTransaction } from './transaction';
+
+export type BankStatementFormat = 'csv' | 'mt940';
+export type BankEntryDirection = 'credit' | 'debit';
+export type BankMatchStatus = 'matched' | 'unmatched' | 'amount_mismatch' | 'plan_inactive' | 'duplicate' | 'ignored';
+export type BankQueueResolution = 'apply_to_plan' | 'dismiss';
+export type ExpectedPaymentKind = 'deposit' | 'installment' | 'settlement';
+
+export interface BankStatementEntry {
+  bankTransactionId: string;
+  valueDate?: Date;
+  amount: number;
+  currency: string;
+  direction: BankEntryDirection;
+  narration?: string;
+  reference?: string; // The customer's payment reference, if it was found in the entry
+  raw: Record<string, string>;
+}
+
+export interface ParsedBankStatement {
+  accountNumber?: string;
+  entries: BankStatementEntry[];
+}
+
+export interface ExpectedPayment {
+  kind: ExpectedPaymentKind;
+  amount: number;
+  settlementQuoteId?: string;
+}
+
+export interface BankStatement {
+  id: string;
+  format: BankStatementFormat;
+  fileName?: string;
+  accountNumber?: string;
+  entryCount: number;
+  matchedCount: number;
+  queuedCount: number;
+  importedBy?: string;
+  createdAt: Date;
+}
+
+export interface BankTransferEntry {
+  id: string;
+  statementId: string;
+  accountNumber?: string;
+  bankTransactionId: string;
+  valueDate?: Date;
+  amount: number;
+  currency: string;
+  direction: BankEntryDirection;
+  narration?: string;
+  reference?: string;
+  paymentPlanId?: string;
+  paymentId?: string;
+  matchStatus: BankMatchStatus;
+  resolutionStatus?: 'open' | 'resolving' | 'resolved'; // Only set on queued credits
+  resolution?: BankQueueResolution;
+  resolutionNotes?: string;
+  resolvedBy?: string;
+  resolvedAt?: Date;
+  createdAt: Date;
+}
+
+export interface BankTransferInstructions {
+  planId: string;
+  paymentReference: string;
+  bankName: string;
+  accountName: string;
+  accountNumber: string;
+  expectedPayments: ExpectedPayment[];
+}
+
+// Payment references: prefix, 7 random characters and a check character. The alphabet leaves out
+// 0/O and 1/I so references read back over the phone or typed into a banking app survive intact.
+const REFERENCE_PREFIX = 'RTO';
+const REFERENCE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const REFERENCE_BODY_LENGTH = 7;
+const REFERENCE_PATTERN = new RegExp(`${REFERENCE_PREFIX}[${REFERENCE_ALPHABET}]{${REFERENCE_BODY_LENGTH + 1}}`, 'g');
+
+// Column names used by bank CSV exports, in order of preference (lowercased)
+const CSV_COLUMNS: Record<string, string[]> = {
+  bankTransactionId: ['transaction id', 'transaction reference', 'bank reference', 'reference number', 'ref no'],
+  valueDate: ['value date', 'transaction date', 'posting date', 'date'],
+  amount: ['amount'],
+  credit: ['credit', 'credit amount', 'deposits'],
+  debit: ['debit', 'debit amount', 'withdrawals'],
+  direction: ['type', 'cr/dr', 'dr/cr'],
+  currency: ['currency', 'ccy'],
+  narration: ['narration', 'description', 'details', 'particulars', 'remarks'],
+  reference: ['payment reference', 'customer reference', 'reference'],
+};
+
+// MT940 :61: statement line - value date, optional entry date, debit/credit mark, funds code, amount,
+// transaction type, customer reference and the bank's own reference after //
+const MT940_STATEMENT_LINE = /^(\d{6})(\d{4})?(R?[CD])([A-Z])?(\d+,\d*)([NSF][A-Z0-9]{3})([^/\n]*)(?:\/\/([^\n]*))?/;
+
+const AMOUNT_TOLERANCE = 0.01;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Split CSV text into rows of fields, honouring quoted fields
+ */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ''));
+}
+
+function parseAmount(value: string): number {
+  return parseFloat(value.replace(/[,\s]/g, ''));
+}
+
+/**
+ * MT940 dates are YYMMDD; years before 70 are this century
+ */
+function parseMt940Date(value: string): Date {
+  const year = parseInt(value.slice(0, 2));
+  return new Date(Date.UTC(year < 70 ? 2000 + year : 1900 + year, parseInt(value.slice(2, 4)) - 1, parseInt(value.slice(4, 6))));
+}
+
+/**
+ * Luhn mod N check character over the reference alphabet - catches any single mistyped
+ * character and most swapped pairs, so a typo does not land a payment on someone else's plan
+ */
+function referenceCheckCharacter(body: string): string {
+  const base = REFERENCE_ALPHABET.length;
+  let sum = 0;
+  let factor = 2;
+  for (let i = body.length - 1; i >= 0; i--) {
+    const addend = factor * REFERENCE_ALPHABET.indexOf(body[i]);
+    sum += Math.floor(addend / base) + (addend % base);
+    factor = factor === 2 ? 1 : 2;
+  }
+  return REFERENCE_ALPHABET[(base - (sum % base)) % base];
+}
+
+export class BankTransferService {
+  private pool: Pool;
+  private confirmationService: PaymentConfirmationService;
+
+  constructor(pool: Pool, messageQueue: MessageQueueClient) {
+    this.pool = pool;
+    this.confirmationService = new PaymentConfirmationService(pool, messageQueue);
+  }
+
+  /**
+   * A new random payment reference
+   */
+  static generateReference(): string {
+    let body = '';
+    for (let i = 0; i < REFERENCE_BODY_LENGTH; i++) {
+      body += REFERENCE_ALPHABET[randomInt(REFERENCE_ALPHABET.length)];
+    }
+    return `${REFERENCE_PREFIX}${body}${referenceCheckCharacter(body)}`;
+  }
+
+  static isValidReference(reference: string): boolean {
+    const value = reference.toUpperCase();
+    if (!new RegExp(`^${REFERENCE_PATTERN.source}$`).test(value)) {
+      return false;
+    }
+    const body = value.slice(REFERENCE_PREFIX.length, -1);
+    return referenceCheckCharacter(body) === value.slice(-1);
+  }
+
+  /**
+   * Find a payment reference in free text such as a transfer narration. Banks and customers add
+   * spaces, dashes and other words around it, so separators are ignored and only references with
+   * a valid check character count.
+   */
+  static extractReference(...texts: Array<string | undefined>): string | undefined {
+    for (const text of texts) {
+      if (!text) {
+        continue;
+      }
+      const compact = text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+      for (const candidate of compact.match(REFERENCE_PATTERN) || []) {
+        if (BankTransferService.isValidReference(candidate)) {
+          return candidate;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Read a bank CSV export into statement entries.
+   * Amounts come from an amount column (negative or marked DR for debits) or separate credit and debit columns.
+   * Pure calculation - nothing is written.
+   */
+  static parseCsvStatement(content: string): ParsedBankStatement {
+    const [header, ...rows] = parseCsv(content);
+    if (!header) {
+      throw new Error('Statement file is empty');
+    }
+
+    const headings = header.map((heading) => heading.trim().toLowerCase());
+    const columnIndex = (field: string) => {
+      for (const name of CSV_COLUMNS[field]) {
+        const index = headings.indexOf(name);
+        if (index !== -1) {
+          return index;
+        }
+      }
+      return -1;
+    };
+
+    if (columnIndex('bankTransactionId') === -1) {
+      throw new Error(`Statement is missing a column for bankTransactionId (expected one of: ${CSV_COLUMNS.bankTransactionId.join(', ')})`);
+    }
+    if (columnIndex('amount') === -1 && columnIndex('credit') === -1) {
+      throw new Error(`Statement is missing an amount column (expected one of: ${[...CSV_COLUMNS.amount, ...CSV_COLUMNS.credit].join(', ')})`);
+    }
+
+    const entries = rows.map((fields, rowNumber) => {
+      const value = (field: string) => {
+        const index = columnIndex(field);
+        return index === -1 ? '' : (fields[index] || '').trim();
+      };
+
+      if (!value('bankTransactionId')) {
+        throw new Error(`Missing transaction ID on statement row ${rowNumber + 2}`);
+      }
+
+      let amount: number;
+      let direction: BankEntryDirection;
+      if (value('credit') || value('debit')) {
+        const credit = value('credit') ? parseAmount(value('credit')) : 0;
+        direction = credit > 0 ? 'credit' : 'debit';
+        amount = direction === 'credit' ? credit : parseAmount(value('debit'));
+      } else {
+        amount = parseAmount(value('amount'));
+        const marker = value('direction').toUpperCase();
+        direction = amount < 0 || ['DR', 'D', 'DEBIT'].includes(marker) ? 'debit' : 'credit';
+      }
+      if (isNaN(amount)) {
+        throw new Error(`Invalid amount on statement row ${rowNumber + 2}`);
+      }
+
+      const valueDate = value('valueDate') ? new Date(value('valueDate')) : undefined;
+
+      return {
+        bankTransactionId: value('bankTransactionId'),
+        valueDate: valueDate && !isNaN(valueDate.getTime()) ? valueDate : undefined,
+        amount: round2(Math.abs(amount)),
+        currency: (value('currency') || 'UGX').toUpperCase(),
+        direction,
+        narration: value('narration') || undefined,
+        reference: BankTransferService.extractReference(value('reference'), value('narration')),
+        raw: Object.fromEntries(header.map((heading, index) => [heading.trim(), fields[index] || ''])),
+      };
+    });
+
+    return { entries };
+  }
+
+  /**
+   * Read an MT940 customer statement into statement entries. Each :61: statement line becomes an
+   * entry, with the :86: information that follows it as the narration.
+   * Pure calculation - nothing is written.
+   */
+  static parseMt940Statement(content: string): ParsedBankStatement {
+    // Collect tags with their (possibly multi-line) values, ignoring the SWIFT block wrapper
+    const fields: Array<{ tag: string; value: string }> = [];
+    for (const line of content.replace(/\r\n?/g, '\n').split('\n')) {
+      const tagMatch = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+      if (tagMatch) {
+        fields.push({ tag: tagMatch[1], value: tagMatch[2] });
+      } else if (fields.length > 0 && line.trim() !== '' && !/^-\}?$/.test(line.trim())) {
+        fields[fields.length - 1].value += `\n${line}`;
+      }
+    }
+
+    if (!fields.some((field) => field.tag === '61')) {
+      throw new Error('Statement has no :61: statement lines - is it an MT940 file?');
+    }
+
+    let accountNumber: string | undefined;
+    let statementReference = '';
+    let currency = 'UGX';
+    const entries: BankStatementEntry[] = [];
+
+    for (const { tag, value } of fields) {
+      if (tag === '20') {
+        statementReference = value.trim();
+      } else if (tag === '25') {
+        accountNumber = value.trim();
+      } else if (tag === '60F' || tag === '60M') {
+        // Opening balance: D/C mark, date, currency, amount
+        currency = value.trim().slice(7, 10) || currency;
+      } else if (tag === '61') {
+        const match = value.match(MT940_STATEMENT_LINE);
+        if (!match) {
+          throw new Error(`Invalid :61: statement line: ${value.split('\n')[0]}`);
+        }
+        const [, valueDate, , mark, , amount, , customerReference, bankReference] = match;
+        const trimmedCustomerReference = customerReference.trim();
+
+        // Reversals (RC/RD) move money the opposite way to the entry they reverse
+        const direction: BankEntryDirection = mark === 'C' || mark === 'RD' ? 'credit' : 'debit';
+        const bankTransactionId = bankReference?.trim()
+          || (trimmedCustomerReference && trimmedCustomerReference !== 'NONREF' ? trimmedCustomerReference : '')
+          || `${statementReference || accountNumber || 'MT940'}:${entries.length + 1}`;
+
+        entries.push({
+          bankTransactionId,
+          valueDate: parseMt940Date(valueDate),
+          amount: round2(parseFloat(amount.replace(',', '.'))),
+          currency,
+          direction,
+          reference: BankTransferService.extractReference(trimmedCustomerReference),
+          raw: { ':61:': value },
+        });
+      } else if (tag === '86' && entries.length > 0 && !entries[entries.length - 1].narration) {
+        const entry = entries[entries.length - 1];
+        entry.narration = value.replace(/\n/g, ' ').trim();
+        entry.reference = entry.reference || BankTransferService.extractReference(entry.narration);
+        entry.raw[':86:'] = value;
+      }
+    }
+
+    return { accountNumber, entries };
+  }
+
+  /**
+   * Decide which payment a credit is, from the amounts the plan is currently expecting.
+   * Returns null when the amount fits none of them.
+   * Pure calculation - nothing is written.
+   */
+  static matchExpectedPayment(amount: number, expected: ExpectedPayment[]): ExpectedPayment | null {
+    return expected.find((candidate) => Math.abs(candidate.amount - amount) <= AMOUNT_TOLERANCE) || null;
+  }
+
+  /**
+   * Give a plan its payment reference if it does not have one yet. Returns the plan's reference.
+   */
+  async assignReference(planId: string, client?: PoolClient): Promise<string> {
+    return inTransaction(this.pool, client, async (client) => {
+      // References are random, so on the rare clash with another plan roll back the attempt and draw again
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await client.query('SAVEPOINT assign_reference');
+        try {
+          const result = await client.query(
+            `UPDATE payment_plans
+             SET payment_reference = COALESCE(payment_reference, $1), updated_at = CURRENT_TIMESTAMP
+             WHERE id = $2
+             RETURNING payment_reference`,
+            [BankTransferService.generateReference(), planId]
+          );
+          if (result.rows.length === 0) {
+            throw new Error('Payment plan not found');
+          }
+          await client.query('RELEASE SAVEPOINT assign_reference');
+          return result.rows[0].payment_reference;
+        } catch (error: any) {
+          if (error.code !== '23505') {
+            throw error;
+          }
+          await client.query('ROLLBACK TO SAVEPOINT assign_reference');
+        }
+      }
+      throw new Error('Could not generate a unique payment reference');
+    });
+  }
+
+  /**
+   * Give every plan created before bank transfers were supported a payment reference
+   */
+  async assignMissingReferences(): Promise<number> {
+    const result = await this.pool.query('SELECT id FROM payment_plans WHERE payment_reference IS NULL');
+    for (const row of result.rows) {
+      await this.assignReference(row.id);
+    }
+    return result.rows.length;
+  }
+
+  /**
+   * The amounts a bank credit for this plan can be matched against: the deposit until it is paid,
+   * the next installment, everything currently overdue (with late fees), and any live settlement quote
+   */
+  async getExpectedPayments(plan: any): Promise<ExpectedPayment[]> {
+    const expected: ExpectedPayment[] = [];
+
+    const depositResult = await this.pool.query(
+      `SELECT 1 FROM payments WHERE payment_plan_id = $1 AND is_deposit = true AND status = 'completed' LIMIT 1`,
+      [plan.id]
+    );
+    if (depositResult.rows.length === 0) {
+      expected.push({ kind: 'deposit', amount: parseFloat(plan.deposit_amount) });
+    }
+
+    const dueResult = await this.pool.query(
+      `SELECT
+         (SELECT amount_due - amount_paid FROM payment_installments
+          WHERE payment_plan_id = $1 AND status IN ('pending', 'partially_paid', 'overdue')
+          ORDER BY installment_number ASC LIMIT 1) AS next_due,
+         (SELECT COALESCE(SUM(amount_due - amount_paid), 0) FROM payment_installments
+          WHERE payment_plan_id = $1 AND status = 'overdue') AS overdue,
+         (SELECT COALESCE(SUM(amount - amount_paid), 0) FROM penalty_charges
+          WHERE payment_plan_id = $1 AND status = 'outstanding') AS penalties`,
+      [plan.id]
+    );
+    const due = dueResult.rows[0];
+    const overdueWithPenalties = round2(parseFloat(due.overdue) + parseFloat(due.penalties));
+
+    expected.push({ kind: 'installment', amount: parseFloat(plan.installment_amount) });
+    if (due.next_due !== null) {
+      expected.push({ kind: 'installment', amount: round2(parseFloat(due.next_due)) });
+    }
+    if (parseFloat(due.overdue) > 0) {
+      expected.push({ kind: 'installment', amount: round2(parseFloat(due.overdue)) });
+      expected.push({ kind: 'installment', amount: overdueWithPenalties });
+    }
+
+    const quoteResult = await this.pool.query(
+      `SELECT id, settlement_amount FROM settlement_quotes
+       WHERE payment_plan_id = $1 AND status = 'issued' AND expires_at > CURRENT_TIMESTAMP
+       ORDER BY created_at DESC`,
+      [plan.id]
+    );
+    for (const quote of quoteResult.rows) {
+      expected.push({ kind: 'settlement', amount: parseFloat(quote.settlement_amount), settlementQuoteId: quote.id });
+    }
+
+    return expected;
+  }
+
+  /**
+   * How a customer pays their plan by bank transfer
+   */
+  async getInstructions(planId: string): Promise<BankTransferInstructions | null> {
+    const result = await this.pool.query('SELECT * FROM payment_plans WHERE id = $1', [planId]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+    const plan = result.rows[0];
+
+    return {
+      planId: plan.id,
+      paymentReference: plan.payment_reference || (await this.assignReference(plan.id)),
+      bankName: process.env.BANK_TRANSFER_BANK_NAME || '',
+      accountName: process.env.BANK_TRANSFER_ACCOUNT_NAME || '',
+      accountNumber: process.env.BANK_TRANSFER_ACCOUNT_NUMBER || '',
+      expectedPayments: ['active', 'overdue'].includes(plan.status) ? await this.getExpectedPayments(plan) : [],
+    };
+  }
+
+  /**
+   * Import a bank statement, apply every credit that matches a plan and queue the rest
+   */
+  async importStatement(
+    format: BankStatementFormat,
+    content: string,
+    fileName?: string,
+    importedBy?: string
+  ): Promise<{ statement: BankStatement; matched: BankTransferEntry[]; queued: BankTransferEntry[] }> {
+    const parsed = format === 'mt940'
+      ? BankTransferService.parseMt940Statement(content)
+      : BankTransferService.parseCsvStatement(content);
+
+    const statementResult = await this.pool.query(
+      `INSERT INTO bank_statements (format, file_name, account_number, entry_count, imported_by)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [format, fileName || null, parsed.accountNumber || null, parsed.entries.length, importedBy || null]
+    );
+    const statementId = statementResult.rows[0].id;
+
+    const seenTransactionIds = new Set<string>();
+    const matched: BankTransferEntry[] = [];
+    const queued: BankTransferEntry[] = [];
+
+    for (const entry of parsed.entries) {
+      // The same bank transaction on this or an earlier statement for the account
+      let isDuplicate = seenTransactionIds.has(entry.bankTransactionId);
+      if (!isDuplicate) {
+        const previous = await this.pool.query(
+          `SELECT 1 FROM bank_transfer_entries
+           WHERE bank_transaction_id = $1 AND account_number IS NOT DISTINCT FROM $2 AND match_status != 'duplicate'
+           LIMIT 1`,
+          [entry.bankTransactionId, parsed.accountNumber || null]
+        );
+        isDuplicate = previous.rows.length > 0;
+      }
+      seenTransactionIds.add(entry.bankTransactionId);
+
+      let plan: any = null;
+      if (!isDuplicate && entry.direction === 'credit' && entry.reference) {
+        const planResult = await this.pool.query('SELECT * FROM payment_plans WHERE payment_reference = $1', [entry.reference]);
+        plan = planResult.rows[0] || null;
+      }
+
+      let matchStatus: BankMatchStatus;
+      let expectedPayment: ExpectedPayment | null = null;
+      if (isDuplicate) {
+        matchStatus = 'duplicate';
+      } else if (entry.direction === 'debit') {
+        matchStatus = 'ignored'; // Money going out is not a customer payment
+      } else if (!plan) {
+        matchStatus = 'unmatched';
+      } else if (!['active', 'overdue'].includes(plan.status)) {
+        matchStatus = 'plan_inactive';
+      } else {
+        // Plans are priced in UGX, so a credit in another currency cannot match an amount
+        expectedPayment = entry.currency === 'UGX'
+          ? BankTransferService.matchExpectedPayment(entry.amount, await this.getExpectedPayments(plan))
+          : null;
+        matchStatus = expectedPayment ? 'matched' : 'amount_mismatch';
+      }
+
+      const insertEntry = (status: BankMatchStatus) => {
+        const isQueued = ['unmatched', 'amount_mismatch', 'plan_inactive'].includes(status);
+        return this.pool.query(
+          `INSERT INTO bank_transfer_entries (
+            statement_id, account_number, bank_transaction_id, value_date, amount, currency, direction,
+            narration, reference, payment_plan_id, match_status, resolution_status, raw_data
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+          RETURNING *`,
+          [
+            statementId,
+            parsed.accountNumber || null,
+            entry.bankTransactionId,
+            entry.valueDate || null,
+            entry.amount,
+            entry.currency,
+            entry.direction,
+            entry.narration || null,
+            entry.reference || null,
+            status === 'duplicate' ? null : plan?.id || null,
+            status,
+            isQueued ? 'open' : null,
+            JSON.stringify(entry.raw),
+          ]
+        );
+      };
+
+      let inserted;
+      try {
+        inserted = await insertEntry(matchStatus);
+      } catch (error: any) {
+        // Unique violation on the transaction: the same statement is being imported concurrently
+        if (error.code !== '23505') {
+          throw error;
+        }
+        matchStatus = 'duplicate';
+        expectedPayment = null;
+        inserted = await insertEntry(matchStatus);
+      }
+      const row = inserted.rows[0];
+      const isQueued = row.resolution_status === 'open';
+
+      if (expectedPayment) {
+        try {
+          matched.push(await this.recordPayment(row, plan, expectedPayment));
+        } catch (error) {
+          // Queue the credit for an admin rather than leave it matched without a payment, and carry on with the statement
+          console.error(`Failed to record bank credit ${entry.bankTransactionId} on plan ${plan.id}:`, error);
+          const requeued = await this.pool.query(
+            `UPDATE bank_transfer_entries
+             SET match_status = 'unmatched', resolution_status = 'open', updated_at = CURRENT_TIMESTAMP
+             WHERE id = $1
+             RETURNING *`,
+            [row.id]
+          );
+          queued.push(this.mapEntry(requeued.rows[0]));
+        }
+      } else if (isQueued) {
+        queued.push(this.mapEntry(row));
+      }
+    }
+
+    const updated = await this.pool.query(
+      `UPDATE bank_statements
+       SET matched_count = $1, queued_count = $2
+       WHERE id = $3
+       RETURNING *`,
+      [matched.length, queued.length, statementId]
+    );
+
+    return { statement: this.mapStatement(updated.rows[0]), matched, queued };
+  }
+
+  /**
+   * Apply a queued credit to a plan chosen by an admin, as an installment or the deposit
+   */
+  async applyToPlan(entryId: string, planId: string, isDeposit: boolean, resolvedBy: string, notes: string): Promise<BankTransferEntry> {
+    // Claim the credit first, so two admins applying it at the same time cannot record it twice
+    const claimed = await this.pool.query(
+      `UPDATE bank_transfer_entries
+       SET resolution_status = 'resolving', updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND resolution_status = 'open'
+       RETURNING *`,
+      [entryId]
+    );
+    if (claimed.rows.length === 0) {
+      throw new Error('Only open queued credits can be applied');
+    }
+    const entryRow = claimed.rows[0];
+
+    let entry: BankTransferEntry;
+    try {
+      if (entryRow.direction !== 'credit' || entryRow.currency !== 'UGX') {
+        throw new Error('Only UGX credits can be applied to a plan');
+      }
+
+      const planResult = await this.pool.query('SELECT * FROM payment_plans WHERE id = $1', [planId]);
+      if (planResult.rows.length === 0) {
+        throw new Error('Payment plan not found');
+      }
+      if (!['active', 'overdue'].includes(planResult.rows[0].status)) {
+        throw new Error('Payment plan is not active');
+      }
+
+      entry = await this.recordPayment(
+        entryRow,
+        planResult.rows[0],
+        { kind: isDeposit ? 'deposit' : 'installment', amount: parseFloat(entryRow.amount) }
+      );
+    } catch (error) {
+      // Hand the credit back to the queue so it can be applied again or dismissed
+      await this.pool.query(
+        `UPDATE bank_transfer_entries
+         SET resolution_status = 'open', updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND resolution_status = 'resolving'`,
+        [entryId]
+      );
+      throw error;
+    }
+
+    const result = await this.pool.query(
+      `UPDATE bank_transfer_entries
+       SET resolution_status = 'resolved', resolution = 'apply_to_plan', resolution_notes = $1, resolved_by = $2,
+           resolved_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $3
+       RETURNING *`,
+      [notes, resolvedBy, entry.id]
+    );
+    return this.mapEntry(result.rows[0]);
+  }
+
+  /**
+   * Close a queued credit without applying it, e.g. when it was refunded to the sender
+   */
+  async dismiss(entryId: string, resolvedBy: string, notes: string): Promise<BankTransferEntry> {
+    const result = await this.pool.query(
+      `UPDATE bank_transfer_entries
+       SET resolution_status = 'resolved', resolution = 'dismiss', resolution_notes = $1, resolved_by = $2,
+           resolved_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $3 AND resolution_status = 'open'
+       RETURNING *`,
+      [notes, resolvedBy, entryId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('Only open queued credits can be dismissed');
+    }
+
+    return this.mapEntry(result.rows[0]);
+  }
+
+  async listStatements(limit: number = 50): Promise<BankStatement[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM bank_statements ORDER BY created_at DESC LIMIT $1`,
+      [limit]
+    );
+    return result.rows.map((row) => this.mapStatement(row));
+  }
+
+  async getStatement(statementId: string): Promise<{ statement: BankStatement; entries: BankTransferEntry[] } | null> {
+    const statementResult = await this.pool.query('SELECT * FROM bank_statements WHERE id = $1', [statementId]);
+    if (statementResult.rows.length === 0) {
+      return null;
+    }
+
+    const entriesResult = await this.pool.query(
+      `SELECT * FROM bank_transfer_entries WHERE statement_id = $1 ORDER BY created_at ASC`,
+      [statementId]
+    );
+
+    return {
+      statement: this.mapStatement(statementResult.rows[0]),
+      entries: entriesResult.rows.map((row) => this.mapEntry(row)),
+    };
+  }
+
+  async listQueue(filters: { status?: string; matchStatus?: string } = {}): Promise<BankTransferEntry[]> {
+    const conditions = ['resolution_status IS NOT NULL'];
+    const params: any[] = [];
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`resolution_status = $${params.length}`);
+    }
+    if (filters.matchStatus) {
+      params.push(filters.matchStatus);
+      conditions.push(`match_status = $${params.length}`);
+    }
+
+    const result = await this.pool.query(
+      `SELECT * FROM bank_transfer_entries WHERE ${conditions.join(' AND ')} ORDER BY created_at ASC`,
+      params
+    );
+    return result.rows.map((row) => this.mapEntry(row));
+  }
+
+  async getEntry(entryId: string): Promise<BankTransferEntry | null> {
+    const result = await this.pool.query('SELECT * FROM bank_transfer_entries WHERE id = $1', [entryId]);
+    return result.rows.length > 0 ? this.mapEntry(result.rows[0]) : null;
+  }
+
+  /**
+   * Record a credit as a bank_transfer payment on the plan and confirm it, so it is receipted,
+   * allocated and announced exactly like any other completed payment. A payment whose confirmation
+   * fails is cancelled, and applying the credit again later reuses it.
+   */
+  private async recordPayment(entryRow: any, plan: any, expected: ExpectedPayment): Promise<BankTransferEntry> {
+    const paymentResult = await this.pool.query(
+      `INSERT INTO payments (
+        payment_plan_id, user_id, amount, payment_method, external_transaction_id, idempotency_key,
+        status, is_deposit, due_date, currency, exchange_rate, original_amount, original_currency, settlement_quote_id
+      ) VALUES ($1, $2, $3, 'bank_transfer', $4, $5, 'processing', $6, $7, 'UGX', 1, $3, 'UGX', $8)
+      ON CONFLICT (idempotency_key) DO UPDATE
+      SET payment_plan_id = EXCLUDED.payment_plan_id,
+          user_id = EXCLUDED.user_id,
+          status = 'processing',
+          is_deposit = EXCLUDED.is_deposit,
+          due_date = EXCLUDED.due_date,
+          settlement_quote_id = EXCLUDED.settlement_quote_id,
+          failure_reason = NULL,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE payments.status = 'cancelled'
+      RETURNING *`,
+      [
+        plan.id,
+        plan.user_id,
+        parseFloat(entryRow.amount),
+        entryRow.bank_transaction_id,
+        `bank_transfer:${entryRow.id}`,
+        expected.kind === 'deposit',
+        expected.kind === 'installment' ? plan.next_payment_date : null,
+        expected.settlementQuoteId || null,
+      ]
+    );
+    if (paymentResult.rows.length === 0) {
+      throw new Error('A payment has already been recorded for this credit');
+    }
+    const payment = paymentResult.rows[0];
+
+    try {
+      await this.confirmationService.confirmPayment(payment.id, 'bank_statement', entryRow.bank_transaction_id);
+    } catch (error: any) {
+      // Nothing was applied, so the payment must not be left waiting on a confirmation
+      await this.pool.query(
+        `UPDATE payments
+         SET status = 'cancelled', failure_reason = $1, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2 AND status = 'processing'`,
+        [error.message, payment.id]
+      );
+      throw error;
+    }
+
+    const linked = await this.pool.query(
+      `UPDATE bank_transfer_entries
+       SET payment_plan_id = $1, payment_id = $2, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $3
+       RETURNING *`,
+      [plan.id, payment.id, entryRow.id]
+    );
+
+    return this.mapEntry(linked.rows[0]);
+  }
+
+  private mapStatement(row: any): BankStatement {
+    return {
+      id: row.id,
+      format: row.format,
+      fileName: row.file_name || undefined,
+      accountNumber: row.account_number || undefined,
+      entryCount: row.entry_count,
+      matchedCount: row.matched_count,
+      queuedCount: row.queued_count,
+      importedBy: row.imported_by || undefined,
+      createdAt: row.created_at,
+    };
+  }
+
+  private mapEntry(row: any): BankTransferEntry {
+    return {
+      id: row.id,
+      statementId: row.statement_id,
+      accountNumber: row.account_number || undefined,
+      bankTransactionId: row.bank_transaction_id,
+      valueDate: row.value_date || undefined,
+      amount: parseFloat(row.amount),
+      currency: row.currency,
+      direction: row.direction,
+      narration: row.narration || undefined,
+      reference: row.reference || undefined,
+      paymentPlanId: row.payment_plan_id || undefined,
+      paymentId: row.payment_id || undefined,
+      matchStatus: row.match_status,
+      resolutionStatus: row.resolution_status || undefined,
+      resolution: row.resolution || undefined,
+      resolutionNotes: row.resolution_notes || undefined,
+      resolvedBy: row.resolved_by || undefined,
+      resolvedAt: row.resolved_at || undefined,
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * Callback Verification Service
+ * Mobile money callbacks mark payments paid, so each one must be signed by its provider
+ * (HMAC shared secret or provider certificate), recent, and carry a nonce we have not seen.
+ * Every callback is recorded in mobile_money_callbacks; rejected ones are kept for review.
+ */
+
+import { Pool } from 'pg';
+import * as crypto from 'crypto';
+import { MessageQueueClient } from '@rent-to-own/message-queue';
+import { MobileMoneyCallback } from './mobileMoney';
+
+export type CallbackVerificationMethod = 'hmac' | 'certificate';
+
+export interface ProviderVerificationConfig {
+  method: CallbackVerificationMethod;
+  secret?: string; // HMAC-SHA256 shared secret
+  certificate?: string; // PEM certificate or public key for RSA/ECDSA SHA-256 signatures
+}
+
+export interface CallbackVerificationConfig {
+  providers: Record<string, ProviderVerificationConfig>;
+  fallbackSecret?: string; // HMAC secret for providers without their own entry
+  toleranceSeconds: number;
+}
+
+export type CallbackRejectionCode =
+  | 'INVALID_CALLBACK'
+  | 'UNKNOWN_PROVIDER'
+  | 'INVALID_SIGNATURE'
+  | 'CALLBACK_EXPIRED'
+  | 'CALLBACK_REPLAYED';
+
+export interface CallbackVerificationResult {
+  valid: boolean;
+  code?: CallbackRejectionCode;
+  reason?: string;
+}
+
+/**
+ * The fields a provider signs, in order. The nonce and timestamp are included so they cannot be swapped.
+ */
+export function callbackSigningPayload(callback: MobileMoneyCallback): string {
+  return [
+    callback.provider,
+    callback.transactionId,
+    callback.externalTransactionId,
+    callback.status,
+    callback.amount,
+    callback.reference,
+    callback.timestamp,
+    callback.nonce,
+  ].join('|');
+}
+
+/**
+ * HMAC-SHA256 signature for a callback, as the simulator and HMAC providers send it
+ */
+export function signCallback(callback: MobileMoneyCallback, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(callbackSigningPayload(callback)).digest('hex');
+}
+
+export class CallbackVerificationService {
+  private pool: Pool;
+  private messageQueue: MessageQueueClient;
+  private config: CallbackVerificationConfig;
+
+  constructor(pool: Pool, messageQueue: MessageQueueClient, config?: Partial<CallbackVerificationConfig>) {
+    this.pool = pool;
+    this.messageQueue = messageQueue;
+    this.config = {
+      providers: config?.providers ?? CallbackVerificationService.parseProviderConfig(process.env.MOBILE_MONEY_CALLBACK_KEYS),
+      fallbackSecret: config?.fallbackSecret ?? (process.env.MOBILE_MONEY_API_SECRET || undefined),
+      toleranceSeconds: config?.toleranceSeconds ?? parseInt(process.env.MOBILE_MONEY_CALLBACK_TOLERANCE_SECONDS || '300'),
+    };
+  }
+
+  /**
+   * Parse MOBILE_MONEY_CALLBACK_KEYS, e.g.
+   * {"mtn":{"method":"hmac","secret":"..."},"airtel":{"method":"certificate","certificate":"-----BEGIN CERTIFICATE-----..."}}
+   */
+  static parseProviderConfig(value?: string): Record<string, ProviderVerificationConfig> {
+    if (!value) {
+      return {};
+    }
+
+    const parsed = JSON.parse(value);
+    for (const [provider, entry] of Object.entries<any>(parsed)) {
+      if (entry.method === 'hmac' && !entry.secret) {
+        throw new Error(`Callback key for ${provider} uses hmac but has no secret`);
+      }
+      if (entry.method === 'certificate' && !entry.certificate) {
+        throw new Error(`Callback key for ${provider} uses certificate but has no certificate`);
+      }
+      if (!['hmac', 'certificate'].includes(entry.method)) {
+        throw new Error(`Callback key for ${provider} must use hmac or certificate`);
+      }
+    }
+    return parsed;
+  }
+
+  /**
+   * Check the signature and timestamp window.
+   * Pure calculation - nothing is written; replays are caught when the callback is recorded.
+   */
+  static verifySignature(
+    callback: MobileMoneyCallback,
+    providerConfig: ProviderVerificationConfig,
+    toleranceSeconds: number,
+    now: Date = new Date()
+  ): CallbackVerificationResult {
+    if (!callback.signature || !callback.nonce || !callback.timestamp) {
+      return { valid: false, code: 'INVALID_CALLBACK', reason: 'Callback is missing its signature, nonce or timestamp' };
+    }
+
+    const payload = callbackSigningPayload(callback);
+    let signatureValid = false;
+    try {
+      if (providerConfig.method === 'hmac') {
+        const expected = Buffer.from(signCallback(callback, providerConfig.secret!));
+        const received = Buffer.from(callback.signature);
+        signatureValid = expected.length === received.length && crypto.timingSafeEqual(expected, received);
+      } else {
+        const publicKey = crypto.createPublicKey(providerConfig.certificate!);
+        signatureValid = crypto.verify('sha256', Buffer.from(payload), publicKey, Buffer.from(callback.signature, 'base64'));
+      }
+    } catch (error) {
+      signatureValid = false;
+    }
+
+    if (!signatureValid) {
+      return { valid: false, code: 'INVALID_SIGNATURE', reason: 'Callback signature does not match' };
+    }
+
+    // Only checked once the signature proves the timestamp was not tampered with
+    const sentAt = new Date(callback.timestamp).getTime();
+    if (isNaN(sentAt) || Math.abs(now.getTime() - sentAt) > toleranceSeconds * 1000) {
+      return { valid: false, code: 'CALLBACK_EXPIRED', reason: `Callback timestamp is outside the ${toleranceSeconds}s window` };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Verify a callback's signature, timestamp and nonce
+   */
+  async verify(callback: MobileMoneyCallback): Promise<CallbackVerificationResult> {
+    if (!callback || !callback.provider || !callback.reference) {
+      return { valid: false, code: 'INVALID_CALLBACK', reason: 'Callback is missing its provider or reference' };
+    }
+
+    const providerConfig = this.getProviderConfig(callback.provider);
+    if (!providerConfig) {
+      return { valid: false, code: 'UNKNOWN_PROVIDER', reason: `No callback verification configured for provider ${callback.provider}` };
+    }
+
+    const result = CallbackVerificationService.verifySignature(callback, providerConfig, this.config.toleranceSeconds);
+    if (!result.valid) {
+      return result;
+    }
+
+    const seen = await this.pool.query(
+      `SELECT id FROM mobile_money_callbacks WHERE provider = $1 AND nonce = $2 AND status != 'rejected'`,
+      [callback.provider, callback.nonce]
+    );
+    if (seen.rows.length > 0) {
+      return { valid: false, code: 'CALLBACK_REPLAYED', reason: 'Callback nonce has already been used' };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Store a verified callback. Returns null if another request recorded the same nonce first.
+   */
+  async recordCallback(callback: MobileMoneyCallback, paymentId: string, sourceIp?: string): Promise<string | null> {
+    try {
+      const result = await this.pool.query(
+        `INSERT INTO mobile_money_callbacks (payment_id, provider, callback_data, status, nonce, source_ip)
+         VALUES ($1, $2, $3, 'received', $4, $5)
+         RETURNING id`,
+        [paymentId, callback.provider, JSON.stringify(callback), callback.nonce, sourceIp || null]
+      );
+      return result.rows[0].id;
+    } catch (error: any) {
+      // Unique violation on (provider, nonce): a concurrent replay won the race
+      if (error.code === '23505') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Keep a rejected callback for review, log it and raise an alert
+   */
+  async recordRejection(callback: any, result: CallbackVerificationResult, sourceIp?: string): Promise<void> {
+    const provider = typeof callback?.provider === 'string' ? callback.provider : 'unknown';
+
+    console.warn(`Rejected mobile money callback from ${sourceIp || 'unknown source'} (${provider}): ${result.reason}`);
+
+    await this.pool.query(
+      `INSERT INTO mobile_money_callbacks (provider, callback_data, status, error_message, nonce, source_ip)
+       VALUES ($1, $2, 'rejected', $3, $4, $5)`,
+      [provider, JSON.stringify(callback ?? {}), result.reason, callback?.nonce || null, sourceIp || null]
+    );
+
+    await this.messageQueue.publish('payment.events', 'payment.callback.rejected', {
+      type: 'payment.callback.rejected',
+      payload: {
+        provider,
+        code: result.code,
+        reason: result.reason,
+        reference: callback?.reference,
+        sourceIp,
+      },
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Rejected callbacks, newest first
+   */
+  async getRejectedCallbacks(limit: number = 50): Promise<any[]> {
+    const result = await this.pool.query(
+      `SELECT id, provider, callback_data, error_message, nonce, source_ip, created_at
+       FROM mobile_money_callbacks
+       WHERE status = 'rejected'
+       ORDER BY created_at DESC
+       LIMIT $1`,
+      [limit]
+    );
+    return result.rows;
+  }
+
+  private getProviderConfig(provider: string): ProviderVerificationConfig | null {
+    if (this.config.providers[provider]) {
+      return this.config.providers[provider];
+    }
+    if (this.config.fallbackSecret) {
+      return { method: 'hmac', secret: this.config.fallbackSecret };
+    }
+    return null;
+  }
+}
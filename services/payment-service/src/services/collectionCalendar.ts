@@ -0,0 +1,120 @@
+/**
+ * Collection Calendar
+ * Decides which days installments can fall due on, so daily plans can skip Sundays and public holidays
+ * and weekly or monthly due dates move off days customers cannot pay on
+ */
+
+export type BusinessDayRule = 'following' | 'preceding';
+
+export interface CollectionDayOptions {
+  skipSundays?: boolean;
+  skipPublicHolidays?: boolean;
+  businessDayRule?: BusinessDayRule; // Weekly and monthly plans: which way a due date on a non-business day moves
+}
+
+export interface CalendarHoliday {
+  date: string; // YYYY-MM-DD; only the month and day count for recurring holidays
+  recurring: boolean;
+}
+
+// Fixed-date public holidays in Uganda. Movable holidays (Easter, Eid) are added to the holiday calendar by admins.
+export const PUBLIC_HOLIDAYS: Array<{ monthDay: string; name: string }> = [
+  { monthDay: '01-01', name: "New Year's Day" },
+  { monthDay: '01-26', name: 'Liberation Day' },
+  { monthDay: '02-16', name: 'Archbishop Janani Luwum Day' },
+  { monthDay: '03-08', name: "International Women's Day" },
+  { monthDay: '05-01', name: 'Labour Day' },
+  { monthDay: '06-03', name: "Martyrs' Day" },
+  { monthDay: '06-09', name: "National Heroes' Day" },
+  { monthDay: '10-09', name: 'Independence Day' },
+  { monthDay: '12-25', name: 'Christmas Day' },
+  { monthDay: '12-26', name: 'Boxing Day' },
+];
+
+// Holidays from the admin-managed calendar; the fixed-date list is used until the calendar is loaded
+let calendar: { recurring: Set<string>; dated: Set<string> } | null = null;
+
+function toMonthDay(date: Date): string {
+  return `${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+export class CollectionCalendar {
+  /**
+   * Replace the holidays in use with the admin-managed calendar
+   */
+  static setHolidays(holidays: CalendarHoliday[]): void {
+    calendar = { recurring: new Set(), dated: new Set() };
+    for (const holiday of holidays) {
+      if (holiday.recurring) {
+        calendar.recurring.add(holiday.date.slice(5, 10));
+      } else {
+        calendar.dated.add(holiday.date.slice(0, 10));
+      }
+    }
+  }
+
+  static isPublicHoliday(date: Date): boolean {
+    const monthDay = toMonthDay(date);
+    if (!calendar) {
+      return PUBLIC_HOLIDAYS.some((holiday) => holiday.monthDay === monthDay);
+    }
+    return calendar.recurring.has(monthDay) || calendar.dated.has(`${date.getFullYear()}-${monthDay}`);
+  }
+
+  /**
+   * Whether an installment can fall due on the given day
+   */
+  static isCollectionDay(date: Date, options: CollectionDayOptions = {}): boolean {
+    if (options.skipSundays && date.getDay() === 0) {
+      return false;
+    }
+    if (options.skipPublicHolidays && CollectionCalendar.isPublicHoliday(date)) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Sundays and public holidays are not business days
+   */
+  static isBusinessDay(date: Date): boolean {
+    return date.getDay() !== 0 && !CollectionCalendar.isPublicHoliday(date);
+  }
+
+  /**
+   * Move a date falling on a non-business day to the next (following) or previous (preceding) business day
+   */
+  static adjustToBusinessDay(date: Date, rule: BusinessDayRule = 'following'): Date {
+    const adjusted = new Date(date);
+    const step = rule === 'preceding' ? -1 : 1;
+    while (!CollectionCalendar.isBusinessDay(adjusted)) {
+      adjusted.setDate(adjusted.getDate() + step);
+    }
+    return adjusted;
+  }
+
+  /**
+   * Approximate number of collection days in a year
+   */
+  static collectionDaysPerYear(options: CollectionDayOptions = {}): number {
+    let days = 365;
+    if (options.skipSundays) {
+      days -= 52;
+    }
+    if (options.skipPublicHolidays) {
+      days -= CollectionCalendar.holidaysPerYear();
+    }
+    return days;
+  }
+
+  /**
+   * Public holidays in the current year
+   */
+  static holidaysPerYear(): number {
+    if (!calendar) {
+      return PUBLIC_HOLIDAYS.length;
+    }
+    const year = String(new Date().getFullYear());
+    return calendar.recurring.size + Array.from(calendar.dated).filter((date) => date.startsWith(year)).length;
+  }
+}
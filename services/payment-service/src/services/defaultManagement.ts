@@ -0,0 +1,702 @@
+/**
+ * Default Management Service
+ * Plans overdue past DEFAULT_THRESHOLD_DAYS open a default case, which is worked through in stages:
+ * final notice, repossession order (telematics locates and immobilizes the vehicle), recovery of the
+ * vehicle with its condition, then resale or write-off. Customers who catch up before repossession
+ * cure the case. Every transition posts a balanced accounting entry, so the loan book, loan loss
+ * provision and repossessed stock always reflect where each case stands.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { MessageQueueClient } from '@rent-to-own/message-queue';
+import { PaymentAllocationService } from './paymentAllocation';
+import { OutboxService } from './outbox';
+import { withTransaction } from './transaction';
+
+export const DEFAULT_STAGES = [
+  'overdue',
+  'final_notice',
+  'repossession_ordered',
+  'recovered',
+  'resold',
+  'written_off',
+  'cured',
+] as const;
+
+export type DefaultStage = (typeof DEFAULT_STAGES)[number];
+
+// Stages that end a case
+export const CLOSED_DEFAULT_STAGES: DefaultStage[] = ['resold', 'written_off', 'cured'];
+
+// The stages a case may move to from each stage
+const NEXT_STAGES: Record<DefaultStage, DefaultStage[]> = {
+  overdue: ['final_notice', 'cured'],
+  final_notice: ['repossession_ordered', 'cured'],
+  repossession_ordered: ['recovered', 'written_off'],
+  recovered: ['resold', 'written_off'],
+  resold: [],
+  written_off: [],
+  cured: [],
+};
+
+export type VehicleCondition = 'good' | 'fair' | 'poor' | 'salvage';
+
+export type LedgerAccount =
+  | 'loans_receivable'
+  | 'defaulted_receivable'
+  | 'loan_loss_provision'
+  | 'credit_loss_expense'
+  | 'repossessed_inventory'
+  | 'recovery_costs'
+  | 'cash'
+  | 'disposal_gain_loss';
+
+export interface JournalLine {
+  account: LedgerAccount;
+  debit: number;
+  credit: number;
+}
+
+export interface AccountingEntry {
+  id: string;
+  defaultCaseId: string;
+  paymentPlanId: string;
+  transition: DefaultStage;
+  description: string;
+  lines: JournalLine[];
+  postedBy?: string;
+  postedAt: Date;
+}
+
+export interface VehicleLocation {
+  latitude: number;
+  longitude: number;
+  recordedAt?: Date;
+}
+
+export interface DefaultCase {
+  id: string;
+  paymentPlanId: string;
+  userId: string;
+  vehicleId: string;
+  stage: DefaultStage;
+  overdueDays: number; // Days overdue when the case was opened
+  exposure: number; // Outstanding balance moved to defaulted receivables when the case was opened
+  receivableBalance: number; // Defaulted receivable still carried
+  provisionBalance: number;
+  inventoryValue: number; // Repossessed vehicle held in stock at its appraised value
+  finalNoticeSentAt?: Date;
+  finalNoticeExpiresAt?: Date;
+  repossessionOrderedAt?: Date;
+  vehicleLocation?: VehicleLocation;
+  immobilizedAt?: Date;
+  recoveredAt?: Date;
+  vehicleCondition?: VehicleCondition;
+  conditionNotes?: string;
+  odometerKm?: number;
+  estimatedValue?: number;
+  recoveryCosts?: number;
+  saleAmount?: number;
+  buyerReference?: string;
+  writeOffAmount?: number;
+  openedBy?: string;
+  closedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface RecoveryDetails {
+  condition: VehicleCondition;
+  estimatedValue: number;
+  recoveryCosts?: number;
+  odometerKm?: number;
+  notes?: string;
+}
+
+export interface ResaleDetails {
+  saleAmount: number;
+  buyerReference?: string;
+}
+
+// Share of the defaulted receivable provided for at each stage (percent)
+const DEFAULT_PROVISION_PERCENT: Partial<Record<DefaultStage, number>> = {
+  overdue: 25,
+  final_notice: 50,
+  repossession_ordered: 75,
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Lines moving `amount` from one account to another, or none for a zero amount
+ */
+function transfer(debitAccount: LedgerAccount, creditAccount: LedgerAccount, amount: number): JournalLine[] {
+  const value = round2(amount);
+  if (value === 0) {
+    return [];
+  }
+  if (value < 0) {
+    return transfer(creditAccount, debitAccount, -value);
+  }
+  return [
+    { account: debitAccount, debit: value, credit: 0 },
+    { account: creditAccount, debit: 0, credit: value },
+  ];
+}
+
+export class DefaultManagementService {
+  private pool: Pool;
+  private allocationService: PaymentAllocationService;
+  private outboxService: OutboxService;
+
+  constructor(pool: Pool, messageQueue: MessageQueueClient) {
+    this.pool = pool;
+    this.allocationService = new PaymentAllocationService(pool);
+    this.outboxService = new OutboxService(pool, messageQueue);
+  }
+
+  /**
+   * Days overdue before a plan goes into default management, from DEFAULT_THRESHOLD_DAYS (default 60)
+   */
+  static thresholdDays(): number {
+    return parseInt(process.env.DEFAULT_THRESHOLD_DAYS || '60');
+  }
+
+  /**
+   * Percentage of the defaulted receivable provided for at a stage.
+   * DEFAULT_PROVISION_PERCENT_BY_STAGE (JSON, e.g. {"overdue": 20}) overrides the defaults.
+   */
+  static provisionPercent(stage: DefaultStage): number {
+    const overrides = process.env.DEFAULT_PROVISION_PERCENT_BY_STAGE
+      ? JSON.parse(process.env.DEFAULT_PROVISION_PERCENT_BY_STAGE)
+      : {};
+    return stage in overrides ? overrides[stage] : DEFAULT_PROVISION_PERCENT[stage] || 0;
+  }
+
+  static canMove(from: DefaultStage, to: DefaultStage): boolean {
+    return NEXT_STAGES[from].includes(to);
+  }
+
+  /**
+   * Lines raising or releasing the provision to `target`.
+   * Pure calculation - nothing is written.
+   */
+  static provisionLines(currentProvision: number, target: number): JournalLine[] {
+    return transfer('credit_loss_expense', 'loan_loss_provision', target - currentProvision);
+  }
+
+  /**
+   * Lines clearing the remaining defaulted receivable against the provision, charging any shortfall
+   * to credit losses and releasing any provision left over.
+   * Pure calculation - nothing is written.
+   */
+  static writeOffLines(receivableBalance: number, provisionBalance: number): JournalLine[] {
+    const fromProvision = Math.min(receivableBalance, provisionBalance);
+    return [
+      ...transfer('loan_loss_provision', 'defaulted_receivable', fromProvision),
+      ...transfer('credit_loss_expense', 'defaulted_receivable', receivableBalance - fromProvision),
+      ...transfer('loan_loss_provision', 'credit_loss_expense', provisionBalance - fromProvision),
+    ];
+  }
+
+  /**
+   * Check a journal balances before it is posted
+   */
+  static isBalanced(lines: JournalLine[]): boolean {
+    const debits = lines.reduce((sum, line) => sum + line.debit, 0);
+    const credits = lines.reduce((sum, line) => sum + line.credit, 0);
+    return Math.abs(debits - credits) < 0.005;
+  }
+
+  /**
+   * Open a default case for a plan: its outstanding balance moves to defaulted receivables and the
+   * first provision is raised. Returns null if the plan already has an open case.
+   */
+  async openCase(planId: string, openedBy?: string): Promise<DefaultCase | null> {
+    const planResult = await this.pool.query('SELECT * FROM payment_plans WHERE id = $1', [planId]);
+    if (planResult.rows.length === 0) {
+      throw new Error('Payment plan not found');
+    }
+    const plan = planResult.rows[0];
+    if (!['active', 'overdue'].includes(plan.status)) {
+      throw new Error(`Plan is ${plan.status}; only active or overdue plans can go into default`);
+    }
+
+    const balance = await this.allocationService.getPlanBalance(plan);
+    const exposure = round2(balance.outstandingBalance);
+    const provision = round2((exposure * DefaultManagementService.provisionPercent('overdue')) / 100);
+
+    const opened = await withTransaction(this.pool, async (client) => {
+      const insertResult = await client.query(
+        `INSERT INTO default_cases (
+          payment_plan_id, user_id, vehicle_id, stage, overdue_days, exposure, receivable_balance,
+          provision_balance, opened_by
+        ) VALUES ($1, $2, $3, 'overdue', $4, $5, $5, $6, $7)
+        ON CONFLICT (payment_plan_id) WHERE stage NOT IN ('resold', 'written_off', 'cured') DO NOTHING
+        RETURNING *`,
+        [plan.id, plan.user_id, plan.vehicle_id, plan.overdue_days || 0, exposure, provision, openedBy || null]
+      );
+      if (insertResult.rows.length === 0) {
+        return null;
+      }
+      const defaultCase = this.mapCase(insertResult.rows[0]);
+
+      await this.postEntry(client, defaultCase, 'overdue', `Plan ${plan.overdue_days || 0} days overdue moved to default`, [
+        ...transfer('defaulted_receivable', 'loans_receivable', exposure),
+        ...DefaultManagementService.provisionLines(0, provision),
+      ], openedBy);
+
+      const eventId = await this.enqueueEvent(client, 'payment.default.opened', defaultCase, {
+        overdueDays: defaultCase.overdueDays,
+        exposure,
+      });
+      return { defaultCase, eventId };
+    });
+    if (!opened) {
+      return null;
+    }
+
+    await this.outboxService.publishNow([opened.eventId]);
+    return opened.defaultCase;
+  }
+
+  /**
+   * Open cases for overdue plans past the threshold that are not already in default management
+   */
+  async openCasesPastThreshold(): Promise<DefaultCase[]> {
+    const result = await this.pool.query(
+      `SELECT pp.id FROM payment_plans pp
+       WHERE pp.status = 'overdue' AND pp.overdue_days >= $1
+         AND NOT EXISTS (
+           SELECT 1 FROM default_cases dc
+           WHERE dc.payment_plan_id = pp.id AND dc.stage NOT IN ('resold', 'written_off', 'cured')
+         )`,
+      [DefaultManagementService.thresholdDays()]
+    );
+
+    const opened: DefaultCase[] = [];
+    for (const row of result.rows) {
+      try {
+        const defaultCase = await this.openCase(row.id);
+        if (defaultCase) {
+          opened.push(defaultCase);
+        }
+      } catch (openError) {
+        console.error(`Failed to open default case for plan ${row.id}:`, openError);
+      }
+    }
+    return opened;
+  }
+
+  /**
+   * Tell the customer what they owe and that the vehicle will be repossessed if it is not paid
+   * within DEFAULT_FINAL_NOTICE_DAYS (default 14)
+   */
+  async sendFinalNotice(caseId: string, performedBy: string, notes?: string): Promise<DefaultCase> {
+    const noticeDays = parseInt(process.env.DEFAULT_FINAL_NOTICE_DAYS || '14');
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + noticeDays);
+
+    const planResult = await this.pool.query(
+      `SELECT pp.* FROM payment_plans pp JOIN default_cases dc ON dc.payment_plan_id = pp.id WHERE dc.id = $1`,
+      [caseId]
+    );
+    const balance = planResult.rows.length > 0 ? await this.allocationService.getPlanBalance(planResult.rows[0]) : null;
+    const amountDue = balance ? round2(balance.overdueAmount + balance.penaltyBalance) : 0;
+
+    return this.advance(caseId, 'final_notice', performedBy, notes, async (current) => {
+      const provision = this.stageProvision(current, 'final_notice');
+      return {
+        fields: { final_notice_sent_at: new Date(), final_notice_expires_at: expiresAt, provision_balance: provision },
+        description: `Final notice issued, repossession after ${expiresAt.toISOString().slice(0, 10)}`,
+        lines: DefaultManagementService.provisionLines(current.provisionBalance, provision),
+        eventPayload: { amountDue, deadline: expiresAt },
+      };
+    });
+  }
+
+  /**
+   * Terminate the plan and order the vehicle back. Telematics locates and immobilizes it.
+   * Only once the final notice has run out.
+   */
+  async orderRepossession(caseId: string, performedBy: string, notes?: string): Promise<DefaultCase> {
+    return this.advance(caseId, 'repossession_ordered', performedBy, notes, async (current, client) => {
+      if (current.finalNoticeExpiresAt && current.finalNoticeExpiresAt > new Date()) {
+        throw new Error(`The final notice runs until ${current.finalNoticeExpiresAt.toISOString()}`);
+      }
+
+      // The contract is terminated - no more collections
+      await client.query(
+        `UPDATE payment_plans SET status = 'defaulted', updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+        [current.paymentPlanId]
+      );
+
+      const provision = this.stageProvision(current, 'repossession_ordered');
+      return {
+        fields: { repossession_ordered_at: new Date(), provision_balance: provision },
+        description: 'Repossession ordered, plan terminated',
+        lines: DefaultManagementService.provisionLines(current.provisionBalance, provision),
+        eventPayload: {},
+      };
+    });
+  }
+
+  /**
+   * Record where telematics found the vehicle and that it has been immobilized
+   */
+  async recordVehicleLocated(
+    caseId: string,
+    located: { location?: VehicleLocation; immobilized: boolean; immobilizedAt?: Date }
+  ): Promise<DefaultCase | null> {
+    const result = await this.pool.query(
+      `UPDATE default_cases
+       SET vehicle_location = COALESCE($1::jsonb, vehicle_location),
+           immobilized_at = CASE WHEN $2::boolean THEN COALESCE(immobilized_at, $3::timestamp, CURRENT_TIMESTAMP) ELSE immobilized_at END,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $4
+       RETURNING *`,
+      [located.location ? JSON.stringify(located.location) : null, located.immobilized, located.immobilizedAt || null, caseId]
+    );
+    return result.rows.length > 0 ? this.mapCase(result.rows[0]) : null;
+  }
+
+  /**
+   * Log the vehicle back in stock with its condition and appraised value. The vehicle is carried
+   * at no more than the receivable it replaces, and the provision is reset to the shortfall.
+   */
+  async recordRecovery(caseId: string, performedBy: string, recovery: RecoveryDetails): Promise<DefaultCase> {
+    return this.advance(caseId, 'recovered', performedBy, recovery.notes, async (current) => {
+      const inventoryValue = round2(Math.min(recovery.estimatedValue, current.receivableBalance));
+      const receivableBalance = round2(current.receivableBalance - inventoryValue);
+      const recoveryCosts = round2(recovery.recoveryCosts || 0);
+
+      return {
+        fields: {
+          recovered_at: new Date(),
+          vehicle_condition: recovery.condition,
+          condition_notes: recovery.notes || null,
+          odometer_km: recovery.odometerKm ?? null,
+          estimated_value: recovery.estimatedValue,
+          recovery_costs: recoveryCosts,
+          inventory_value: inventoryValue,
+          receivable_balance: receivableBalance,
+          provision_balance: receivableBalance,
+        },
+        description: `Vehicle recovered in ${recovery.condition} condition, appraised at ${recovery.estimatedValue}`,
+        lines: [
+          ...transfer('repossessed_inventory', 'defaulted_receivable', inventoryValue),
+          ...transfer('recovery_costs', 'cash', recoveryCosts),
+          ...DefaultManagementService.provisionLines(current.provisionBalance, receivableBalance),
+        ],
+        eventPayload: { condition: recovery.condition, estimatedValue: recovery.estimatedValue, recoveryCosts },
+      };
+    });
+  }
+
+  /**
+   * Record the sale of a recovered vehicle and write off whatever the customer still owed
+   */
+  async recordResale(caseId: string, performedBy: string, resale: ResaleDetails, notes?: string): Promise<DefaultCase> {
+    return this.advance(caseId, 'resold', performedBy, notes, async (current) => ({
+      fields: {
+        sale_amount: resale.saleAmount,
+        buyer_reference: resale.buyerReference || null,
+        write_off_amount: current.receivableBalance,
+        inventory_value: 0,
+        receivable_balance: 0,
+        provision_balance: 0,
+        closed_at: new Date(),
+      },
+      description: `Vehicle resold for ${resale.saleAmount}`,
+      lines: [
+        ...transfer('cash', 'repossessed_inventory', current.inventoryValue),
+        ...transfer('cash', 'disposal_gain_loss', resale.saleAmount - current.inventoryValue),
+        ...DefaultManagementService.writeOffLines(current.receivableBalance, current.provisionBalance),
+      ],
+      eventPayload: { saleAmount: resale.saleAmount, writeOffAmount: current.receivableBalance },
+    }));
+  }
+
+  /**
+   * Write off a case that will not be recovered by resale - the vehicle was never found or
+   * is not worth selling. Any stock value is written down with the receivable.
+   */
+  async writeOff(caseId: string, performedBy: string, notes?: string): Promise<DefaultCase> {
+    return this.advance(caseId, 'written_off', performedBy, notes, async (current, client) => {
+      // A case can be written off straight from a repossession order, so make sure the plan is terminated
+      await client.query(
+        `UPDATE payment_plans SET status = 'defaulted', updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+        [current.paymentPlanId]
+      );
+
+      const writeOffAmount = round2(current.receivableBalance + current.inventoryValue);
+      return {
+        fields: {
+          write_off_amount: writeOffAmount,
+          inventory_value: 0,
+          receivable_balance: 0,
+          provision_balance: 0,
+          closed_at: new Date(),
+        },
+        description: `Written off: ${writeOffAmount}`,
+        lines: [
+          ...transfer('disposal_gain_loss', 'repossessed_inventory', current.inventoryValue),
+          ...DefaultManagementService.writeOffLines(current.receivableBalance, current.provisionBalance),
+        ],
+        eventPayload: { writeOffAmount },
+      };
+    });
+  }
+
+  /**
+   * Close a case because the customer caught up before repossession. The receivable goes back to
+   * the performing loan book and the provision is released.
+   */
+  async cure(caseId: string, performedBy: string | null, notes?: string): Promise<DefaultCase> {
+    return this.advance(caseId, 'cured', performedBy, notes, async (current) => ({
+      fields: { receivable_balance: 0, provision_balance: 0, closed_at: new Date() },
+      description: 'Arrears cleared, returned to the performing book',
+      lines: [
+        ...transfer('loans_receivable', 'defaulted_receivable', current.receivableBalance),
+        ...DefaultManagementService.provisionLines(current.provisionBalance, 0),
+      ],
+      eventPayload: {},
+    }));
+  }
+
+  /**
+   * Cure cases whose plan has no overdue installments left, e.g. after the customer paid the arrears
+   */
+  async cureCaughtUpCases(): Promise<number> {
+    const result = await this.pool.query(
+      `SELECT dc.id FROM default_cases dc
+       JOIN payment_plans pp ON pp.id = dc.payment_plan_id
+       WHERE dc.stage IN ('overdue', 'final_notice')
+         AND pp.status IN ('active', 'completed')
+         AND NOT EXISTS (
+           SELECT 1 FROM payment_installments pi WHERE pi.payment_plan_id = pp.id AND pi.status = 'overdue'
+         )`
+    );
+
+    let cured = 0;
+    for (const row of result.rows) {
+      try {
+        await this.cure(row.id, null, 'Arrears paid');
+        cured++;
+      } catch (cureError) {
+        console.error(`Failed to cure default case ${row.id}:`, cureError);
+      }
+    }
+    return cured;
+  }
+
+  async getCase(caseId: string): Promise<DefaultCase | null> {
+    const result = await this.pool.query('SELECT * FROM default_cases WHERE id = $1', [caseId]);
+    return result.rows.length > 0 ? this.mapCase(result.rows[0]) : null;
+  }
+
+  /**
+   * Cases for a plan, most recent first
+   */
+  async getCasesForPlan(planId: string): Promise<DefaultCase[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM default_cases WHERE payment_plan_id = $1 ORDER BY created_at DESC',
+      [planId]
+    );
+    return result.rows.map((row) => this.mapCase(row));
+  }
+
+  async listCases(filters: { stage?: DefaultStage; open?: boolean } = {}, limit: number = 100): Promise<DefaultCase[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.stage) {
+      params.push(filters.stage);
+      conditions.push(`stage = $${params.length}`);
+    }
+    if (filters.open !== undefined) {
+      params.push(CLOSED_DEFAULT_STAGES);
+      conditions.push(filters.open ? `stage != ALL($${params.length})` : `stage = ANY($${params.length})`);
+    }
+    params.push(limit);
+
+    const result = await this.pool.query(
+      `SELECT * FROM default_cases
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY created_at ASC
+       LIMIT $${params.length}`,
+      params
+    );
+    return result.rows.map((row) => this.mapCase(row));
+  }
+
+  async getAccountingEntries(caseId: string): Promise<AccountingEntry[]> {
+    const result = await this.pool.query(
+      `SELECT ae.*,
+         COALESCE(json_agg(json_build_object('account', ael.account, 'debit', ael.debit, 'credit', ael.credit)
+           ORDER BY ael.line_number) FILTER (WHERE ael.id IS NOT NULL), '[]') AS lines
+       FROM default_accounting_entries ae
+       LEFT JOIN default_accounting_entry_lines ael ON ael.entry_id = ae.id
+       WHERE ae.default_case_id = $1
+       GROUP BY ae.id
+       ORDER BY ae.created_at ASC`,
+      [caseId]
+    );
+    return result.rows.map((row) => this.mapEntry(row));
+  }
+
+  /**
+   * Move a case to the next stage: the stage change, accounting entry and event commit together.
+   * `transition` works out the case fields to change, the journal and the event payload.
+   */
+  private async advance(
+    caseId: string,
+    to: DefaultStage,
+    performedBy: string | null,
+    notes: string | undefined,
+    transition: (current: DefaultCase, client: PoolClient) => Promise<{
+      fields: Record<string, any>;
+      description: string;
+      lines: JournalLine[];
+      eventPayload: Record<string, any>;
+    }>
+  ): Promise<DefaultCase> {
+    const { defaultCase, eventId } = await withTransaction(this.pool, async (client) => {
+      const currentResult = await client.query('SELECT * FROM default_cases WHERE id = $1 FOR UPDATE', [caseId]);
+      if (currentResult.rows.length === 0) {
+        throw new Error('Default case not found');
+      }
+      const current = this.mapCase(currentResult.rows[0]);
+      if (!DefaultManagementService.canMove(current.stage, to)) {
+        throw new Error(`A case at ${current.stage} cannot move to ${to}`);
+      }
+
+      const { fields, description, lines, eventPayload } = await transition(current, client);
+
+      const columns = Object.keys(fields);
+      const updated = await client.query(
+        `UPDATE default_cases
+         SET stage = $1, ${columns.map((column, index) => `${column} = $${index + 3}`).join(', ')},
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2
+         RETURNING *`,
+        [to, caseId, ...columns.map((column) => fields[column])]
+      );
+      const moved = this.mapCase(updated.rows[0]);
+
+      await this.postEntry(client, moved, to, notes ? `${description} - ${notes}` : description, lines, performedBy);
+      const id = await this.enqueueEvent(client, `payment.default.${to}`, moved, eventPayload);
+      return { defaultCase: moved, eventId: id };
+    });
+
+    await this.outboxService.publishNow([eventId]);
+    return defaultCase;
+  }
+
+  /**
+   * The provision for a stage: its share of the defaulted receivable, never released on the way down
+   */
+  private stageProvision(current: DefaultCase, stage: DefaultStage): number {
+    const target = round2((current.receivableBalance * DefaultManagementService.provisionPercent(stage)) / 100);
+    return Math.max(target, current.provisionBalance);
+  }
+
+  private async postEntry(
+    client: PoolClient,
+    defaultCase: DefaultCase,
+    transition: DefaultStage,
+    description: string,
+    lines: JournalLine[],
+    postedBy?: string | null
+  ): Promise<void> {
+    if (!DefaultManagementService.isBalanced(lines)) {
+      throw new Error(`Accounting entry for ${transition} does not balance`);
+    }
+
+    const entryResult = await client.query(
+      `INSERT INTO default_accounting_entries (default_case_id, payment_plan_id, transition, description, posted_by)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING id`,
+      [defaultCase.id, defaultCase.paymentPlanId, transition, description, postedBy || null]
+    );
+
+    for (const [index, line] of lines.entries()) {
+      await client.query(
+        `INSERT INTO default_accounting_entry_lines (entry_id, line_number, account, debit, credit)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [entryResult.rows[0].id, index + 1, line.account, line.debit, line.credit]
+      );
+    }
+  }
+
+  private async enqueueEvent(
+    client: PoolClient,
+    routingKey: string,
+    defaultCase: DefaultCase,
+    payload: Record<string, any>
+  ): Promise<string> {
+    return OutboxService.enqueue(client, 'payment.events', routingKey, {
+      type: routingKey,
+      payload: {
+        caseId: defaultCase.id,
+        planId: defaultCase.paymentPlanId,
+        userId: defaultCase.userId,
+        vehicleId: defaultCase.vehicleId,
+        stage: defaultCase.stage,
+        ...payload,
+      },
+      timestamp: Date.now(),
+    });
+  }
+
+  private mapCase(row: any): DefaultCase {
+    const toNumber = (value: any) => (value === null || value === undefined ? undefined : parseFloat(value));
+    return {
+      id: row.id,
+      paymentPlanId: row.payment_plan_id,
+      userId: row.user_id,
+      vehicleId: row.vehicle_id,
+      stage: row.stage,
+      overdueDays: row.overdue_days,
+      exposure: parseFloat(row.exposure),
+      receivableBalance: parseFloat(row.receivable_balance),
+      provisionBalance: parseFloat(row.provision_balance),
+      inventoryValue: parseFloat(row.inventory_value),
+      finalNoticeSentAt: row.final_notice_sent_at || undefined,
+      finalNoticeExpiresAt: row.final_notice_expires_at || undefined,
+      repossessionOrderedAt: row.repossession_ordered_at || undefined,
+      vehicleLocation: row.vehicle_location || undefined,
+      immobilizedAt: row.immobilized_at || undefined,
+      recoveredAt: row.recovered_at || undefined,
+      vehicleCondition: row.vehicle_condition || undefined,
+      conditionNotes: row.condition_notes || undefined,
+      odometerKm: toNumber(row.odometer_km),
+      estimatedValue: toNumber(row.estimated_value),
+      recoveryCosts: toNumber(row.recovery_costs),
+      saleAmount: toNumber(row.sale_amount),
+      buyerReference: row.buyer_reference || undefined,
+      writeOffAmount: toNumber(row.write_off_amount),
+      openedBy: row.opened_by || undefined,
+      closedAt: row.closed_at || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private mapEntry(row: any): AccountingEntry {
+    return {
+      id: row.id,
+      defaultCaseId: row.default_case_id,
+      paymentPlanId: row.payment_plan_id,
+      transition: row.transition,
+      description: row.description,
+      lines: row.lines.map((line: any) => ({
+        account: line.account,
+        debit: parseFloat(line.debit),
+        credit: parseFloat(line.credit),
+      })),
+      postedBy: row.posted_by || undefined,
+      postedAt: row.created_at,
+    };
+  }
+}
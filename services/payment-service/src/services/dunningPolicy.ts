@@ -0,0 +1,276 @@
+/**
+ * Dunning Policy
+ * Decides when, and how many times, a failed mobile money pull is retried based on why it failed.
+ * Admin-managed rules are keyed by provider and normalized failure code; built-in defaults cover the rest.
+ */
+
+import { Pool } from 'pg';
+
+export type FailureCode =
+  | 'insufficient_funds'
+  | 'subscriber_unreachable'
+  | 'timeout'
+  | 'limit_exceeded'
+  | 'declined'
+  | 'invalid_account'
+  | 'provider_error'
+  | 'unknown';
+
+export const FAILURE_CODES: FailureCode[] = [
+  'insufficient_funds',
+  'subscriber_unreachable',
+  'timeout',
+  'limit_exceeded',
+  'declined',
+  'invalid_account',
+  'provider_error',
+  'unknown',
+];
+
+export interface DunningRule {
+  id?: string; // Not set for the built-in defaults
+  name: string;
+  provider?: string; // Any provider when not set
+  failureCode?: FailureCode; // Any failure when not set
+  retryOffsetsMinutes: number[];
+  maxAttempts: number;
+  payDayAware: boolean;
+  notifyCustomer: boolean;
+  active: boolean;
+}
+
+export interface PlannedRetry {
+  attemptNumber: number;
+  attemptsRemaining: number;
+  nextRetryAt: Date;
+  movedToPayDay: boolean;
+}
+
+export type PayDay = number | 'last';
+
+// Reason codes some providers return verbatim in their failure messages
+const PROVIDER_REASON_CODES: Record<string, Record<string, FailureCode>> = {
+  mtn: {
+    NOT_ENOUGH_FUNDS: 'insufficient_funds',
+    PAYER_LIMIT_REACHED: 'limit_exceeded',
+    PAYER_NOT_FOUND: 'invalid_account',
+    APPROVAL_REJECTED: 'declined',
+    TRANSACTION_CANCELED: 'declined',
+    NOT_ALLOWED: 'declined',
+    EXPIRED: 'timeout',
+    INTERNAL_PROCESSING_ERROR: 'provider_error',
+    SERVICE_UNAVAILABLE: 'provider_error',
+    COULD_NOT_PERFORM_TRANSACTION: 'provider_error',
+  },
+};
+
+// Checked in order, so the more specific wording comes first
+const MESSAGE_PATTERNS: Array<[RegExp, FailureCode]> = [
+  [/insufficient|not enough (funds|balance)|low balance/i, 'insufficient_funds'],
+  [/account not found|not registered|invalid (phone|msisdn|number|account)|payer not found/i, 'invalid_account'],
+  [/unreachable|not reachable|switched off|network error|no network/i, 'subscriber_unreachable'],
+  [/limit/i, 'limit_exceeded'],
+  [/time ?out|timed out|not approved in time|expired/i, 'timeout'],
+  [/declined|rejected|cancell?ed|wrong pin|incorrect pin/i, 'declined'],
+  [/service unavailable|internal|system error|provider error/i, 'provider_error'],
+];
+
+// Used when no admin rule matches: a short customer problem is retried quickly, an empty wallet waits for money
+const DEFAULT_RULES: Record<FailureCode, Omit<DunningRule, 'name' | 'failureCode' | 'active'>> = {
+  insufficient_funds: { retryOffsetsMinutes: [1440, 4320, 10080], maxAttempts: 3, payDayAware: true, notifyCustomer: true },
+  subscriber_unreachable: { retryOffsetsMinutes: [15, 60, 240], maxAttempts: 3, payDayAware: false, notifyCustomer: false },
+  timeout: { retryOffsetsMinutes: [60, 360, 1440], maxAttempts: 3, payDayAware: false, notifyCustomer: true },
+  limit_exceeded: { retryOffsetsMinutes: [1440, 2880], maxAttempts: 2, payDayAware: false, notifyCustomer: true },
+  declined: { retryOffsetsMinutes: [1440], maxAttempts: 1, payDayAware: false, notifyCustomer: true },
+  invalid_account: { retryOffsetsMinutes: [], maxAttempts: 0, payDayAware: false, notifyCustomer: false },
+  provider_error: { retryOffsetsMinutes: [30, 120, 480], maxAttempts: 3, payDayAware: false, notifyCustomer: false },
+  unknown: { retryOffsetsMinutes: [60, 240, 1440], maxAttempts: 3, payDayAware: false, notifyCustomer: true },
+};
+
+export class DunningPolicyService {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  /**
+   * Map a provider failure message onto one of the failure codes the rules are keyed by
+   */
+  static normalizeFailureReason(message?: string | null, provider?: string | null): FailureCode {
+    if (!message) {
+      return 'unknown';
+    }
+
+    const providerCodes = PROVIDER_REASON_CODES[(provider || '').toLowerCase()] || {};
+    for (const [code, failureCode] of Object.entries(providerCodes)) {
+      if (message.toUpperCase().includes(code)) {
+        return failureCode;
+      }
+    }
+
+    for (const [pattern, failureCode] of MESSAGE_PATTERNS) {
+      if (pattern.test(message)) {
+        return failureCode;
+      }
+    }
+    return 'unknown';
+  }
+
+  static defaultRule(failureCode: FailureCode): DunningRule {
+    return {
+      name: `Default (${failureCode})`,
+      failureCode,
+      active: true,
+      ...DEFAULT_RULES[failureCode],
+      retryOffsetsMinutes: [...DEFAULT_RULES[failureCode].retryOffsetsMinutes],
+    };
+  }
+
+  /**
+   * Days of the month customers are usually paid on, from DUNNING_PAY_DAYS (default "25,last")
+   */
+  static payDays(): PayDay[] {
+    return (process.env.DUNNING_PAY_DAYS || '25,last')
+      .split(',')
+      .map((day) => day.trim().toLowerCase())
+      .filter((day) => day === 'last' || /^\d+$/.test(day))
+      .map((day) => (day === 'last' ? 'last' : Math.min(Math.max(parseInt(day), 1), 31)));
+  }
+
+  /**
+   * When the next retry should run after `completedAttempts` retries have already been made.
+   * Pay-day-aware rules hold the retry back to a pay day falling within DUNNING_PAY_DAY_WINDOW_DAYS
+   * (default 3) of the offset, at DUNNING_PAY_DAY_HOUR (default 9). Returns null once attempts run out.
+   * Pure calculation - nothing is written.
+   */
+  static planRetry(
+    rule: DunningRule,
+    completedAttempts: number,
+    failedAt: Date = new Date(),
+    payDays: PayDay[] = DunningPolicyService.payDays()
+  ): PlannedRetry | null {
+    if (completedAttempts >= rule.maxAttempts || rule.retryOffsetsMinutes.length === 0) {
+      return null;
+    }
+
+    // Later attempts keep using the last offset when there are more attempts than offsets
+    const offset = rule.retryOffsetsMinutes[Math.min(completedAttempts, rule.retryOffsetsMinutes.length - 1)];
+    let nextRetryAt = new Date(failedAt.getTime() + offset * 60000);
+    let movedToPayDay = false;
+
+    if (rule.payDayAware && payDays.length > 0) {
+      const windowMs = parseInt(process.env.DUNNING_PAY_DAY_WINDOW_DAYS || '3') * 86400000;
+      const payDay = DunningPolicyService.nextPayDay(nextRetryAt, payDays);
+      if (payDay && payDay.getTime() - nextRetryAt.getTime() <= windowMs) {
+        nextRetryAt = payDay;
+        movedToPayDay = true;
+      }
+    }
+
+    return {
+      attemptNumber: completedAttempts + 1,
+      attemptsRemaining: rule.maxAttempts - completedAttempts - 1,
+      nextRetryAt,
+      movedToPayDay,
+    };
+  }
+
+  /**
+   * The first pay day collection time after the given moment
+   */
+  private static nextPayDay(after: Date, payDays: PayDay[]): Date | null {
+    const hour = parseInt(process.env.DUNNING_PAY_DAY_HOUR || '9');
+    const candidates: Date[] = [];
+
+    for (let monthOffset = 0; monthOffset <= 1; monthOffset++) {
+      const year = after.getFullYear();
+      const month = after.getMonth() + monthOffset;
+      const lastDay = new Date(year, month + 1, 0).getDate();
+      for (const payDay of payDays) {
+        const day = payDay === 'last' ? lastDay : Math.min(payDay, lastDay);
+        candidates.push(new Date(year, month, day, hour, 0, 0, 0));
+      }
+    }
+
+    const upcoming = candidates.filter((date) => date > after).sort((a, b) => a.getTime() - b.getTime());
+    return upcoming[0] || null;
+  }
+
+  /**
+   * The rule for a failure: the most specific active admin rule (provider and code, then code,
+   * then provider, then catch-all), otherwise the built-in default for the failure code
+   */
+  async resolveRule(provider: string | null | undefined, failureCode: FailureCode): Promise<DunningRule> {
+    const result = await this.pool.query(
+      `SELECT * FROM dunning_rules
+       WHERE active = true
+         AND (provider IS NULL OR provider = $1)
+         AND (failure_code IS NULL OR failure_code = $2)
+       ORDER BY (failure_code IS NOT NULL) DESC, (provider IS NOT NULL) DESC, created_at DESC
+       LIMIT 1`,
+      [(provider || '').toLowerCase(), failureCode]
+    );
+
+    return result.rows.length > 0 ? this.mapRule(result.rows[0]) : DunningPolicyService.defaultRule(failureCode);
+  }
+
+  async createRule(rule: Omit<DunningRule, 'id' | 'active'>): Promise<DunningRule> {
+    const result = await this.pool.query(
+      `INSERT INTO dunning_rules (
+        name, provider, failure_code, retry_offsets_minutes, max_attempts, pay_day_aware, notify_customer
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *`,
+      [
+        rule.name,
+        rule.provider ? rule.provider.toLowerCase() : null,
+        rule.failureCode || null,
+        rule.retryOffsetsMinutes,
+        rule.maxAttempts,
+        rule.payDayAware,
+        rule.notifyCustomer,
+      ]
+    );
+    return this.mapRule(result.rows[0]);
+  }
+
+  async listRules(filters: { provider?: string; failureCode?: FailureCode } = {}): Promise<DunningRule[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.provider) {
+      params.push(filters.provider.toLowerCase());
+      conditions.push(`provider = $${params.length}`);
+    }
+    if (filters.failureCode) {
+      params.push(filters.failureCode);
+      conditions.push(`failure_code = $${params.length}`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const result = await this.pool.query(`SELECT * FROM dunning_rules ${where} ORDER BY created_at DESC`, params);
+    return result.rows.map((row) => this.mapRule(row));
+  }
+
+  async setRuleActive(ruleId: string, active: boolean): Promise<DunningRule | null> {
+    const result = await this.pool.query(
+      `UPDATE dunning_rules SET active = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2 RETURNING *`,
+      [active, ruleId]
+    );
+    return result.rows.length > 0 ? this.mapRule(result.rows[0]) : null;
+  }
+
+  private mapRule(row: any): DunningRule {
+    return {
+      id: row.id,
+      name: row.name,
+      provider: row.provider || undefined,
+      failureCode: row.failure_code || undefined,
+      retryOffsetsMinutes: (row.retry_offsets_minutes || []).map((offset: any) => parseInt(offset)),
+      maxAttempts: row.max_attempts,
+      payDayAware: row.pay_day_aware,
+      notifyCustomer: row.notify_customer,
+      active: row.active,
+    };
+  }
+}
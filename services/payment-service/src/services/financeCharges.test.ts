@@ -0,0 +1,124 @@
+import { FinanceChargeService } from './financeCharges';
+
+const sum = (values: number[]) => Math.round(values.reduce((total, value) => total + value, 0) * 100) / 100;
+
+describe('FinanceChargeService', () => {
+  describe('getRateForTier', () => {
+    const originalRates = process.env.FINANCE_RATES_BY_TIER;
+
+    afterEach(() => {
+      if (originalRates === undefined) {
+        delete process.env.FINANCE_RATES_BY_TIER;
+      } else {
+        process.env.FINANCE_RATES_BY_TIER = originalRates;
+      }
+    });
+
+    it('should return the default rate for each eligible tier', () => {
+      delete process.env.FINANCE_RATES_BY_TIER;
+
+      expect(FinanceChargeService.getRateForTier('A')).toBe(18);
+      expect(FinanceChargeService.getRateForTier('D')).toBe(32);
+    });
+
+    it('should reject tier E, which is not eligible for financing', () => {
+      delete process.env.FINANCE_RATES_BY_TIER;
+
+      expect(() => FinanceChargeService.getRateForTier('E')).toThrow('Credit tier E is not eligible for financing');
+    });
+
+    it('should use FINANCE_RATES_BY_TIER over the defaults', () => {
+      process.env.FINANCE_RATES_BY_TIER = JSON.stringify({ A: 16 });
+
+      expect(FinanceChargeService.getRateForTier('A')).toBe(16);
+      expect(FinanceChargeService.getRateForTier('B')).toBe(22);
+    });
+  });
+
+  describe('calculateCharges', () => {
+    it('should charge flat interest on the original amount for the whole term', () => {
+      const charges = FinanceChargeService.calculateCharges(1200, 12, 12, 12, 'monthly', 'flat');
+
+      expect(charges).toHaveLength(12);
+      expect(charges.every((charge) => charge.principal === 100 && charge.interest === 12)).toBe(true);
+    });
+
+    it('should absorb rounding differences in the last installment', () => {
+      const charges = FinanceChargeService.calculateCharges(1000, 10, 3, 12, 'monthly', 'flat');
+
+      expect(charges.map((charge) => charge.principal)).toEqual([333.33, 333.33, 333.34]);
+      expect(charges.map((charge) => charge.interest)).toEqual([33.33, 33.33, 33.34]);
+    });
+
+    it('should charge reducing-balance interest on the balance still owed', () => {
+      const charges = FinanceChargeService.calculateCharges(10000, 12, 12, 12, 'monthly', 'reducing_balance');
+
+      expect(charges[0].interest).toBe(100);
+      expect(sum(charges.map((charge) => charge.principal))).toBe(10000);
+      for (let i = 1; i < charges.length; i++) {
+        expect(charges[i].interest).toBeLessThan(charges[i - 1].interest);
+      }
+
+      // Equal payments, bar the last one clearing the rounding
+      const payments = charges.map((charge) => Math.round((charge.principal + charge.interest) * 100) / 100);
+      expect(new Set(payments.slice(0, -1)).size).toBe(1);
+      expect(Math.abs(payments[11] - payments[0])).toBeLessThan(0.1);
+    });
+
+    it('should charge less interest on a reducing balance than flat at the same rate', () => {
+      const flat = FinanceChargeService.calculateCharges(10000, 24, 12, 12, 'monthly', 'flat');
+      const reducing = FinanceChargeService.calculateCharges(10000, 24, 12, 12, 'monthly', 'reducing_balance');
+
+      expect(sum(reducing.map((charge) => charge.interest))).toBeLessThan(sum(flat.map((charge) => charge.interest)));
+    });
+
+    it('should split the principal evenly with no interest at a zero rate', () => {
+      const charges = FinanceChargeService.calculateCharges(900, 0, 3, 3, 'monthly', 'reducing_balance');
+
+      expect(charges).toEqual([
+        { principal: 300, interest: 0 },
+        { principal: 300, interest: 0 },
+        { principal: 300, interest: 0 },
+      ]);
+    });
+
+    it('should reject a negative rate', () => {
+      expect(() => FinanceChargeService.calculateCharges(1000, -1, 12, 12, 'monthly', 'flat')).toThrow(
+        'Interest rate cannot be negative'
+      );
+    });
+  });
+
+  describe('getPeriodsPerYear', () => {
+    it('should count only collection days for daily plans', () => {
+      expect(FinanceChargeService.getPeriodsPerYear('monthly')).toBe(12);
+      expect(FinanceChargeService.getPeriodsPerYear('weekly')).toBe(52);
+      expect(FinanceChargeService.getPeriodsPerYear('daily')).toBe(365);
+      expect(FinanceChargeService.getPeriodsPerYear('daily', { skipSundays: true })).toBe(313);
+    });
+  });
+
+  describe('calculateEffectiveApr', () => {
+    it('should be zero when nothing is paid over the amount financed', () => {
+      expect(FinanceChargeService.calculateEffectiveApr(1200, [100, 100, 100, 100, 100, 100, 100, 100, 100, 100, 100, 100], 'monthly')).toBe(0);
+      expect(FinanceChargeService.calculateEffectiveApr(0, [100], 'monthly')).toBe(0);
+    });
+
+    it('should find the compounded rate of a reducing-balance schedule', () => {
+      const charges = FinanceChargeService.calculateCharges(10000, 12, 12, 12, 'monthly', 'reducing_balance');
+      const payments = charges.map((charge) => charge.principal + charge.interest);
+
+      // 1% a month compounds to (1.01^12 - 1) = 12.68% a year
+      expect(FinanceChargeService.calculateEffectiveApr(10000, payments, 'monthly')).toBeCloseTo(12.68, 1);
+    });
+
+    it('should show a flat rate as a much higher APR', () => {
+      const charges = FinanceChargeService.calculateCharges(10000, 12, 12, 12, 'monthly', 'flat');
+      const payments = charges.map((charge) => charge.principal + charge.interest);
+
+      const apr = FinanceChargeService.calculateEffectiveApr(10000, payments, 'monthly');
+      expect(apr).toBeGreaterThan(22);
+      expect(apr).toBeLessThan(25);
+    });
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Finance Charge Service
+ * Calculates the cost of credit for installment plans using flat-rate or
+ * reducing-balance (annuity) interest, and the effective APR customers are shown
+ */
+
+import { CollectionCalendar, CollectionDayOptions } from './collectionCalendar';
+
+export type CreditTier = 'A' | 'B' | 'C' | 'D' | 'E';
+export type InterestMethod = 'flat' | 'reducing_balance';
+export type PaymentFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface FinanceRateConfiguration {
+  tier: CreditTier;
+  annualInterestRate: number | null; // Percentage; null means the tier is not eligible for credit
+}
+
+export interface InstallmentCharge {
+  principal: number;
+  interest: number;
+}
+
+// Annual interest rates per credit tier (tiers match credit-service TIER_CONFIGURATIONS)
+export const FINANCE_RATE_CONFIGURATIONS: FinanceRateConfiguration[] = [
+  { tier: 'A', annualInterestRate: 18 },
+  { tier: 'B', annualInterestRate: 22 },
+  { tier: 'C', annualInterestRate: 26 },
+  { tier: 'D', annualInterestRate: 32 },
+  { tier: 'E', annualInterestRate: null },
+];
+
+const PERIODS_PER_YEAR: Record<Exclude<PaymentFrequency, 'daily'>, number> = {
+  weekly: 52,
+  monthly: 12,
+};
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export class FinanceChargeService {
+  /**
+   * Get the annual interest rate for a credit tier.
+   * FINANCE_RATES_BY_TIER (JSON, e.g. {"A": 16}) overrides the defaults.
+   */
+  static getRateForTier(tier: CreditTier): number {
+    const overrides = process.env.FINANCE_RATES_BY_TIER ? JSON.parse(process.env.FINANCE_RATES_BY_TIER) : {};
+    const rate = tier in overrides
+      ? overrides[tier]
+      : FINANCE_RATE_CONFIGURATIONS.find((config) => config.tier === tier)?.annualInterestRate;
+
+    if (rate === null || rate === undefined) {
+      throw new Error(`Credit tier ${tier} is not eligible for financing`);
+    }
+
+    return rate;
+  }
+
+  /**
+   * Installments per year. Daily plans only count the days payments are collected on.
+   */
+  static getPeriodsPerYear(frequency: PaymentFrequency, options: CollectionDayOptions = {}): number {
+    if (frequency === 'daily') {
+      return CollectionCalendar.collectionDaysPerYear(options);
+    }
+    return PERIODS_PER_YEAR[frequency];
+  }
+
+  /**
+   * Split each installment into principal and interest.
+   * Rounding differences are absorbed by the last installment.
+   */
+  static calculateCharges(
+    principal: number,
+    annualInterestRate: number,
+    totalInstallments: number,
+    termLengthMonths: number,
+    frequency: PaymentFrequency,
+    method: InterestMethod,
+    options: CollectionDayOptions = {}
+  ): InstallmentCharge[] {
+    if (annualInterestRate < 0) {
+      throw new Error('Interest rate cannot be negative');
+    }
+
+    return method === 'flat'
+      ? FinanceChargeService.flatRateCharges(principal, annualInterestRate, totalInstallments, termLengthMonths)
+      : FinanceChargeService.reducingBalanceCharges(
+          principal,
+          annualInterestRate,
+          totalInstallments,
+          FinanceChargeService.getPeriodsPerYear(frequency, options)
+        );
+  }
+
+  /**
+   * Effective annual percentage rate implied by a schedule of payments.
+   * Solves for the periodic rate that discounts the installments back to the amount financed.
+   */
+  static calculateEffectiveApr(
+    principal: number,
+    installmentAmounts: number[],
+    frequency: PaymentFrequency,
+    options: CollectionDayOptions = {}
+  ): number {
+    const totalPaid = installmentAmounts.reduce((sum, amount) => sum + amount, 0);
+    if (principal <= 0 || totalPaid <= principal) {
+      return 0;
+    }
+
+    const presentValue = (rate: number) =>
+      installmentAmounts.reduce((sum, amount, index) => sum + amount / Math.pow(1 + rate, index + 1), 0);
+
+    // Bisection: present value falls as the rate rises
+    let low = 0;
+    let high = 1;
+    for (let i = 0; i < 100; i++) {
+      const mid = (low + high) / 2;
+      if (presentValue(mid) > principal) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+
+    const periodicRate = (low + high) / 2;
+    const apr = (Math.pow(1 + periodicRate, FinanceChargeService.getPeriodsPerYear(frequency, options)) - 1) * 100;
+    return round2(apr);
+  }
+
+  private static flatRateCharges(
+    principal: number,
+    annualInterestRate: number,
+    totalInstallments: number,
+    termLengthMonths: number
+  ): InstallmentCharge[] {
+    const totalInterest = round2(principal * (annualInterestRate / 100) * (termLengthMonths / 12));
+    const principalPerInstallment = round2(principal / totalInstallments);
+    const interestPerInstallment = round2(totalInterest / totalInstallments);
+
+    const charges: InstallmentCharge[] = [];
+    for (let i = 1; i <= totalInstallments; i++) {
+      const isLast = i === totalInstallments;
+      charges.push({
+        principal: isLast ? round2(principal - principalPerInstallment * (totalInstallments - 1)) : principalPerInstallment,
+        interest: isLast ? round2(totalInterest - interestPerInstallment * (totalInstallments - 1)) : interestPerInstallment,
+      });
+    }
+    return charges;
+  }
+
+  private static reducingBalanceCharges(
+    principal: number,
+    annualInterestRate: number,
+    totalInstallments: number,
+    periodsPerYear: number
+  ): InstallmentCharge[] {
+    const periodicRate = annualInterestRate / 100 / periodsPerYear;
+    const payment = periodicRate === 0
+      ? principal / totalInstallments
+      : (principal * periodicRate) / (1 - Math.pow(1 + periodicRate, -totalInstallments));
+    const roundedPayment = round2(payment);
+
+    const charges: InstallmentCharge[] = [];
+    let balance = principal;
+    for (let i = 1; i <= totalInstallments; i++) {
+      const interest = round2(balance * periodicRate);
+      // The last installment clears whatever balance is left
+      const principalPortion = i === totalInstallments ? round2(balance) : round2(roundedPayment - interest);
+      charges.push({ principal: principalPortion, interest });
+      balance = round2(balance - principalPortion);
+    }
+    return charges;
+  }
+}
@@ -0,0 +1,510 @@
+/**
+ * Fraud Screening Service
+ * Customer payments are screened before anything is sent to the provider: velocity per phone,
+ * user and device, the amount against what the plan expects, the payer phone against the phone
+ * on the customer's KYC profile, and blocklists. Each rule that fires gives a reason; the payment
+ * is allowed, held for an admin to review, or blocked. Every screening is stored with its reasons.
+ */
+
+import { Pool } from 'pg';
+import { EncryptionService } from '@rent-to-own/encryption';
+import { Queryable } from './transaction';
+
+export type FraudDecision = 'allow' | 'review' | 'block';
+
+export type FraudReviewStatus = 'pending' | 'released' | 'rejected';
+
+export type BlocklistEntryType = 'phone' | 'user' | 'device';
+
+export const BLOCKLIST_ENTRY_TYPES: BlocklistEntryType[] = ['phone', 'user', 'device'];
+
+export type FraudRule =
+  | 'blocklisted_phone'
+  | 'blocklisted_user'
+  | 'blocklisted_device'
+  | 'phone_velocity'
+  | 'user_velocity'
+  | 'device_velocity'
+  | 'amount_changes'
+  | 'phone_many_plans'
+  | 'device_many_users'
+  | 'amount_anomaly'
+  | 'kyc_phone_mismatch';
+
+export interface FraudReason {
+  rule: FraudRule;
+  outcome: Exclude<FraudDecision, 'allow'>;
+  message: string;
+}
+
+export interface FraudLimits {
+  velocityWindowMinutes: number;
+  maxAttemptsPerPhone: number; // Attempts in the velocity window before further ones are blocked
+  maxAttemptsPerUser: number;
+  maxAttemptsPerDevice: number;
+  maxDistinctAmounts: number; // Different amounts tried in the velocity window before review
+  linkWindowDays: number;
+  maxPlansPerPhone: number; // Other plans one phone may pay in the link window before review
+  maxUsersPerDevice: number; // Other customers seen on one device in the link window before review
+  maxInstallmentMultiple: number; // Payments above this many installments (or deposits) are reviewed
+}
+
+export interface FraudScreeningConfig {
+  userServiceUrl: string;
+  limits: FraudLimits;
+}
+
+export interface ScreeningAttempt {
+  paymentPlanId: string;
+  userId: string;
+  amount: number;
+  phoneNumber?: string;
+  deviceId?: string;
+  ipAddress?: string;
+  isDeposit: boolean;
+  isSettlement: boolean;
+  installmentAmount: number;
+  depositAmount: number;
+}
+
+export interface FraudSignals {
+  blocklisted: BlocklistEntryType[];
+  phoneAttempts: number; // Earlier attempts in the velocity window
+  userAttempts: number;
+  deviceAttempts: number;
+  distinctAmounts: number; // Including this attempt's amount
+  phonePlanCount: number; // Other plans the phone was used for in the link window
+  deviceUserCount: number; // Other customers seen on the device in the link window
+  kycPhone?: string | null; // Undefined when the user service could not be reached
+  phoneUsedBefore: boolean; // The phone has completed a payment for this customer before
+}
+
+export interface FraudScreening {
+  id: string;
+  paymentId?: string;
+  paymentPlanId: string;
+  userId: string;
+  phoneLast4?: string;
+  deviceId?: string;
+  ipAddress?: string;
+  amount: number;
+  decision: FraudDecision;
+  reasons: FraudReason[];
+  reviewStatus?: FraudReviewStatus;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  reviewNotes?: string;
+  paymentStatus?: string;
+  createdAt: Date;
+}
+
+export interface BlocklistEntry {
+  id: string;
+  entryType: BlocklistEntryType;
+  value: string; // Phones are stored hashed and shown by their last four digits
+  reason: string;
+  active: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DECISION_SEVERITY: Record<FraudDecision, number> = { allow: 0, review: 1, block: 2 };
+
+export class FraudScreeningService {
+  private pool: Pool;
+  private encryptionService: EncryptionService;
+  private config: FraudScreeningConfig;
+
+  constructor(pool: Pool, encryptionService: EncryptionService, config?: Partial<FraudScreeningConfig>) {
+    this.pool = pool;
+    this.encryptionService = encryptionService;
+    this.config = {
+      userServiceUrl: config?.userServiceUrl ?? (process.env.USER_SERVICE_URL || 'http://localhost:3001'),
+      limits: config?.limits ?? FraudScreeningService.limitsFromEnv(),
+    };
+  }
+
+  static limitsFromEnv(): FraudLimits {
+    const number = (name: string, fallback: number) => {
+      const value = parseFloat(process.env[name] || '');
+      return isNaN(value) ? fallback : value;
+    };
+    return {
+      velocityWindowMinutes: number('FRAUD_VELOCITY_WINDOW_MINUTES', 60),
+      maxAttemptsPerPhone: number('FRAUD_MAX_ATTEMPTS_PER_PHONE', 5),
+      maxAttemptsPerUser: number('FRAUD_MAX_ATTEMPTS_PER_USER', 5),
+      maxAttemptsPerDevice: number('FRAUD_MAX_ATTEMPTS_PER_DEVICE', 10),
+      maxDistinctAmounts: number('FRAUD_MAX_DISTINCT_AMOUNTS', 3),
+      linkWindowDays: number('FRAUD_LINK_WINDOW_DAYS', 30),
+      maxPlansPerPhone: number('FRAUD_MAX_PLANS_PER_PHONE', 3),
+      maxUsersPerDevice: number('FRAUD_MAX_USERS_PER_DEVICE', 3),
+      maxInstallmentMultiple: number('FRAUD_MAX_INSTALLMENT_MULTIPLE', 10),
+    };
+  }
+
+  /**
+   * Phone numbers in international form without punctuation, so 0772 123456 and +256772123456 match
+   */
+  static normalizePhone(phoneNumber: string): string {
+    const digits = phoneNumber.replace(/\D/g, '');
+    return digits.startsWith('0') ? `256${digits.slice(1)}` : digits;
+  }
+
+  /**
+   * Apply the rules to what is known about an attempt. The strictest outcome of any rule that fires wins.
+   * Pure calculation - nothing is written.
+   */
+  static evaluate(
+    attempt: ScreeningAttempt,
+    signals: FraudSignals,
+    limits: FraudLimits
+  ): { decision: FraudDecision; reasons: FraudReason[] } {
+    const reasons: FraudReason[] = [];
+    const add = (rule: FraudRule, outcome: FraudReason['outcome'], message: string) => reasons.push({ rule, outcome, message });
+
+    for (const entryType of signals.blocklisted) {
+      add(`blocklisted_${entryType}` as FraudRule, 'block', `The payer ${entryType} is blocklisted`);
+    }
+
+    const window = `${limits.velocityWindowMinutes} minutes`;
+    if (attempt.phoneNumber && signals.phoneAttempts >= limits.maxAttemptsPerPhone) {
+      add('phone_velocity', 'block', `${signals.phoneAttempts} earlier attempts from this phone in the last ${window}`);
+    }
+    if (signals.userAttempts >= limits.maxAttemptsPerUser) {
+      add('user_velocity', 'block', `${signals.userAttempts} earlier attempts by this customer in the last ${window}`);
+    }
+    if (attempt.deviceId && signals.deviceAttempts >= limits.maxAttemptsPerDevice) {
+      add('device_velocity', 'block', `${signals.deviceAttempts} earlier attempts from this device in the last ${window}`);
+    }
+    if (signals.distinctAmounts > limits.maxDistinctAmounts) {
+      add('amount_changes', 'review', `${signals.distinctAmounts} different amounts tried in the last ${window}`);
+    }
+
+    if (attempt.phoneNumber && signals.phonePlanCount >= limits.maxPlansPerPhone) {
+      add('phone_many_plans', 'review', `Phone has paid for ${signals.phonePlanCount} other plans in the last ${limits.linkWindowDays} days`);
+    }
+    if (attempt.deviceId && signals.deviceUserCount >= limits.maxUsersPerDevice) {
+      add('device_many_users', 'review', `Device has been used by ${signals.deviceUserCount} other customers in the last ${limits.linkWindowDays} days`);
+    }
+
+    // Settlements are priced by their quote, so only deposits and installments are compared
+    const expected = attempt.isDeposit ? attempt.depositAmount : attempt.installmentAmount;
+    if (!attempt.isSettlement && expected > 0 && attempt.amount > expected * limits.maxInstallmentMultiple) {
+      add(
+        'amount_anomaly',
+        'review',
+        `Amount is ${Math.round((attempt.amount / expected) * 10) / 10} times the ${attempt.isDeposit ? 'deposit' : 'installment'}`
+      );
+    }
+
+    if (
+      attempt.phoneNumber &&
+      signals.kycPhone &&
+      FraudScreeningService.normalizePhone(signals.kycPhone) !== FraudScreeningService.normalizePhone(attempt.phoneNumber) &&
+      !signals.phoneUsedBefore
+    ) {
+      add('kyc_phone_mismatch', 'review', 'Payer phone differs from the KYC phone and has not paid for this customer before');
+    }
+
+    const decision = reasons.reduce<FraudDecision>(
+      (strictest, reason) => (DECISION_SEVERITY[reason.outcome] > DECISION_SEVERITY[strictest] ? reason.outcome : strictest),
+      'allow'
+    );
+    return { decision, reasons };
+  }
+
+  /**
+   * Screen a payment attempt and store the decision. Held (review) screenings wait for an admin.
+   */
+  async screen(attempt: ScreeningAttempt, db: Queryable = this.pool): Promise<FraudScreening> {
+    const phoneHash = attempt.phoneNumber ? this.hashPhone(attempt.phoneNumber) : null;
+    const signals = await this.gatherSignals(attempt, phoneHash);
+    const { decision, reasons } = FraudScreeningService.evaluate(attempt, signals, this.config.limits);
+
+    const result = await db.query(
+      `INSERT INTO fraud_screenings (
+        payment_plan_id, user_id, phone_hash, phone_last4, device_id, ip_address, amount,
+        decision, reasons, review_status
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING *`,
+      [
+        attempt.paymentPlanId,
+        attempt.userId,
+        phoneHash,
+        attempt.phoneNumber ? attempt.phoneNumber.replace(/\D/g, '').slice(-4) : null,
+        attempt.deviceId || null,
+        attempt.ipAddress || null,
+        attempt.amount,
+        decision,
+        JSON.stringify(reasons),
+        decision === 'review' ? 'pending' : null,
+      ]
+    );
+    return this.mapScreening(result.rows[0]);
+  }
+
+  /**
+   * Link a screening to the payment it let through or held
+   */
+  async attachPayment(screeningId: string, paymentId: string, db: Queryable = this.pool): Promise<void> {
+    await db.query('UPDATE fraud_screenings SET payment_id = $1 WHERE id = $2', [paymentId, screeningId]);
+  }
+
+  async getScreening(screeningId: string, db: Queryable = this.pool): Promise<FraudScreening | null> {
+    const result = await db.query(
+      `SELECT fs.*, p.status AS payment_status
+       FROM fraud_screenings fs
+       LEFT JOIN payments p ON fs.payment_id = p.id
+       WHERE fs.id = $1`,
+      [screeningId]
+    );
+    return result.rows.length > 0 ? this.mapScreening(result.rows[0]) : null;
+  }
+
+  async listScreenings(
+    filters: { decision?: FraudDecision; reviewStatus?: FraudReviewStatus; userId?: string; paymentPlanId?: string },
+    limit: number = 100
+  ): Promise<FraudScreening[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (filters.decision) {
+      params.push(filters.decision);
+      conditions.push(`fs.decision = $${params.length}`);
+    }
+    if (filters.reviewStatus) {
+      params.push(filters.reviewStatus);
+      conditions.push(`fs.review_status = $${params.length}`);
+    }
+    if (filters.userId) {
+      params.push(filters.userId);
+      conditions.push(`fs.user_id = $${params.length}`);
+    }
+    if (filters.paymentPlanId) {
+      params.push(filters.paymentPlanId);
+      conditions.push(`fs.payment_plan_id = $${params.length}`);
+    }
+    params.push(limit);
+
+    const result = await this.pool.query(
+      `SELECT fs.*, p.status AS payment_status
+       FROM fraud_screenings fs
+       LEFT JOIN payments p ON fs.payment_id = p.id
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY fs.created_at DESC
+       LIMIT $${params.length}`,
+      params
+    );
+    return result.rows.map((row) => this.mapScreening(row));
+  }
+
+  /**
+   * Record an admin's decision on a held payment. Only pending reviews can be resolved, once.
+   * Releasing or cancelling the payment itself is left to the caller.
+   */
+  async resolveReview(
+    screeningId: string,
+    resolution: Exclude<FraudReviewStatus, 'pending'>,
+    reviewedBy: string,
+    notes?: string,
+    db: Queryable = this.pool
+  ): Promise<FraudScreening> {
+    const result = await db.query(
+      `UPDATE fraud_screenings
+       SET review_status = $1, reviewed_by = $2, reviewed_at = CURRENT_TIMESTAMP, review_notes = $3
+       WHERE id = $4 AND review_status = 'pending'
+       RETURNING id`,
+      [resolution, reviewedBy, notes || null, screeningId]
+    );
+    if (result.rows.length === 0) {
+      const existing = await this.getScreening(screeningId, db);
+      throw new Error(
+        !existing
+          ? 'Fraud screening not found'
+          : existing.reviewStatus
+            ? `Screening has already been ${existing.reviewStatus}`
+            : 'Only held payments can be reviewed'
+      );
+    }
+    return (await this.getScreening(screeningId, db))!;
+  }
+
+  /**
+   * Blocklist the phone and device a screening came from
+   */
+  async blocklistScreeningSources(screening: FraudScreening, reason: string, createdBy: string): Promise<BlocklistEntry[]> {
+    const row = await this.pool.query('SELECT phone_hash, phone_last4, device_id FROM fraud_screenings WHERE id = $1', [screening.id]);
+    const entries: BlocklistEntry[] = [];
+    if (row.rows[0]?.phone_hash) {
+      entries.push(await this.insertBlocklistEntry('phone', row.rows[0].phone_hash, row.rows[0].phone_last4, reason, createdBy));
+    }
+    if (row.rows[0]?.device_id) {
+      entries.push(await this.insertBlocklistEntry('device', row.rows[0].device_id, null, reason, createdBy));
+    }
+    return entries;
+  }
+
+  async addToBlocklist(entryType: BlocklistEntryType, value: string, reason: string, createdBy: string): Promise<BlocklistEntry> {
+    if (entryType === 'phone') {
+      return this.insertBlocklistEntry('phone', this.hashPhone(value), value.replace(/\D/g, '').slice(-4), reason, createdBy);
+    }
+    return this.insertBlocklistEntry(entryType, value, null, reason, createdBy);
+  }
+
+  async setBlocklistEntryActive(entryId: string, active: boolean): Promise<BlocklistEntry | null> {
+    const result = await this.pool.query(
+      `UPDATE fraud_blocklist SET active = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2 RETURNING *`,
+      [active, entryId]
+    );
+    return result.rows.length > 0 ? this.mapBlocklistEntry(result.rows[0]) : null;
+  }
+
+  async listBlocklist(filters: { entryType?: BlocklistEntryType; active?: boolean }): Promise<BlocklistEntry[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM fraud_blocklist
+       WHERE ($1::text IS NULL OR entry_type = $1) AND ($2::boolean IS NULL OR active = $2)
+       ORDER BY created_at DESC`,
+      [filters.entryType ?? null, filters.active ?? null]
+    );
+    return result.rows.map((row) => this.mapBlocklistEntry(row));
+  }
+
+  private async gatherSignals(attempt: ScreeningAttempt, phoneHash: string | null): Promise<FraudSignals> {
+    const { velocityWindowMinutes, linkWindowDays } = this.config.limits;
+
+    const blocklistResult = await this.pool.query(
+      `SELECT DISTINCT entry_type FROM fraud_blocklist
+       WHERE active = true
+         AND ((entry_type = 'phone' AND value = $1) OR (entry_type = 'user' AND value = $2) OR (entry_type = 'device' AND value = $3))`,
+      [phoneHash, attempt.userId, attempt.deviceId || null]
+    );
+
+    const velocityResult = await this.pool.query(
+      `SELECT
+         COUNT(*) FILTER (WHERE $1::text IS NOT NULL AND phone_hash = $1)::int AS phone_attempts,
+         COUNT(*) FILTER (WHERE user_id = $2)::int AS user_attempts,
+         COUNT(*) FILTER (WHERE $3::text IS NOT NULL AND device_id = $3)::int AS device_attempts,
+         COUNT(DISTINCT amount) FILTER (WHERE user_id = $2 AND amount <> $4) AS other_amounts
+       FROM fraud_screenings
+       WHERE created_at >= CURRENT_TIMESTAMP - make_interval(mins => $5)`,
+      [phoneHash, attempt.userId, attempt.deviceId || null, attempt.amount, Math.round(velocityWindowMinutes)]
+    );
+
+    // Blocked attempts never reached a plan, so they do not link phones and devices to it
+    const linkResult = await this.pool.query(
+      `SELECT
+         COUNT(DISTINCT payment_plan_id) FILTER (WHERE $1::text IS NOT NULL AND phone_hash = $1 AND payment_plan_id <> $2) AS phone_plans,
+         COUNT(DISTINCT user_id) FILTER (WHERE $3::text IS NOT NULL AND device_id = $3 AND user_id <> $4) AS device_users
+       FROM fraud_screenings
+       WHERE decision <> 'block' AND created_at >= CURRENT_TIMESTAMP - make_interval(days => $5)`,
+      [phoneHash, attempt.paymentPlanId, attempt.deviceId || null, attempt.userId, Math.round(linkWindowDays)]
+    );
+
+    let phoneUsedBefore = false;
+    if (phoneHash) {
+      const usedResult = await this.pool.query(
+        `SELECT 1 FROM fraud_screenings fs
+         JOIN payments p ON fs.payment_id = p.id
+         WHERE fs.user_id = $1 AND fs.phone_hash = $2 AND p.status = 'completed'
+         LIMIT 1`,
+        [attempt.userId, phoneHash]
+      );
+      phoneUsedBefore = usedResult.rows.length > 0;
+    }
+
+    const velocity = velocityResult.rows[0];
+    const links = linkResult.rows[0];
+    return {
+      blocklisted: blocklistResult.rows.map((row) => row.entry_type),
+      phoneAttempts: velocity.phone_attempts,
+      userAttempts: velocity.user_attempts,
+      deviceAttempts: velocity.device_attempts,
+      distinctAmounts: parseInt(velocity.other_amounts) + 1,
+      phonePlanCount: parseInt(links.phone_plans),
+      deviceUserCount: parseInt(links.device_users),
+      kycPhone: attempt.phoneNumber ? await this.getKycPhone(attempt.userId) : undefined,
+      phoneUsedBefore,
+    };
+  }
+
+  /**
+   * The phone number on the customer's profile. A user service outage skips the KYC check rather
+   * than stopping payments.
+   */
+  private async getKycPhone(userId: string): Promise<string | null | undefined> {
+    try {
+      const response = await fetch(`${this.config.userServiceUrl}/users/${encodeURIComponent(userId)}`, {
+        headers: { 'Content-Type': 'application/json' },
+        signal: AbortSignal.timeout(5000),
+      });
+      if (response.status === 404) {
+        return null;
+      }
+      const body: any = await response.json();
+      if (!response.ok || !body.success) {
+        throw new Error(body.error?.message || `User service responded with status ${response.status}`);
+      }
+      return body.data.user.phone_number || null;
+    } catch (error: any) {
+      console.error('Error fetching KYC phone for fraud screening:', error.message);
+      return undefined;
+    }
+  }
+
+  private hashPhone(phoneNumber: string): string {
+    return this.encryptionService.hash(FraudScreeningService.normalizePhone(phoneNumber));
+  }
+
+  private async insertBlocklistEntry(
+    entryType: BlocklistEntryType,
+    value: string,
+    displayValue: string | null,
+    reason: string,
+    createdBy: string
+  ): Promise<BlocklistEntry> {
+    // An entry that was lifted is put back rather than duplicated
+    const result = await this.pool.query(
+      `INSERT INTO fraud_blocklist (entry_type, value, display_value, reason, created_by)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (entry_type, value) DO UPDATE
+       SET active = true, reason = EXCLUDED.reason, created_by = EXCLUDED.created_by, updated_at = CURRENT_TIMESTAMP
+       RETURNING *`,
+      [entryType, value, displayValue, reason, createdBy]
+    );
+    return this.mapBlocklistEntry(result.rows[0]);
+  }
+
+  private mapScreening(row: any): FraudScreening {
+    return {
+      id: row.id,
+      paymentId: row.payment_id || undefined,
+      paymentPlanId: row.payment_plan_id,
+      userId: row.user_id,
+      phoneLast4: row.phone_last4 || undefined,
+      deviceId: row.device_id || undefined,
+      ipAddress: row.ip_address || undefined,
+      amount: parseFloat(row.amount),
+      decision: row.decision,
+      reasons: row.reasons || [],
+      reviewStatus: row.review_status || undefined,
+      reviewedBy: row.reviewed_by || undefined,
+      reviewedAt: row.reviewed_at || undefined,
+      reviewNotes: row.review_notes || undefined,
+      paymentStatus: row.payment_status || undefined,
+      createdAt: row.created_at,
+    };
+  }
+
+  private mapBlocklistEntry(row: any): BlocklistEntry {
+    return {
+      id: row.id,
+      entryType: row.entry_type,
+      value: row.entry_type === 'phone' ? `****${row.display_value || ''}` : row.value,
+      reason: row.reason,
+      active: row.active,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
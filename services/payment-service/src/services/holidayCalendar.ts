@@ -0,0 +1,106 @@
+/**
+ * Holiday Calendar
+ * Admin-managed public holidays used for collection days and business-day due date adjustment.
+ * Each instance keeps the active holidays in memory; they are reloaded after every change and on
+ * every scheduler run, so changes made through another instance are picked up within the hour.
+ */
+
+import { Pool } from 'pg';
+import { CollectionCalendar, PUBLIC_HOLIDAYS } from './collectionCalendar';
+import { formatDate } from './statements';
+
+export interface PublicHoliday {
+  id: string;
+  name: string;
+  date: string; // YYYY-MM-DD; the year is ignored for recurring holidays
+  recurring: boolean;
+  active: boolean;
+  createdBy?: string;
+}
+
+export class HolidayCalendarService {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  /**
+   * Seed the calendar with the fixed-date public holidays the first time it is used
+   */
+  async ensureDefaults(): Promise<void> {
+    const existing = await this.pool.query('SELECT 1 FROM public_holidays LIMIT 1');
+    if (existing.rows.length > 0) {
+      return;
+    }
+
+    for (const holiday of PUBLIC_HOLIDAYS) {
+      await this.pool.query(
+        `INSERT INTO public_holidays (name, holiday_date, recurring)
+         VALUES ($1, $2, true)
+         ON CONFLICT (holiday_date, recurring) DO NOTHING`,
+        [holiday.name, `2000-${holiday.monthDay}`]
+      );
+    }
+  }
+
+  /**
+   * Load the active holidays into the collection calendar
+   */
+  async refresh(): Promise<void> {
+    const result = await this.pool.query('SELECT holiday_date, recurring FROM public_holidays WHERE active = true');
+    CollectionCalendar.setHolidays(
+      result.rows.map((row) => ({ date: formatDate(row.holiday_date), recurring: row.recurring }))
+    );
+  }
+
+  async createHoliday(holiday: { name: string; date: string; recurring: boolean; createdBy: string }): Promise<PublicHoliday> {
+    const result = await this.pool.query(
+      `INSERT INTO public_holidays (name, holiday_date, recurring, created_by)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (holiday_date, recurring) DO UPDATE SET name = EXCLUDED.name, active = true, updated_at = CURRENT_TIMESTAMP
+       RETURNING *`,
+      [holiday.name, holiday.recurring ? `2000-${holiday.date.slice(5, 10)}` : holiday.date, holiday.recurring, holiday.createdBy]
+    );
+    await this.refresh();
+    return this.mapHoliday(result.rows[0]);
+  }
+
+  /**
+   * Holidays falling in a year (recurring ones included), or the whole calendar
+   */
+  async listHolidays(year?: number): Promise<PublicHoliday[]> {
+    const result = year
+      ? await this.pool.query(
+          `SELECT * FROM public_holidays
+           WHERE recurring = true OR EXTRACT(YEAR FROM holiday_date) = $1
+           ORDER BY to_char(holiday_date, 'MM-DD'), recurring DESC`,
+          [year]
+        )
+      : await this.pool.query('SELECT * FROM public_holidays ORDER BY recurring DESC, holiday_date');
+    return result.rows.map((row) => this.mapHoliday(row));
+  }
+
+  async setHolidayActive(holidayId: string, active: boolean): Promise<PublicHoliday | null> {
+    const result = await this.pool.query(
+      `UPDATE public_holidays SET active = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2 RETURNING *`,
+      [active, holidayId]
+    );
+    if (result.rows.length === 0) {
+      return null;
+    }
+    await this.refresh();
+    return this.mapHoliday(result.rows[0]);
+  }
+
+  private mapHoliday(row: any): PublicHoliday {
+    return {
+      id: row.id,
+      name: row.name,
+      date: formatDate(row.holiday_date),
+      recurring: row.recurring,
+      active: row.active,
+      createdBy: row.created_by || undefined,
+    };
+  }
+}
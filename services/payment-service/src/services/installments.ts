@@ -0,0 +1,236 @@
+/**
+ * Installment Schedule Service
+ * Persists the per-installment amortization schedule and keeps payment plans in sync with it
+ */
+
+import { Pool } from 'pg';
+import { Queryable } from './transaction';
+import { ScheduledInstallment, PaymentScheduleService } from './paymentSchedule';
+import { CollectionCalendar } from './collectionCalendar';
+
+export interface Installment {
+  id: string;
+  paymentPlanId: string;
+  installmentNumber: number;
+  dueDate: Date;
+  amountDue: number;
+  principalDue: number;
+  interestDue: number;
+  addonDue: number; // Add-on charges included in amountDue
+  addonPaid: number; // Part of amountPaid that went to add-on charges
+  amountPaid: number;
+  status: 'pending' | 'partially_paid' | 'paid' | 'overdue' | 'settled' | 'superseded';
+  paidAt?: Date;
+  restructureId?: string; // Restructure that created this installment
+  supersededBy?: string; // Restructure that replaced this installment
+}
+
+export interface PlanProgress {
+  remainingInstallments: number;
+  nextPaymentDate: Date;
+  status: 'active' | 'overdue' | 'completed';
+}
+
+const OPEN_STATUSES = ['pending', 'partially_paid', 'overdue'];
+
+export class InstallmentService {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  /**
+   * Store the generated schedule for a newly created or restructured plan
+   */
+  async createInstallments(
+    planId: string,
+    installments: ScheduledInstallment[],
+    restructureId?: string,
+    db: Queryable = this.pool
+  ): Promise<void> {
+    for (const installment of installments) {
+      await db.query(
+        `INSERT INTO payment_installments (
+          payment_plan_id, installment_number, due_date, amount_due, principal_due, interest_due, addon_due, plan_restructure_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          planId,
+          installment.installmentNumber,
+          installment.dueDate,
+          installment.amountDue,
+          installment.principalDue,
+          installment.interestDue,
+          installment.addonDue || 0,
+          restructureId || null,
+        ]
+      );
+    }
+  }
+
+  /**
+   * Get the full schedule for a plan, including installments replaced by a restructure
+   */
+  async getSchedule(planId: string, db: Queryable = this.pool): Promise<Installment[]> {
+    const result = await db.query(
+      `SELECT * FROM payment_installments
+       WHERE payment_plan_id = $1
+       ORDER BY installment_number ASC`,
+      [planId]
+    );
+
+    return result.rows.map((row) => this.mapInstallment(row));
+  }
+
+  /**
+   * Get the oldest installment that still has an amount owing
+   */
+  async getNextOpenInstallment(planId: string): Promise<Installment | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM payment_installments
+       WHERE payment_plan_id = $1 AND status = ANY($2)
+       ORDER BY installment_number ASC
+       LIMIT 1`,
+      [planId, OPEN_STATUSES]
+    );
+
+    return result.rows.length > 0 ? this.mapInstallment(result.rows[0]) : null;
+  }
+
+  /**
+   * Close every open installment when a plan is settled early
+   */
+  async settleRemaining(planId: string, db: Queryable = this.pool): Promise<PlanProgress> {
+    await db.query(
+      `UPDATE payment_installments
+       SET status = 'settled', updated_at = CURRENT_TIMESTAMP
+       WHERE payment_plan_id = $1 AND status = ANY($2)`,
+      [planId, OPEN_STATUSES]
+    );
+
+    // Any credit was netted off the settlement quote
+    await db.query(
+      `UPDATE payment_plans SET credit_balance = 0 WHERE id = $1`,
+      [planId]
+    );
+
+    return this.syncPlan(planId, db);
+  }
+
+  /**
+   * Flag open installments whose grace period has passed. Grace periods ending on a
+   * non-business day run on to the next business day, so the calendar check is done here.
+   */
+  async markOverdueInstallments(): Promise<number> {
+    const candidates = await this.pool.query(
+      `SELECT pi.id, pi.due_date, pp.grace_period_days
+       FROM payment_installments pi
+       JOIN payment_plans pp ON pi.payment_plan_id = pp.id
+       WHERE pi.status IN ('pending', 'partially_paid')
+         AND pi.due_date + pp.grace_period_days < CURRENT_DATE`
+    );
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const overdueIds = candidates.rows
+      .filter((row) => PaymentScheduleService.calculateDueDateWithGrace(new Date(row.due_date), row.grace_period_days) < today)
+      .map((row) => row.id);
+    if (overdueIds.length === 0) {
+      return 0;
+    }
+
+    const result = await this.pool.query(
+      `UPDATE payment_installments
+       SET status = 'overdue', updated_at = CURRENT_TIMESTAMP
+       WHERE id = ANY($1) AND status IN ('pending', 'partially_paid')`,
+      [overdueIds]
+    );
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Recalculate remaining installments, next due date and status from the schedule. A plan with
+   * overdue installments left stays overdue, counted from the oldest; defaulted and cancelled plans
+   * keep their status.
+   */
+  async syncPlan(planId: string, db: Queryable = this.pool): Promise<PlanProgress> {
+    const result = await db.query(
+      `SELECT COUNT(*)::int AS remaining,
+              MIN(due_date) AS next_due_date,
+              MIN(due_date) FILTER (WHERE status = 'overdue') AS oldest_overdue_date
+       FROM payment_installments
+       WHERE payment_plan_id = $1 AND status = ANY($2)`,
+      [planId, OPEN_STATUSES]
+    );
+
+    const { remaining, next_due_date, oldest_overdue_date } = result.rows[0];
+    const progress: PlanProgress = {
+      remainingInstallments: remaining,
+      nextPaymentDate: next_due_date || new Date(),
+      status: remaining === 0 ? 'completed' : oldest_overdue_date ? 'overdue' : 'active',
+    };
+    const overdueDays = oldest_overdue_date ? PaymentScheduleService.calculateDaysOverdue(new Date(oldest_overdue_date)) : 0;
+
+    await db.query(
+      `UPDATE payment_plans
+       SET remaining_installments = $1,
+           next_payment_date = COALESCE($2, next_payment_date),
+           status = CASE WHEN status IN ('defaulted', 'cancelled') THEN status ELSE $3 END,
+           overdue_days = CASE WHEN status IN ('defaulted', 'cancelled') THEN overdue_days ELSE $4 END,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $5`,
+      [progress.remainingInstallments, next_due_date, progress.status, overdueDays, planId]
+    );
+
+    return progress;
+  }
+
+  /**
+   * Advance a plan created before installment schedules existed, which only tracks a counter
+   */
+  async advanceLegacyPlan(plan: any, db: Queryable = this.pool): Promise<PlanProgress> {
+    const remainingInstallments = Math.max(0, plan.remaining_installments - 1);
+    let nextPaymentDate = PaymentScheduleService.calculateNextPaymentDate(
+      new Date(plan.next_payment_date),
+      plan.payment_frequency,
+      { skipSundays: !!plan.skip_sundays, skipPublicHolidays: !!plan.skip_public_holidays }
+    );
+    if (plan.payment_frequency !== 'daily') {
+      nextPaymentDate = CollectionCalendar.adjustToBusinessDay(nextPaymentDate, plan.business_day_rule || 'following');
+    }
+    const progress: PlanProgress = {
+      remainingInstallments,
+      nextPaymentDate,
+      status: remainingInstallments === 0 ? 'completed' : 'active',
+    };
+
+    await db.query(
+      `UPDATE payment_plans
+       SET remaining_installments = $1, next_payment_date = $2, status = $3, overdue_days = 0, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $4`,
+      [progress.remainingInstallments, progress.nextPaymentDate, progress.status, plan.id]
+    );
+
+    return progress;
+  }
+
+  private mapInstallment(row: any): Installment {
+    return {
+      id: row.id,
+      paymentPlanId: row.payment_plan_id,
+      installmentNumber: row.installment_number,
+      dueDate: row.due_date,
+      amountDue: parseFloat(row.amount_due),
+      // Schedules created before finance charges carry no interest
+      principalDue: parseFloat(row.principal_due ?? row.amount_due),
+      interestDue: parseFloat(row.interest_due || '0'),
+      addonDue: parseFloat(row.addon_due || '0'),
+      addonPaid: parseFloat(row.addon_paid || '0'),
+      amountPaid: parseFloat(row.amount_paid),
+      status: row.status,
+      paidAt: row.paid_at || undefined,
+      restructureId: row.plan_restructure_id || undefined,
+      supersededBy: row.superseded_by || undefined,
+    };
+  }
+}
@@ -0,0 +1,293 @@
+/**
+ * Auto-Debit Mandate Service
+ * A mandate is the customer's standing consent for the platform to pull each installment from
+ * their mobile money wallet, up to a cap and until it expires. Customers can pause or revoke
+ * it at any time, and are told ahead of every pull.
+ */
+
+import { Pool } from 'pg';
+import { EncryptionService } from '@rent-to-own/encryption';
+import { CollectionCalendar } from './collectionCalendar';
+import { Queryable } from './transaction';
+
+// Days beyond the notice period scanned for pulls whose notice moves back over Sundays and holidays
+const NOTICE_LOOKAHEAD_DAYS = 10;
+
+export type MandateStatus = 'active' | 'paused' | 'revoked' | 'expired';
+
+export type MandateProvider = 'mtn' | 'airtel' | 'africell' | 'other';
+
+export interface MandateRequest {
+  paymentPlanId: string;
+  userId: string;
+  provider: MandateProvider;
+  phoneNumber: string;
+  capAmount: number; // Most a single pull may take
+  expiresAt: Date;
+  consentText: string; // The wording the customer agreed to
+  consentIp?: string;
+}
+
+export interface PaymentMandate {
+  id: string;
+  paymentPlanId: string;
+  userId: string;
+  provider: MandateProvider;
+  phoneNumberLast4: string;
+  capAmount: number;
+  expiresAt: Date;
+  status: MandateStatus;
+  consentText: string;
+  consentedAt: Date;
+  pausedAt?: Date;
+  revokedAt?: Date;
+  revokedBy?: string;
+  revocationReason?: string;
+  lastNoticeForDate?: Date; // Due date of the last pull the customer was told about
+  lastPulledAt?: Date;
+  createdAt: Date;
+}
+
+export const DEFAULT_MANDATE_CONSENT_TEXT =
+  'I authorise the platform to collect each installment of my payment plan from this mobile money account on its due date, up to the cap amount, until the mandate expires or I revoke it.';
+
+export class MandateService {
+  private pool: Pool;
+  private encryptionService: EncryptionService;
+
+  constructor(pool: Pool, encryptionService: EncryptionService) {
+    this.pool = pool;
+    this.encryptionService = encryptionService;
+  }
+
+  /**
+   * How much to pull for an installment under a mandate: whatever is owed, up to the cap.
+   * Pure calculation - nothing is written.
+   */
+  static pullAmount(amountDue: number, capAmount: number): number {
+    return Math.round(Math.min(amountDue, capAmount) * 100) / 100;
+  }
+
+  /**
+   * Record a customer's consent to auto-debit a plan
+   */
+  async createMandate(request: MandateRequest): Promise<PaymentMandate> {
+    const planResult = await this.pool.query('SELECT * FROM payment_plans WHERE id = $1 AND user_id = $2', [
+      request.paymentPlanId,
+      request.userId,
+    ]);
+    if (planResult.rows.length === 0) {
+      throw new Error('Payment plan not found');
+    }
+    if (!['active', 'overdue'].includes(planResult.rows[0].status)) {
+      throw new Error('Mandates can only be set up on active payment plans');
+    }
+
+    if (request.expiresAt.getTime() <= Date.now()) {
+      throw new Error('Mandate expiry must be in the future');
+    }
+
+    // One live mandate per plan; the old one has to be revoked first
+    const existing = await this.pool.query(
+      `SELECT id FROM payment_mandates WHERE payment_plan_id = $1 AND status IN ('active', 'paused')`,
+      [request.paymentPlanId]
+    );
+    if (existing.rows.length > 0) {
+      throw new Error('Payment plan already has a mandate; revoke it before creating a new one');
+    }
+
+    const phoneNumber = request.phoneNumber.replace(/\s/g, '');
+    const result = await this.pool.query(
+      `INSERT INTO payment_mandates (
+        payment_plan_id, user_id, provider, encrypted_phone_number, phone_number_last4,
+        cap_amount, expires_at, status, consent_text, consent_ip, consented_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, 'active', $8, $9, CURRENT_TIMESTAMP)
+      RETURNING *`,
+      [
+        request.paymentPlanId,
+        request.userId,
+        request.provider,
+        this.encryptionService.encrypt(phoneNumber),
+        phoneNumber.slice(-4),
+        request.capAmount,
+        request.expiresAt,
+        request.consentText,
+        request.consentIp || null,
+      ]
+    );
+    return this.mapMandate(result.rows[0]);
+  }
+
+  /**
+   * Stop pulls until the mandate is resumed
+   */
+  async pauseMandate(mandateId: string): Promise<PaymentMandate> {
+    const result = await this.pool.query(
+      `UPDATE payment_mandates
+       SET status = 'paused', paused_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status = 'active'
+       RETURNING *`,
+      [mandateId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Only active mandates can be paused');
+    }
+    return this.mapMandate(result.rows[0]);
+  }
+
+  /**
+   * Restart pulls on a paused mandate that has not expired
+   */
+  async resumeMandate(mandateId: string): Promise<PaymentMandate> {
+    const result = await this.pool.query(
+      `UPDATE payment_mandates
+       SET status = 'active', paused_at = NULL, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status = 'paused' AND expires_at > CURRENT_TIMESTAMP
+       RETURNING *`,
+      [mandateId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Only paused mandates that have not expired can be resumed');
+    }
+    return this.mapMandate(result.rows[0]);
+  }
+
+  /**
+   * Withdraw consent for good
+   */
+  async revokeMandate(mandateId: string, revokedBy: string, reason?: string): Promise<PaymentMandate> {
+    const result = await this.pool.query(
+      `UPDATE payment_mandates
+       SET status = 'revoked', revoked_at = CURRENT_TIMESTAMP, revoked_by = $2,
+           revocation_reason = $3, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status IN ('active', 'paused')
+       RETURNING *`,
+      [mandateId, revokedBy, reason || null]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Mandate has already been revoked or has expired');
+    }
+    return this.mapMandate(result.rows[0]);
+  }
+
+  async getMandate(mandateId: string): Promise<PaymentMandate | null> {
+    const result = await this.pool.query('SELECT * FROM payment_mandates WHERE id = $1', [mandateId]);
+    return result.rows.length > 0 ? this.mapMandate(result.rows[0]) : null;
+  }
+
+  /**
+   * Every mandate on a plan, newest first
+   */
+  async getMandatesForPlan(planId: string): Promise<PaymentMandate[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM payment_mandates WHERE payment_plan_id = $1 ORDER BY created_at DESC`,
+      [planId]
+    );
+    return result.rows.map((row) => this.mapMandate(row));
+  }
+
+  /**
+   * The mandate the scheduler may pull against today, if any
+   */
+  async getActiveMandateForPlan(planId: string): Promise<PaymentMandate | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM payment_mandates
+       WHERE payment_plan_id = $1 AND status = 'active' AND expires_at > CURRENT_TIMESTAMP
+       LIMIT 1`,
+      [planId]
+    );
+    return result.rows.length > 0 ? this.mapMandate(result.rows[0]) : null;
+  }
+
+  /**
+   * The wallet number to pull from
+   */
+  async getPhoneNumber(mandateId: string): Promise<string> {
+    const result = await this.pool.query('SELECT encrypted_phone_number FROM payment_mandates WHERE id = $1', [mandateId]);
+    return this.encryptionService.decrypt(result.rows[0].encrypted_phone_number);
+  }
+
+  /**
+   * Active mandates with a pull due in `noticeDays` days that the customer has not been told about yet.
+   * A notice that would fall on a Sunday or public holiday goes out on the business day before.
+   */
+  async getMandatesDueForNotice(noticeDays: number): Promise<Array<{ mandate: PaymentMandate; plan: any }>> {
+    // Look far enough ahead to cover a run of non-business days before the notice date
+    const result = await this.pool.query(
+      `SELECT pm.*, row_to_json(pp) AS plan
+       FROM payment_mandates pm
+       JOIN payment_plans pp ON pm.payment_plan_id = pp.id
+       WHERE pm.status = 'active'
+         AND pp.status IN ('active', 'overdue')
+         AND pp.remaining_installments > 0
+         AND pp.next_payment_date > CURRENT_DATE
+         AND pp.next_payment_date <= CURRENT_DATE + $1::integer + $2::integer
+         AND pm.expires_at > pp.next_payment_date
+         AND pm.last_notice_for_date IS DISTINCT FROM pp.next_payment_date`,
+      [noticeDays, NOTICE_LOOKAHEAD_DAYS]
+    );
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return result.rows
+      .filter((row) => MandateService.noticeDate(row.plan.next_payment_date, noticeDays) <= today)
+      .map((row) => ({ mandate: this.mapMandate(row), plan: row.plan }));
+  }
+
+  /**
+   * The day to tell the customer about a pull due on `dueDate` (YYYY-MM-DD)
+   */
+  static noticeDate(dueDate: string, noticeDays: number): Date {
+    const [year, month, day] = dueDate.slice(0, 10).split('-').map((part) => parseInt(part));
+    return CollectionCalendar.adjustToBusinessDay(new Date(year, month - 1, day - noticeDays), 'preceding');
+  }
+
+  async markNoticeSent(mandateId: string, dueDate: string, db: Queryable = this.pool): Promise<void> {
+    await db.query(
+      `UPDATE payment_mandates SET last_notice_for_date = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+      [mandateId, dueDate]
+    );
+  }
+
+  async markPulled(mandateId: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE payment_mandates SET last_pulled_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+      [mandateId]
+    );
+  }
+
+  /**
+   * Close mandates past their expiry
+   */
+  async expireMandates(): Promise<PaymentMandate[]> {
+    const result = await this.pool.query(
+      `UPDATE payment_mandates
+       SET status = 'expired', updated_at = CURRENT_TIMESTAMP
+       WHERE status IN ('active', 'paused') AND expires_at <= CURRENT_TIMESTAMP
+       RETURNING *`
+    );
+    return result.rows.map((row) => this.mapMandate(row));
+  }
+
+  private mapMandate(row: any): PaymentMandate {
+    return {
+      id: row.id,
+      paymentPlanId: row.payment_plan_id,
+      userId: row.user_id,
+      provider: row.provider,
+      phoneNumberLast4: row.phone_number_last4,
+      capAmount: parseFloat(row.cap_amount),
+      expiresAt: row.expires_at,
+      status: row.status,
+      consentText: row.consent_text,
+      consentedAt: row.consented_at,
+      pausedAt: row.paused_at || undefined,
+      revokedAt: row.revoked_at || undefined,
+      revokedBy: row.revoked_by || undefined,
+      revocationReason: row.revocation_reason || undefined,
+      lastNoticeForDate: row.last_notice_for_date || undefined,
+      lastPulledAt: row.last_pulled_at || undefined,
+      createdAt: row.created_at,
+    };
+  }
+}
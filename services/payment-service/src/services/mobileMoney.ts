@@ -1,7 +1,8 @@
 /**
  * Mobile Money Integration Service
  * Handles integration with mobile money providers (MTN, Airtel, etc.)
- * Note: This is a mock implementation. In production, integrate with actual provider APIs
+ * Note: This is a mock implementation. In production, integrate with actual provider APIs.
+ * The 'simulator' environment talks to the bundled provider simulator (src/simulator) over HTTP.
  */
 
 import { EncryptionService } from '@rent-to-own/encryption';
@@ -11,7 +12,8 @@ export interface MobileMoneyConfig {
   apiKey: string;
   apiSecret: string;
   callbackUrl: string;
-  environment: 'sandbox' | 'production';
+  environment: 'sandbox' | 'production' | 'simulator';
+  apiBaseUrl?: string; // Provider API root; required for the simulator
 }
 
 export interface MobileMoneyPaymentRequest {
@@ -31,6 +33,14 @@ export interface MobileMoneyPaymentResponse {
   callbackUrl?: string;
 }
 
+export interface MobileMoneyDisbursementRequest {
+  amount: number;
+  phoneNumber: string;
+  provider: 'mtn' | 'airtel' | 'africell' | 'other';
+  reference: string; // Refund ID
+  description?: string;
+}
+
 export interface MobileMoneyCallback {
   provider: string;
   transactionId: string;
@@ -41,6 +51,8 @@ export interface MobileMoneyCallback {
   reference: string;
   timestamp: string;
   signature?: string; // For verification
+  nonce?: string; // Unique per delivery, for replay protection
+  message?: string; // Failure reason on failed callbacks
   metadata?: Record<string, any>;
 }
 
@@ -66,6 +78,21 @@ export class MobileMoneyService {
         throw new Error('Invalid phone number format');
       }
 
+      if (this.config.environment === 'simulator') {
+        const data = await this.simulatorRequest('POST', '/collections', {
+          ...request,
+          callbackUrl: this.config.callbackUrl,
+        });
+        return {
+          success: true,
+          transactionId: request.reference,
+          externalTransactionId: data.transactionId,
+          status: data.status,
+          message: 'Payment request submitted successfully',
+          callbackUrl: this.config.callbackUrl,
+        };
+      }
+
       // Simulate API call delay
       await this.simulateApiDelay();
 
@@ -112,35 +139,78 @@ export class MobileMoneyService {
   }
 
   /**
-   * Process mobile money callback from provider
+   * Send money to a customer's wallet (disbursement), used for refunds
    */
-  async processCallback(callback: MobileMoneyCallback): Promise<{ valid: boolean; paymentId?: string }> {
+  async initiateDisbursement(request: MobileMoneyDisbursementRequest): Promise<MobileMoneyPaymentResponse> {
     try {
-      // In production, verify the callback signature
-      if (!this.verifyCallbackSignature(callback)) {
-        return { valid: false };
+      // In production, this would call the provider's disbursement (transfer) API
+      if (!this.isValidPhoneNumber(request.phoneNumber)) {
+        throw new Error('Invalid phone number format');
+      }
+
+      if (request.amount <= 0) {
+        throw new Error('Disbursement amount must be greater than 0');
       }
 
-      // Extract payment ID from reference
-      const paymentId = callback.reference;
+      if (this.config.environment === 'simulator') {
+        const data = await this.simulatorRequest('POST', '/disbursements', request);
+        return {
+          success: data.status === 'completed',
+          transactionId: request.reference,
+          externalTransactionId: data.transactionId,
+          status: data.status,
+          message: data.status === 'completed' ? 'Disbursement sent successfully' : `Disbursement failed: ${data.message}`,
+        };
+      }
+
+      await this.simulateApiDelay();
+
+      // Disbursements come out of our own float, so they fail far less often than collections
+      const successRate = this.config.environment === 'production' ? 0.99 : 0.95;
+      if (Math.random() < successRate) {
+        const externalTransactionId = `${request.provider.toUpperCase()}-DSB-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+        return {
+          success: true,
+          transactionId: request.reference,
+          externalTransactionId,
+          status: 'completed',
+          message: 'Disbursement sent successfully',
+        };
+      }
+
+      const failureReasons = ['Network error', 'Account not found', 'Transaction timeout', 'Recipient wallet limit reached'];
+      const reason = failureReasons[Math.floor(Math.random() * failureReasons.length)];
 
       return {
-        valid: true,
-        paymentId,
+        success: false,
+        status: 'failed',
+        message: `Disbursement failed: ${reason}`,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        status: 'failed',
+        message: error.message || 'Disbursement initiation failed',
       };
-    } catch (error) {
-      console.error('Error processing callback:', error);
-      return { valid: false };
     }
   }
 
   /**
-   * Verify callback signature (mock implementation)
+   * Process mobile money callback from provider.
+   * Signature, timestamp and replay checks are done by CallbackVerificationService first.
    */
-  private verifyCallbackSignature(callback: MobileMoneyCallback): boolean {
-    // In production, verify the signature using provider's public key
-    // For now, we assume all callbacks are valid if they have a signature
-    return !!callback.signature || this.config.environment === 'sandbox';
+  async processCallback(callback: MobileMoneyCallback): Promise<{ valid: boolean; paymentId?: string }> {
+    // Extract payment ID from reference
+    const paymentId = callback.reference;
+    if (!paymentId) {
+      return { valid: false };
+    }
+
+    return {
+      valid: true,
+      paymentId,
+    };
   }
 
   /**
@@ -153,6 +223,33 @@ export class MobileMoneyService {
     return phoneRegex.test(phoneNumber.replace(/\s/g, ''));
   }
 
+  /**
+   * Call the provider simulator's API. With allowNotFound a 404 returns null instead of throwing.
+   */
+  private async simulatorRequest(method: 'GET' | 'POST', path: string, body?: any, allowNotFound: boolean = false): Promise<any> {
+    if (!this.config.apiBaseUrl) {
+      throw new Error('apiBaseUrl is required for the simulator environment');
+    }
+
+    const response = await fetch(`${this.config.apiBaseUrl}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-API-Key': this.config.apiKey,
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    if (allowNotFound && response.status === 404) {
+      return null;
+    }
+    const data: any = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.message || `Simulator request failed with status ${response.status}`);
+    }
+    return data;
+  }
+
   /**
    * Simulate API delay
    */
@@ -167,17 +264,23 @@ export class MobileMoneyService {
    */
   async checkPaymentStatus(externalTransactionId: string): Promise<MobileMoneyPaymentResponse> {
     try {
-      // In production, query the provider's API for payment status
-      await this.simulateApiDelay();
-
-      // Simulate status check (80% chance of completed, 20% pending)
-      const isCompleted = Math.random() < 0.8;
+      if (this.config.environment === 'simulator') {
+        const data = await this.simulatorRequest('GET', `/collections/${encodeURIComponent(externalTransactionId)}`);
+        return {
+          success: true,
+          externalTransactionId,
+          status: data.status,
+          message: data.message || `Payment ${data.status}`,
+        };
+      }
 
+      // No provider status API is integrated outside the simulator. A guessed outcome would complete
+      // payments the customer never approved, so they stay pending until a verified callback arrives.
       return {
         success: true,
         externalTransactionId,
-        status: isCompleted ? 'completed' : 'pending',
-        message: isCompleted ? 'Payment completed' : 'Payment pending',
+        status: 'pending',
+        message: 'Payment pending',
       };
     } catch (error: any) {
       return {
@@ -187,5 +290,35 @@ export class MobileMoneyService {
       };
     }
   }
-}
 
+  /**
+   * Look up a disbursement by the reference it was sent with (the refund ID). A disbursement the
+   * provider never received is reported as failed.
+   */
+  async checkDisbursementStatus(reference: string): Promise<MobileMoneyPaymentResponse> {
+    try {
+      if (this.config.environment === 'simulator') {
+        const data = await this.simulatorRequest('GET', `/disbursements/${encodeURIComponent(reference)}`, undefined, true);
+        if (!data) {
+          return { success: true, status: 'failed', message: 'Disbursement was never received by the provider' };
+        }
+        return {
+          success: true,
+          transactionId: reference,
+          externalTransactionId: data.transactionId,
+          status: data.status,
+          message: data.message || `Disbursement ${data.status}`,
+        };
+      }
+
+      // No provider disbursement status API is integrated outside the simulator
+      return { success: false, status: 'pending', message: 'Disbursement status checks are not available for this provider' };
+    } catch (error: any) {
+      return {
+        success: false,
+        status: 'failed',
+        message: error.message || 'Disbursement status check failed',
+      };
+    }
+  }
+}
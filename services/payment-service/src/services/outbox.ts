@@ -0,0 +1,235 @@
+/**
+ * Transactional Outbox
+ * Domain events are written to the outbox_events table in the same transaction as the change they
+ * describe, then published to RabbitMQ by the relay. An event is never lost when RabbitMQ is down or
+ * the process stops between the database write and the publish; it may be published more than once,
+ * so each message carries the event id as its correlationId for consumers to drop duplicates.
+ */
+
+import { Pool } from 'pg';
+import { MessageQueueClient, Message } from '@rent-to-own/message-queue';
+import { Queryable } from './transaction';
+
+export type OutboxStatus = 'pending' | 'sent' | 'failed';
+
+export interface OutboxEvent {
+  id: string;
+  exchange: string;
+  routingKey: string;
+  message: Message;
+  status: OutboxStatus;
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt: Date;
+  sentAt?: Date;
+  createdAt: Date;
+}
+
+export interface OutboxConfig {
+  maxAttempts: number; // Publish attempts before an event is marked failed and left for an admin
+  batchSize: number;
+  leaseSeconds: number; // How long a claimed event is held before another relay may take it
+}
+
+export class OutboxService {
+  private pool: Pool;
+  private messageQueue: MessageQueueClient;
+  private config: OutboxConfig;
+
+  constructor(pool: Pool, messageQueue: MessageQueueClient, config: Partial<OutboxConfig> = {}) {
+    this.pool = pool;
+    this.messageQueue = messageQueue;
+    this.config = {
+      maxAttempts: parseInt(process.env.OUTBOX_MAX_ATTEMPTS || '10'),
+      batchSize: 100,
+      leaseSeconds: 300,
+      ...config,
+    };
+  }
+
+  /**
+   * Record an event to publish. Pass the transaction's client so the event commits with the change.
+   */
+  static async enqueue(db: Queryable, exchange: string, routingKey: string, message: Message): Promise<string> {
+    const result = await db.query(
+      `INSERT INTO outbox_events (exchange, routing_key, message)
+       VALUES ($1, $2, $3)
+       RETURNING id`,
+      [exchange, routingKey, JSON.stringify(message)]
+    );
+    return result.rows[0].id;
+  }
+
+  /**
+   * Minutes to wait before the next publish attempt: 1, 2, 4 ... capped at an hour
+   */
+  static backoffMinutes(attempts: number): number {
+    return Math.min(Math.pow(2, Math.max(0, attempts - 1)), 60);
+  }
+
+  /**
+   * Publish pending events that are due, oldest first. With `eventIds`, only those events are tried,
+   * so callers can publish straight after their transaction commits and leave failures to the relay.
+   * Returns the number published.
+   */
+  async relay(eventIds?: string[]): Promise<number> {
+    const events = await this.claim(eventIds);
+    let published = 0;
+
+    for (const event of events) {
+      try {
+        await this.messageQueue.publish(event.exchange, event.routingKey, {
+          ...event.message,
+          correlationId: event.id,
+        });
+        await this.pool.query(
+          `UPDATE outbox_events
+           SET status = 'sent', sent_at = CURRENT_TIMESTAMP, last_error = NULL, updated_at = CURRENT_TIMESTAMP
+           WHERE id = $1`,
+          [event.id]
+        );
+        published++;
+      } catch (publishError: any) {
+        const failed = event.attempts >= this.config.maxAttempts;
+        await this.pool.query(
+          `UPDATE outbox_events
+           SET status = $1,
+               last_error = $2,
+               next_attempt_at = CURRENT_TIMESTAMP + make_interval(mins => $3),
+               updated_at = CURRENT_TIMESTAMP
+           WHERE id = $4`,
+          [failed ? 'failed' : 'pending', publishError.message, OutboxService.backoffMinutes(event.attempts), event.id]
+        );
+        if (failed) {
+          console.error(`Outbox event ${event.id} (${event.routingKey}) failed after ${event.attempts} attempts`);
+        }
+      }
+    }
+
+    return published;
+  }
+
+  /**
+   * Publish events right after the transaction that wrote them has committed.
+   * Never throws - anything not published here is picked up by the relay.
+   */
+  async publishNow(eventIds: string[]): Promise<void> {
+    if (eventIds.length === 0) {
+      return;
+    }
+    try {
+      await this.relay(eventIds);
+    } catch (relayError) {
+      console.error('Failed to publish outbox events, leaving them for the relay:', relayError);
+    }
+  }
+
+  /**
+   * Events that failed for good, or are still pending well after they were written
+   */
+  async listStuck(olderThanMinutes: number, limit: number = 100): Promise<OutboxEvent[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM outbox_events
+       WHERE status = 'failed'
+          OR (status = 'pending' AND created_at < CURRENT_TIMESTAMP - make_interval(mins => $1))
+       ORDER BY created_at
+       LIMIT $2`,
+      [olderThanMinutes, limit]
+    );
+    return result.rows.map((row) => this.mapEvent(row));
+  }
+
+  /**
+   * Event counts by status, with the age of the oldest unsent event
+   */
+  async getSummary(): Promise<{ counts: Record<OutboxStatus, number>; oldestPendingAt?: Date }> {
+    const result = await this.pool.query(
+      `SELECT status, COUNT(*)::integer AS count, MIN(created_at) AS oldest
+       FROM outbox_events
+       GROUP BY status`
+    );
+
+    const counts: Record<OutboxStatus, number> = { pending: 0, sent: 0, failed: 0 };
+    let oldestPendingAt: Date | undefined;
+    for (const row of result.rows) {
+      counts[row.status as OutboxStatus] = row.count;
+      if (row.status === 'pending') {
+        oldestPendingAt = row.oldest;
+      }
+    }
+    return { counts, oldestPendingAt };
+  }
+
+  async getEvent(eventId: string): Promise<OutboxEvent | null> {
+    const result = await this.pool.query('SELECT * FROM outbox_events WHERE id = $1', [eventId]);
+    return result.rows.length > 0 ? this.mapEvent(result.rows[0]) : null;
+  }
+
+  /**
+   * Put a failed event back in the queue with a fresh set of attempts
+   */
+  async retryEvent(eventId: string): Promise<OutboxEvent | null> {
+    const result = await this.pool.query(
+      `UPDATE outbox_events
+       SET status = 'pending', attempts = 0, next_attempt_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status = 'failed'
+       RETURNING *`,
+      [eventId]
+    );
+    return result.rows.length > 0 ? this.mapEvent(result.rows[0]) : null;
+  }
+
+  /**
+   * Delete events sent more than `retentionDays` ago
+   */
+  async purgeSent(retentionDays: number): Promise<number> {
+    const result = await this.pool.query(
+      `DELETE FROM outbox_events
+       WHERE status = 'sent' AND sent_at < CURRENT_TIMESTAMP - make_interval(days => $1)`,
+      [retentionDays]
+    );
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Take a lease on due events so a second relay (or instance) does not publish them at the same time.
+   * A relay that stops mid-publish leaves the lease to expire and the event is tried again.
+   */
+  private async claim(eventIds?: string[]): Promise<OutboxEvent[]> {
+    const result = await this.pool.query(
+      `UPDATE outbox_events
+       SET attempts = attempts + 1,
+           next_attempt_at = CURRENT_TIMESTAMP + make_interval(secs => $1),
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id IN (
+         SELECT id FROM outbox_events
+         WHERE status = 'pending'
+           AND next_attempt_at <= CURRENT_TIMESTAMP
+           AND ($2::uuid[] IS NULL OR id = ANY($2::uuid[]))
+         ORDER BY created_at
+         LIMIT $3
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [this.config.leaseSeconds, eventIds || null, this.config.batchSize]
+    );
+    return result.rows
+      .map((row) => this.mapEvent(row))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  private mapEvent(row: any): OutboxEvent {
+    return {
+      id: row.id,
+      exchange: row.exchange,
+      routingKey: row.routing_key,
+      message: row.message,
+      status: row.status,
+      attempts: row.attempts,
+      lastError: row.last_error || undefined,
+      nextAttemptAt: row.next_attempt_at,
+      sentAt: row.sent_at || undefined,
+      createdAt: row.created_at,
+    };
+  }
+}
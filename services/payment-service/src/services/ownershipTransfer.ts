@@ -0,0 +1,375 @@
+/**
+ * Ownership Transfer Service
+ * When a plan is paid off the vehicle becomes the customer's. The transfer is tracked as a
+ * checklist: vehicle-service marks the vehicle sold, telematics releases geofences and
+ * immobilization and schedules device removal, and once the vehicle is confirmed sold a
+ * transfer letter is issued for the logbook and the customer is notified.
+ */
+
+import { Pool } from 'pg';
+import { MessageQueueClient } from '@rent-to-own/message-queue';
+import { PdfDocument } from './pdfDocument';
+import { documentIssuerName } from './statements';
+
+export const OWNERSHIP_TRANSFER_STEPS = [
+  'vehicle_marked_sold',
+  'telematics_released',
+  'device_removal_scheduled',
+  'transfer_letter_generated',
+  'customer_notified',
+] as const;
+
+export type OwnershipTransferStep = (typeof OWNERSHIP_TRANSFER_STEPS)[number];
+
+export type OwnershipTransferStatus = 'in_progress' | 'completed';
+
+export interface TransferChecklistItem {
+  step: OwnershipTransferStep;
+  status: 'pending' | 'completed';
+  details?: any;
+  notes?: string;
+  completedBy?: string; // Set when an admin completed the step by hand
+  completedAt?: Date;
+}
+
+export interface VehicleDetails {
+  make?: string;
+  model?: string;
+  year?: number;
+  vin?: string;
+  registrationNumber?: string;
+  color?: string;
+}
+
+export interface OwnershipTransfer {
+  id: string;
+  paymentPlanId: string;
+  userId: string;
+  vehicleId: string;
+  status: OwnershipTransferStatus;
+  letterNumber?: string;
+  letterIssuedAt?: Date;
+  vehicleDetails?: VehicleDetails;
+  startedAt: Date;
+  completedAt?: Date;
+  checklist: TransferChecklistItem[];
+}
+
+export class OwnershipTransferService {
+  private pool: Pool;
+  private messageQueue: MessageQueueClient;
+
+  constructor(pool: Pool, messageQueue: MessageQueueClient) {
+    this.pool = pool;
+    this.messageQueue = messageQueue;
+  }
+
+  /**
+   * Open the transfer for a completed plan and ask the other services to release the vehicle.
+   * Returns null if the plan is not completed or its transfer has already started.
+   */
+  async startTransfer(planId: string): Promise<OwnershipTransfer | null> {
+    const planResult = await this.pool.query(
+      `SELECT * FROM payment_plans WHERE id = $1 AND status = 'completed'`,
+      [planId]
+    );
+    if (planResult.rows.length === 0) {
+      return null;
+    }
+    const plan = planResult.rows[0];
+
+    const result = await this.pool.query(
+      `INSERT INTO ownership_transfers (payment_plan_id, user_id, vehicle_id, status)
+       VALUES ($1, $2, $3, 'in_progress')
+       ON CONFLICT (payment_plan_id) DO NOTHING
+       RETURNING id`,
+      [plan.id, plan.user_id, plan.vehicle_id]
+    );
+    if (result.rows.length === 0) {
+      return null;
+    }
+    const transferId = result.rows[0].id;
+
+    for (const step of OWNERSHIP_TRANSFER_STEPS) {
+      await this.pool.query(
+        `INSERT INTO ownership_transfer_steps (transfer_id, step) VALUES ($1, $2)
+         ON CONFLICT (transfer_id, step) DO NOTHING`,
+        [transferId, step]
+      );
+    }
+
+    const transfer = (await this.getTransfer(transferId))!;
+    await this.requestRelease(transfer);
+    return transfer;
+  }
+
+  /**
+   * Start transfers for completed plans that do not have one yet, however they were completed
+   */
+  async startPendingTransfers(): Promise<number> {
+    const result = await this.pool.query(
+      `SELECT pp.id FROM payment_plans pp
+       LEFT JOIN ownership_transfers ot ON ot.payment_plan_id = pp.id
+       WHERE pp.status = 'completed' AND ot.id IS NULL`
+    );
+
+    let started = 0;
+    for (const row of result.rows) {
+      if (await this.startTransfer(row.id)) {
+        started++;
+      }
+    }
+    return started;
+  }
+
+  /**
+   * Ask vehicle-service and telematics to release the vehicle. Both handle repeats, so this
+   * is also how a stalled transfer is retried.
+   */
+  async requestRelease(transfer: OwnershipTransfer): Promise<void> {
+    await this.messageQueue.publish('payment.events', 'payment.plan.completed', {
+      type: 'payment.plan.completed',
+      payload: {
+        transferId: transfer.id,
+        planId: transfer.paymentPlanId,
+        userId: transfer.userId,
+        vehicleId: transfer.vehicleId,
+      },
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * vehicle-service has marked the vehicle sold
+   */
+  async recordVehicleSold(transferId: string, vehicleDetails: VehicleDetails): Promise<OwnershipTransfer | null> {
+    await this.pool.query(
+      `UPDATE ownership_transfers SET vehicle_details = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2`,
+      [JSON.stringify(vehicleDetails), transferId]
+    );
+    await this.completeStep(transferId, 'vehicle_marked_sold', { vehicle: vehicleDetails });
+    return this.advance(transferId);
+  }
+
+  /**
+   * Telematics has released the vehicle and booked the device for removal
+   */
+  async recordTelematicsReleased(
+    transferId: string,
+    release: { zonesDeactivated: number; immobilizationReleased: boolean; deviceRemovalScheduledFor: string }
+  ): Promise<OwnershipTransfer | null> {
+    await this.completeStep(transferId, 'telematics_released', {
+      zonesDeactivated: release.zonesDeactivated,
+      immobilizationReleased: release.immobilizationReleased,
+    });
+    await this.completeStep(transferId, 'device_removal_scheduled', {
+      scheduledFor: release.deviceRemovalScheduledFor,
+    });
+    return this.advance(transferId);
+  }
+
+  /**
+   * Tick off a step by hand, e.g. when the vehicle was marked sold outside the platform
+   */
+  async completeStepManually(
+    transferId: string,
+    step: OwnershipTransferStep,
+    completedBy: string,
+    notes?: string
+  ): Promise<OwnershipTransfer | null> {
+    const completed = await this.completeStep(transferId, step, undefined, completedBy, notes);
+    if (!completed) {
+      throw new Error(`Step ${step} is already complete`);
+    }
+    return this.advance(transferId);
+  }
+
+  async getTransfer(transferId: string): Promise<OwnershipTransfer | null> {
+    const result = await this.pool.query('SELECT * FROM ownership_transfers WHERE id = $1', [transferId]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+    return this.mapTransfer(result.rows[0], await this.getChecklist(transferId));
+  }
+
+  async getTransferForPlan(planId: string): Promise<OwnershipTransfer | null> {
+    const result = await this.pool.query('SELECT id FROM ownership_transfers WHERE payment_plan_id = $1', [planId]);
+    return result.rows.length > 0 ? this.getTransfer(result.rows[0].id) : null;
+  }
+
+  /**
+   * Transfers with their checklists, oldest first so stalled ones surface at the top
+   */
+  async listTransfers(status?: OwnershipTransferStatus, limit: number = 50): Promise<OwnershipTransfer[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM ownership_transfers
+       WHERE ($1::varchar IS NULL OR status = $1)
+       ORDER BY started_at ASC
+       LIMIT $2`,
+      [status || null, limit]
+    );
+
+    const transfers: OwnershipTransfer[] = [];
+    for (const row of result.rows) {
+      transfers.push(this.mapTransfer(row, await this.getChecklist(row.id)));
+    }
+    return transfers;
+  }
+
+  static renderTransferLetterPdf(transfer: OwnershipTransfer): Buffer {
+    const pdf = new PdfDocument();
+    const vehicle = transfer.vehicleDetails || {};
+    const description = [vehicle.year, vehicle.make, vehicle.model].filter(Boolean).join(' ') || transfer.vehicleId;
+
+    pdf.text(documentIssuerName(), { size: 16, bold: true });
+    pdf.text('Letter of Ownership Transfer', { size: 12 });
+    pdf.rule();
+    pdf.text(`Reference: ${transfer.letterNumber}`);
+    pdf.text(`Date: ${new Date(transfer.letterIssuedAt || new Date()).toISOString().slice(0, 10)}`);
+    pdf.moveDown();
+    pdf.text('To the Registrar of Motor Vehicles,');
+    pdf.moveDown();
+    pdf.text('We confirm that the customer named on payment plan');
+    pdf.text(`${transfer.paymentPlanId} (customer ID ${transfer.userId})`);
+    pdf.text('has paid for the vehicle below in full. We release all interest in the vehicle and');
+    pdf.text('consent to the logbook being transferred into the customer\'s name.');
+    pdf.moveDown();
+    pdf.text('Vehicle', { bold: true });
+    pdf.text(`Description: ${description}`);
+    if (vehicle.registrationNumber) {
+      pdf.text(`Registration number: ${vehicle.registrationNumber}`);
+    }
+    if (vehicle.vin) {
+      pdf.text(`Chassis / VIN: ${vehicle.vin}`);
+    }
+    if (vehicle.color) {
+      pdf.text(`Colour: ${vehicle.color}`);
+    }
+    pdf.moveDown(30);
+    pdf.text('______________________________');
+    pdf.text('Authorised signatory');
+    return pdf.toBuffer();
+  }
+
+  /**
+   * Issue the letter once the vehicle is confirmed sold, then close the transfer when every step is done
+   */
+  private async advance(transferId: string): Promise<OwnershipTransfer | null> {
+    let transfer = await this.getTransfer(transferId);
+    if (!transfer) {
+      return null;
+    }
+    const isDone = (step: OwnershipTransferStep) =>
+      transfer!.checklist.find((item) => item.step === step)?.status === 'completed';
+
+    if (isDone('vehicle_marked_sold') && !transfer.letterNumber) {
+      // Guarded so only one caller issues the letter and notifies the customer
+      const letterResult = await this.pool.query(
+        `UPDATE ownership_transfers
+         SET letter_number = 'TL-' || to_char(CURRENT_DATE, 'YYYY') || '-' || lpad(nextval('ownership_transfer_letter_seq')::text, 6, '0'),
+             letter_issued_at = CURRENT_TIMESTAMP,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND letter_number IS NULL
+         RETURNING letter_number`,
+        [transferId]
+      );
+      if (letterResult.rows.length > 0) {
+        const letterNumber = letterResult.rows[0].letter_number;
+        await this.completeStep(transferId, 'transfer_letter_generated', { letterNumber });
+
+        await this.messageQueue.publish('payment.events', 'payment.ownership.letter_issued', {
+          type: 'payment.ownership.letter_issued',
+          payload: {
+            transferId,
+            planId: transfer.paymentPlanId,
+            userId: transfer.userId,
+            vehicleId: transfer.vehicleId,
+            letterNumber,
+            vehicle: transfer.vehicleDetails,
+          },
+          timestamp: Date.now(),
+        });
+        await this.completeStep(transferId, 'customer_notified', { letterNumber });
+      }
+      transfer = (await this.getTransfer(transferId))!;
+    }
+
+    const allDone = transfer.checklist.every((item) => item.status === 'completed');
+    if (allDone && transfer.status === 'in_progress') {
+      const completeResult = await this.pool.query(
+        `UPDATE ownership_transfers
+         SET status = 'completed', completed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND status = 'in_progress'
+         RETURNING id`,
+        [transferId]
+      );
+      if (completeResult.rows.length > 0) {
+        await this.messageQueue.publish('payment.events', 'payment.ownership.transferred', {
+          type: 'payment.ownership.transferred',
+          payload: {
+            transferId,
+            planId: transfer.paymentPlanId,
+            userId: transfer.userId,
+            vehicleId: transfer.vehicleId,
+            letterNumber: transfer.letterNumber,
+          },
+          timestamp: Date.now(),
+        });
+      }
+      transfer = (await this.getTransfer(transferId))!;
+    }
+
+    return transfer;
+  }
+
+  /**
+   * Returns false when the step was already complete
+   */
+  private async completeStep(
+    transferId: string,
+    step: OwnershipTransferStep,
+    details?: any,
+    completedBy?: string,
+    notes?: string
+  ): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE ownership_transfer_steps
+       SET status = 'completed', details = $1, completed_by = $2, notes = $3,
+           completed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       WHERE transfer_id = $4 AND step = $5 AND status = 'pending'
+       RETURNING id`,
+      [details ? JSON.stringify(details) : null, completedBy || null, notes || null, transferId, step]
+    );
+    return result.rows.length > 0;
+  }
+
+  private async getChecklist(transferId: string): Promise<TransferChecklistItem[]> {
+    const result = await this.pool.query('SELECT * FROM ownership_transfer_steps WHERE transfer_id = $1', [transferId]);
+    return result.rows
+      .map((row): TransferChecklistItem => ({
+        step: row.step,
+        status: row.status,
+        details: row.details || undefined,
+        notes: row.notes || undefined,
+        completedBy: row.completed_by || undefined,
+        completedAt: row.completed_at || undefined,
+      }))
+      .sort((a, b) => OWNERSHIP_TRANSFER_STEPS.indexOf(a.step) - OWNERSHIP_TRANSFER_STEPS.indexOf(b.step));
+  }
+
+  private mapTransfer(row: any, checklist: TransferChecklistItem[]): OwnershipTransfer {
+    return {
+      id: row.id,
+      paymentPlanId: row.payment_plan_id,
+      userId: row.user_id,
+      vehicleId: row.vehicle_id,
+      status: row.status,
+      letterNumber: row.letter_number || undefined,
+      letterIssuedAt: row.letter_issued_at || undefined,
+      vehicleDetails: row.vehicle_details || undefined,
+      startedAt: row.started_at,
+      completedAt: row.completed_at || undefined,
+      checklist,
+    };
+  }
+}
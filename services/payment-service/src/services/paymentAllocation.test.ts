@@ -0,0 +1,192 @@
+import { PaymentAllocationService } from './paymentAllocation';
+import { Installment } from './installments';
+import { PenaltyCharge } from './penalties';
+import { AddonCharge } from './planAddons';
+
+const asOf = new Date('2024-03-15');
+
+function installment(id: string, dueDate: string, amountDue: number, amountPaid = 0): Installment {
+  return {
+    id,
+    paymentPlanId: 'plan-1',
+    installmentNumber: parseInt(id.replace(/\D/g, '')),
+    dueDate: new Date(dueDate),
+    amountDue,
+    principalDue: amountDue,
+    interestDue: 0,
+    addonDue: 0,
+    addonPaid: 0,
+    amountPaid,
+    status: amountPaid > 0 ? 'partially_paid' : 'pending',
+  };
+}
+
+function penalty(id: string, amount: number, amountPaid = 0): PenaltyCharge {
+  return {
+    id,
+    paymentPlanId: 'plan-1',
+    installmentId: 'inst-1',
+    penaltyRuleId: 'rule-1',
+    chargeDate: new Date('2024-03-10'),
+    amount,
+    amountPaid,
+    status: 'outstanding',
+    createdAt: new Date('2024-03-10'),
+  };
+}
+
+function addonCharge(id: string, installmentId: string, amount: number, amountPaid = 0, cancelledAmount = 0): AddonCharge {
+  return {
+    id,
+    planAddonId: 'addon-1',
+    paymentPlanId: 'plan-1',
+    installmentId,
+    chargeDate: new Date('2024-03-01'),
+    amount,
+    amountPaid,
+    cancelledAmount,
+    status: 'pending',
+    createdAt: new Date('2024-03-01'),
+  };
+}
+
+describe('PaymentAllocationService', () => {
+  describe('planAllocations', () => {
+    const schedule = [
+      installment('inst-1', '2024-03-01', 100),
+      installment('inst-2', '2024-04-01', 100),
+      installment('inst-3', '2024-05-01', 100),
+    ];
+
+    it('should leave a partial payment against the oldest open installment', () => {
+      expect(PaymentAllocationService.planAllocations(60, schedule, 'prepay', asOf)).toEqual([
+        { installmentId: 'inst-1', allocationType: 'installment', amount: 60 },
+      ]);
+    });
+
+    it('should only allocate what is still owed on a partially paid installment', () => {
+      const partlyPaid = [installment('inst-1', '2024-03-01', 100, 70), ...schedule.slice(1)];
+
+      expect(PaymentAllocationService.planAllocations(50, partlyPaid, 'prepay', asOf)).toEqual([
+        { installmentId: 'inst-1', allocationType: 'installment', amount: 30 },
+        { installmentId: 'inst-2', allocationType: 'installment', amount: 20 },
+      ]);
+    });
+
+    it('should prepay future installments with an overpayment under the prepay strategy', () => {
+      expect(PaymentAllocationService.planAllocations(350, schedule, 'prepay', asOf)).toEqual([
+        { installmentId: 'inst-1', allocationType: 'installment', amount: 100 },
+        { installmentId: 'inst-2', allocationType: 'installment', amount: 100 },
+        { installmentId: 'inst-3', allocationType: 'installment', amount: 100 },
+        { allocationType: 'credit', amount: 50 },
+      ]);
+    });
+
+    it('should hold an overpayment as plan credit under the credit strategy', () => {
+      expect(PaymentAllocationService.planAllocations(150, schedule, 'credit', asOf)).toEqual([
+        { installmentId: 'inst-1', allocationType: 'installment', amount: 100 },
+        { allocationType: 'credit', amount: 50 },
+      ]);
+    });
+
+    it('should treat the oldest open installment as due even before its due date', () => {
+      const future = [installment('inst-2', '2024-04-01', 100), installment('inst-3', '2024-05-01', 100)];
+
+      expect(PaymentAllocationService.planAllocations(150, future, 'credit', asOf)).toEqual([
+        { installmentId: 'inst-2', allocationType: 'installment', amount: 100 },
+        { allocationType: 'credit', amount: 50 },
+      ]);
+    });
+
+    it('should pay penalties after due installments and before future ones', () => {
+      const overdue = [
+        installment('inst-1', '2024-02-01', 100),
+        installment('inst-2', '2024-03-01', 100),
+        installment('inst-3', '2024-04-01', 100),
+      ];
+
+      expect(
+        PaymentAllocationService.planAllocations(260, overdue, 'prepay', asOf, [penalty('pen-1', 25, 5), penalty('pen-2', 30)])
+      ).toEqual([
+        { installmentId: 'inst-1', allocationType: 'installment', amount: 100 },
+        { installmentId: 'inst-2', allocationType: 'installment', amount: 100 },
+        { penaltyChargeId: 'pen-1', allocationType: 'penalty', amount: 20 },
+        { penaltyChargeId: 'pen-2', allocationType: 'penalty', amount: 30 },
+        { installmentId: 'inst-3', allocationType: 'installment', amount: 10 },
+      ]);
+    });
+
+    it('should account for odd amounts to the cent', () => {
+      const thirds = [
+        installment('inst-1', '2024-03-01', 33.33),
+        installment('inst-2', '2024-04-01', 33.33),
+        installment('inst-3', '2024-05-01', 33.34),
+      ];
+
+      const allocations = PaymentAllocationService.planAllocations(100.01, thirds, 'prepay', asOf);
+
+      expect(allocations.map((allocation) => allocation.amount)).toEqual([33.33, 33.33, 33.34, 0.01]);
+      expect(allocations[3].allocationType).toBe('credit');
+    });
+
+    it('should return nothing for a zero amount', () => {
+      expect(PaymentAllocationService.planAllocations(0, schedule, 'prepay', asOf)).toEqual([]);
+    });
+  });
+
+  describe('splitAddonCharges', () => {
+    it('should pay the add-on charges on an installment before the loan repayment', () => {
+      const split = PaymentAllocationService.splitAddonCharges(
+        [{ installmentId: 'inst-1', allocationType: 'installment', amount: 100 }],
+        [addonCharge('charge-1', 'inst-1', 15), addonCharge('charge-2', 'inst-1', 10)]
+      );
+
+      expect(split).toEqual([
+        { installmentId: 'inst-1', addonChargeId: 'charge-1', allocationType: 'installment', amount: 15 },
+        { installmentId: 'inst-1', addonChargeId: 'charge-2', allocationType: 'installment', amount: 10 },
+        { installmentId: 'inst-1', allocationType: 'installment', amount: 75 },
+      ]);
+    });
+
+    it('should leave nothing for the loan when a partial payment only covers the add-ons', () => {
+      const split = PaymentAllocationService.splitAddonCharges(
+        [{ installmentId: 'inst-1', allocationType: 'installment', amount: 12 }],
+        [addonCharge('charge-1', 'inst-1', 15)]
+      );
+
+      expect(split).toEqual([{ installmentId: 'inst-1', addonChargeId: 'charge-1', allocationType: 'installment', amount: 12 }]);
+    });
+
+    it('should only charge what is still owed after earlier payments and cancellations', () => {
+      const split = PaymentAllocationService.splitAddonCharges(
+        [{ installmentId: 'inst-1', allocationType: 'installment', amount: 50 }],
+        [addonCharge('charge-1', 'inst-1', 20, 5, 10)]
+      );
+
+      expect(split).toEqual([
+        { installmentId: 'inst-1', addonChargeId: 'charge-1', allocationType: 'installment', amount: 5 },
+        { installmentId: 'inst-1', allocationType: 'installment', amount: 45 },
+      ]);
+    });
+
+    it('should keep charges on other installments and non-installment allocations apart', () => {
+      const split = PaymentAllocationService.splitAddonCharges(
+        [
+          { installmentId: 'inst-1', allocationType: 'installment', amount: 100 },
+          { penaltyChargeId: 'pen-1', allocationType: 'penalty', amount: 20 },
+          { installmentId: 'inst-2', allocationType: 'installment', amount: 30 },
+          { allocationType: 'credit', amount: 5 },
+        ],
+        [addonCharge('charge-2', 'inst-2', 10)]
+      );
+
+      expect(split).toEqual([
+        { installmentId: 'inst-1', allocationType: 'installment', amount: 100 },
+        { penaltyChargeId: 'pen-1', allocationType: 'penalty', amount: 20 },
+        { installmentId: 'inst-2', addonChargeId: 'charge-2', allocationType: 'installment', amount: 10 },
+        { installmentId: 'inst-2', allocationType: 'installment', amount: 20 },
+        { allocationType: 'credit', amount: 5 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,401 @@
+/**
+ * Payment Allocation Service
+ * Splits each payment across open installments so odd amounts are accounted for exactly.
+ * Partial payments sit against the oldest open installment; overpayments either prepay
+ * future installments or roll forward as plan credit. Outstanding penalties are paid once
+ * every installment that has fallen due is cleared. Within an installment, add-on charges
+ * (insurance, tracker, service package) are paid before the loan repayment and recorded
+ * against their own charge.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { InstallmentService, Installment, PlanProgress } from './installments';
+import { PaymentScheduleService } from './paymentSchedule';
+import { PenaltyService, PenaltyCharge } from './penalties';
+import { PlanAddonService, AddonCharge } from './planAddons';
+import { inTransaction, Queryable } from './transaction';
+
+export type OverpaymentStrategy = 'prepay' | 'credit';
+
+export interface PaymentAllocation {
+  installmentId?: string;
+  penaltyChargeId?: string;
+  addonChargeId?: string; // Set on the part of an installment allocation that paid an add-on charge
+  allocationType: 'installment' | 'penalty' | 'credit' | 'credit_applied';
+  amount: number;
+}
+
+export interface AllocationResult {
+  allocations: PaymentAllocation[];
+  creditAdded: number;
+  progress: PlanProgress;
+}
+
+export interface PlanBalance {
+  scheduledAmount: number;
+  amountPaid: number;
+  outstandingBalance: number;
+  creditBalance: number;
+  overdueAmount: number;
+  penaltyBalance: number; // Outstanding late fees, owed on top of the installments
+  unearnedInterest: number; // Interest on installments not yet due, rebated on early settlement
+  addonBalance: number; // Unpaid add-on charges, included in the outstanding balance
+  unearnedAddons: number; // Add-on charges on installments not yet due, dropped on early settlement
+}
+
+export class PaymentAllocationService {
+  private pool: Pool;
+  private installmentService: InstallmentService;
+  private penaltyService: PenaltyService;
+  private addonService: PlanAddonService;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+    this.installmentService = new InstallmentService(pool);
+    this.penaltyService = new PenaltyService(pool);
+    this.addonService = new PlanAddonService(pool);
+  }
+
+  /**
+   * Work out how an amount should be spread over a plan's open installments.
+   * Pure calculation - nothing is written.
+   */
+  static planAllocations(
+    amount: number,
+    openInstallments: Installment[],
+    strategy: OverpaymentStrategy,
+    asOf: Date = new Date(),
+    outstandingPenalties: PenaltyCharge[] = []
+  ): PaymentAllocation[] {
+    const allocations: PaymentAllocation[] = [];
+    let remaining = Math.round(amount * 100) / 100;
+
+    const allocate = (owing: number, allocation: Omit<PaymentAllocation, 'amount'>) => {
+      owing = Math.round(owing * 100) / 100;
+      if (remaining <= 0 || owing <= 0) {
+        return;
+      }
+      const applied = Math.min(owing, remaining);
+      allocations.push({ ...allocation, amount: applied });
+      remaining = Math.round((remaining - applied) * 100) / 100;
+    };
+
+    // The oldest installment and anything already due come first
+    const isDue = (installment: Installment, index: number) => index === 0 || new Date(installment.dueDate) <= asOf;
+    const dueInstallments = openInstallments.filter(isDue);
+    const futureInstallments = openInstallments.filter((installment, index) => !isDue(installment, index));
+
+    for (const installment of dueInstallments) {
+      allocate(installment.amountDue - installment.amountPaid, { installmentId: installment.id, allocationType: 'installment' });
+    }
+
+    for (const penalty of outstandingPenalties) {
+      allocate(penalty.amount - penalty.amountPaid, { penaltyChargeId: penalty.id, allocationType: 'penalty' });
+    }
+
+    // With the credit strategy future installments are left alone
+    if (strategy === 'prepay') {
+      for (const installment of futureInstallments) {
+        allocate(installment.amountDue - installment.amountPaid, { installmentId: installment.id, allocationType: 'installment' });
+      }
+    }
+
+    if (remaining > 0) {
+      allocations.push({ allocationType: 'credit', amount: remaining });
+    }
+
+    return allocations;
+  }
+
+  /**
+   * Split installment allocations into the add-on charges on each installment, paid first, and the
+   * loan repayment. Pure calculation - nothing is written.
+   */
+  static splitAddonCharges(allocations: PaymentAllocation[], openCharges: AddonCharge[]): PaymentAllocation[] {
+    const owing = new Map(
+      openCharges.map((charge) => [charge.id, Math.round((charge.amount - charge.amountPaid - charge.cancelledAmount) * 100) / 100])
+    );
+
+    const split: PaymentAllocation[] = [];
+    for (const allocation of allocations) {
+      if (!allocation.installmentId || allocation.addonChargeId) {
+        split.push(allocation);
+        continue;
+      }
+
+      let remaining = allocation.amount;
+      for (const charge of openCharges.filter((c) => c.installmentId === allocation.installmentId)) {
+        const applied = Math.min(owing.get(charge.id)!, remaining);
+        if (applied <= 0) {
+          continue;
+        }
+        split.push({ ...allocation, addonChargeId: charge.id, amount: applied });
+        owing.set(charge.id, Math.round((owing.get(charge.id)! - applied) * 100) / 100);
+        remaining = Math.round((remaining - applied) * 100) / 100;
+      }
+      if (remaining > 0) {
+        split.push({ ...allocation, amount: remaining });
+      }
+    }
+    return split;
+  }
+
+  /**
+   * Allocate a completed payment to the plan and record every allocation. The plan row is locked
+   * first, so payments confirmed at the same time for one plan are applied one after the other.
+   * Pass the client to apply the payment inside the caller's transaction.
+   */
+  async allocatePayment(plan: any, payment: any, client?: PoolClient): Promise<AllocationResult> {
+    return inTransaction(this.pool, client, async (db) => {
+      const lockedPlan = await this.lockPlan(db, plan.id);
+      const openInstallments = await this.getOpenInstallments(lockedPlan.id, db);
+
+      if (openInstallments.length === 0 && !(await this.hasSchedule(lockedPlan.id, db))) {
+        // Plans created before installment schedules existed only track a counter
+        const progress = await this.installmentService.advanceLegacyPlan(lockedPlan, db);
+        return { allocations: [], creditAdded: 0, progress };
+      }
+
+      const outstandingPenalties = await this.penaltyService.getOutstandingCharges(lockedPlan.id, db);
+      const allocations = PaymentAllocationService.splitAddonCharges(
+        PaymentAllocationService.planAllocations(
+          parseFloat(payment.amount),
+          openInstallments,
+          lockedPlan.overpayment_strategy || 'prepay',
+          new Date(),
+          outstandingPenalties
+        ),
+        await this.addonService.getOpenCharges(lockedPlan.id, db)
+      );
+
+      await this.recordAllocations(db, lockedPlan.id, payment.id, allocations);
+
+      const firstInstallment = allocations.find((a) => a.installmentId);
+      if (firstInstallment) {
+        await db.query(
+          `UPDATE payments SET installment_id = $1 WHERE id = $2`,
+          [firstInstallment.installmentId, payment.id]
+        );
+      }
+
+      const creditAdded = allocations
+        .filter((a) => a.allocationType === 'credit')
+        .reduce((sum, a) => sum + a.amount, 0);
+
+      const progress = await this.installmentService.syncPlan(lockedPlan.id, db);
+      return { allocations, creditAdded, progress };
+    });
+  }
+
+  /**
+   * Use a plan's credit balance to pay installments that have fallen due
+   */
+  async applyCredit(planId: string, client?: PoolClient): Promise<number> {
+    return inTransaction(this.pool, client, async (db) => {
+      const creditBalance = parseFloat((await this.lockPlan(db, planId)).credit_balance || '0');
+      if (creditBalance <= 0) {
+        return 0;
+      }
+
+      const dueInstallments = (await this.getOpenInstallments(planId, db)).filter(
+        (installment) => new Date(installment.dueDate) <= new Date()
+      );
+      const allocations = PaymentAllocationService.splitAddonCharges(
+        PaymentAllocationService.planAllocations(creditBalance, dueInstallments, 'prepay')
+          .filter((a) => a.allocationType === 'installment')
+          .map((a) => ({ ...a, allocationType: 'credit_applied' as const })),
+        await this.addonService.getOpenCharges(planId, db)
+      );
+
+      if (allocations.length === 0) {
+        return 0;
+      }
+
+      await this.recordAllocations(db, planId, null, allocations);
+      await this.installmentService.syncPlan(planId, db);
+
+      return allocations.reduce((sum, a) => sum + a.amount, 0);
+    });
+  }
+
+  /**
+   * Exact balance for a plan, derived from the installment schedule and allocations
+   */
+  async getPlanBalance(plan: any): Promise<PlanBalance> {
+    const result = await this.pool.query(
+      `SELECT
+         COUNT(*)::int AS installment_count,
+         COALESCE(SUM(CASE WHEN status = 'superseded' THEN amount_paid ELSE amount_due END), 0) AS scheduled_amount,
+         COALESCE(SUM(amount_paid), 0) AS amount_paid,
+         COALESCE(SUM(amount_due - amount_paid) FILTER (WHERE status IN ('pending', 'partially_paid', 'overdue')), 0) AS outstanding,
+         COALESCE(SUM(amount_due - amount_paid) FILTER (WHERE status = 'overdue'), 0) AS overdue,
+         COALESCE(SUM(GREATEST(COALESCE(interest_due, 0) - GREATEST(amount_paid - COALESCE(addon_paid, 0), 0), 0))
+           FILTER (WHERE status IN ('pending', 'partially_paid') AND due_date > CURRENT_DATE), 0) AS unearned_interest,
+         COALESCE(SUM(COALESCE(addon_due, 0) - COALESCE(addon_paid, 0))
+           FILTER (WHERE status IN ('pending', 'partially_paid', 'overdue')), 0) AS addon_balance,
+         COALESCE(SUM(COALESCE(addon_due, 0) - COALESCE(addon_paid, 0))
+           FILTER (WHERE status IN ('pending', 'partially_paid') AND due_date > CURRENT_DATE), 0) AS unearned_addons
+       FROM payment_installments
+       WHERE payment_plan_id = $1`,
+      [plan.id]
+    );
+    const row = result.rows[0];
+    const creditBalance = parseFloat(plan.credit_balance || '0');
+
+    const penaltyResult = await this.pool.query(
+      `SELECT COALESCE(SUM(amount - amount_paid), 0) AS penalty_balance
+       FROM penalty_charges
+       WHERE payment_plan_id = $1 AND status = 'outstanding'`,
+      [plan.id]
+    );
+    const penaltyBalance = parseFloat(penaltyResult.rows[0].penalty_balance);
+
+    if (row.installment_count === 0) {
+      const outstandingBalance = PaymentScheduleService.calculateOutstandingBalance(
+        parseFloat(plan.vehicle_price),
+        parseFloat(plan.deposit_amount),
+        parseFloat(plan.installment_amount),
+        plan.total_installments,
+        plan.remaining_installments
+      );
+      return {
+        scheduledAmount: parseFloat(plan.vehicle_price) - parseFloat(plan.deposit_amount),
+        amountPaid: parseFloat(plan.installment_amount) * (plan.total_installments - plan.remaining_installments),
+        outstandingBalance,
+        creditBalance,
+        overdueAmount: 0,
+        penaltyBalance,
+        unearnedInterest: 0,
+        addonBalance: 0,
+        unearnedAddons: 0,
+      };
+    }
+
+    const outstanding = parseFloat(row.outstanding);
+    return {
+      scheduledAmount: parseFloat(row.scheduled_amount),
+      amountPaid: parseFloat(row.amount_paid),
+      outstandingBalance: Math.max(0, Math.round((outstanding - creditBalance) * 100) / 100),
+      creditBalance,
+      overdueAmount: parseFloat(row.overdue),
+      penaltyBalance,
+      unearnedInterest: parseFloat(row.unearned_interest),
+      addonBalance: parseFloat(row.addon_balance),
+      unearnedAddons: parseFloat(row.unearned_addons),
+    };
+  }
+
+  /**
+   * Get the allocations recorded for a payment
+   */
+  async getAllocationsForPayment(paymentId: string): Promise<any[]> {
+    const result = await this.pool.query(
+      `SELECT pa.*, pi.installment_number, pc.charge_date AS penalty_charge_date, a.addon_type
+       FROM payment_allocations pa
+       LEFT JOIN payment_installments pi ON pa.installment_id = pi.id
+       LEFT JOIN penalty_charges pc ON pa.penalty_charge_id = pc.id
+       LEFT JOIN installment_addon_charges ac ON pa.addon_charge_id = ac.id
+       LEFT JOIN plan_addons a ON ac.plan_addon_id = a.id
+       WHERE pa.payment_id = $1
+       ORDER BY pa.created_at ASC, pi.installment_number ASC`,
+      [paymentId]
+    );
+    return result.rows;
+  }
+
+  // Amounts are added in SQL rather than written from what was read, so nothing applied meanwhile is lost
+  private async recordAllocations(
+    db: Queryable,
+    planId: string,
+    paymentId: string | null,
+    allocations: PaymentAllocation[]
+  ): Promise<void> {
+    for (const allocation of allocations) {
+      await db.query(
+        `INSERT INTO payment_allocations (
+          payment_id, payment_plan_id, installment_id, penalty_charge_id, addon_charge_id, allocation_type, amount
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+          paymentId,
+          planId,
+          allocation.installmentId || null,
+          allocation.penaltyChargeId || null,
+          allocation.addonChargeId || null,
+          allocation.allocationType,
+          allocation.amount,
+        ]
+      );
+
+      if (allocation.allocationType === 'penalty') {
+        await db.query(
+          `UPDATE penalty_charges
+           SET amount_paid = amount_paid + $1,
+               status = CASE WHEN amount_paid + $1 >= amount THEN 'paid' ELSE status END,
+               updated_at = CURRENT_TIMESTAMP
+           WHERE id = $2`,
+          [allocation.amount, allocation.penaltyChargeId]
+        );
+        continue;
+      }
+
+      if (allocation.allocationType === 'credit') {
+        await db.query(
+          `UPDATE payment_plans SET credit_balance = credit_balance + $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2`,
+          [allocation.amount, planId]
+        );
+        continue;
+      }
+
+      if (allocation.allocationType === 'credit_applied') {
+        await db.query(
+          `UPDATE payment_plans SET credit_balance = credit_balance - $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2`,
+          [allocation.amount, planId]
+        );
+      }
+
+      if (allocation.addonChargeId) {
+        await db.query(
+          `UPDATE installment_addon_charges
+           SET amount_paid = amount_paid + $1,
+               status = CASE WHEN amount_paid + $1 >= amount - cancelled_amount THEN 'paid' ELSE 'partially_paid' END,
+               updated_at = CURRENT_TIMESTAMP
+           WHERE id = $2`,
+          [allocation.amount, allocation.addonChargeId]
+        );
+      }
+
+      // An installment can take several allocations: its add-on charges and the loan repayment
+      await db.query(
+        `UPDATE payment_installments
+         SET amount_paid = amount_paid + $1,
+             addon_paid = addon_paid + $3,
+             status = CASE WHEN amount_paid + $1 >= amount_due THEN 'paid' ELSE 'partially_paid' END,
+             paid_at = CASE WHEN amount_paid + $1 >= amount_due THEN CURRENT_TIMESTAMP ELSE paid_at END,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2`,
+        [allocation.amount, allocation.installmentId, allocation.addonChargeId ? allocation.amount : 0]
+      );
+    }
+  }
+
+  private async lockPlan(db: Queryable, planId: string): Promise<any> {
+    const result = await db.query('SELECT * FROM payment_plans WHERE id = $1 FOR UPDATE', [planId]);
+    if (result.rows.length === 0) {
+      throw new Error('Payment plan not found');
+    }
+    return result.rows[0];
+  }
+
+  private async getOpenInstallments(planId: string, db: Queryable = this.pool): Promise<Installment[]> {
+    const schedule = await this.installmentService.getSchedule(planId, db);
+    return schedule.filter((i) => ['pending', 'partially_paid', 'overdue'].includes(i.status));
+  }
+
+  private async hasSchedule(planId: string, db: Queryable = this.pool): Promise<boolean> {
+    const result = await db.query(
+      'SELECT 1 FROM payment_installments WHERE payment_plan_id = $1 LIMIT 1',
+      [planId]
+    );
+    return result.rows.length > 0;
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * Payment Confirmation Service
+ * Mobile money collections only succeed once the customer approves the prompt on their phone.
+ * Payments wait in pending_confirmation until the provider callback, the status poller or
+ * reconciliation reports the outcome; plans are only updated on confirmed success.
+ * Bank transfers are confirmed here too, once their credit is matched on an imported bank statement.
+ */
+
+import { Pool } from 'pg';
+import { MessageQueueClient } from '@rent-to-own/message-queue';
+import { PaymentAllocationService } from './paymentAllocation';
+import { InstallmentService } from './installments';
+import { PenaltyService } from './penalties';
+import { SettlementService } from './settlement';
+import { PaymentRetryService } from './paymentRetry';
+import { StatementService } from './statements';
+import { OwnershipTransferService } from './ownershipTransfer';
+import { RetailerSettlementService } from './retailerSettlements';
+import { OutboxService } from './outbox';
+import { PlanAddonService } from './planAddons';
+import { withTransaction } from './transaction';
+
+export type ConfirmationSource = 'direct' | 'callback' | 'status_check' | 'reconciliation' | 'bank_statement' | 'timeout';
+
+// 'processing' covers payments initiated before confirmations were tracked
+export const AWAITING_CONFIRMATION_STATUSES = ['pending_confirmation', 'processing'];
+
+export class PaymentConfirmationService {
+  private pool: Pool;
+  private allocationService: PaymentAllocationService;
+  private installmentService: InstallmentService;
+  private penaltyService: PenaltyService;
+  private settlementService: SettlementService;
+  private retryService: PaymentRetryService;
+  private statementService: StatementService;
+  private ownershipTransferService: OwnershipTransferService;
+  private retailerSettlementService: RetailerSettlementService;
+  private outboxService: OutboxService;
+  private addonService: PlanAddonService;
+
+  constructor(pool: Pool, messageQueue: MessageQueueClient) {
+    this.pool = pool;
+    this.allocationService = new PaymentAllocationService(pool);
+    this.installmentService = new InstallmentService(pool);
+    this.penaltyService = new PenaltyService(pool);
+    this.settlementService = new SettlementService(pool);
+    this.retryService = new PaymentRetryService(pool, messageQueue);
+    this.statementService = new StatementService(pool);
+    this.ownershipTransferService = new OwnershipTransferService(pool, messageQueue);
+    this.retailerSettlementService = new RetailerSettlementService(pool);
+    this.outboxService = new OutboxService(pool, messageQueue);
+    this.addonService = new PlanAddonService(pool);
+  }
+
+  /**
+   * When an unanswered payment prompt is given up on.
+   * MOBILE_MONEY_CONFIRMATION_TIMEOUT_MINUTES (default 10) sets how long customers have to approve it.
+   */
+  static confirmationDeadline(from: Date = new Date()): Date {
+    const timeoutMinutes = parseInt(process.env.MOBILE_MONEY_CONFIRMATION_TIMEOUT_MINUTES || '10');
+    return new Date(from.getTime() + timeoutMinutes * 60 * 1000);
+  }
+
+  /**
+   * Record a payment as successful and apply it to its plan.
+   * Returns null when the payment was already completed, so repeated confirmations are harmless.
+   * A payment that timed out can still be confirmed - the provider has the final word.
+   * The status change, allocation or settlement, retailer earnings, receipt and events all commit
+   * together: a payment is never marked completed without being applied to its plan.
+   */
+  async confirmPayment(paymentId: string, source: ConfirmationSource, externalTransactionId?: string): Promise<any | null> {
+    const confirmed = await withTransaction(this.pool, async (client) => {
+      const confirmResult = await client.query(
+        `UPDATE payments
+         SET status = 'completed',
+             external_transaction_id = COALESCE($1, external_transaction_id),
+             processed_at = CURRENT_TIMESTAMP,
+             failure_reason = NULL,
+             next_retry_at = NULL,
+             confirmation_expires_at = NULL,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2 AND status IN ('pending', 'pending_confirmation', 'processing', 'failed')
+         RETURNING *`,
+        [externalTransactionId || null, paymentId]
+      );
+      if (confirmResult.rows.length === 0) {
+        return null;
+      }
+      const payment = confirmResult.rows[0];
+
+      // Payments for the same plan are applied one at a time
+      const planResult = await client.query('SELECT * FROM payment_plans WHERE id = $1 FOR UPDATE', [payment.payment_plan_id]);
+      const plan = planResult.rows[0];
+
+      if (payment.settlement_quote_id) {
+        // A settlement clears every remaining installment in one go
+        await this.installmentService.settleRemaining(payment.payment_plan_id, client);
+        await this.penaltyService.settleOutstanding(payment.payment_plan_id, client);
+        await this.addonService.endForSettlement(payment.payment_plan_id, payment.settlement_quote_id, client);
+        await this.settlementService.markQuoteSettled(payment.settlement_quote_id, payment.id, client);
+      } else if (plan && !payment.is_deposit) {
+        await this.allocationService.allocatePayment(plan, payment, client);
+      }
+
+      await this.retailerSettlementService.recordPayment(payment.id, client);
+
+      const receiptNumber = await this.statementService.issueReceipt(payment.id, client);
+
+      const eventIds = [
+        await OutboxService.enqueue(client, 'payment.events', 'payment.completed', {
+          type: 'payment.completed',
+          payload: {
+            paymentId: payment.id,
+            paymentPlanId: payment.payment_plan_id,
+            userId: payment.user_id,
+            amount: payment.amount,
+            isDeposit: payment.is_deposit,
+            isSettlement: !!payment.settlement_quote_id,
+            confirmedBy: source,
+            receiptNumber,
+          },
+          timestamp: Date.now(),
+        }),
+      ];
+
+      if (payment.settlement_quote_id && plan) {
+        eventIds.push(
+          await OutboxService.enqueue(client, 'payment.events', 'payment.plan.settled', {
+            type: 'payment.plan.settled',
+            payload: {
+              planId: plan.id,
+              userId: plan.user_id,
+              vehicleId: plan.vehicle_id,
+              quoteId: payment.settlement_quote_id,
+              paymentId: payment.id,
+              settlementAmount: payment.amount,
+            },
+            timestamp: Date.now(),
+          })
+        );
+      }
+
+      return { payment, eventIds };
+    });
+    if (!confirmed) {
+      return null;
+    }
+    const { payment, eventIds } = confirmed;
+
+    await this.outboxService.publishNow(eventIds);
+
+    // Paying off the plan hands the vehicle over to the customer. A transfer that fails to start here
+    // is picked up by the hourly startPendingTransfers run.
+    try {
+      await this.ownershipTransferService.startTransfer(payment.payment_plan_id);
+    } catch (transferError) {
+      console.error(`Failed to start ownership transfer for plan ${payment.payment_plan_id}:`, transferError);
+    }
+
+    return payment;
+  }
+
+  /**
+   * Record a payment still awaiting confirmation as failed and schedule a retry for installments.
+   * Returns null when the payment is no longer awaiting confirmation.
+   */
+  async failPayment(paymentId: string, reason: string, source: ConfirmationSource): Promise<any | null> {
+    const failed = await withTransaction(this.pool, async (client) => {
+      const failResult = await client.query(
+        `UPDATE payments
+         SET status = 'failed', failure_reason = $1, confirmation_expires_at = NULL, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2 AND status = ANY($3)
+         RETURNING *`,
+        [reason, paymentId, AWAITING_CONFIRMATION_STATUSES]
+      );
+      if (failResult.rows.length === 0) {
+        return null;
+      }
+      const payment = failResult.rows[0];
+
+      const eventId = await OutboxService.enqueue(client, 'payment.events', 'payment.failed', {
+        type: 'payment.failed',
+        payload: {
+          paymentId: payment.id,
+          paymentPlanId: payment.payment_plan_id,
+          userId: payment.user_id,
+          reason,
+          failedBy: source,
+        },
+        timestamp: Date.now(),
+      });
+
+      return { payment, eventId };
+    });
+    if (!failed) {
+      return null;
+    }
+    const { payment, eventId } = failed;
+
+    // Deposits and settlements are customer-initiated, so only installments are retried.
+    // The dunning policy for the failure reason decides whether another attempt is made.
+    if (!payment.is_deposit && !payment.settlement_quote_id) {
+      try {
+        await this.retryService.scheduleRetry(payment.id, payment.retry_count, {
+          message: reason,
+          provider: payment.mobile_money_provider,
+        });
+      } catch (retryError) {
+        console.error(`Failed to schedule retry for payment ${payment.id}:`, retryError);
+      }
+    }
+
+    await this.outboxService.publishNow([eventId]);
+
+    return payment;
+  }
+
+  /**
+   * Payments waiting on the customer whose prompt has not yet timed out, oldest first
+   */
+  async getAwaitingConfirmation(limit: number = 100): Promise<any[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM payments
+       WHERE status = ANY($1)
+         AND external_transaction_id IS NOT NULL
+         AND (confirmation_expires_at IS NULL OR confirmation_expires_at > CURRENT_TIMESTAMP)
+       ORDER BY created_at ASC
+       LIMIT $2`,
+      [AWAITING_CONFIRMATION_STATUSES, limit]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Fail payments whose prompt was never answered
+   */
+  async expireAbandonedPrompts(): Promise<number> {
+    const result = await this.pool.query(
+      `SELECT id FROM payments
+       WHERE status = ANY($1) AND confirmation_expires_at <= CURRENT_TIMESTAMP`,
+      [AWAITING_CONFIRMATION_STATUSES]
+    );
+
+    let expired = 0;
+    for (const row of result.rows) {
+      const payment = await this.failPayment(row.id, 'Payment prompt was not approved in time', 'timeout');
+      if (payment) {
+        expired++;
+      }
+    }
+    return expired;
+  }
+}
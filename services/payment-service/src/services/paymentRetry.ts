@@ -1,82 +1,116 @@
 /**
  * Payment Retry Service
- * Handles automated retries for failed payments with exponential backoff
+ * Handles automated retries for failed payments, timed by the dunning policy for the failure reason
  */
 
 import { Pool } from 'pg';
+import { MessageQueueClient } from '@rent-to-own/message-queue';
+import { DunningPolicyService, FailureCode } from './dunningPolicy';
 
-export interface RetryConfig {
-  maxRetries: number;
-  initialDelayMs: number;
-  maxDelayMs: number;
-  backoffMultiplier: number;
+export interface RetryFailure {
+  message?: string | null;
+  provider?: string | null;
 }
 
 export interface PaymentRetry {
   paymentId: string;
   attemptNumber: number;
+  attemptsRemaining: number;
   nextRetryAt: Date;
+  failureCode: FailureCode;
+  dunningRuleId?: string;
   status: 'pending' | 'processing' | 'completed' | 'failed';
 }
 
 export class PaymentRetryService {
   private pool: Pool;
-  private defaultConfig: RetryConfig = {
-    maxRetries: 3,
-    initialDelayMs: 60000, // 1 minute
-    maxDelayMs: 86400000, // 24 hours
-    backoffMultiplier: 2,
-  };
-
-  constructor(pool: Pool) {
+  private messageQueue: MessageQueueClient;
+  private dunningPolicy: DunningPolicyService;
+
+  constructor(pool: Pool, messageQueue: MessageQueueClient) {
     this.pool = pool;
+    this.messageQueue = messageQueue;
+    this.dunningPolicy = new DunningPolicyService(pool);
   }
 
   /**
-   * Schedule a retry for a failed payment
+   * Schedule a retry for a failed payment after `currentRetryCount` retries have been made.
+   * Returns null when the dunning policy allows no further attempts for this failure.
    */
   async scheduleRetry(
     paymentId: string,
     currentRetryCount: number,
-    config?: Partial<RetryConfig>
-  ): Promise<PaymentRetry> {
-    const retryConfig = { ...this.defaultConfig, ...config };
-    
-    if (currentRetryCount >= retryConfig.maxRetries) {
-      throw new Error(`Maximum retry attempts (${retryConfig.maxRetries}) exceeded`);
+    failure: RetryFailure = {}
+  ): Promise<PaymentRetry | null> {
+    const failureCode = DunningPolicyService.normalizeFailureReason(failure.message, failure.provider);
+    const rule = await this.dunningPolicy.resolveRule(failure.provider, failureCode);
+    const plannedRetry = DunningPolicyService.planRetry(rule, currentRetryCount);
+
+    if (!plannedRetry) {
+      // Stop here so the retry processor no longer picks the payment up
+      await this.pool.query(
+        `UPDATE payments
+         SET failure_code = $1,
+             max_retries = retry_count,
+             next_retry_at = NULL,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2`,
+        [failureCode, paymentId]
+      );
+      return null;
     }
 
-    // Calculate next retry time with exponential backoff
-    const delayMs = Math.min(
-      retryConfig.initialDelayMs * Math.pow(retryConfig.backoffMultiplier, currentRetryCount),
-      retryConfig.maxDelayMs
-    );
-    const nextRetryAt = new Date(Date.now() + delayMs);
-
     // Update payment with retry information
-    await this.pool.query(
+    const paymentResult = await this.pool.query(
       `UPDATE payments 
        SET retry_count = $1, 
-           next_retry_at = $2,
+           max_retries = $2,
+           next_retry_at = $3,
+           failure_code = $4,
            updated_at = CURRENT_TIMESTAMP
-       WHERE id = $3`,
-      [currentRetryCount + 1, nextRetryAt, paymentId]
+       WHERE id = $5
+       RETURNING *`,
+      [plannedRetry.attemptNumber, rule.maxAttempts, plannedRetry.nextRetryAt, failureCode, paymentId]
     );
 
     // Record retry attempt
-    const retryResult = await this.pool.query(
-      `INSERT INTO payment_retries (payment_id, attempt_number, status)
-       VALUES ($1, $2, 'pending')
-       RETURNING *`,
-      [paymentId, currentRetryCount + 1]
+    await this.pool.query(
+      `INSERT INTO payment_retries (payment_id, attempt_number, status, failure_code, dunning_rule_id, scheduled_for)
+       VALUES ($1, $2, 'pending', $3, $4, $5)`,
+      [paymentId, plannedRetry.attemptNumber, failureCode, rule.id || null, plannedRetry.nextRetryAt]
     );
 
-    return {
+    const retry: PaymentRetry = {
       paymentId,
-      attemptNumber: currentRetryCount + 1,
-      nextRetryAt,
+      attemptNumber: plannedRetry.attemptNumber,
+      attemptsRemaining: plannedRetry.attemptsRemaining,
+      nextRetryAt: plannedRetry.nextRetryAt,
+      failureCode,
+      dunningRuleId: rule.id,
       status: 'pending',
     };
+
+    const payment = paymentResult.rows[0];
+    if (rule.notifyCustomer && payment) {
+      await this.messageQueue.publish('payment.events', 'payment.retry.scheduled', {
+        type: 'payment.retry.scheduled',
+        payload: {
+          paymentId,
+          paymentPlanId: payment.payment_plan_id,
+          userId: payment.user_id,
+          amount: parseFloat(payment.amount),
+          provider: payment.mobile_money_provider,
+          failureCode,
+          attemptNumber: retry.attemptNumber,
+          attemptsRemaining: retry.attemptsRemaining,
+          nextRetryAt: retry.nextRetryAt.toISOString(),
+          payDayAligned: plannedRetry.movedToPayDay,
+        },
+        timestamp: Date.now(),
+      });
+    }
+
+    return retry;
   }
 
   /**
@@ -140,9 +174,9 @@ export class PaymentRetryService {
   ): Promise<void> {
     await this.pool.query(
       `UPDATE payment_retries 
-       SET status = 'failed', completed_at = CURRENT_TIMESTAMP
+       SET status = 'failed', failure_reason = $3, completed_at = CURRENT_TIMESTAMP
        WHERE payment_id = $1 AND attempt_number = $2`,
-      [paymentId, attemptNumber]
+      [paymentId, attemptNumber, failureReason]
     );
 
     // Update payment with failure reason
@@ -1,26 +1,79 @@
 /**
  * Payment Schedule Calculation Service
- * Creates payment schedules based on vehicle price, deposit, and term length
+ * Creates payment schedules based on vehicle price, deposit, term length and cost of credit.
+ * Add-ons (insurance, tracker, service package) are charged on top as separate installment line items.
  */
 
+import { FinanceChargeService, CreditTier, InterestMethod, PaymentFrequency } from './financeCharges';
+import { CollectionCalendar, CollectionDayOptions, BusinessDayRule } from './collectionCalendar';
+
+export type PlanAddonType = 'insurance' | 'tracker' | 'service_package';
+
+export type AddonFrequency = 'per_installment' | 'monthly' | 'quarterly' | 'annually' | 'one_off';
+
+export interface PlanAddonInput {
+  addonType: PlanAddonType;
+  amount: number; // Charged each time the add-on falls due
+  frequency: AddonFrequency;
+  description?: string;
+  provider?: string;
+  termMonths?: number; // Cover period, e.g. a 12-month insurance policy; runs with the plan when left out
+}
+
+export interface ScheduledAddonCharge {
+  addonIndex: number; // Position of the add-on in the input
+  addonType: PlanAddonType;
+  chargeDate: Date;
+  amount: number;
+}
+
 export interface PaymentScheduleInput {
   vehiclePrice: number;
   depositAmount: number;
   termLengthMonths: 12 | 18 | 24 | 36;
-  paymentFrequency: 'weekly' | 'monthly';
+  paymentFrequency: PaymentFrequency;
   gracePeriodDays?: number;
+  skipSundays?: boolean; // Daily plans only
+  skipPublicHolidays?: boolean; // Daily plans only
+  businessDayRule?: BusinessDayRule; // Weekly and monthly plans only (default: following)
+  creditTier?: CreditTier; // Picks the tier's interest rate when no explicit rate is given
+  annualInterestRate?: number; // Percentage
+  interestMethod?: InterestMethod;
+  addons?: PlanAddonInput[];
+}
+
+export interface ScheduledInstallment {
+  installmentNumber: number;
+  dueDate: Date;
+  amountDue: number; // Principal, interest and add-on charges
+  principalDue: number;
+  interestDue: number;
+  addonDue?: number;
+  addonCharges?: ScheduledAddonCharge[];
 }
 
 export interface PaymentSchedule {
   totalAmount: number;
   depositAmount: number;
   installmentAmount: number;
-  paymentFrequency: 'weekly' | 'monthly';
+  paymentFrequency: PaymentFrequency;
   termLengthMonths: 12 | 18 | 24 | 36;
   totalInstallments: number;
   remainingInstallments: number;
+  startDate: Date; // Add-on cover periods run from here
   nextPaymentDate: Date;
   gracePeriodDays: number;
+  skipSundays: boolean;
+  skipPublicHolidays: boolean;
+  businessDayRule: BusinessDayRule;
+  creditTier?: CreditTier;
+  interestMethod: InterestMethod;
+  annualInterestRate: number;
+  totalInterest: number; // Total cost of credit
+  totalPayable: number; // Vehicle price plus finance charges; add-ons are on top
+  totalAddonCharges: number;
+  effectiveApr: number;
+  installments: ScheduledInstallment[];
 }
 
 export class PaymentScheduleService {
@@ -28,7 +81,21 @@ export class PaymentScheduleService {
    * Calculate payment schedule based on vehicle price, deposit, and term length
    */
   static calculateSchedule(input: PaymentScheduleInput): PaymentSchedule {
-    const { vehiclePrice, depositAmount, termLengthMonths, paymentFrequency, gracePeriodDays = 7 } = input;
+    const {
+      vehiclePrice,
+      depositAmount,
+      termLengthMonths,
+      paymentFrequency,
+      gracePeriodDays = 7,
+      creditTier,
+      interestMethod = 'reducing_balance',
+    } = input;
+
+    // Sundays and public holidays can only be skipped on daily plans; weekly and monthly due dates move off them instead
+    const businessDayRule = input.businessDayRule || 'following';
+    const collectionDays: CollectionDayOptions = paymentFrequency === 'daily'
+      ? { skipSundays: !!input.skipSundays, skipPublicHolidays: !!input.skipPublicHolidays }
+      : { businessDayRule };
 
     // Validate inputs
     if (depositAmount >= vehiclePrice) {
@@ -39,28 +106,64 @@ export class PaymentScheduleService {
       throw new Error('Term length must be 12, 18, 24, or 36 months');
     }
 
+    const annualInterestRate = input.annualInterestRate ?? (creditTier ? FinanceChargeService.getRateForTier(creditTier) : 0);
+
     // Calculate the amount to be paid in installments
     const installmentTotal = vehiclePrice - depositAmount;
 
+    // First due date before business-day adjustment (a month from now for monthly, 7 days for weekly, the next collection day for daily)
+    const startDate = new Date();
+    const firstDueDate = PaymentScheduleService.calculateNextPaymentDate(startDate, paymentFrequency, collectionDays);
+
     // Calculate number of installments based on frequency
     let totalInstallments: number;
     if (paymentFrequency === 'monthly') {
       totalInstallments = termLengthMonths;
-    } else {
+    } else if (paymentFrequency === 'weekly') {
       // Weekly: 52 weeks per year, so termLengthMonths * (52/12) = termLengthMonths * 4.33
       totalInstallments = Math.ceil(termLengthMonths * (52 / 12));
+    } else {
+      // Daily: one installment per collection day in the term
+      const termEnd = PaymentScheduleService.addMonths(startDate, termLengthMonths);
+      totalInstallments = PaymentScheduleService.countCollectionDays(firstDueDate, termEnd, collectionDays);
     }
 
-    // Calculate installment amount (rounded to 2 decimal places)
-    const installmentAmount = Math.round((installmentTotal / totalInstallments) * 100) / 100;
+    const installments = PaymentScheduleService.buildInstallments(
+      installmentTotal,
+      annualInterestRate,
+      interestMethod,
+      totalInstallments,
+      termLengthMonths,
+      firstDueDate,
+      paymentFrequency,
+      collectionDays,
+      startDate.getDate()
+    );
+    const nextPaymentDate = installments[0].dueDate;
 
-    // Calculate next payment date (30 days from now for monthly, 7 days for weekly)
-    const nextPaymentDate = new Date();
-    if (paymentFrequency === 'monthly') {
-      nextPaymentDate.setMonth(nextPaymentDate.getMonth() + 1);
-    } else {
-      nextPaymentDate.setDate(nextPaymentDate.getDate() + 7);
-    }
+    const totalInterest = Math.round(installments.reduce((sum, i) => sum + i.interestDue, 0) * 100) / 100;
+    const effectiveApr = FinanceChargeService.calculateEffectiveApr(
+      installmentTotal,
+      installments.map((i) => i.amountDue),
+      paymentFrequency,
+      collectionDays
+    );
+    // The plan's installment amount is the loan repayment; add-ons are not credit and stay out of the APR
+    const installmentAmount = installments[0].amountDue;
+
+    (input.addons || []).forEach((addon, addonIndex) => {
+      const endsOn = addon.termMonths ? PaymentScheduleService.addMonths(startDate, addon.termMonths) : undefined;
+      for (const charge of PaymentScheduleService.scheduleAddonCharges(addon, startDate, endsOn, installments)) {
+        const installment = installments.find((i) => i.installmentNumber === charge.installmentNumber)!;
+        installment.addonCharges = [
+          ...(installment.addonCharges || []),
+          { addonIndex, addonType: addon.addonType, chargeDate: charge.chargeDate, amount: charge.amount },
+        ];
+        installment.addonDue = Math.round(((installment.addonDue || 0) + charge.amount) * 100) / 100;
+        installment.amountDue = Math.round((installment.amountDue + charge.amount) * 100) / 100;
+      }
+    });
+    const totalAddonCharges = Math.round(installments.reduce((sum, i) => sum + (i.addonDue || 0), 0) * 100) / 100;
 
     return {
       totalAmount: vehiclePrice,
@@ -70,11 +173,117 @@ export class PaymentScheduleService {
       termLengthMonths,
       totalInstallments,
       remainingInstallments: totalInstallments,
+      startDate,
       nextPaymentDate,
       gracePeriodDays,
+      skipSundays: !!collectionDays.skipSundays,
+      skipPublicHolidays: !!collectionDays.skipPublicHolidays,
+      businessDayRule,
+      creditTier,
+      interestMethod,
+      annualInterestRate,
+      totalInterest,
+      totalPayable: Math.round((vehiclePrice + totalInterest) * 100) / 100,
+      totalAddonCharges,
+      effectiveApr,
+      installments,
     };
   }
 
+  /**
+   * Build the per-installment schedule, split into principal and interest.
+   * Weekly and monthly due dates are counted from the first due date, so a date moved off a Sunday or
+   * holiday does not shift the ones after it; monthly plans fall due on `dueDayOfMonth` (default: the
+   * first due date's day), or the last day of shorter months.
+   */
+  static buildInstallments(
+    installmentTotal: number,
+    annualInterestRate: number,
+    interestMethod: InterestMethod,
+    totalInstallments: number,
+    termLengthMonths: number,
+    firstDueDate: Date,
+    frequency: PaymentFrequency,
+    collectionDays: CollectionDayOptions = {},
+    dueDayOfMonth: number = firstDueDate.getDate()
+  ): ScheduledInstallment[] {
+    const charges = FinanceChargeService.calculateCharges(
+      installmentTotal,
+      annualInterestRate,
+      totalInstallments,
+      termLengthMonths,
+      frequency,
+      interestMethod,
+      collectionDays
+    );
+
+    const installments: ScheduledInstallment[] = [];
+    let dailyDueDate = new Date(firstDueDate);
+
+    charges.forEach((charge, index) => {
+      let dueDate: Date;
+      if (frequency === 'daily') {
+        dueDate = dailyDueDate;
+        dailyDueDate = PaymentScheduleService.calculateNextPaymentDate(dailyDueDate, frequency, collectionDays);
+      } else {
+        const unadjusted = frequency === 'weekly'
+          ? new Date(firstDueDate.getFullYear(), firstDueDate.getMonth(), firstDueDate.getDate() + index * 7)
+          : PaymentScheduleService.addMonths(firstDueDate, index, dueDayOfMonth);
+        dueDate = CollectionCalendar.adjustToBusinessDay(unadjusted, collectionDays.businessDayRule);
+      }
+
+      installments.push({
+        installmentNumber: index + 1,
+        dueDate,
+        amountDue: Math.round((charge.principal + charge.interest) * 100) / 100,
+        principalDue: charge.principal,
+        interestDue: charge.interest,
+      });
+    });
+
+    return installments;
+  }
+
+  /**
+   * Work out which installment each charge of an add-on lands on. Per-installment add-ons are charged
+   * on every installment in the cover period; the others fall due every month, quarter or year (or once)
+   * from `startsOn` and are added to the first installment due on or after that date. Charges after the
+   * last installment are not made.
+   */
+  static scheduleAddonCharges(
+    addon: Pick<PlanAddonInput, 'amount' | 'frequency'>,
+    startsOn: Date,
+    endsOn: Date | undefined,
+    installments: Array<{ installmentNumber: number; dueDate: Date }>
+  ): Array<{ installmentNumber: number; chargeDate: Date; amount: number }> {
+    const day = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+    const start = day(startsOn);
+    const end = endsOn ? day(endsOn) : Infinity;
+    const sorted = [...installments].sort((a, b) => day(new Date(a.dueDate)) - day(new Date(b.dueDate)));
+    const amount = Math.round(addon.amount * 100) / 100;
+
+    if (addon.frequency === 'per_installment') {
+      return sorted
+        .filter((i) => day(new Date(i.dueDate)) >= start && day(new Date(i.dueDate)) < end)
+        .map((i) => ({ installmentNumber: i.installmentNumber, chargeDate: new Date(i.dueDate), amount }));
+    }
+
+    const stepMonths = { monthly: 1, quarterly: 3, annually: 12, one_off: 0 }[addon.frequency];
+    const charges: Array<{ installmentNumber: number; chargeDate: Date; amount: number }> = [];
+    for (let period = 0; ; period++) {
+      const chargeDate = PaymentScheduleService.addMonths(startsOn, period * stepMonths);
+      if (day(chargeDate) >= end || (period > 0 && stepMonths === 0)) {
+        break;
+      }
+      const installment = sorted.find((i) => day(new Date(i.dueDate)) >= day(chargeDate));
+      if (!installment) {
+        break;
+      }
+      charges.push({ installmentNumber: installment.installmentNumber, chargeDate, amount });
+    }
+    return charges;
+  }
+
   /**
    * Calculate outstanding balance for a payment plan
    */
@@ -91,25 +300,63 @@ export class PaymentScheduleService {
   }
 
   /**
-   * Calculate next payment date based on frequency
+   * Calculate next payment date based on frequency, before any business-day adjustment.
+   * A month on from the 31st is the last day of the next month, not the start of the one after.
    */
-  static calculateNextPaymentDate(currentDate: Date, frequency: 'weekly' | 'monthly'): Date {
+  static calculateNextPaymentDate(
+    currentDate: Date,
+    frequency: PaymentFrequency,
+    collectionDays: CollectionDayOptions = {}
+  ): Date {
     const nextDate = new Date(currentDate);
-    if (frequency === 'weekly') {
+    if (frequency === 'daily') {
+      do {
+        nextDate.setDate(nextDate.getDate() + 1);
+      } while (!CollectionCalendar.isCollectionDay(nextDate, collectionDays));
+    } else if (frequency === 'weekly') {
       nextDate.setDate(nextDate.getDate() + 7);
     } else {
-      nextDate.setMonth(nextDate.getMonth() + 1);
+      return PaymentScheduleService.addMonths(currentDate, 1);
     }
     return nextDate;
   }
 
   /**
-   * Calculate due date with grace period
+   * Add whole months, landing on `dayOfMonth` (default: the date's own day) or the last day of
+   * shorter months. Jan 31 plus one month is Feb 28 (29 in leap years).
+   */
+  static addMonths(date: Date, months: number, dayOfMonth: number = date.getDate()): Date {
+    const result = new Date(date);
+    result.setDate(1);
+    result.setMonth(result.getMonth() + months);
+    const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+    result.setDate(Math.min(dayOfMonth, lastDay));
+    return result;
+  }
+
+  /**
+   * Count the collection days from a start date up to and including an end date
+   */
+  static countCollectionDays(from: Date, to: Date, collectionDays: CollectionDayOptions = {}): number {
+    let count = 0;
+    const day = new Date(from);
+    while (day <= to) {
+      if (CollectionCalendar.isCollectionDay(day, collectionDays)) {
+        count++;
+      }
+      day.setDate(day.getDate() + 1);
+    }
+    return count;
+  }
+
+  /**
+   * Calculate due date with grace period. A grace period ending on a Sunday or public holiday
+   * runs on to the next business day, whatever the plan's business-day rule.
    */
   static calculateDueDateWithGrace(scheduledDate: Date, gracePeriodDays: number): Date {
     const dueDate = new Date(scheduledDate);
     dueDate.setDate(dueDate.getDate() + gracePeriodDays);
-    return dueDate;
+    return CollectionCalendar.adjustToBusinessDay(dueDate, 'following');
   }
 
   /**
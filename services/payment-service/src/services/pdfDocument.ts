@@ -0,0 +1,158 @@
+/**
+ * PDF Document
+ * Minimal text-only PDF writer for receipts and statements. Uses the built-in Helvetica
+ * fonts, so nothing needs embedding; text is laid out top-down with automatic page breaks.
+ */
+
+export interface PdfTextOptions {
+  x?: number;
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right'; // Right-aligned text ends at x
+}
+
+export interface PdfCell extends PdfTextOptions {
+  text: string;
+}
+
+const PAGE_WIDTH = 595; // A4, in points
+const PAGE_HEIGHT = 842;
+
+export const PDF_MARGIN = 50;
+export const PDF_CONTENT_RIGHT = PAGE_WIDTH - PDF_MARGIN;
+
+/**
+ * Approximate Helvetica glyph width in 1/1000 em; exact for digits and the separators
+ * used in amounts, which is what right alignment needs
+ */
+function glyphWidth(char: string): number {
+  if (/[0-9]/.test(char)) return 556;
+  if (char === ' ' || char === '.' || char === ',') return 278;
+  if (char === '-') return 333;
+  if (/[A-Z]/.test(char)) return 667;
+  return 500;
+}
+
+export class PdfDocument {
+  private pages: string[][] = [];
+  private y = 0;
+
+  constructor() {
+    this.addPage();
+  }
+
+  /**
+   * Write a line of text and move down past it
+   */
+  text(text: string, options: PdfTextOptions = {}): void {
+    this.row([{ text, ...options }], options.size);
+  }
+
+  /**
+   * Write several cells on the same line, e.g. a table row
+   */
+  row(cells: PdfCell[], size: number = 10): void {
+    const lineHeight = size * 1.5;
+    this.ensureSpace(lineHeight);
+    this.y -= lineHeight;
+
+    for (const cell of cells) {
+      const cellSize = cell.size || size;
+      let x = cell.x ?? PDF_MARGIN;
+      if (cell.align === 'right') {
+        x -= PdfDocument.textWidth(cell.text, cellSize);
+      }
+      this.currentPage().push(
+        `BT /${cell.bold ? 'F2' : 'F1'} ${cellSize} Tf ${x.toFixed(2)} ${this.y.toFixed(2)} Td (${PdfDocument.escape(cell.text)}) Tj ET`
+      );
+    }
+  }
+
+  /**
+   * Draw a horizontal rule across the content area
+   */
+  rule(): void {
+    this.ensureSpace(8);
+    this.y -= 6;
+    this.currentPage().push(`0.5 w ${PDF_MARGIN} ${this.y.toFixed(2)} m ${PDF_CONTENT_RIGHT} ${this.y.toFixed(2)} l S`);
+    this.y -= 2;
+  }
+
+  moveDown(points: number = 10): void {
+    this.y -= points;
+  }
+
+  /**
+   * Serialise the document
+   */
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const pageCount = this.pages.length;
+    // 1: catalog, 2: page tree, 3-4: fonts, then a page and content stream per page
+    const pageObjectId = (index: number) => 5 + index * 2;
+
+    objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+    objects.push(
+      `<< /Type /Pages /Kids [${this.pages.map((_, i) => `${pageObjectId(i)} 0 R`).join(' ')}] /Count ${pageCount} >>`
+    );
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+    this.pages.forEach((operations, i) => {
+      const content = operations.join('\n');
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageObjectId(i) + 1} 0 R >>`
+      );
+      objects.push(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`);
+    });
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((object, i) => {
+      offsets.push(Buffer.byteLength(output, 'latin1'));
+      output += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    });
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map((offset) => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+
+  static textWidth(text: string, size: number): number {
+    let width = 0;
+    for (const char of text) {
+      width += glyphWidth(char);
+    }
+    return (width / 1000) * size;
+  }
+
+  /**
+   * Escape PDF string delimiters; characters outside Latin-1 cannot be shown by the standard fonts
+   */
+  private static escape(text: string): string {
+    return text
+      .replace(/[^\x20-\xff]/g, '?')
+      .replace(/\\/g, '\\\\')
+      .replace(/\(/g, '\\(')
+      .replace(/\)/g, '\\)');
+  }
+
+  private ensureSpace(height: number): void {
+    if (this.y - height < PDF_MARGIN) {
+      this.addPage();
+    }
+  }
+
+  private addPage(): void {
+    this.pages.push([]);
+    this.y = PAGE_HEIGHT - PDF_MARGIN;
+  }
+
+  private currentPage(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+}
@@ -0,0 +1,340 @@
+/**
+ * Late Fee & Penalty Service
+ * Charges late fees on overdue installments according to rules set per plan or per product.
+ * Penalties are separate charges from installments, so they can be paid or waived on their own.
+ */
+
+import { Pool } from 'pg';
+import { PaymentScheduleService } from './paymentSchedule';
+import { OutboxService } from './outbox';
+import { withTransaction, Queryable } from './transaction';
+
+export type PenaltyRuleType = 'fixed_fee' | 'daily_percentage';
+export type PenaltyRuleScope = 'default' | 'product' | 'plan';
+
+export interface PenaltyRule {
+  id: string;
+  name: string;
+  scope: PenaltyRuleScope;
+  paymentPlanId?: string;
+  productCode?: string;
+  ruleType: PenaltyRuleType;
+  amount: number; // Fee for fixed_fee rules
+  percentage: number; // Daily percentage of the overdue amount for daily_percentage rules
+  capAmount?: number; // Maximum total charged per installment under this rule
+  startAfterDays: number; // Days overdue (after the grace period) before the rule applies
+  active: boolean;
+}
+
+export interface PenaltyCharge {
+  id: string;
+  paymentPlanId: string;
+  installmentId: string;
+  penaltyRuleId: string;
+  chargeDate: Date;
+  amount: number;
+  amountPaid: number;
+  status: 'outstanding' | 'paid' | 'waived';
+  waivedBy?: string;
+  waivedAt?: Date;
+  waiverReason?: string;
+  createdAt: Date;
+}
+
+export class PenaltyService {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  /**
+   * Work out the penalty a rule charges today for an overdue installment.
+   * Pure calculation - nothing is written.
+   */
+  static calculatePenalty(
+    rule: PenaltyRule,
+    overdueAmount: number,
+    daysOverdue: number,
+    alreadyCharged: number,
+    hasPreviousCharge: boolean
+  ): number {
+    if (daysOverdue <= rule.startAfterDays || overdueAmount <= 0) {
+      return 0;
+    }
+
+    let amount: number;
+    if (rule.ruleType === 'fixed_fee') {
+      // A fixed fee is charged once per installment
+      amount = hasPreviousCharge ? 0 : rule.amount;
+    } else {
+      amount = overdueAmount * (rule.percentage / 100);
+    }
+
+    if (rule.capAmount !== undefined) {
+      amount = Math.min(amount, rule.capAmount - alreadyCharged);
+    }
+
+    return Math.max(0, Math.round(amount * 100) / 100);
+  }
+
+  /**
+   * Rules that apply to a plan. Plan rules take precedence over product rules,
+   * which take precedence over the defaults.
+   */
+  async getRulesForPlan(plan: any): Promise<PenaltyRule[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM penalty_rules
+       WHERE active = true
+         AND (
+           (scope = 'plan' AND payment_plan_id = $1)
+           OR (scope = 'product' AND product_code = $2)
+           OR scope = 'default'
+         )
+       ORDER BY created_at ASC`,
+      [plan.id, plan.product_code || null]
+    );
+
+    const rules = result.rows.map((row) => this.mapRule(row));
+    for (const scope of ['plan', 'product', 'default'] as PenaltyRuleScope[]) {
+      const scoped = rules.filter((rule) => rule.scope === scope);
+      if (scoped.length > 0) {
+        return scoped;
+      }
+    }
+    return [];
+  }
+
+  /**
+   * Charge today's penalties on every overdue installment.
+   * Safe to run more than once a day - each rule charges an installment at most once per day.
+   * Each charge is written with its payment.penalty.charged outbox event; the caller publishes the event ids.
+   */
+  async applyDailyPenalties(): Promise<{ charges: PenaltyCharge[]; eventIds: string[] }> {
+    const result = await this.pool.query(
+      `SELECT pi.*, pp.grace_period_days, pp.product_code, pp.user_id
+       FROM payment_installments pi
+       JOIN payment_plans pp ON pi.payment_plan_id = pp.id
+       WHERE pi.status = 'overdue'
+         AND pp.status IN ('active', 'overdue')
+       ORDER BY pi.payment_plan_id, pi.installment_number`
+    );
+
+    const rulesByPlan = new Map<string, PenaltyRule[]>();
+    const charges: PenaltyCharge[] = [];
+    const eventIds: string[] = [];
+
+    for (const installment of result.rows) {
+      const planId = installment.payment_plan_id;
+      if (!rulesByPlan.has(planId)) {
+        rulesByPlan.set(
+          planId,
+          await this.getRulesForPlan({ id: planId, product_code: installment.product_code })
+        );
+      }
+
+      const overdueAmount = parseFloat(installment.amount_due) - parseFloat(installment.amount_paid);
+      const daysOverdue = PaymentScheduleService.calculateDaysOverdue(
+        PaymentScheduleService.calculateDueDateWithGrace(new Date(installment.due_date), installment.grace_period_days)
+      );
+
+      for (const rule of rulesByPlan.get(planId)!) {
+        const previous = await this.pool.query(
+          `SELECT COUNT(*)::int AS charge_count, COALESCE(SUM(amount), 0) AS charged
+           FROM penalty_charges
+           WHERE installment_id = $1 AND penalty_rule_id = $2`,
+          [installment.id, rule.id]
+        );
+
+        // Waived charges still count towards the cap so a waiver is not simply charged again
+        const amount = PenaltyService.calculatePenalty(
+          rule,
+          overdueAmount,
+          daysOverdue,
+          parseFloat(previous.rows[0].charged),
+          previous.rows[0].charge_count > 0
+        );
+        if (amount <= 0) {
+          continue;
+        }
+
+        // The charge and its event commit together
+        const charged = await withTransaction(this.pool, async (client) => {
+          const inserted = await client.query(
+            `INSERT INTO penalty_charges (payment_plan_id, installment_id, penalty_rule_id, charge_date, amount)
+             VALUES ($1, $2, $3, CURRENT_DATE, $4)
+             ON CONFLICT (installment_id, penalty_rule_id, charge_date) DO NOTHING
+             RETURNING *`,
+            [planId, installment.id, rule.id, amount]
+          );
+          if (inserted.rows.length === 0) {
+            return null;
+          }
+
+          const charge = this.mapCharge(inserted.rows[0]);
+          const eventId = await OutboxService.enqueue(client, 'payment.events', 'payment.penalty.charged', {
+            type: 'payment.penalty.charged',
+            payload: {
+              penaltyChargeId: charge.id,
+              paymentPlanId: charge.paymentPlanId,
+              installmentId: charge.installmentId,
+              amount: charge.amount,
+              chargeDate: charge.chargeDate,
+            },
+            timestamp: Date.now(),
+          });
+          return { charge, eventId };
+        });
+
+        if (charged) {
+          charges.push(charged.charge);
+          eventIds.push(charged.eventId);
+        }
+      }
+    }
+
+    return { charges, eventIds };
+  }
+
+  /**
+   * Get penalty charges for a plan
+   */
+  async getChargesForPlan(planId: string): Promise<PenaltyCharge[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM penalty_charges
+       WHERE payment_plan_id = $1
+       ORDER BY charge_date ASC, created_at ASC`,
+      [planId]
+    );
+    return result.rows.map((row) => this.mapCharge(row));
+  }
+
+  /**
+   * Get penalties still owed on a plan, oldest first
+   */
+  async getOutstandingCharges(planId: string, db: Queryable = this.pool): Promise<PenaltyCharge[]> {
+    const result = await db.query(
+      `SELECT * FROM penalty_charges
+       WHERE payment_plan_id = $1 AND status = 'outstanding'
+       ORDER BY charge_date ASC, created_at ASC`,
+      [planId]
+    );
+    return result.rows.map((row) => this.mapCharge(row));
+  }
+
+  async getCharge(chargeId: string): Promise<PenaltyCharge | null> {
+    const result = await this.pool.query('SELECT * FROM penalty_charges WHERE id = $1', [chargeId]);
+    return result.rows.length > 0 ? this.mapCharge(result.rows[0]) : null;
+  }
+
+  /**
+   * Waive whatever is still owed on a penalty charge
+   */
+  async waiveCharge(chargeId: string, waivedBy: string, reason: string): Promise<PenaltyCharge> {
+    const result = await this.pool.query(
+      `UPDATE penalty_charges
+       SET status = 'waived', waived_by = $1, waived_at = CURRENT_TIMESTAMP, waiver_reason = $2, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $3 AND status = 'outstanding'
+       RETURNING *`,
+      [waivedBy, reason, chargeId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('Only outstanding penalty charges can be waived');
+    }
+
+    return this.mapCharge(result.rows[0]);
+  }
+
+  /**
+   * Close every outstanding penalty when the plan is settled early (the quote included them)
+   */
+  async settleOutstanding(planId: string, db: Queryable = this.pool): Promise<void> {
+    await db.query(
+      `UPDATE penalty_charges
+       SET amount_paid = amount, status = 'paid', updated_at = CURRENT_TIMESTAMP
+       WHERE payment_plan_id = $1 AND status = 'outstanding'`,
+      [planId]
+    );
+  }
+
+  async createRule(rule: Omit<PenaltyRule, 'id' | 'active'>): Promise<PenaltyRule> {
+    const result = await this.pool.query(
+      `INSERT INTO penalty_rules (
+        name, scope, payment_plan_id, product_code, rule_type, amount, percentage, cap_amount, start_after_days
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      RETURNING *`,
+      [
+        rule.name,
+        rule.scope,
+        rule.paymentPlanId || null,
+        rule.productCode || null,
+        rule.ruleType,
+        rule.amount,
+        rule.percentage,
+        rule.capAmount ?? null,
+        rule.startAfterDays,
+      ]
+    );
+    return this.mapRule(result.rows[0]);
+  }
+
+  async listRules(filters: { paymentPlanId?: string; productCode?: string } = {}): Promise<PenaltyRule[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.paymentPlanId) {
+      params.push(filters.paymentPlanId);
+      conditions.push(`payment_plan_id = $${params.length}`);
+    }
+    if (filters.productCode) {
+      params.push(filters.productCode);
+      conditions.push(`product_code = $${params.length}`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const result = await this.pool.query(`SELECT * FROM penalty_rules ${where} ORDER BY created_at DESC`, params);
+    return result.rows.map((row) => this.mapRule(row));
+  }
+
+  async setRuleActive(ruleId: string, active: boolean): Promise<PenaltyRule | null> {
+    const result = await this.pool.query(
+      `UPDATE penalty_rules SET active = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2 RETURNING *`,
+      [active, ruleId]
+    );
+    return result.rows.length > 0 ? this.mapRule(result.rows[0]) : null;
+  }
+
+  private mapRule(row: any): PenaltyRule {
+    return {
+      id: row.id,
+      name: row.name,
+      scope: row.scope,
+      paymentPlanId: row.payment_plan_id || undefined,
+      productCode: row.product_code || undefined,
+      ruleType: row.rule_type,
+      amount: parseFloat(row.amount || '0'),
+      percentage: parseFloat(row.percentage || '0'),
+      capAmount: row.cap_amount !== null && row.cap_amount !== undefined ? parseFloat(row.cap_amount) : undefined,
+      startAfterDays: row.start_after_days,
+      active: row.active,
+    };
+  }
+
+  private mapCharge(row: any): PenaltyCharge {
+    return {
+      id: row.id,
+      paymentPlanId: row.payment_plan_id,
+      installmentId: row.installment_id,
+      penaltyRuleId: row.penalty_rule_id,
+      chargeDate: row.charge_date,
+      amount: parseFloat(row.amount),
+      amountPaid: parseFloat(row.amount_paid),
+      status: row.status,
+      waivedBy: row.waived_by || undefined,
+      waivedAt: row.waived_at || undefined,
+      waiverReason: row.waiver_reason || undefined,
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,564 @@
+/**
+ * Plan Add-on Service
+ * Insurance, tracker subscriptions and service packages sold with a plan. Each add-on has its own
+ * amount and frequency and is charged as line items on the installments it falls on, so it is
+ * collected with the installment but paid, refunded, renewed and cancelled on its own.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import {
+  PaymentScheduleService,
+  PlanAddonInput,
+  PlanAddonType,
+  AddonFrequency,
+  ScheduledInstallment,
+} from './paymentSchedule';
+import { InstallmentService } from './installments';
+import { withTransaction, inTransaction, Queryable } from './transaction';
+
+export const PLAN_ADDON_TYPES: PlanAddonType[] = ['insurance', 'tracker', 'service_package'];
+
+export const ADDON_FREQUENCIES: AddonFrequency[] = ['per_installment', 'monthly', 'quarterly', 'annually', 'one_off'];
+
+// How add-ons are described on receipts and statements
+export const ADDON_LABELS: Record<PlanAddonType, string> = {
+  insurance: 'Insurance premium',
+  tracker: 'Tracker subscription',
+  service_package: 'Service package',
+};
+
+export type PlanAddonStatus = 'active' | 'renewed' | 'expired' | 'cancelled' | 'ended';
+
+export type AddonChargeStatus = 'pending' | 'partially_paid' | 'paid' | 'cancelled' | 'moved' | 'settled';
+
+export interface PlanAddon {
+  id: string;
+  paymentPlanId: string;
+  addonType: PlanAddonType;
+  description?: string;
+  provider?: string;
+  amount: number;
+  frequency: AddonFrequency;
+  startsOn: Date;
+  endsOn?: Date; // End of the cover period; runs with the plan when not set
+  status: PlanAddonStatus;
+  renewalOf?: string;
+  totalCharged: number;
+  totalPaid: number;
+  totalCancelled: number;
+  outstanding: number;
+  cancelledAt?: Date;
+  cancelledBy?: string;
+  cancellationReason?: string;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AddonCharge {
+  id: string;
+  planAddonId: string;
+  paymentPlanId: string;
+  installmentId: string;
+  installmentNumber?: number;
+  dueDate?: Date;
+  addonType?: PlanAddonType;
+  chargeDate: Date;
+  amount: number;
+  amountPaid: number;
+  cancelledAmount: number;
+  status: AddonChargeStatus;
+  movedFrom?: string; // Charge this one carried over from when the plan was restructured
+  cancelledAt?: Date;
+  createdAt: Date;
+}
+
+const OPEN_CHARGE_STATUSES: AddonChargeStatus[] = ['pending', 'partially_paid'];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export class PlanAddonService {
+  private pool: Pool;
+  private installmentService: InstallmentService;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+    this.installmentService = new InstallmentService(pool);
+  }
+
+  /**
+   * Store the add-ons chosen when a plan was created, with the charges the schedule already folded
+   * into its installments
+   */
+  async recordScheduledAddons(
+    planId: string,
+    addons: PlanAddonInput[],
+    installments: ScheduledInstallment[],
+    startsOn: Date,
+    createdBy?: string,
+    client?: PoolClient
+  ): Promise<PlanAddon[]> {
+    if (addons.length === 0) {
+      return [];
+    }
+
+    return inTransaction(this.pool, client, async (client) => {
+      const numbers = await client.query(
+        'SELECT id, installment_number FROM payment_installments WHERE payment_plan_id = $1',
+        [planId]
+      );
+      const installmentIds = new Map<number, string>(numbers.rows.map((row) => [row.installment_number, row.id]));
+
+      const ids: string[] = [];
+      for (const addon of addons) {
+        const endsOn = addon.termMonths ? PaymentScheduleService.addMonths(startsOn, addon.termMonths) : undefined;
+        ids.push(await this.insertAddon(client, planId, addon, startsOn, endsOn, createdBy));
+      }
+
+      for (const installment of installments) {
+        for (const charge of installment.addonCharges || []) {
+          await client.query(
+            `INSERT INTO installment_addon_charges (plan_addon_id, payment_plan_id, installment_id, charge_date, amount)
+             VALUES ($1, $2, $3, $4, $5)`,
+            [ids[charge.addonIndex], planId, installmentIds.get(installment.installmentNumber), charge.chargeDate, charge.amount]
+          );
+        }
+      }
+      return Promise.all(ids.map(async (id) => (await this.getAddon(id, client))!));
+    });
+  }
+
+  /**
+   * Add an add-on to a running plan. It is charged on the open installments from `startsOn` (default today).
+   */
+  async addAddon(planId: string, input: PlanAddonInput, createdBy: string, startsOn: Date = new Date()): Promise<PlanAddon> {
+    const planResult = await this.pool.query('SELECT status FROM payment_plans WHERE id = $1', [planId]);
+    if (planResult.rows.length === 0) {
+      throw new Error('Payment plan not found');
+    }
+    if (!['active', 'overdue'].includes(planResult.rows[0].status)) {
+      throw new Error(`Add-ons cannot be added to a ${planResult.rows[0].status} plan`);
+    }
+
+    const endsOn = input.termMonths ? PaymentScheduleService.addMonths(startsOn, input.termMonths) : undefined;
+    const addonId = await withTransaction(this.pool, async (client) => {
+      const id = await this.insertAddon(client, planId, input, startsOn, endsOn, createdBy);
+      await this.chargeOpenInstallments(client, planId, id, input, startsOn, endsOn);
+      return id;
+    });
+
+    return (await this.getAddon(addonId))!;
+  }
+
+  /**
+   * Renew an add-on with a cover period for another term, e.g. next year's insurance policy. The new
+   * period starts where the old one ends; the amount and term default to the current ones.
+   */
+  async renewAddon(
+    addonId: string,
+    renewedBy: string,
+    changes: { amount?: number; termMonths?: number; provider?: string } = {}
+  ): Promise<PlanAddon> {
+    const current = await this.getAddon(addonId);
+    if (!current) {
+      throw new Error('Add-on not found');
+    }
+    if (!['active', 'expired'].includes(current.status)) {
+      throw new Error(`A ${current.status} add-on cannot be renewed`);
+    }
+    if (!current.endsOn) {
+      throw new Error('Add-on runs for the whole plan and does not need renewing');
+    }
+
+    const planResult = await this.pool.query('SELECT status FROM payment_plans WHERE id = $1', [current.paymentPlanId]);
+    if (!['active', 'overdue'].includes(planResult.rows[0]?.status)) {
+      throw new Error(`Add-ons cannot be renewed on a ${planResult.rows[0]?.status} plan`);
+    }
+
+    const previousTermMonths = Math.round(
+      (new Date(current.endsOn).getFullYear() - new Date(current.startsOn).getFullYear()) * 12 +
+        new Date(current.endsOn).getMonth() - new Date(current.startsOn).getMonth()
+    );
+    const renewal: PlanAddonInput = {
+      addonType: current.addonType,
+      amount: changes.amount ?? current.amount,
+      frequency: current.frequency,
+      description: current.description,
+      provider: changes.provider ?? current.provider,
+      termMonths: changes.termMonths ?? previousTermMonths,
+    };
+    const startsOn = new Date(current.endsOn);
+    const endsOn = PaymentScheduleService.addMonths(startsOn, renewal.termMonths!);
+
+    const renewedId = await withTransaction(this.pool, async (client) => {
+      const locked = await client.query(
+        `UPDATE plan_addons SET status = 'renewed', updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND status IN ('active', 'expired')
+         RETURNING id`,
+        [addonId]
+      );
+      if (locked.rows.length === 0) {
+        throw new Error('Add-on has already been renewed or cancelled');
+      }
+
+      const id = await this.insertAddon(client, current.paymentPlanId, renewal, startsOn, endsOn, renewedBy, addonId);
+      await this.chargeOpenInstallments(client, current.paymentPlanId, id, renewal, startsOn, endsOn);
+      return id;
+    });
+
+    return (await this.getAddon(renewedId))!;
+  }
+
+  /**
+   * Cancel an add-on. Charges on installments that have fallen due stay owed, since the cover was
+   * provided; whatever is unpaid on later installments is taken off them.
+   */
+  async cancelAddon(addonId: string, cancelledBy: string, reason: string): Promise<{ addon: PlanAddon; cancelledAmount: number }> {
+    const cancelledAmount = await withTransaction(this.pool, async (client) => {
+      const locked = await client.query(
+        `UPDATE plan_addons
+         SET status = 'cancelled', cancelled_at = CURRENT_TIMESTAMP, cancelled_by = $2, cancellation_reason = $3,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND status = 'active'
+         RETURNING id`,
+        [addonId, cancelledBy, reason]
+      );
+      if (locked.rows.length === 0) {
+        const exists = await client.query('SELECT status FROM plan_addons WHERE id = $1', [addonId]);
+        throw new Error(exists.rows.length === 0 ? 'Add-on not found' : `Add-on is ${exists.rows[0].status}`);
+      }
+
+      return this.cancelCharges(
+        client,
+        `c.plan_addon_id = $1 AND pi.due_date > CURRENT_DATE`,
+        [addonId],
+        'cancelled'
+      );
+    });
+
+    // Installments already prepaid may now be covered
+    const addon = (await this.getAddon(addonId))!;
+    await this.installmentService.syncPlan(addon.paymentPlanId);
+    return { addon, cancelledAmount };
+  }
+
+  /**
+   * Close a plan's add-ons when it is settled early. The settlement quote left out charges on
+   * installments due after it was issued, so those are cancelled; the rest were paid by the settlement.
+   */
+  async endForSettlement(planId: string, quoteId: string, client?: PoolClient): Promise<void> {
+    await inTransaction(this.pool, client, async (client) => {
+      await this.cancelCharges(
+        client,
+        `c.payment_plan_id = $1 AND pi.due_date > (SELECT created_at::date FROM settlement_quotes WHERE id = $2)`,
+        [planId, quoteId],
+        'settled'
+      );
+
+      await client.query(
+        `UPDATE installment_addon_charges
+         SET status = 'settled', updated_at = CURRENT_TIMESTAMP
+         WHERE payment_plan_id = $1 AND status = ANY($2)`,
+        [planId, OPEN_CHARGE_STATUSES]
+      );
+
+      await client.query(
+        `UPDATE plan_addons SET status = 'ended', updated_at = CURRENT_TIMESTAMP
+         WHERE payment_plan_id = $1 AND status = 'active'`,
+        [planId]
+      );
+    });
+  }
+
+  /**
+   * Carry unpaid charges from installments replaced by a restructure onto the new schedule. Each keeps
+   * its charge date and goes on the first new installment due on or after it; arrears go on the first.
+   */
+  async moveChargesToRestructuredSchedule(planId: string, restructureId: string, client?: PoolClient): Promise<number> {
+    return inTransaction(this.pool, client, async (client) => {
+      const charges = await client.query(
+        `SELECT c.* FROM installment_addon_charges c
+         JOIN payment_installments pi ON c.installment_id = pi.id
+         WHERE pi.superseded_by = $1 AND c.status = ANY($2)
+         ORDER BY c.charge_date ASC`,
+        [restructureId, OPEN_CHARGE_STATUSES]
+      );
+      const newInstallments = await client.query(
+        `SELECT id, due_date FROM payment_installments WHERE plan_restructure_id = $1 ORDER BY installment_number ASC`,
+        [restructureId]
+      );
+      if (newInstallments.rows.length === 0) {
+        return 0;
+      }
+
+      for (const row of charges.rows) {
+        const remaining = round2(parseFloat(row.amount) - parseFloat(row.amount_paid) - parseFloat(row.cancelled_amount));
+        const chargeDate = new Date(row.charge_date);
+        const target =
+          newInstallments.rows.find((installment) => new Date(installment.due_date) >= chargeDate) ||
+          newInstallments.rows[newInstallments.rows.length - 1];
+
+        await client.query(
+          `UPDATE installment_addon_charges SET status = 'moved', updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+          [row.id]
+        );
+        await client.query(
+          `INSERT INTO installment_addon_charges (plan_addon_id, payment_plan_id, installment_id, charge_date, amount, moved_from)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [row.plan_addon_id, planId, target.id, row.charge_date, remaining, row.id]
+        );
+        await client.query(
+          `UPDATE payment_installments
+           SET amount_due = amount_due + $1, addon_due = addon_due + $1, updated_at = CURRENT_TIMESTAMP
+           WHERE id = $2`,
+          [remaining, target.id]
+        );
+      }
+      return charges.rows.length;
+    });
+  }
+
+  /**
+   * Mark add-ons whose cover period has ended as expired
+   */
+  async expireLapsedAddons(): Promise<PlanAddon[]> {
+    const result = await this.pool.query(
+      `UPDATE plan_addons SET status = 'expired', updated_at = CURRENT_TIMESTAMP
+       WHERE status = 'active' AND ends_on IS NOT NULL AND ends_on <= CURRENT_DATE
+       RETURNING id`
+    );
+    return Promise.all(result.rows.map(async (row) => (await this.getAddon(row.id))!));
+  }
+
+  /**
+   * Active add-ons whose cover ends within the next `withinDays` days
+   */
+  async listRenewalsDue(withinDays: number): Promise<PlanAddon[]> {
+    const result = await this.pool.query(
+      `${this.addonQuery()}
+       WHERE a.status = 'active' AND a.ends_on IS NOT NULL AND a.ends_on <= CURRENT_DATE + $1::int
+       GROUP BY a.id
+       ORDER BY a.ends_on ASC`,
+      [withinDays]
+    );
+    return result.rows.map((row) => this.mapAddon(row));
+  }
+
+  async getAddon(addonId: string, db: Queryable = this.pool): Promise<PlanAddon | null> {
+    const result = await db.query(`${this.addonQuery()} WHERE a.id = $1 GROUP BY a.id`, [addonId]);
+    return result.rows.length > 0 ? this.mapAddon(result.rows[0]) : null;
+  }
+
+  async getAddonsForPlan(planId: string): Promise<PlanAddon[]> {
+    const result = await this.pool.query(
+      `${this.addonQuery()} WHERE a.payment_plan_id = $1 GROUP BY a.id ORDER BY a.created_at ASC`,
+      [planId]
+    );
+    return result.rows.map((row) => this.mapAddon(row));
+  }
+
+  /**
+   * The charges for an add-on, or for a whole plan, in installment order
+   */
+  async getCharges(filter: { addonId?: string; planId?: string }): Promise<AddonCharge[]> {
+    const result = await this.pool.query(
+      `SELECT c.*, pi.installment_number, pi.due_date, a.addon_type
+       FROM installment_addon_charges c
+       JOIN payment_installments pi ON c.installment_id = pi.id
+       JOIN plan_addons a ON c.plan_addon_id = a.id
+       WHERE ${filter.addonId ? 'c.plan_addon_id' : 'c.payment_plan_id'} = $1
+       ORDER BY pi.installment_number ASC, c.created_at ASC`,
+      [filter.addonId || filter.planId]
+    );
+    return result.rows.map((row) => this.mapCharge(row));
+  }
+
+  /**
+   * Unpaid charges on a plan's installments, in the order payments reach them
+   */
+  async getOpenCharges(planId: string, db: Queryable = this.pool): Promise<AddonCharge[]> {
+    const result = await db.query(
+      `SELECT c.*, pi.installment_number, pi.due_date, a.addon_type
+       FROM installment_addon_charges c
+       JOIN payment_installments pi ON c.installment_id = pi.id
+       JOIN plan_addons a ON c.plan_addon_id = a.id
+       WHERE c.payment_plan_id = $1 AND c.status = ANY($2)
+       ORDER BY pi.installment_number ASC, c.created_at ASC`,
+      [planId, OPEN_CHARGE_STATUSES]
+    );
+    return result.rows.map((row) => this.mapCharge(row));
+  }
+
+  private async insertAddon(
+    client: PoolClient,
+    planId: string,
+    addon: PlanAddonInput,
+    startsOn: Date,
+    endsOn: Date | undefined,
+    createdBy?: string,
+    renewalOf?: string
+  ): Promise<string> {
+    const result = await client.query(
+      `INSERT INTO plan_addons (
+        payment_plan_id, addon_type, description, provider, amount, frequency, starts_on, ends_on, renewal_of, created_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING id`,
+      [
+        planId,
+        addon.addonType,
+        addon.description || null,
+        addon.provider || null,
+        addon.amount,
+        addon.frequency,
+        startsOn,
+        endsOn || null,
+        renewalOf || null,
+        createdBy || null,
+      ]
+    );
+    return result.rows[0].id;
+  }
+
+  /**
+   * Charge an add-on to the plan's open installments in its cover period
+   */
+  private async chargeOpenInstallments(
+    client: PoolClient,
+    planId: string,
+    addonId: string,
+    addon: PlanAddonInput,
+    startsOn: Date,
+    endsOn: Date | undefined
+  ): Promise<void> {
+    const openResult = await client.query(
+      `SELECT id, installment_number, due_date FROM payment_installments
+       WHERE payment_plan_id = $1 AND status IN ('pending', 'partially_paid')
+       ORDER BY installment_number ASC`,
+      [planId]
+    );
+    const installments = openResult.rows.map((row) => ({
+      id: row.id,
+      installmentNumber: row.installment_number,
+      dueDate: new Date(row.due_date),
+    }));
+
+    const charges = PaymentScheduleService.scheduleAddonCharges(addon, startsOn, endsOn, installments);
+    if (charges.length === 0) {
+      throw new Error('The plan has no open installments in the add-on cover period');
+    }
+
+    for (const charge of charges) {
+      const installment = installments.find((i) => i.installmentNumber === charge.installmentNumber)!;
+      await client.query(
+        `INSERT INTO installment_addon_charges (plan_addon_id, payment_plan_id, installment_id, charge_date, amount)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [addonId, planId, installment.id, charge.chargeDate, charge.amount]
+      );
+      await client.query(
+        `UPDATE payment_installments
+         SET amount_due = amount_due + $1, addon_due = addon_due + $1, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2`,
+        [charge.amount, installment.id]
+      );
+    }
+  }
+
+  /**
+   * Take the unpaid part of matching open charges off their installments. Installments that are
+   * then covered by what was already paid on them close. Returns the amount taken off.
+   */
+  private async cancelCharges(
+    client: PoolClient,
+    condition: string,
+    params: any[],
+    status: 'cancelled' | 'settled'
+  ): Promise<number> {
+    const charges = await client.query(
+      `SELECT c.id, c.installment_id, c.amount - c.amount_paid - c.cancelled_amount AS remaining
+       FROM installment_addon_charges c
+       JOIN payment_installments pi ON c.installment_id = pi.id
+       WHERE ${condition} AND c.status = ANY($${params.length + 1})`,
+      [...params, OPEN_CHARGE_STATUSES]
+    );
+
+    let cancelled = 0;
+    for (const row of charges.rows) {
+      const remaining = round2(parseFloat(row.remaining));
+      await client.query(
+        `UPDATE installment_addon_charges
+         SET cancelled_amount = cancelled_amount + $1, status = $2, cancelled_at = CURRENT_TIMESTAMP,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $3`,
+        [remaining, status, row.id]
+      );
+      await client.query(
+        `UPDATE payment_installments
+         SET amount_due = amount_due - $1,
+             addon_due = addon_due - $1,
+             status = CASE WHEN status IN ('pending', 'partially_paid') AND amount_paid >= amount_due - $1 THEN 'paid' ELSE status END,
+             paid_at = CASE WHEN status IN ('pending', 'partially_paid') AND amount_paid >= amount_due - $1 THEN CURRENT_TIMESTAMP ELSE paid_at END,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2`,
+        [remaining, row.installment_id]
+      );
+      cancelled += remaining;
+    }
+    return round2(cancelled);
+  }
+
+  private addonQuery(): string {
+    return `SELECT a.*,
+         COALESCE(SUM(c.amount) FILTER (WHERE c.moved_from IS NULL), 0) AS total_charged,
+         COALESCE(SUM(c.amount_paid), 0) AS total_paid,
+         COALESCE(SUM(c.cancelled_amount), 0) AS total_cancelled,
+         COALESCE(SUM(c.amount - c.amount_paid - c.cancelled_amount) FILTER (WHERE c.status IN ('pending', 'partially_paid')), 0) AS outstanding
+       FROM plan_addons a
+       LEFT JOIN installment_addon_charges c ON c.plan_addon_id = a.id`;
+  }
+
+  private mapAddon(row: any): PlanAddon {
+    return {
+      id: row.id,
+      paymentPlanId: row.payment_plan_id,
+      addonType: row.addon_type,
+      description: row.description || undefined,
+      provider: row.provider || undefined,
+      amount: parseFloat(row.amount),
+      frequency: row.frequency,
+      startsOn: row.starts_on,
+      endsOn: row.ends_on || undefined,
+      status: row.status,
+      renewalOf: row.renewal_of || undefined,
+      totalCharged: parseFloat(row.total_charged),
+      totalPaid: parseFloat(row.total_paid),
+      totalCancelled: parseFloat(row.total_cancelled),
+      outstanding: parseFloat(row.outstanding),
+      cancelledAt: row.cancelled_at || undefined,
+      cancelledBy: row.cancelled_by || undefined,
+      cancellationReason: row.cancellation_reason || undefined,
+      createdBy: row.created_by || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private mapCharge(row: any): AddonCharge {
+    return {
+      id: row.id,
+      planAddonId: row.plan_addon_id,
+      paymentPlanId: row.payment_plan_id,
+      installmentId: row.installment_id,
+      installmentNumber: row.installment_number ?? undefined,
+      dueDate: row.due_date || undefined,
+      addonType: row.addon_type || undefined,
+      chargeDate: row.charge_date,
+      amount: parseFloat(row.amount),
+      amountPaid: parseFloat(row.amount_paid),
+      cancelledAmount: parseFloat(row.cancelled_amount),
+      status: row.status,
+      movedFrom: row.moved_from || undefined,
+      cancelledAt: row.cancelled_at || undefined,
+      createdAt: row.created_at,
+    };
+  }
+}
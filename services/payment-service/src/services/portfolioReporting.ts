@@ -0,0 +1,432 @@
+/**
+ * Portfolio Reporting
+ * Portfolio-at-risk, roll rates and collection efficiency, overall or broken down by vehicle type,
+ * retailer, credit tier and origination cohort. A daily snapshot keeps the figures for trending.
+ */
+
+import { Pool } from 'pg';
+import { formatDate } from './statements';
+
+export type ReportDimension = 'portfolio' | 'vehicle_type' | 'retailer' | 'credit_tier' | 'cohort';
+
+export const REPORT_DIMENSIONS: ReportDimension[] = ['portfolio', 'vehicle_type', 'retailer', 'credit_tier', 'cohort'];
+
+export type DelinquencyBucket = 'current' | '1-30' | '31-60' | '61-90' | '90+';
+
+export const DELINQUENCY_BUCKETS: DelinquencyBucket[] = ['current', '1-30', '31-60', '61-90', '90+'];
+
+// PAR thresholds in days past due: a plan counts towards PARn once it is at least n days behind
+const PAR_THRESHOLDS = { par1: 1, par30: 30, par60: 60, par90: 90 };
+
+type ParKey = keyof typeof PAR_THRESHOLDS;
+
+export interface PlanPosition {
+  paymentPlanId: string;
+  vehicleType: string;
+  retailer: string;
+  creditTier: string;
+  cohort: string; // Origination month, YYYY-MM
+  outstandingBalance: number;
+  daysPastDue: number;
+  bucket: DelinquencyBucket;
+}
+
+export interface PortfolioAtRisk {
+  segment: string;
+  planCount: number;
+  outstandingBalance: number;
+  parBalance: Record<ParKey, number>;
+  parPercent: Record<ParKey, number>;
+}
+
+export interface CollectionEfficiency {
+  segment: string;
+  installmentCount: number;
+  amountDue: number;
+  amountCollected: number;
+  efficiencyPercent: number;
+}
+
+export interface RollRate {
+  segment: string;
+  fromBucket: DelinquencyBucket;
+  toBucket: DelinquencyBucket | 'closed';
+  planCount: number;
+  balance: number; // Balance in the from bucket at the start of the period
+  ratePercent: number; // Share of the from bucket's balance that ended up in the to bucket
+}
+
+export interface PortfolioSnapshot extends PortfolioAtRisk {
+  snapshotDate: string;
+  dimension: ReportDimension;
+  collection: Omit<CollectionEfficiency, 'segment'>;
+}
+
+// Lookback for the collection efficiency kept on each snapshot
+const SNAPSHOT_COLLECTION_DAYS = 30;
+
+const OPEN_INSTALLMENT_STATUSES = ['pending', 'partially_paid', 'overdue'];
+
+// Plans still carrying a receivable; defaulted plans stay in the portfolio until they are written off
+const PORTFOLIO_PLAN_STATUSES = ['active', 'overdue', 'defaulted'];
+
+// Segment columns per dimension, matching the normalized values on PlanPosition
+const SEGMENT_SQL: Record<ReportDimension, string> = {
+  portfolio: `'all'`,
+  vehicle_type: `COALESCE(pp.vehicle_type, 'unknown')`,
+  retailer: `COALESCE(pp.retailer_id::text, 'direct')`,
+  credit_tier: `COALESCE(pp.credit_tier, 'unrated')`,
+  cohort: `to_char(pp.created_at, 'YYYY-MM')`,
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const percent = (part: number, whole: number) => (whole > 0 ? round2((part / whole) * 100) : 0);
+
+export class PortfolioReportingService {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  static bucketFor(daysPastDue: number): DelinquencyBucket {
+    if (daysPastDue <= 0) return 'current';
+    if (daysPastDue <= 30) return '1-30';
+    if (daysPastDue <= 60) return '31-60';
+    if (daysPastDue <= 90) return '61-90';
+    return '90+';
+  }
+
+  static segmentOf(position: PlanPosition, dimension: ReportDimension): string {
+    switch (dimension) {
+      case 'vehicle_type':
+        return position.vehicleType;
+      case 'retailer':
+        return position.retailer;
+      case 'credit_tier':
+        return position.creditTier;
+      case 'cohort':
+        return position.cohort;
+      default:
+        return 'all';
+    }
+  }
+
+  /**
+   * PAR1/30/60/90 per segment: the outstanding balance of plans at least that many days behind,
+   * as an amount and as a share of the segment's outstanding balance.
+   * Pure calculation - nothing is written.
+   */
+  static summarizePortfolio(positions: PlanPosition[], dimension: ReportDimension): PortfolioAtRisk[] {
+    const segments = new Map<string, PortfolioAtRisk>();
+
+    for (const position of positions) {
+      const segment = PortfolioReportingService.segmentOf(position, dimension);
+      let summary = segments.get(segment);
+      if (!summary) {
+        summary = {
+          segment,
+          planCount: 0,
+          outstandingBalance: 0,
+          parBalance: { par1: 0, par30: 0, par60: 0, par90: 0 },
+          parPercent: { par1: 0, par30: 0, par60: 0, par90: 0 },
+        };
+        segments.set(segment, summary);
+      }
+
+      summary.planCount++;
+      summary.outstandingBalance += position.outstandingBalance;
+      for (const [key, threshold] of Object.entries(PAR_THRESHOLDS) as Array<[ParKey, number]>) {
+        if (position.daysPastDue >= threshold) {
+          summary.parBalance[key] += position.outstandingBalance;
+        }
+      }
+    }
+
+    return Array.from(segments.values())
+      .map((summary) => {
+        const parBalance = { ...summary.parBalance };
+        const parPercent = { ...summary.parPercent };
+        for (const key of Object.keys(PAR_THRESHOLDS) as ParKey[]) {
+          parBalance[key] = round2(parBalance[key]);
+          parPercent[key] = percent(summary.parBalance[key], summary.outstandingBalance);
+        }
+        return { ...summary, outstandingBalance: round2(summary.outstandingBalance), parBalance, parPercent };
+      })
+      .sort((a, b) => a.segment.localeCompare(b.segment));
+  }
+
+  /**
+   * How each delinquency bucket's balance moved between two positions of the portfolio.
+   * Plans missing from the later positions (paid off, settled or written off) roll to 'closed'.
+   * Pure calculation - nothing is written.
+   */
+  static calculateRollRates(from: PlanPosition[], to: PlanPosition[], dimension: ReportDimension): RollRate[] {
+    const laterBuckets = new Map(to.map((position) => [position.paymentPlanId, position.bucket]));
+    const moves = new Map<string, RollRate>();
+    const bucketBalances = new Map<string, number>();
+
+    for (const position of from) {
+      const segment = PortfolioReportingService.segmentOf(position, dimension);
+      const toBucket = laterBuckets.get(position.paymentPlanId) || 'closed';
+      const key = `${segment}|${position.bucket}|${toBucket}`;
+
+      let move = moves.get(key);
+      if (!move) {
+        move = { segment, fromBucket: position.bucket, toBucket, planCount: 0, balance: 0, ratePercent: 0 };
+        moves.set(key, move);
+      }
+      move.planCount++;
+      move.balance += position.outstandingBalance;
+
+      const bucketKey = `${segment}|${position.bucket}`;
+      bucketBalances.set(bucketKey, (bucketBalances.get(bucketKey) || 0) + position.outstandingBalance);
+    }
+
+    const bucketOrder = [...DELINQUENCY_BUCKETS, 'closed'];
+    return Array.from(moves.values())
+      .map((move) => ({
+        ...move,
+        balance: round2(move.balance),
+        ratePercent: percent(move.balance, bucketBalances.get(`${move.segment}|${move.fromBucket}`) || 0),
+      }))
+      .sort(
+        (a, b) =>
+          a.segment.localeCompare(b.segment) ||
+          bucketOrder.indexOf(a.fromBucket) - bucketOrder.indexOf(b.fromBucket) ||
+          bucketOrder.indexOf(a.toBucket) - bucketOrder.indexOf(b.toBucket)
+      );
+  }
+
+  /**
+   * Outstanding balance and days past due of every plan in the portfolio as it stands now
+   */
+  async getCurrentPositions(asOf: string = new Date().toISOString().slice(0, 10)): Promise<PlanPosition[]> {
+    const result = await this.pool.query(
+      `SELECT pp.id,
+              ${SEGMENT_SQL.vehicle_type} AS vehicle_type,
+              ${SEGMENT_SQL.retailer} AS retailer,
+              ${SEGMENT_SQL.credit_tier} AS credit_tier,
+              ${SEGMENT_SQL.cohort} AS cohort,
+              COALESCE(SUM(pi.amount_due - pi.amount_paid) FILTER (WHERE pi.status = ANY($2)), 0) AS outstanding_balance,
+              COALESCE(MAX($1::date - pi.due_date) FILTER (WHERE pi.status = ANY($2) AND pi.due_date < $1::date), 0) AS days_past_due
+       FROM payment_plans pp
+       LEFT JOIN payment_installments pi ON pi.payment_plan_id = pp.id
+       WHERE pp.status = ANY($3)
+       GROUP BY pp.id`,
+      [asOf, OPEN_INSTALLMENT_STATUSES, PORTFOLIO_PLAN_STATUSES]
+    );
+
+    return result.rows.map((row) => {
+      const daysPastDue = parseInt(row.days_past_due);
+      return {
+        paymentPlanId: row.id,
+        vehicleType: row.vehicle_type,
+        retailer: row.retailer,
+        creditTier: row.credit_tier,
+        cohort: row.cohort,
+        outstandingBalance: parseFloat(row.outstanding_balance),
+        daysPastDue,
+        bucket: PortfolioReportingService.bucketFor(daysPastDue),
+      };
+    });
+  }
+
+  async getPortfolioAtRisk(dimension: ReportDimension): Promise<PortfolioAtRisk[]> {
+    return PortfolioReportingService.summarizePortfolio(await this.getCurrentPositions(), dimension);
+  }
+
+  /**
+   * Share of the amount due on installments falling due in the period that has been collected.
+   * Installments closed by an early settlement count as collected; restructured ones are left out.
+   */
+  async getCollectionEfficiency(from: string, to: string, dimension: ReportDimension): Promise<CollectionEfficiency[]> {
+    const result = await this.pool.query(
+      `SELECT ${SEGMENT_SQL[dimension]} AS segment,
+              COUNT(*) AS installment_count,
+              COALESCE(SUM(pi.amount_due), 0) AS amount_due,
+              COALESCE(SUM(CASE WHEN pi.status = 'settled' THEN pi.amount_due ELSE LEAST(pi.amount_paid, pi.amount_due) END), 0) AS amount_collected
+       FROM payment_installments pi
+       JOIN payment_plans pp ON pp.id = pi.payment_plan_id
+       WHERE pi.due_date BETWEEN $1 AND $2
+         AND pi.status != 'superseded'
+       GROUP BY 1
+       ORDER BY 1`,
+      [from, to]
+    );
+
+    return result.rows.map((row) => {
+      const amountDue = parseFloat(row.amount_due);
+      const amountCollected = parseFloat(row.amount_collected);
+      return {
+        segment: row.segment,
+        installmentCount: parseInt(row.installment_count),
+        amountDue: round2(amountDue),
+        amountCollected: round2(amountCollected),
+        efficiencyPercent: percent(amountCollected, amountDue),
+      };
+    });
+  }
+
+  /**
+   * Roll rates between the snapshots taken on two dates
+   */
+  async getRollRates(from: string, to: string, dimension: ReportDimension): Promise<RollRate[]> {
+    const [fromPositions, toPositions] = await Promise.all([this.getSnapshotPositions(from), this.getSnapshotPositions(to)]);
+    if (fromPositions.length === 0) {
+      throw new Error(`No portfolio snapshot was taken on ${from}`);
+    }
+    if (toPositions.length === 0) {
+      throw new Error(`No portfolio snapshot was taken on ${to}`);
+    }
+    return PortfolioReportingService.calculateRollRates(fromPositions, toPositions, dimension);
+  }
+
+  /**
+   * Record today's plan positions and the metrics for every dimension. Taking the snapshot again
+   * on the same day replaces it.
+   */
+  async takeSnapshot(snapshotDate: string = new Date().toISOString().slice(0, 10)): Promise<PortfolioSnapshot[]> {
+    const positions = await this.getCurrentPositions(snapshotDate);
+
+    await this.pool.query('DELETE FROM portfolio_snapshot_plans WHERE snapshot_date = $1', [snapshotDate]);
+    await this.pool.query('DELETE FROM portfolio_snapshots WHERE snapshot_date = $1', [snapshotDate]);
+    for (const position of positions) {
+      await this.pool.query(
+        `INSERT INTO portfolio_snapshot_plans (
+          snapshot_date, payment_plan_id, vehicle_type, retailer, credit_tier, cohort,
+          outstanding_balance, days_past_due, bucket
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+        [
+          snapshotDate,
+          position.paymentPlanId,
+          position.vehicleType,
+          position.retailer,
+          position.creditTier,
+          position.cohort,
+          position.outstandingBalance,
+          position.daysPastDue,
+          position.bucket,
+        ]
+      );
+    }
+
+    const collectionFrom = formatDate(new Date(new Date(snapshotDate).getTime() - (SNAPSHOT_COLLECTION_DAYS - 1) * 86400000));
+
+    const snapshots: PortfolioSnapshot[] = [];
+    for (const dimension of REPORT_DIMENSIONS) {
+      const collection = new Map(
+        (await this.getCollectionEfficiency(collectionFrom, snapshotDate, dimension)).map((row) => [row.segment, row])
+      );
+
+      for (const summary of PortfolioReportingService.summarizePortfolio(positions, dimension)) {
+        const efficiency = collection.get(summary.segment);
+        const result = await this.pool.query(
+          `INSERT INTO portfolio_snapshots (
+            snapshot_date, dimension, segment, plan_count, outstanding_balance,
+            par1_balance, par30_balance, par60_balance, par90_balance,
+            installment_count, amount_due, amount_collected
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+          RETURNING *`,
+          [
+            snapshotDate,
+            dimension,
+            summary.segment,
+            summary.planCount,
+            summary.outstandingBalance,
+            summary.parBalance.par1,
+            summary.parBalance.par30,
+            summary.parBalance.par60,
+            summary.parBalance.par90,
+            efficiency?.installmentCount || 0,
+            efficiency?.amountDue || 0,
+            efficiency?.amountCollected || 0,
+          ]
+        );
+        snapshots.push(this.mapSnapshot(result.rows[0]));
+      }
+    }
+
+    return snapshots;
+  }
+
+  /**
+   * Snapshot metrics over time for trending, oldest first
+   */
+  async getSnapshots(filters: {
+    dimension: ReportDimension;
+    segment?: string;
+    from?: string;
+    to?: string;
+  }): Promise<PortfolioSnapshot[]> {
+    const conditions = ['dimension = $1'];
+    const params: any[] = [filters.dimension];
+
+    if (filters.segment) {
+      params.push(filters.segment);
+      conditions.push(`segment = $${params.length}`);
+    }
+    if (filters.from) {
+      params.push(filters.from);
+      conditions.push(`snapshot_date >= $${params.length}`);
+    }
+    if (filters.to) {
+      params.push(filters.to);
+      conditions.push(`snapshot_date <= $${params.length}`);
+    }
+
+    const result = await this.pool.query(
+      `SELECT * FROM portfolio_snapshots WHERE ${conditions.join(' AND ')} ORDER BY snapshot_date ASC, segment ASC`,
+      params
+    );
+    return result.rows.map((row) => this.mapSnapshot(row));
+  }
+
+  private async getSnapshotPositions(snapshotDate: string): Promise<PlanPosition[]> {
+    const result = await this.pool.query('SELECT * FROM portfolio_snapshot_plans WHERE snapshot_date = $1', [snapshotDate]);
+    return result.rows.map((row) => ({
+      paymentPlanId: row.payment_plan_id,
+      vehicleType: row.vehicle_type,
+      retailer: row.retailer,
+      creditTier: row.credit_tier,
+      cohort: row.cohort,
+      outstandingBalance: parseFloat(row.outstanding_balance),
+      daysPastDue: row.days_past_due,
+      bucket: row.bucket,
+    }));
+  }
+
+  private mapSnapshot(row: any): PortfolioSnapshot {
+    const outstandingBalance = parseFloat(row.outstanding_balance);
+    const parBalance = {
+      par1: parseFloat(row.par1_balance),
+      par30: parseFloat(row.par30_balance),
+      par60: parseFloat(row.par60_balance),
+      par90: parseFloat(row.par90_balance),
+    };
+    const amountDue = parseFloat(row.amount_due);
+    const amountCollected = parseFloat(row.amount_collected);
+
+    return {
+      snapshotDate: formatDate(row.snapshot_date),
+      dimension: row.dimension,
+      segment: row.segment,
+      planCount: row.plan_count,
+      outstandingBalance,
+      parBalance,
+      parPercent: {
+        par1: percent(parBalance.par1, outstandingBalance),
+        par30: percent(parBalance.par30, outstandingBalance),
+        par60: percent(parBalance.par60, outstandingBalance),
+        par90: percent(parBalance.par90, outstandingBalance),
+      },
+      collection: {
+        installmentCount: row.installment_count,
+        amountDue,
+        amountCollected,
+        efficiencyPercent: percent(amountCollected, amountDue),
+      },
+    };
+  }
+}
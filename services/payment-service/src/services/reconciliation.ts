@@ -0,0 +1,533 @@
+/**
+ * Mobile Money Reconciliation Service
+ * Imports provider settlement statements (MTN and Airtel CSV exports) and matches each entry
+ * against our payments and the callbacks we received, so payments stuck awaiting confirmation and
+ * callbacks that never arrived are caught. Anything that does not line up is kept as an
+ * exception until an admin resolves it.
+ */
+
+import { Pool } from 'pg';
+
+export type StatementProvider = 'mtn' | 'airtel';
+export type StatementEntryStatus = 'successful' | 'failed' | 'pending';
+export type MatchStatus = 'matched' | 'unmatched' | 'duplicate' | 'amount_mismatch' | 'status_mismatch' | 'ignored';
+export type ExceptionResolution = 'confirm_payment' | 'link_payment' | 'dismiss' | 'auto_matched';
+
+export interface StatementEntry {
+  providerTransactionId: string;
+  reference?: string; // The reference we sent when initiating the payment (our payment ID)
+  amount: number;
+  currency: string;
+  transactionDate?: Date;
+  status: StatementEntryStatus;
+  phoneNumber?: string;
+  raw: Record<string, string>;
+}
+
+export interface ReconciliationStatement {
+  id: string;
+  provider: StatementProvider;
+  fileName?: string;
+  entryCount: number;
+  matchedCount: number;
+  exceptionCount: number;
+  importedBy?: string;
+  createdAt: Date;
+}
+
+export interface ReconciliationEntry {
+  id: string;
+  statementId: string;
+  provider: StatementProvider;
+  providerTransactionId: string;
+  reference?: string;
+  amount: number;
+  currency: string;
+  transactionDate?: Date;
+  status: StatementEntryStatus;
+  paymentId?: string;
+  callbackId?: string;
+  matchStatus: MatchStatus;
+  resolutionStatus?: 'open' | 'resolved'; // Only set on exceptions
+  resolution?: ExceptionResolution;
+  resolutionNotes?: string;
+  resolvedBy?: string;
+  resolvedAt?: Date;
+  createdAt: Date;
+}
+
+export interface MatchedPayment {
+  id: string;
+  amount: number;
+  status: string;
+  callbackId?: string;
+}
+
+// Column names used by each provider's CSV export, in order of preference (lowercased)
+const STATEMENT_COLUMNS: Record<StatementProvider, Record<string, string[]>> = {
+  mtn: {
+    providerTransactionId: ['financial transaction id', 'transaction id', 'id'],
+    reference: ['external transaction id', 'external id', 'reference'],
+    amount: ['amount'],
+    currency: ['currency'],
+    transactionDate: ['date', 'transaction date'],
+    status: ['status'],
+    phoneNumber: ['from', 'msisdn', 'payer'],
+  },
+  airtel: {
+    providerTransactionId: ['transaction id', 'txn id', 'airtel money id'],
+    reference: ['reference', 'external reference', 'partner reference'],
+    amount: ['transaction amount', 'amount'],
+    currency: ['currency'],
+    transactionDate: ['transaction date', 'date'],
+    status: ['transaction status', 'status'],
+    phoneNumber: ['msisdn', 'sender msisdn', 'from'],
+  },
+};
+
+const AMOUNT_TOLERANCE = 0.01;
+
+/**
+ * Split CSV text into rows of fields, honouring quoted fields
+ */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ''));
+}
+
+function normalizeStatus(status: string): StatementEntryStatus {
+  const value = status.trim().toLowerCase();
+  if (['successful', 'success', 'completed', 'ts'].includes(value)) {
+    return 'successful';
+  }
+  if (['failed', 'failure', 'rejected', 'tf', 'cancelled'].includes(value)) {
+    return 'failed';
+  }
+  return 'pending';
+}
+
+export class ReconciliationService {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  /**
+   * Read a provider's CSV export into statement entries.
+   * Pure calculation - nothing is written.
+   */
+  static parseStatement(provider: StatementProvider, content: string): StatementEntry[] {
+    const [header, ...rows] = parseCsv(content);
+    if (!header) {
+      throw new Error('Statement file is empty');
+    }
+
+    const headings = header.map((heading) => heading.trim().toLowerCase());
+    const columns = STATEMENT_COLUMNS[provider];
+    const columnIndex = (field: string) => {
+      for (const name of columns[field]) {
+        const index = headings.indexOf(name);
+        if (index !== -1) {
+          return index;
+        }
+      }
+      return -1;
+    };
+
+    for (const required of ['providerTransactionId', 'amount', 'status']) {
+      if (columnIndex(required) === -1) {
+        throw new Error(`Statement is missing a column for ${required} (expected one of: ${columns[required].join(', ')})`);
+      }
+    }
+
+    return rows.map((fields, rowNumber) => {
+      const value = (field: string) => {
+        const index = columnIndex(field);
+        return index === -1 ? '' : (fields[index] || '').trim();
+      };
+
+      if (!value('providerTransactionId')) {
+        throw new Error(`Missing transaction ID on statement row ${rowNumber + 2}`);
+      }
+
+      const amount = Math.abs(parseFloat(value('amount').replace(/,/g, '')));
+      if (isNaN(amount)) {
+        throw new Error(`Invalid amount on statement row ${rowNumber + 2}`);
+      }
+
+      const transactionDate = value('transactionDate') ? new Date(value('transactionDate')) : undefined;
+
+      return {
+        providerTransactionId: value('providerTransactionId'),
+        reference: value('reference') || undefined,
+        amount: Math.round(amount * 100) / 100,
+        currency: value('currency') || 'UGX',
+        transactionDate: transactionDate && !isNaN(transactionDate.getTime()) ? transactionDate : undefined,
+        status: normalizeStatus(value('status')),
+        phoneNumber: value('phoneNumber') || undefined,
+        raw: Object.fromEntries(header.map((heading, index) => [heading.trim(), fields[index] || ''])),
+      };
+    });
+  }
+
+  /**
+   * Decide how a statement entry lines up with the payment it matched, if any.
+   * Pure calculation - nothing is written.
+   */
+  static classifyEntry(entry: StatementEntry, payment: MatchedPayment | null, isDuplicate: boolean): MatchStatus {
+    if (isDuplicate) {
+      return 'duplicate';
+    }
+
+    if (!payment) {
+      // Failed or pending provider transactions moved no money, so there is nothing to chase
+      return entry.status === 'successful' ? 'unmatched' : 'ignored';
+    }
+
+    if (entry.status === 'successful') {
+      if (Math.abs(entry.amount - payment.amount) > AMOUNT_TOLERANCE) {
+        return 'amount_mismatch';
+      }
+      if (!['completed', 'refunded'].includes(payment.status)) {
+        return 'status_mismatch'; // Money arrived but we never confirmed the payment
+      }
+    } else if (entry.status === 'failed' && payment.status === 'completed') {
+      return 'status_mismatch'; // We recorded money the provider says never arrived
+    }
+
+    return 'matched';
+  }
+
+  /**
+   * Import a statement and match every entry in it
+   */
+  async importStatement(
+    provider: StatementProvider,
+    content: string,
+    fileName?: string,
+    importedBy?: string
+  ): Promise<{ statement: ReconciliationStatement; exceptions: ReconciliationEntry[] }> {
+    const entries = ReconciliationService.parseStatement(provider, content);
+
+    const statementResult = await this.pool.query(
+      `INSERT INTO reconciliation_statements (provider, file_name, entry_count, imported_by)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [provider, fileName || null, entries.length, importedBy || null]
+    );
+    const statementId = statementResult.rows[0].id;
+
+    const seenTransactionIds = new Set<string>();
+    const seenPaymentIds = new Set<string>();
+    const exceptions: ReconciliationEntry[] = [];
+    let matchedCount = 0;
+
+    for (const entry of entries) {
+      const payment = await this.findPayment(entry);
+
+      // The same provider transaction on an earlier statement, or a second credit for a payment already matched
+      let isDuplicate = seenTransactionIds.has(entry.providerTransactionId)
+        || (!!payment && seenPaymentIds.has(payment.id));
+      if (!isDuplicate) {
+        const previous = await this.pool.query(
+          `SELECT 1 FROM reconciliation_entries
+           WHERE (provider = $1 AND provider_transaction_id = $2)
+              OR (payment_id = $3 AND match_status NOT IN ('duplicate', 'ignored') AND status = 'successful')
+           LIMIT 1`,
+          [provider, entry.providerTransactionId, entry.status === 'successful' && payment ? payment.id : null]
+        );
+        isDuplicate = previous.rows.length > 0;
+      }
+
+      seenTransactionIds.add(entry.providerTransactionId);
+      if (payment && entry.status === 'successful') {
+        seenPaymentIds.add(payment.id);
+      }
+
+      const matchStatus = ReconciliationService.classifyEntry(entry, payment, isDuplicate);
+      const isException = !['matched', 'ignored'].includes(matchStatus);
+
+      const inserted = await this.pool.query(
+        `INSERT INTO reconciliation_entries (
+          statement_id, provider, provider_transaction_id, reference, amount, currency, transaction_date,
+          status, phone_number, payment_id, callback_id, match_status, resolution_status, raw_data
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+        RETURNING *`,
+        [
+          statementId,
+          provider,
+          entry.providerTransactionId,
+          entry.reference || null,
+          entry.amount,
+          entry.currency,
+          entry.transactionDate || null,
+          entry.status,
+          entry.phoneNumber || null,
+          payment?.id || null,
+          payment?.callbackId || null,
+          matchStatus,
+          isException ? 'open' : null,
+          JSON.stringify(entry.raw),
+        ]
+      );
+
+      if (isException) {
+        exceptions.push(this.mapEntry(inserted.rows[0]));
+      } else if (matchStatus === 'matched') {
+        matchedCount++;
+      }
+    }
+
+    const updated = await this.pool.query(
+      `UPDATE reconciliation_statements
+       SET matched_count = $1, exception_count = $2
+       WHERE id = $3
+       RETURNING *`,
+      [matchedCount, exceptions.length, statementId]
+    );
+
+    return { statement: this.mapStatement(updated.rows[0]), exceptions };
+  }
+
+  /**
+   * Try open unmatched and status exceptions again - a late callback or a confirmation
+   * may have caught up with them since the statement was imported
+   */
+  async rematchOpenExceptions(): Promise<number> {
+    const result = await this.pool.query(
+      `SELECT * FROM reconciliation_entries
+       WHERE resolution_status = 'open' AND match_status IN ('unmatched', 'status_mismatch')
+       ORDER BY created_at ASC`
+    );
+
+    let resolved = 0;
+    for (const row of result.rows) {
+      const entry = this.toStatementEntry(row);
+      const payment = await this.findPayment(entry);
+      if (ReconciliationService.classifyEntry(entry, payment, false) !== 'matched') {
+        continue;
+      }
+
+      await this.pool.query(
+        `UPDATE reconciliation_entries
+         SET payment_id = $1, callback_id = $2, resolution_status = 'resolved', resolution = 'auto_matched',
+             resolved_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $3`,
+        [payment!.id, payment!.callbackId || null, row.id]
+      );
+      resolved++;
+    }
+
+    return resolved;
+  }
+
+  async listStatements(limit: number = 50): Promise<ReconciliationStatement[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM reconciliation_statements ORDER BY created_at DESC LIMIT $1`,
+      [limit]
+    );
+    return result.rows.map((row) => this.mapStatement(row));
+  }
+
+  async getStatement(statementId: string): Promise<{ statement: ReconciliationStatement; entries: ReconciliationEntry[] } | null> {
+    const statementResult = await this.pool.query('SELECT * FROM reconciliation_statements WHERE id = $1', [statementId]);
+    if (statementResult.rows.length === 0) {
+      return null;
+    }
+
+    const entriesResult = await this.pool.query(
+      `SELECT * FROM reconciliation_entries WHERE statement_id = $1 ORDER BY created_at ASC`,
+      [statementId]
+    );
+
+    return {
+      statement: this.mapStatement(statementResult.rows[0]),
+      entries: entriesResult.rows.map((row) => this.mapEntry(row)),
+    };
+  }
+
+  async listExceptions(filters: { status?: string; matchStatus?: string; provider?: string } = {}): Promise<ReconciliationEntry[]> {
+    const conditions = ['resolution_status IS NOT NULL'];
+    const params: any[] = [];
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`resolution_status = $${params.length}`);
+    }
+    if (filters.matchStatus) {
+      params.push(filters.matchStatus);
+      conditions.push(`match_status = $${params.length}`);
+    }
+    if (filters.provider) {
+      params.push(filters.provider);
+      conditions.push(`provider = $${params.length}`);
+    }
+
+    const result = await this.pool.query(
+      `SELECT * FROM reconciliation_entries WHERE ${conditions.join(' AND ')} ORDER BY created_at ASC`,
+      params
+    );
+    return result.rows.map((row) => this.mapEntry(row));
+  }
+
+  async getEntry(entryId: string): Promise<ReconciliationEntry | null> {
+    const result = await this.pool.query('SELECT * FROM reconciliation_entries WHERE id = $1', [entryId]);
+    return result.rows.length > 0 ? this.mapEntry(result.rows[0]) : null;
+  }
+
+  /**
+   * Close an exception. The caller takes care of any change to the payment itself.
+   */
+  async resolveException(
+    entryId: string,
+    resolution: ExceptionResolution,
+    resolvedBy: string,
+    notes: string,
+    paymentId?: string
+  ): Promise<ReconciliationEntry> {
+    const result = await this.pool.query(
+      `UPDATE reconciliation_entries
+       SET resolution_status = 'resolved', resolution = $1, resolution_notes = $2, resolved_by = $3,
+           resolved_at = CURRENT_TIMESTAMP, payment_id = COALESCE($4, payment_id), updated_at = CURRENT_TIMESTAMP
+       WHERE id = $5 AND resolution_status = 'open'
+       RETURNING *`,
+      [resolution, notes, resolvedBy, paymentId || null, entryId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('Only open exceptions can be resolved');
+    }
+
+    return this.mapEntry(result.rows[0]);
+  }
+
+  /**
+   * Find the payment a statement entry belongs to: by the provider's transaction ID, then by
+   * the reference we sent (our payment ID), then through a callback that carried the transaction ID
+   */
+  private async findPayment(entry: StatementEntry): Promise<MatchedPayment | null> {
+    const byTransaction = await this.pool.query(
+      `SELECT p.id, p.amount, p.status, mmc.id AS callback_id
+       FROM payments p
+       LEFT JOIN LATERAL (
+         SELECT id FROM mobile_money_callbacks WHERE payment_id = p.id ORDER BY created_at DESC LIMIT 1
+       ) mmc ON true
+       WHERE p.external_transaction_id = $1
+          OR ($2::text IS NOT NULL AND p.id::text = $2)
+       ORDER BY (p.external_transaction_id = $1) IS TRUE DESC
+       LIMIT 1`,
+      [entry.providerTransactionId, entry.reference || null]
+    );
+    if (byTransaction.rows.length > 0) {
+      return this.mapMatchedPayment(byTransaction.rows[0]);
+    }
+
+    const byCallback = await this.pool.query(
+      `SELECT p.id, p.amount, p.status, mmc.id AS callback_id
+       FROM mobile_money_callbacks mmc
+       JOIN payments p ON mmc.payment_id = p.id
+       WHERE mmc.callback_data->>'externalTransactionId' = $1
+       ORDER BY mmc.created_at DESC
+       LIMIT 1`,
+      [entry.providerTransactionId]
+    );
+    return byCallback.rows.length > 0 ? this.mapMatchedPayment(byCallback.rows[0]) : null;
+  }
+
+  private toStatementEntry(row: any): StatementEntry {
+    return {
+      providerTransactionId: row.provider_transaction_id,
+      reference: row.reference || undefined,
+      amount: parseFloat(row.amount),
+      currency: row.currency,
+      transactionDate: row.transaction_date || undefined,
+      status: row.status,
+      phoneNumber: row.phone_number || undefined,
+      raw: row.raw_data || {},
+    };
+  }
+
+  private mapMatchedPayment(row: any): MatchedPayment {
+    return {
+      id: row.id,
+      amount: parseFloat(row.amount),
+      status: row.status,
+      callbackId: row.callback_id || undefined,
+    };
+  }
+
+  private mapStatement(row: any): ReconciliationStatement {
+    return {
+      id: row.id,
+      provider: row.provider,
+      fileName: row.file_name || undefined,
+      entryCount: row.entry_count,
+      matchedCount: row.matched_count,
+      exceptionCount: row.exception_count,
+      importedBy: row.imported_by || undefined,
+      createdAt: row.created_at,
+    };
+  }
+
+  private mapEntry(row: any): ReconciliationEntry {
+    return {
+      id: row.id,
+      statementId: row.statement_id,
+      provider: row.provider,
+      providerTransactionId: row.provider_transaction_id,
+      reference: row.reference || undefined,
+      amount: parseFloat(row.amount),
+      currency: row.currency,
+      transactionDate: row.transaction_date || undefined,
+      status: row.status,
+      paymentId: row.payment_id || undefined,
+      callbackId: row.callback_id || undefined,
+      matchStatus: row.match_status,
+      resolutionStatus: row.resolution_status || undefined,
+      resolution: row.resolution || undefined,
+      resolutionNotes: row.resolution_notes || undefined,
+      resolvedBy: row.resolved_by || undefined,
+      resolvedAt: row.resolved_at || undefined,
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,58 @@
+import { RefundService } from './refunds';
+import { PaymentAllocation } from './paymentAllocation';
+
+describe('RefundService', () => {
+  describe('planReversals', () => {
+    const allocations: PaymentAllocation[] = [
+      { installmentId: 'inst-1', allocationType: 'installment', amount: 100 },
+      { penaltyChargeId: 'pen-1', allocationType: 'penalty', amount: 20 },
+      { installmentId: 'inst-2', allocationType: 'installment', amount: 50 },
+      { allocationType: 'credit', amount: 30 },
+    ];
+
+    it('should undo allocations latest first', () => {
+      expect(RefundService.planReversals(60, allocations, 30)).toEqual([
+        { allocationType: 'credit', amount: 30 },
+        { installmentId: 'inst-2', allocationType: 'installment', amount: 30 },
+      ]);
+    });
+
+    it('should reverse every allocation on a full refund', () => {
+      const reversals = RefundService.planReversals(200, allocations, 30);
+
+      expect(reversals).toEqual([...allocations].reverse());
+    });
+
+    it('should never reverse more than the payment allocated', () => {
+      const reversals = RefundService.planReversals(500, allocations, 30);
+
+      expect(reversals.reduce((total, reversal) => total + reversal.amount, 0)).toBe(200);
+    });
+
+    it('should take back spent credit from the installments it paid, latest first', () => {
+      const appliedCredit: PaymentAllocation[] = [
+        { installmentId: 'inst-3', allocationType: 'credit_applied', amount: 10 },
+        { installmentId: 'inst-4', allocationType: 'credit_applied', amount: 15 },
+      ];
+
+      // Only 10 of the 30 credit is left on the plan; the other 20 went to inst-4 then inst-3
+      expect(RefundService.planReversals(30, allocations, 10, appliedCredit)).toEqual([
+        { installmentId: 'inst-4', allocationType: 'credit_applied', amount: 15 },
+        { installmentId: 'inst-3', allocationType: 'credit_applied', amount: 5 },
+        { allocationType: 'credit', amount: 30 },
+      ]);
+    });
+
+    it('should leave applied credit alone while the plan still holds enough credit', () => {
+      const appliedCredit: PaymentAllocation[] = [{ installmentId: 'inst-3', allocationType: 'credit_applied', amount: 10 }];
+
+      expect(RefundService.planReversals(20, allocations, 30, appliedCredit)).toEqual([{ allocationType: 'credit', amount: 20 }]);
+    });
+
+    it('should round the refund to the cent', () => {
+      expect(RefundService.planReversals(10.126, [{ installmentId: 'inst-1', allocationType: 'installment', amount: 33.33 }], 0)).toEqual([
+        { installmentId: 'inst-1', allocationType: 'installment', amount: 10.13 },
+      ]);
+    });
+  });
+});
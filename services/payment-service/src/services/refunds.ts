@@ -0,0 +1,629 @@
+/**
+ * Refund Service
+ * Pays money back to customers through a mobile money disbursement and reverses whatever the
+ * refunded payment paid for, re-opening the installments and penalties it had cleared.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { EncryptionService } from '@rent-to-own/encryption';
+import { MessageQueueClient } from '@rent-to-own/message-queue';
+import { MobileMoneyService } from './mobileMoney';
+import { InstallmentService } from './installments';
+import { PaymentScheduleService } from './paymentSchedule';
+import { PaymentAllocation } from './paymentAllocation';
+import { RetailerSettlementService } from './retailerSettlements';
+import { OutboxService } from './outbox';
+import { withTransaction } from './transaction';
+
+export type RefundStatus = 'pending' | 'processing' | 'completed' | 'failed';
+export type RefundSource = 'manual' | 'application_rejected' | 'reservation_expired';
+
+export interface RefundRequest {
+  amount?: number; // Defaults to everything on the payment not yet refunded
+  reason: string;
+  source?: RefundSource;
+  requestedBy?: string;
+  phoneNumber?: string; // Overrides the number the payment was collected from
+  mobileMoneyProvider?: string;
+}
+
+export interface Refund {
+  id: string;
+  paymentId: string;
+  paymentPlanId: string;
+  userId: string;
+  amount: number;
+  reason: string;
+  source: RefundSource;
+  status: RefundStatus;
+  mobileMoneyProvider?: string;
+  externalTransactionId?: string;
+  failureReason?: string;
+  requestedBy?: string;
+  completedAt?: Date;
+  createdAt: Date;
+}
+
+export interface RefundResult {
+  refund: Refund;
+  payment: any;
+  reversals: PaymentAllocation[];
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export class RefundService {
+  private pool: Pool;
+  private mobileMoneyService: MobileMoneyService;
+  private encryptionService: EncryptionService;
+  private installmentService: InstallmentService;
+  private retailerSettlementService: RetailerSettlementService;
+  private outboxService: OutboxService;
+
+  constructor(
+    pool: Pool,
+    mobileMoneyService: MobileMoneyService,
+    encryptionService: EncryptionService,
+    messageQueue: MessageQueueClient
+  ) {
+    this.pool = pool;
+    this.mobileMoneyService = mobileMoneyService;
+    this.encryptionService = encryptionService;
+    this.installmentService = new InstallmentService(pool);
+    this.retailerSettlementService = new RetailerSettlementService(pool);
+    this.outboxService = new OutboxService(pool, messageQueue);
+  }
+
+  /**
+   * Work out which of a payment's allocations a refund takes back.
+   * Allocations are undone in the opposite order they were made: plan credit, prepaid
+   * installments, penalties, then installments that had fallen due.
+   * Pure calculation - nothing is written.
+   */
+  static planReversals(
+    amount: number,
+    paymentAllocations: PaymentAllocation[],
+    creditBalance: number,
+    appliedCredit: PaymentAllocation[] = []
+  ): PaymentAllocation[] {
+    const reversals: PaymentAllocation[] = [];
+    let remaining = round2(amount);
+    let availableCredit = round2(creditBalance);
+    const appliedRemaining = appliedCredit.map((allocation) => ({ ...allocation }));
+
+    for (const allocation of [...paymentAllocations].reverse()) {
+      if (remaining <= 0) {
+        break;
+      }
+
+      const reversed = Math.min(round2(allocation.amount), remaining);
+      if (reversed <= 0) {
+        continue;
+      }
+      remaining = round2(remaining - reversed);
+
+      if (allocation.allocationType === 'credit') {
+        // Credit the plan has since spent is first taken back from the installments it paid, latest first
+        let shortfall = round2(reversed - availableCredit);
+        availableCredit = Math.max(0, round2(availableCredit - reversed));
+        for (let i = appliedRemaining.length - 1; i >= 0 && shortfall > 0; i--) {
+          const taken = Math.min(round2(appliedRemaining[i].amount), shortfall);
+          if (taken <= 0) {
+            continue;
+          }
+          reversals.push({ ...appliedRemaining[i], amount: taken });
+          appliedRemaining[i].amount = round2(appliedRemaining[i].amount - taken);
+          shortfall = round2(shortfall - taken);
+        }
+      }
+
+      reversals.push({ ...allocation, amount: reversed });
+    }
+
+    return reversals;
+  }
+
+  /**
+   * Refund all or part of a completed payment
+   */
+  async refundPayment(paymentId: string, request: RefundRequest): Promise<RefundResult | null> {
+    // The payment stays locked until the refund is recorded, so concurrent requests cannot both pass the check
+    const reserved = await withTransaction(this.pool, async (client) => {
+      const paymentResult = await client.query('SELECT * FROM payments WHERE id = $1 FOR UPDATE', [paymentId]);
+      if (paymentResult.rows.length === 0) {
+        return null;
+      }
+      const payment = paymentResult.rows[0];
+
+      if (payment.status !== 'completed') {
+        throw new Error('Only completed payments can be refunded');
+      }
+
+      // Refunds still in flight count against what is left, so the same money cannot be refunded twice
+      const refundedResult = await client.query(
+        `SELECT COALESCE(SUM(amount), 0) AS refunded
+         FROM payment_refunds
+         WHERE payment_id = $1 AND status IN ('pending', 'processing', 'completed')`,
+        [paymentId]
+      );
+      const refundable = round2(parseFloat(payment.amount) - parseFloat(refundedResult.rows[0].refunded));
+      const amount = round2(request.amount ?? refundable);
+
+      if (refundable <= 0) {
+        throw new Error('Payment has already been fully refunded');
+      }
+
+      if (!(amount > 0) || amount > refundable) {
+        throw new Error(`Refund amount must be greater than 0 and no more than ${refundable}`);
+      }
+
+      const phoneNumber = request.phoneNumber
+        || (payment.encrypted_phone_number ? this.encryptionService.decrypt(payment.encrypted_phone_number) : payment.phone_number);
+      const provider = request.mobileMoneyProvider || payment.mobile_money_provider;
+      if (!phoneNumber || !provider) {
+        throw new Error('phoneNumber and mobileMoneyProvider are required to refund a payment not made by mobile money');
+      }
+
+      const inserted = await client.query(
+        `INSERT INTO payment_refunds (
+          payment_id, payment_plan_id, user_id, amount, reason, source, status,
+          mobile_money_provider, encrypted_phone_number, requested_by
+        ) VALUES ($1, $2, $3, $4, $5, $6, 'processing', $7, $8, $9)
+        RETURNING id`,
+        [
+          payment.id,
+          payment.payment_plan_id,
+          payment.user_id,
+          amount,
+          request.reason,
+          request.source || 'manual',
+          provider,
+          this.encryptionService.encrypt(phoneNumber),
+          request.requestedBy || null,
+        ]
+      );
+
+      return { payment, refundId: inserted.rows[0].id as string, amount, phoneNumber, provider };
+    });
+    if (!reserved) {
+      return null;
+    }
+    const { payment, refundId, amount, phoneNumber, provider } = reserved;
+
+    const disbursement = await this.mobileMoneyService.initiateDisbursement({
+      amount,
+      phoneNumber,
+      provider: provider as any,
+      reference: refundId,
+      description: payment.is_deposit ? 'Vehicle deposit refund' : 'Vehicle payment refund',
+    });
+
+    if (!disbursement.success) {
+      const failed = await this.failRefund(refundId, disbursement.message || 'Disbursement failed');
+      return { refund: failed ?? (await this.getRefund(refundId))!, payment, reversals: [] };
+    }
+
+    const completed = await this.completeRefund(refundId, disbursement.externalTransactionId);
+    return completed ?? { refund: (await this.getRefund(refundId))!, payment, reversals: [] };
+  }
+
+  /**
+   * Settle refunds left in processing, e.g. when the service stopped between reserving the refund
+   * and hearing back about its disbursement. Each is looked up with the provider by its reference and
+   * completed or failed; those the provider cannot tell us about are left for an admin to check.
+   */
+  async resolveStaleRefunds(olderThanMinutes: number): Promise<{ completed: number; failed: number; unresolved: number }> {
+    const stale = await this.pool.query(
+      `SELECT id FROM payment_refunds
+       WHERE status = 'processing' AND updated_at < CURRENT_TIMESTAMP - ($1::integer * INTERVAL '1 minute')
+       ORDER BY created_at ASC`,
+      [olderThanMinutes]
+    );
+
+    const counts = { completed: 0, failed: 0, unresolved: 0 };
+    for (const row of stale.rows) {
+      try {
+        const status = await this.mobileMoneyService.checkDisbursementStatus(row.id);
+        if (status.success && status.status === 'completed') {
+          if (await this.completeRefund(row.id, status.externalTransactionId)) {
+            counts.completed++;
+          }
+        } else if (status.success && status.status === 'failed') {
+          if (await this.failRefund(row.id, status.message || 'Disbursement failed')) {
+            counts.failed++;
+          }
+        } else {
+          console.warn(`Refund ${row.id} is still processing and its disbursement could not be checked: ${status.message}`);
+          counts.unresolved++;
+        }
+      } catch (error) {
+        console.error(`Failed to resolve refund ${row.id}:`, error);
+        counts.unresolved++;
+      }
+    }
+    return counts;
+  }
+
+  /**
+   * Record a disbursement that did not go out, and announce it with payment.refund.failed.
+   * Returns null when the refund is no longer processing.
+   */
+  private async failRefund(refundId: string, reason: string): Promise<Refund | null> {
+    const failedRefund = await withTransaction(this.pool, async (client) => {
+      const failed = await client.query(
+        `UPDATE payment_refunds
+         SET status = 'failed', failure_reason = $1, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2 AND status = 'processing'
+         RETURNING *`,
+        [reason, refundId]
+      );
+      if (failed.rows.length === 0) {
+        return null;
+      }
+      const refund = this.mapRefund(failed.rows[0]);
+      const eventId = await this.enqueueRefundEvent(client, 'payment.refund.failed', refund, {
+        reason: refund.failureReason,
+      });
+      return { refund, eventId };
+    });
+    if (!failedRefund) {
+      return null;
+    }
+
+    await this.outboxService.publishNow([failedRefund.eventId]);
+    return failedRefund.refund;
+  }
+
+  /**
+   * Record a disbursement that went out. The refund, the payment's refunded amount, the reversal of
+   * its allocations and payment.refunded all commit together. Deposits are not allocated to
+   * installments, so there is nothing to re-open; a reversal that fails is rolled back on its own and
+   * left for reversePendingRefunds, as the money has gone either way. Returns null when the refund
+   * is no longer processing.
+   */
+  private async completeRefund(refundId: string, externalTransactionId?: string): Promise<RefundResult | null> {
+    const result = await withTransaction(this.pool, async (client) => {
+      const completedResult = await client.query(
+        `UPDATE payment_refunds
+         SET status = 'completed', external_transaction_id = $1, reversal_pending = false,
+             completed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2 AND status = 'processing'
+         RETURNING *`,
+        [externalTransactionId || null, refundId]
+      );
+      if (completedResult.rows.length === 0) {
+        return null;
+      }
+      const completed = this.mapRefund(completedResult.rows[0]);
+
+      const paymentResult = await client.query(
+        `UPDATE payments
+         SET refunded_amount = COALESCE(refunded_amount, 0) + $1,
+             status = CASE WHEN COALESCE(refunded_amount, 0) + $1 >= amount THEN 'refunded' ELSE status END,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2
+         RETURNING *`,
+        [completed.amount, completed.paymentId]
+      );
+      const updatedPayment = paymentResult.rows[0];
+
+      let reversals: PaymentAllocation[] = [];
+      if (!updatedPayment.is_deposit) {
+        await client.query('SAVEPOINT reverse_allocations');
+        try {
+          reversals = await this.reverseAllocationsOn(client, updatedPayment, refundId, completed.amount);
+          await client.query('RELEASE SAVEPOINT reverse_allocations');
+        } catch (reverseError) {
+          console.error(`Refund ${refundId} was paid out but its allocations were not reversed:`, reverseError);
+          await client.query('ROLLBACK TO SAVEPOINT reverse_allocations');
+          await client.query(`UPDATE payment_refunds SET reversal_pending = true WHERE id = $1`, [refundId]);
+        }
+      }
+
+      const eventId = await this.enqueueRefundEvent(client, 'payment.refunded', completed, {
+        isDeposit: updatedPayment.is_deposit,
+        fullyRefunded: updatedPayment.status === 'refunded',
+        reopenedInstallments: reversals.filter((r) => r.installmentId).map((r) => r.installmentId),
+      });
+
+      return { completed, updatedPayment, reversals, eventId };
+    });
+    if (!result) {
+      return null;
+    }
+    const { completed, updatedPayment, reversals, eventId } = result;
+
+    await this.outboxService.publishNow([eventId]);
+
+    // The retailer gives back its share of the refunded money from its next payout
+    await this.retailerSettlementService.recordRefund({ id: refundId, paymentId: completed.paymentId, amount: completed.amount });
+
+    return { refund: completed, payment: updatedPayment, reversals };
+  }
+
+  private async enqueueRefundEvent(
+    client: PoolClient,
+    routingKey: string,
+    refund: Refund,
+    details: Record<string, any>
+  ): Promise<string> {
+    const planResult = await client.query('SELECT vehicle_id FROM payment_plans WHERE id = $1', [refund.paymentPlanId]);
+    return OutboxService.enqueue(client, 'payment.events', routingKey, {
+      type: routingKey,
+      payload: {
+        refundId: refund.id,
+        paymentId: refund.paymentId,
+        paymentPlanId: refund.paymentPlanId,
+        userId: refund.userId,
+        vehicleId: planResult.rows[0]?.vehicle_id,
+        amount: refund.amount,
+        source: refund.source,
+        ...details,
+      },
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Reverse the allocations of refunds that were paid out but could not be reversed at the time
+   */
+  async reversePendingRefunds(): Promise<number> {
+    const pending = await this.pool.query(
+      `SELECT r.id AS refund_id, r.amount AS refund_amount, p.*
+       FROM payment_refunds r
+       JOIN payments p ON r.payment_id = p.id
+       WHERE r.status = 'completed' AND r.reversal_pending = true
+       ORDER BY r.completed_at ASC`
+    );
+
+    let reversed = 0;
+    for (const row of pending.rows) {
+      try {
+        await this.reverseAllocations(row, row.refund_id, parseFloat(row.refund_amount));
+        reversed++;
+      } catch (error) {
+        console.error(`Failed to reverse allocations for refund ${row.refund_id}:`, error);
+      }
+    }
+    return reversed;
+  }
+
+  /**
+   * Refund the deposits a customer paid towards a vehicle they will not be getting,
+   * and cancel the plans those deposits were for. Plans that have collected installments are left alone.
+   */
+  async refundDeposits(userId: string, vehicleId: string, source: RefundSource, reason: string): Promise<RefundResult[]> {
+    const deposits = await this.pool.query(
+      `SELECT p.id, p.payment_plan_id
+       FROM payments p
+       JOIN payment_plans pp ON p.payment_plan_id = pp.id
+       WHERE pp.user_id = $1
+         AND pp.vehicle_id = $2
+         AND pp.status IN ('active', 'overdue')
+         AND p.is_deposit = true
+         AND p.status = 'completed'
+         AND NOT EXISTS (
+           SELECT 1 FROM payments installment
+           WHERE installment.payment_plan_id = pp.id
+             AND installment.is_deposit = false
+             AND installment.status IN ('completed', 'refunded')
+         )`,
+      [userId, vehicleId]
+    );
+
+    const results: RefundResult[] = [];
+    for (const deposit of deposits.rows) {
+      try {
+        const result = await this.refundPayment(deposit.id, { reason, source });
+        if (!result) {
+          continue;
+        }
+        results.push(result);
+
+        if (result.refund.status === 'completed') {
+          await this.pool.query(
+            `UPDATE payment_plans SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+            [deposit.payment_plan_id]
+          );
+        }
+      } catch (error) {
+        console.error(`Failed to refund deposit ${deposit.id}:`, error);
+      }
+    }
+
+    return results;
+  }
+
+  async getRefund(refundId: string): Promise<Refund | null> {
+    const result = await this.pool.query('SELECT * FROM payment_refunds WHERE id = $1', [refundId]);
+    return result.rows.length > 0 ? this.mapRefund(result.rows[0]) : null;
+  }
+
+  async getRefundsForPayment(paymentId: string): Promise<Refund[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM payment_refunds WHERE payment_id = $1 ORDER BY created_at DESC`,
+      [paymentId]
+    );
+    return result.rows.map((row) => this.mapRefund(row));
+  }
+
+  /**
+   * Take a refund back out of the installments, penalties and credit the payment paid.
+   * Each reversal is recorded as a negative allocation against the refund. Runs in one transaction
+   * under the plan lock payments are allocated with, and clears the refund's pending reversal.
+   */
+  private async reverseAllocations(payment: any, refundId: string, amount: number): Promise<PaymentAllocation[]> {
+    return withTransaction(this.pool, async (client) => {
+      const reversals = await this.reverseAllocationsOn(client, payment, refundId, amount);
+      await client.query(
+        `UPDATE payment_refunds SET reversal_pending = false, updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+        [refundId]
+      );
+      return reversals;
+    });
+  }
+
+  private async reverseAllocationsOn(
+    client: PoolClient,
+    payment: any,
+    refundId: string,
+    amount: number
+  ): Promise<PaymentAllocation[]> {
+    const planResult = await client.query('SELECT * FROM payment_plans WHERE id = $1 FOR UPDATE', [payment.payment_plan_id]);
+    if (planResult.rows.length === 0) {
+      return [];
+    }
+    const plan = planResult.rows[0];
+
+    // Installments that were superseded by a restructure or closed by a settlement stay as they are
+    const netAllocations = `
+      SELECT pa.allocation_type, pa.installment_id, pa.penalty_charge_id, pa.addon_charge_id, SUM(pa.amount) AS amount
+      FROM payment_allocations pa
+      LEFT JOIN payment_installments pi ON pa.installment_id = pi.id
+      WHERE %s AND (pi.id IS NULL OR pi.status NOT IN ('superseded', 'settled'))
+      GROUP BY pa.allocation_type, pa.installment_id, pa.penalty_charge_id, pa.addon_charge_id
+      HAVING SUM(pa.amount) > 0
+      ORDER BY MIN(pa.allocation_sequence) ASC`;
+
+    const paymentAllocations = await client.query(netAllocations.replace('%s', 'pa.payment_id = $1'), [payment.id]);
+    const appliedCredit = await client.query(
+      netAllocations.replace('%s', `pa.payment_plan_id = $1 AND pa.payment_id IS NULL AND pa.allocation_type = 'credit_applied'`),
+      [plan.id]
+    );
+
+    const reversals = RefundService.planReversals(
+      amount,
+      paymentAllocations.rows.map((row) => this.mapAllocation(row)),
+      parseFloat(plan.credit_balance || '0'),
+      appliedCredit.rows.map((row) => this.mapAllocation(row))
+    );
+
+    for (const reversal of reversals) {
+      await client.query(
+        `INSERT INTO payment_allocations (
+          payment_id, payment_plan_id, installment_id, penalty_charge_id, addon_charge_id, allocation_type, amount, refund_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          reversal.allocationType === 'credit_applied' ? null : payment.id,
+          plan.id,
+          reversal.installmentId || null,
+          reversal.penaltyChargeId || null,
+          reversal.addonChargeId || null,
+          reversal.allocationType,
+          -reversal.amount,
+          refundId,
+        ]
+      );
+
+      if (reversal.allocationType === 'penalty') {
+        await client.query(
+          `UPDATE penalty_charges
+           SET amount_paid = GREATEST(amount_paid - $1, 0),
+               status = CASE WHEN status = 'paid' THEN 'outstanding' ELSE status END,
+               updated_at = CURRENT_TIMESTAMP
+           WHERE id = $2`,
+          [reversal.amount, reversal.penaltyChargeId]
+        );
+        continue;
+      }
+
+      if (reversal.allocationType === 'credit') {
+        await client.query(
+          `UPDATE payment_plans SET credit_balance = GREATEST(credit_balance - $1, 0), updated_at = CURRENT_TIMESTAMP WHERE id = $2`,
+          [reversal.amount, plan.id]
+        );
+        continue;
+      }
+
+      if (reversal.allocationType === 'credit_applied') {
+        await client.query(
+          `UPDATE payment_plans SET credit_balance = credit_balance + $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2`,
+          [reversal.amount, plan.id]
+        );
+      }
+
+      if (reversal.addonChargeId) {
+        await client.query(
+          `UPDATE installment_addon_charges
+           SET amount_paid = GREATEST(amount_paid - $1, 0),
+               status = CASE
+                 WHEN status NOT IN ('paid', 'partially_paid') THEN status
+                 WHEN amount_paid - $1 > 0 THEN 'partially_paid'
+                 ELSE 'pending'
+               END,
+               updated_at = CURRENT_TIMESTAMP
+           WHERE id = $2`,
+          [reversal.amount, reversal.addonChargeId]
+        );
+      }
+
+      // Re-open the installment; one already past its grace period goes straight back to overdue
+      const installmentResult = await client.query(
+        `SELECT pi.due_date, pp.grace_period_days
+         FROM payment_installments pi
+         JOIN payment_plans pp ON pi.payment_plan_id = pp.id
+         WHERE pi.id = $1`,
+        [reversal.installmentId]
+      );
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      const pastGrace = installmentResult.rows.length > 0 && PaymentScheduleService.calculateDueDateWithGrace(
+        new Date(installmentResult.rows[0].due_date),
+        installmentResult.rows[0].grace_period_days
+      ) < today;
+
+      await client.query(
+        `UPDATE payment_installments pi
+         SET amount_paid = GREATEST(pi.amount_paid - $1, 0),
+             addon_paid = GREATEST(pi.addon_paid - $4, 0),
+             status = CASE
+               WHEN $3::boolean THEN 'overdue'
+               WHEN pi.amount_paid - $1 > 0 THEN 'partially_paid'
+               ELSE 'pending'
+             END,
+             paid_at = NULL,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE pi.id = $2`,
+        [reversal.amount, reversal.installmentId, pastGrace, reversal.addonChargeId ? reversal.amount : 0]
+      );
+    }
+
+    const reopened = reversals.some((r) => r.allocationType === 'installment' || r.allocationType === 'credit_applied');
+    if (reopened && ['active', 'overdue', 'completed'].includes(plan.status)) {
+      await this.installmentService.syncPlan(plan.id, client);
+    }
+
+    return reversals;
+  }
+
+  private mapAllocation(row: any): PaymentAllocation {
+    return {
+      installmentId: row.installment_id || undefined,
+      penaltyChargeId: row.penalty_charge_id || undefined,
+      addonChargeId: row.addon_charge_id || undefined,
+      allocationType: row.allocation_type,
+      amount: parseFloat(row.amount),
+    };
+  }
+
+  private mapRefund(row: any): Refund {
+    return {
+      id: row.id,
+      paymentId: row.payment_id,
+      paymentPlanId: row.payment_plan_id,
+      userId: row.user_id,
+      amount: parseFloat(row.amount),
+      reason: row.reason,
+      source: row.source,
+      status: row.status,
+      mobileMoneyProvider: row.mobile_money_provider || undefined,
+      externalTransactionId: row.external_transaction_id || undefined,
+      failureReason: row.failure_reason || undefined,
+      requestedBy: row.requested_by || undefined,
+      completedAt: row.completed_at || undefined,
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,301 @@
+/**
+ * Plan Restructuring Service
+ * Reschedules the unpaid part of a plan for customers who have lost income: longer terms,
+ * payment holidays and frequency changes. The superseded schedule is kept for history.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { inTransaction } from './transaction';
+import { InstallmentService, Installment } from './installments';
+import { PaymentScheduleService, ScheduledInstallment } from './paymentSchedule';
+import { FinanceChargeService, InterestMethod, PaymentFrequency } from './financeCharges';
+import { CollectionDayOptions } from './collectionCalendar';
+import { PlanAddonService } from './planAddons';
+
+export interface RestructureRequest {
+  extendByMonths?: number;
+  paymentHolidayInstallments?: number;
+  paymentFrequency?: PaymentFrequency;
+  reason: string;
+  requestedBy: string;
+}
+
+export interface RestructureCalculationInput {
+  openInstallments: Installment[];
+  annualInterestRate: number;
+  interestMethod: InterestMethod;
+  currentFrequency: PaymentFrequency;
+  newFrequency: PaymentFrequency;
+  extendByMonths: number;
+  holidayInstallments: number;
+  firstDueDate: Date;
+  collectionDays?: CollectionDayOptions; // Skipped days apply to daily plans, the business-day rule to weekly and monthly ones
+  asOf?: Date;
+}
+
+export interface RestructureCalculation {
+  principalCarriedForward: number;
+  capitalisedInterest: number;
+  termMonths: number;
+  installments: ScheduledInstallment[];
+}
+
+export interface PlanRestructure {
+  id: string;
+  paymentPlanId: string;
+  reason: string;
+  requestedBy: string;
+  extendByMonths: number;
+  holidayInstallments: number;
+  previousTerms: any;
+  newTerms: any;
+  previousSchedule: any[];
+  createdAt: Date;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function monthsPerInstallment(frequency: PaymentFrequency, collectionDays: CollectionDayOptions = {}): number {
+  return 12 / FinanceChargeService.getPeriodsPerYear(frequency, collectionDays);
+}
+
+export class RestructureService {
+  private pool: Pool;
+  private installmentService: InstallmentService;
+  private addonService: PlanAddonService;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+    this.installmentService = new InstallmentService(pool);
+    this.addonService = new PlanAddonService(pool);
+  }
+
+  /**
+   * Work out the replacement schedule for a plan's open installments.
+   * Pure calculation - nothing is written.
+   */
+  static calculateRestructure(input: RestructureCalculationInput): RestructureCalculation {
+    const asOf = input.asOf || new Date();
+    const collectionDays = input.collectionDays || {};
+
+    // Unpaid principal carries forward; interest already due and unpaid is capitalised.
+    // Interest on installments not yet due is dropped and recalculated on the new terms.
+    let principal = 0;
+    // Add-on charges are not part of the loan; they move to the new schedule as they are
+    for (const installment of input.openInstallments) {
+      const loanPaid = Math.max(0, installment.amountPaid - (installment.addonPaid || 0));
+      const interestPaid = Math.min(loanPaid, installment.interestDue);
+      const principalPaid = loanPaid - interestPaid;
+      principal += Math.max(0, installment.principalDue - principalPaid);
+      if (new Date(installment.dueDate) <= asOf) {
+        principal += installment.interestDue - interestPaid;
+      }
+    }
+    const principalCarriedForward = round2(principal);
+
+    const remainingMonths = input.openInstallments.length * monthsPerInstallment(input.currentFrequency, collectionDays);
+    const scheduleMonths = remainingMonths + input.extendByMonths;
+    const periodsPerYear = FinanceChargeService.getPeriodsPerYear(input.newFrequency, collectionDays);
+    const totalInstallments = Math.max(1, Math.ceil(Math.round(scheduleMonths * periodsPerYear / 12 * 100) / 100));
+    const holidayMonths = input.holidayInstallments * monthsPerInstallment(input.newFrequency, collectionDays);
+
+    // Reducing-balance interest keeps accruing through a payment holiday and is added to the balance.
+    // Flat-rate interest is charged over the whole term, holiday included.
+    let capitalisedInterest = 0;
+    if (input.interestMethod === 'reducing_balance' && input.holidayInstallments > 0) {
+      const periodicRate = input.annualInterestRate / 100 / periodsPerYear;
+      capitalisedInterest = round2(
+        principalCarriedForward * (Math.pow(1 + periodicRate, input.holidayInstallments) - 1)
+      );
+    }
+
+    let firstDueDate = new Date(input.firstDueDate);
+    for (let i = 0; i < input.holidayInstallments; i++) {
+      firstDueDate = PaymentScheduleService.calculateNextPaymentDate(firstDueDate, input.newFrequency, collectionDays);
+    }
+
+    const termMonths = scheduleMonths + holidayMonths;
+    const installments = PaymentScheduleService.buildInstallments(
+      round2(principalCarriedForward + capitalisedInterest),
+      input.annualInterestRate,
+      input.interestMethod,
+      totalInstallments,
+      termMonths,
+      firstDueDate,
+      input.newFrequency,
+      collectionDays
+    );
+
+    return { principalCarriedForward, capitalisedInterest, termMonths, installments };
+  }
+
+  /**
+   * Replace a plan's open installments with a recalculated schedule. Everything is written in one
+   * transaction under a lock on the plan; pass a client to join the caller's transaction.
+   */
+  async restructurePlan(
+    planId: string,
+    request: RestructureRequest,
+    client?: PoolClient
+  ): Promise<{ restructure: PlanRestructure; plan: any }> {
+    return inTransaction(this.pool, client, async (client) => {
+      // Payments are allocated under the same lock, so none can land on installments about to be superseded
+      const planResult = await client.query('SELECT * FROM payment_plans WHERE id = $1 FOR UPDATE', [planId]);
+      if (planResult.rows.length === 0) {
+        throw new Error('Payment plan not found');
+      }
+      const plan = planResult.rows[0];
+
+      if (!['active', 'overdue'].includes(plan.status)) {
+        throw new Error('Only active or overdue payment plans can be restructured');
+      }
+
+      const schedule = await this.installmentService.getSchedule(plan.id, client);
+      const openInstallments = schedule.filter((i) => ['pending', 'partially_paid', 'overdue'].includes(i.status));
+      if (openInstallments.length === 0) {
+        throw new Error('Payment plan has no open installments to restructure');
+      }
+
+      const newFrequency = request.paymentFrequency || plan.payment_frequency;
+      const extendByMonths = request.extendByMonths || 0;
+      const holidayInstallments = request.paymentHolidayInstallments || 0;
+      const collectionDays: CollectionDayOptions = {
+        skipSundays: !!plan.skip_sundays,
+        skipPublicHolidays: !!plan.skip_public_holidays,
+        businessDayRule: plan.business_day_rule || 'following',
+      };
+
+      // The new schedule picks up from the next installment that has not fallen due yet
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      const nextUpcoming = openInstallments.find((i) => new Date(i.dueDate) >= today);
+      const firstDueDate = nextUpcoming
+        ? new Date(nextUpcoming.dueDate)
+        : PaymentScheduleService.calculateNextPaymentDate(today, newFrequency, collectionDays);
+
+      const calculation = RestructureService.calculateRestructure({
+        openInstallments,
+        annualInterestRate: parseFloat(plan.annual_interest_rate || '0'),
+        interestMethod: plan.interest_method || 'reducing_balance',
+        currentFrequency: plan.payment_frequency,
+        newFrequency,
+        extendByMonths,
+        holidayInstallments,
+        firstDueDate,
+        collectionDays,
+      });
+
+      const previousTerms = {
+        termLengthMonths: plan.term_length_months,
+        paymentFrequency: plan.payment_frequency,
+        installmentAmount: parseFloat(plan.installment_amount),
+        totalInstallments: plan.total_installments,
+        remainingInstallments: plan.remaining_installments,
+        nextPaymentDate: plan.next_payment_date,
+      };
+
+      const closedCount = schedule.filter((i) => ['paid', 'settled'].includes(i.status)).length;
+      const newTerms = {
+        termLengthMonths: plan.term_length_months + Math.ceil(extendByMonths + holidayInstallments * monthsPerInstallment(newFrequency, collectionDays)),
+        paymentFrequency: newFrequency,
+        installmentAmount: calculation.installments[0].amountDue,
+        totalInstallments: closedCount + calculation.installments.length,
+        remainingInstallments: calculation.installments.length,
+        nextPaymentDate: calculation.installments[0].dueDate,
+        principalCarriedForward: calculation.principalCarriedForward,
+        capitalisedInterest: calculation.capitalisedInterest,
+      };
+
+      const restructureResult = await client.query(
+        `INSERT INTO plan_restructures (
+          payment_plan_id, reason, requested_by, extend_by_months, holiday_installments,
+          previous_terms, new_terms, previous_schedule
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        RETURNING *`,
+        [
+          plan.id,
+          request.reason,
+          request.requestedBy,
+          extendByMonths,
+          holidayInstallments,
+          JSON.stringify(previousTerms),
+          JSON.stringify(newTerms),
+          JSON.stringify(schedule),
+        ]
+      );
+      const restructure = this.mapRestructure(restructureResult.rows[0]);
+
+      await client.query(
+        `UPDATE payment_installments
+         SET status = 'superseded', superseded_by = $1, updated_at = CURRENT_TIMESTAMP
+         WHERE payment_plan_id = $2 AND status = ANY($3)`,
+        [restructure.id, plan.id, ['pending', 'partially_paid', 'overdue']]
+      );
+
+      // Numbering continues after the superseded installments so history stays intact
+      const lastNumber = Math.max(...schedule.map((i) => i.installmentNumber));
+      await this.installmentService.createInstallments(
+        plan.id,
+        calculation.installments.map((installment) => ({
+          ...installment,
+          installmentNumber: lastNumber + installment.installmentNumber,
+        })),
+        restructure.id,
+        client
+      );
+      await this.addonService.moveChargesToRestructuredSchedule(plan.id, restructure.id, client);
+
+      await client.query(
+        `UPDATE payment_plans
+         SET term_length_months = $1,
+             payment_frequency = $2,
+             installment_amount = $3,
+             total_installments = $4,
+             total_interest = (
+               SELECT COALESCE(SUM(CASE WHEN status = 'superseded' THEN LEAST(amount_paid, COALESCE(interest_due, 0)) ELSE COALESCE(interest_due, 0) END), 0)
+               FROM payment_installments WHERE payment_plan_id = $5
+             ),
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $5`,
+        [newTerms.termLengthMonths, newFrequency, newTerms.installmentAmount, newTerms.totalInstallments, plan.id]
+      );
+      await client.query(
+        `UPDATE payment_plans SET total_payable = vehicle_price + total_interest WHERE id = $1`,
+        [plan.id]
+      );
+
+      await this.installmentService.syncPlan(plan.id, client);
+
+      const updatedPlan = await client.query('SELECT * FROM payment_plans WHERE id = $1', [plan.id]);
+      return { restructure, plan: updatedPlan.rows[0] };
+    });
+  }
+
+  /**
+   * Restructuring history for a plan, newest first
+   */
+  async getRestructures(planId: string): Promise<PlanRestructure[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM plan_restructures WHERE payment_plan_id = $1 ORDER BY created_at DESC`,
+      [planId]
+    );
+    return result.rows.map((row) => this.mapRestructure(row));
+  }
+
+  private mapRestructure(row: any): PlanRestructure {
+    return {
+      id: row.id,
+      paymentPlanId: row.payment_plan_id,
+      reason: row.reason,
+      requestedBy: row.requested_by,
+      extendByMonths: row.extend_by_months,
+      holidayInstallments: row.holiday_installments,
+      previousTerms: row.previous_terms,
+      newTerms: row.new_terms,
+      previousSchedule: row.previous_schedule,
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,649 @@
+/**
+ * Retailer Settlement Service
+ * Works out what the platform owes retailers as customers pay for their vehicles. Each
+ * completed deposit or installment earns the retailer its share of the vehicle price, less
+ * the platform commission; refunds claw the share back. Earnings are gathered into payout
+ * batches per period, each with a statement and a payout status.
+ */
+
+import { Pool } from 'pg';
+import { MessageQueueClient } from '@rent-to-own/message-queue';
+import { PdfDocument, PDF_MARGIN, PDF_CONTENT_RIGHT } from './pdfDocument';
+import { BASE_CURRENCY, formatAmount, formatDate, csvField, documentIssuerName } from './statements';
+import { Queryable } from './transaction';
+
+export type SettlementEntryType = 'deposit' | 'installment' | 'settlement' | 'refund';
+export type PayoutBatchStatus = 'pending' | 'processing' | 'paid' | 'failed';
+export type PayoutPeriod = 'weekly' | 'monthly';
+
+export interface RetailerShare {
+  grossAmount: number; // The retailer's part of what was collected
+  commissionAmount: number;
+  netAmount: number; // What the retailer is paid
+}
+
+export interface SettlementEntry extends RetailerShare {
+  id: string;
+  retailerId: string;
+  paymentPlanId: string;
+  paymentId: string;
+  refundId?: string;
+  entryType: SettlementEntryType;
+  collectedAmount: number;
+  commissionPercent: number;
+  payoutBatchId?: string;
+  earnedAt: Date;
+}
+
+export interface PayoutBatch {
+  id: string;
+  retailerId: string;
+  periodStart: string;
+  periodEnd: string;
+  entryCount: number;
+  collectedAmount: number;
+  grossAmount: number;
+  commissionAmount: number;
+  netAmount: number;
+  status: PayoutBatchStatus;
+  payoutReference?: string;
+  failureReason?: string;
+  statusUpdatedBy?: string;
+  paidAt?: Date;
+  createdAt: Date;
+}
+
+export interface PayoutStatement {
+  batch: PayoutBatch;
+  entries: SettlementEntry[];
+  currency: string;
+  generatedAt: Date;
+}
+
+export interface RetailerSettlementSummary {
+  retailerId: string;
+  collectedAmount: number;
+  grossAmount: number;
+  commissionAmount: number;
+  netAmount: number;
+  unbatchedAmount: number; // Earned but not yet in a payout batch
+  awaitingPayoutAmount: number; // In batches not yet paid
+  paidAmount: number;
+  currency: string;
+}
+
+export interface PayoutStatusUpdate {
+  status: PayoutBatchStatus;
+  performedBy: string;
+  payoutReference?: string;
+  failureReason?: string;
+}
+
+// Where a batch may go next; paid batches are final
+const PAYOUT_TRANSITIONS: Record<PayoutBatchStatus, PayoutBatchStatus[]> = {
+  pending: ['processing', 'paid', 'failed'],
+  processing: ['paid', 'failed'],
+  failed: ['processing', 'paid'],
+  paid: [],
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Tell the rest of the platform a payout batch was created or changed status
+ */
+export async function publishPayoutBatchEvent(messageQueue: MessageQueueClient, routingKey: string, batch: PayoutBatch): Promise<void> {
+  await messageQueue.publish('payment.events', routingKey, {
+    type: routingKey,
+    payload: {
+      batchId: batch.id,
+      retailerId: batch.retailerId,
+      periodStart: batch.periodStart,
+      periodEnd: batch.periodEnd,
+      netAmount: batch.netAmount,
+      status: batch.status,
+      payoutReference: batch.payoutReference,
+      failureReason: batch.failureReason,
+    },
+    timestamp: Date.now(),
+  });
+}
+
+export class RetailerSettlementService {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  /**
+   * Commission taken on new plans. RETAILER_COMMISSION_PERCENT (default 10) sets the rate;
+   * each plan keeps the rate it was created with.
+   */
+  static defaultCommissionPercent(): number {
+    const percent = parseFloat(process.env.RETAILER_COMMISSION_PERCENT || '10');
+    return isNaN(percent) ? 10 : percent;
+  }
+
+  /**
+   * How often payout batches are made. RETAILER_PAYOUT_PERIOD is weekly or monthly (default).
+   */
+  static payoutPeriod(): PayoutPeriod {
+    return process.env.RETAILER_PAYOUT_PERIOD === 'weekly' ? 'weekly' : 'monthly';
+  }
+
+  /**
+   * The last whole period before asOf: Monday to Sunday for weekly payouts, the previous
+   * calendar month for monthly ones. Pure calculation - nothing is written.
+   */
+  static previousPeriod(period: PayoutPeriod, asOf: Date = new Date()): { periodStart: string; periodEnd: string } {
+    const today = new Date(Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth(), asOf.getUTCDate()));
+
+    if (period === 'weekly') {
+      const daysSinceMonday = (today.getUTCDay() + 6) % 7;
+      const periodEnd = new Date(today.getTime() - (daysSinceMonday + 1) * 24 * 60 * 60 * 1000);
+      const periodStart = new Date(periodEnd.getTime() - 6 * 24 * 60 * 60 * 1000);
+      return { periodStart: toDateString(periodStart), periodEnd: toDateString(periodEnd) };
+    }
+
+    const periodStart = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - 1, 1));
+    const periodEnd = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 0));
+    return { periodStart: toDateString(periodStart), periodEnd: toDateString(periodEnd) };
+  }
+
+  /**
+   * The retailer's part of a collection, before commission. Deposits go to the retailer in full.
+   * Installments also carry finance charges, which belong to the platform, so the retailer gets
+   * the principal share of each one; a settlement pays whatever principal is left. The retailer
+   * is never owed more than the vehicle price. Pure calculation - nothing is written.
+   */
+  static retailerPortion(
+    plan: { vehiclePrice: number; depositAmount: number; totalPayable?: number },
+    entryType: Exclude<SettlementEntryType, 'refund'>,
+    collectedAmount: number,
+    alreadyEarned: number
+  ): number {
+    let portion = collectedAmount;
+    if (entryType === 'installment') {
+      const financed = plan.vehiclePrice - plan.depositAmount;
+      const payableAfterDeposit = (plan.totalPayable || plan.vehiclePrice) - plan.depositAmount;
+      if (payableAfterDeposit > financed && payableAfterDeposit > 0) {
+        portion = (collectedAmount * financed) / payableAfterDeposit;
+      }
+    }
+
+    const remaining = plan.vehiclePrice - alreadyEarned;
+    return round2(Math.max(0, Math.min(portion, remaining)));
+  }
+
+  /**
+   * Split the retailer's part into commission and payout. Pure calculation - nothing is written.
+   */
+  static calculateShare(grossAmount: number, commissionPercent: number): RetailerShare {
+    const commissionAmount = round2((grossAmount * commissionPercent) / 100);
+    return {
+      grossAmount: round2(grossAmount),
+      commissionAmount,
+      netAmount: round2(grossAmount - commissionAmount),
+    };
+  }
+
+  /**
+   * Credit the retailer for a completed payment. Returns null for plans without a retailer,
+   * collections that earn the retailer nothing, or payments already recorded.
+   */
+  async recordPayment(paymentId: string, db: Queryable = this.pool): Promise<SettlementEntry | null> {
+    const result = await db.query(
+      `SELECT p.id, p.amount, p.is_deposit, p.settlement_quote_id, p.processed_at,
+              pp.id AS plan_id, pp.retailer_id, pp.retailer_commission_percent,
+              pp.vehicle_price, pp.deposit_amount, pp.total_payable
+       FROM payments p
+       JOIN payment_plans pp ON p.payment_plan_id = pp.id
+       WHERE p.id = $1 AND p.status = 'completed'`,
+      [paymentId]
+    );
+    if (result.rows.length === 0 || !result.rows[0].retailer_id) {
+      return null;
+    }
+    const row = result.rows[0];
+
+    // Late fees are the platform's and add-ons are passed on to their providers, so both are left out
+    // of what the retailer earns from
+    const excludedResult = await db.query(
+      `SELECT COALESCE(SUM(amount), 0) AS amount
+       FROM payment_allocations
+       WHERE payment_id = $1 AND (allocation_type = 'penalty' OR addon_charge_id IS NOT NULL) AND refund_id IS NULL`,
+      [paymentId]
+    );
+    const collectedAmount = round2(parseFloat(row.amount) - parseFloat(excludedResult.rows[0].amount));
+
+    const earnedResult = await db.query(
+      `SELECT COALESCE(SUM(gross_amount), 0) AS amount FROM retailer_settlement_entries WHERE payment_plan_id = $1`,
+      [row.plan_id]
+    );
+
+    const entryType: SettlementEntryType = row.is_deposit ? 'deposit' : row.settlement_quote_id ? 'settlement' : 'installment';
+    const grossAmount = RetailerSettlementService.retailerPortion(
+      {
+        vehiclePrice: parseFloat(row.vehicle_price),
+        depositAmount: parseFloat(row.deposit_amount),
+        totalPayable: row.total_payable ? parseFloat(row.total_payable) : undefined,
+      },
+      entryType,
+      collectedAmount,
+      parseFloat(earnedResult.rows[0].amount)
+    );
+    if (grossAmount <= 0) {
+      return null;
+    }
+
+    const commissionPercent = row.retailer_commission_percent !== null
+      ? parseFloat(row.retailer_commission_percent)
+      : RetailerSettlementService.defaultCommissionPercent();
+    const share = RetailerSettlementService.calculateShare(grossAmount, commissionPercent);
+
+    const inserted = await db.query(
+      `INSERT INTO retailer_settlement_entries (
+        retailer_id, payment_plan_id, payment_id, entry_type, collected_amount,
+        gross_amount, commission_percent, commission_amount, net_amount, earned_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, COALESCE($10, CURRENT_TIMESTAMP))
+      ON CONFLICT DO NOTHING
+      RETURNING *`,
+      [
+        row.retailer_id,
+        row.plan_id,
+        paymentId,
+        entryType,
+        collectedAmount,
+        share.grossAmount,
+        commissionPercent,
+        share.commissionAmount,
+        share.netAmount,
+        row.processed_at,
+      ]
+    );
+    return inserted.rows.length > 0 ? this.mapEntry(inserted.rows[0]) : null;
+  }
+
+  /**
+   * Take back the retailer's share of a refunded payment, in proportion to the amount refunded.
+   * The clawback is netted off the retailer's next payout.
+   */
+  async recordRefund(refund: { id: string; paymentId: string; amount: number }): Promise<SettlementEntry | null> {
+    const result = await this.pool.query(
+      `SELECT e.*, p.amount AS payment_amount
+       FROM retailer_settlement_entries e
+       JOIN payments p ON e.payment_id = p.id
+       WHERE e.payment_id = $1 AND e.refund_id IS NULL`,
+      [refund.paymentId]
+    );
+    if (result.rows.length === 0) {
+      return null;
+    }
+    const original = result.rows[0];
+
+    const ratio = Math.min(1, refund.amount / parseFloat(original.payment_amount));
+    const grossAmount = -round2(parseFloat(original.gross_amount) * ratio);
+    const commissionAmount = -round2(parseFloat(original.commission_amount) * ratio);
+
+    const inserted = await this.pool.query(
+      `INSERT INTO retailer_settlement_entries (
+        retailer_id, payment_plan_id, payment_id, refund_id, entry_type, collected_amount,
+        gross_amount, commission_percent, commission_amount, net_amount
+      ) VALUES ($1, $2, $3, $4, 'refund', $5, $6, $7, $8, $9)
+      ON CONFLICT DO NOTHING
+      RETURNING *`,
+      [
+        original.retailer_id,
+        original.payment_plan_id,
+        refund.paymentId,
+        refund.id,
+        -round2(refund.amount),
+        grossAmount,
+        original.commission_percent,
+        commissionAmount,
+        round2(grossAmount - commissionAmount),
+      ]
+    );
+    return inserted.rows.length > 0 ? this.mapEntry(inserted.rows[0]) : null;
+  }
+
+  /**
+   * Gather each retailer's unpaid earnings up to the end of the period into a payout batch.
+   * Earnings from before the period that missed an earlier batch are swept in too. Retailers
+   * whose clawbacks outweigh their earnings are skipped, so the balance carries forward.
+   */
+  async createPayoutBatches(periodStart: string, periodEnd: string): Promise<PayoutBatch[]> {
+    const owed = await this.pool.query(
+      `SELECT retailer_id
+       FROM retailer_settlement_entries
+       WHERE payout_batch_id IS NULL AND earned_at < $1::date + 1
+       GROUP BY retailer_id
+       HAVING SUM(net_amount) > 0`,
+      [periodEnd]
+    );
+
+    const batches: PayoutBatch[] = [];
+    for (const { retailer_id: retailerId } of owed.rows) {
+      const created = await this.pool.query(
+        `INSERT INTO retailer_payout_batches (retailer_id, period_start, period_end)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (retailer_id, period_start, period_end) DO NOTHING
+         RETURNING id`,
+        [retailerId, periodStart, periodEnd]
+      );
+      if (created.rows.length === 0) {
+        continue;
+      }
+      const batchId = created.rows[0].id;
+
+      await this.pool.query(
+        `UPDATE retailer_settlement_entries
+         SET payout_batch_id = $1
+         WHERE retailer_id = $2 AND payout_batch_id IS NULL AND earned_at < $3::date + 1`,
+        [batchId, retailerId, periodEnd]
+      );
+
+      const totals = await this.pool.query(
+        `UPDATE retailer_payout_batches b
+         SET entry_count = t.entry_count,
+             collected_amount = t.collected_amount,
+             gross_amount = t.gross_amount,
+             commission_amount = t.commission_amount,
+             net_amount = t.net_amount,
+             updated_at = CURRENT_TIMESTAMP
+         FROM (
+           SELECT COUNT(*)::int AS entry_count,
+                  COALESCE(SUM(collected_amount), 0) AS collected_amount,
+                  COALESCE(SUM(gross_amount), 0) AS gross_amount,
+                  COALESCE(SUM(commission_amount), 0) AS commission_amount,
+                  COALESCE(SUM(net_amount), 0) AS net_amount
+           FROM retailer_settlement_entries
+           WHERE payout_batch_id = $1
+         ) t
+         WHERE b.id = $1
+         RETURNING b.*`,
+        [batchId]
+      );
+      batches.push(this.mapBatch(totals.rows[0]));
+    }
+
+    return batches;
+  }
+
+  /**
+   * Batch the last whole payout period, so running it again the same day is harmless
+   */
+  async createBatchesForLastPeriod(asOf: Date = new Date()): Promise<PayoutBatch[]> {
+    const { periodStart, periodEnd } = RetailerSettlementService.previousPeriod(RetailerSettlementService.payoutPeriod(), asOf);
+    return this.createPayoutBatches(periodStart, periodEnd);
+  }
+
+  /**
+   * Record the progress of a payout, e.g. once the bank transfer has been sent
+   */
+  async updateBatchStatus(batchId: string, update: PayoutStatusUpdate): Promise<PayoutBatch | null> {
+    const batch = await this.getBatch(batchId);
+    if (!batch) {
+      return null;
+    }
+
+    if (!PAYOUT_TRANSITIONS[batch.status].includes(update.status)) {
+      throw new Error(`Cannot move a ${batch.status} payout batch to ${update.status}`);
+    }
+    if (update.status === 'paid' && !update.payoutReference && !batch.payoutReference) {
+      throw new Error('payoutReference is required to mark a batch paid');
+    }
+    if (update.status === 'failed' && !update.failureReason) {
+      throw new Error('failureReason is required to mark a batch failed');
+    }
+
+    const result = await this.pool.query(
+      `UPDATE retailer_payout_batches
+       SET status = $1,
+           payout_reference = COALESCE($2, payout_reference),
+           failure_reason = $3,
+           status_updated_by = $4,
+           paid_at = CASE WHEN $1 = 'paid' THEN CURRENT_TIMESTAMP ELSE paid_at END,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $5 AND status = $6
+       RETURNING *`,
+      [
+        update.status,
+        update.payoutReference || null,
+        update.status === 'failed' ? update.failureReason : null,
+        update.performedBy,
+        batchId,
+        batch.status,
+      ]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Payout batch was updated by someone else; reload and try again');
+    }
+    return this.mapBatch(result.rows[0]);
+  }
+
+  async getBatch(batchId: string): Promise<PayoutBatch | null> {
+    const result = await this.pool.query('SELECT * FROM retailer_payout_batches WHERE id = $1', [batchId]);
+    return result.rows.length > 0 ? this.mapBatch(result.rows[0]) : null;
+  }
+
+  async listBatches(filters: { retailerId?: string; status?: PayoutBatchStatus; limit?: number } = {}): Promise<PayoutBatch[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.retailerId) {
+      params.push(filters.retailerId);
+      conditions.push(`retailer_id = $${params.length}`);
+    }
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`status = $${params.length}`);
+    }
+    params.push(filters.limit || 50);
+
+    const result = await this.pool.query(
+      `SELECT * FROM retailer_payout_batches
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY period_end DESC, created_at DESC
+       LIMIT $${params.length}`,
+      params
+    );
+    return result.rows.map((row) => this.mapBatch(row));
+  }
+
+  /**
+   * Earnings for a retailer, newest first. unbatched limits them to those not yet in a payout.
+   */
+  async getEntries(retailerId: string, options: { unbatched?: boolean; limit?: number } = {}): Promise<SettlementEntry[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM retailer_settlement_entries
+       WHERE retailer_id = $1 ${options.unbatched ? 'AND payout_batch_id IS NULL' : ''}
+       ORDER BY earned_at DESC
+       LIMIT $2`,
+      [retailerId, options.limit || 100]
+    );
+    return result.rows.map((row) => this.mapEntry(row));
+  }
+
+  async getSummary(retailerId: string): Promise<RetailerSettlementSummary> {
+    const result = await this.pool.query(
+      `SELECT COALESCE(SUM(e.collected_amount), 0) AS collected_amount,
+              COALESCE(SUM(e.gross_amount), 0) AS gross_amount,
+              COALESCE(SUM(e.commission_amount), 0) AS commission_amount,
+              COALESCE(SUM(e.net_amount), 0) AS net_amount,
+              COALESCE(SUM(e.net_amount) FILTER (WHERE e.payout_batch_id IS NULL), 0) AS unbatched_amount,
+              COALESCE(SUM(e.net_amount) FILTER (WHERE b.status IN ('pending', 'processing', 'failed')), 0) AS awaiting_payout_amount,
+              COALESCE(SUM(e.net_amount) FILTER (WHERE b.status = 'paid'), 0) AS paid_amount
+       FROM retailer_settlement_entries e
+       LEFT JOIN retailer_payout_batches b ON e.payout_batch_id = b.id
+       WHERE e.retailer_id = $1`,
+      [retailerId]
+    );
+    const row = result.rows[0];
+
+    return {
+      retailerId,
+      collectedAmount: parseFloat(row.collected_amount),
+      grossAmount: parseFloat(row.gross_amount),
+      commissionAmount: parseFloat(row.commission_amount),
+      netAmount: parseFloat(row.net_amount),
+      unbatchedAmount: parseFloat(row.unbatched_amount),
+      awaitingPayoutAmount: parseFloat(row.awaiting_payout_amount),
+      paidAmount: parseFloat(row.paid_amount),
+      currency: BASE_CURRENCY,
+    };
+  }
+
+  async getPayoutStatement(batchId: string): Promise<PayoutStatement | null> {
+    const batch = await this.getBatch(batchId);
+    if (!batch) {
+      return null;
+    }
+
+    const result = await this.pool.query(
+      `SELECT * FROM retailer_settlement_entries WHERE payout_batch_id = $1 ORDER BY earned_at ASC`,
+      [batchId]
+    );
+
+    return {
+      batch,
+      entries: result.rows.map((row) => this.mapEntry(row)),
+      currency: BASE_CURRENCY,
+      generatedAt: new Date(),
+    };
+  }
+
+  static renderPayoutStatementPdf(statement: PayoutStatement): Buffer {
+    const { batch, currency } = statement;
+    const pdf = new PdfDocument();
+    const columns = { date: PDF_MARGIN, type: PDF_MARGIN + 65, plan: PDF_MARGIN + 135, collected: 330, share: 400, commission: 470, net: PDF_CONTENT_RIGHT };
+    const summary = (label: string, amount: number, bold: boolean = false) =>
+      pdf.row([
+        { text: label, bold },
+        { text: `${currency} ${formatAmount(amount)}`, x: PDF_CONTENT_RIGHT, align: 'right', bold },
+      ]);
+
+    pdf.text(documentIssuerName(), { size: 16, bold: true });
+    pdf.text('Retailer Payout Statement', { size: 12 });
+    pdf.text(`Period: ${batch.periodStart} to ${batch.periodEnd}`);
+    pdf.text(`Retailer: ${batch.retailerId}`);
+    pdf.text(`Payout batch: ${batch.id}`);
+    pdf.text(`Status: ${batch.status}${batch.payoutReference ? ` (reference ${batch.payoutReference})` : ''}`);
+    pdf.rule();
+
+    summary('Collected from customers', batch.collectedAmount);
+    summary('Retailer share', batch.grossAmount);
+    summary('Platform commission', -batch.commissionAmount);
+    summary('Payout', batch.netAmount, true);
+    pdf.moveDown();
+
+    const header = { bold: true, size: 9 };
+    pdf.row([
+      { text: 'Date', x: columns.date, ...header },
+      { text: 'Type', x: columns.type, ...header },
+      { text: 'Payment plan', x: columns.plan, ...header },
+      { text: 'Collected', x: columns.collected, align: 'right', ...header },
+      { text: 'Share', x: columns.share, align: 'right', ...header },
+      { text: 'Commission', x: columns.commission, align: 'right', ...header },
+      { text: 'Net', x: columns.net, align: 'right', ...header },
+    ], 9);
+    pdf.rule();
+
+    for (const entry of statement.entries) {
+      pdf.row([
+        { text: formatDate(entry.earnedAt), x: columns.date },
+        { text: entry.entryType, x: columns.type },
+        { text: entry.paymentPlanId.slice(0, 8), x: columns.plan },
+        { text: formatAmount(entry.collectedAmount), x: columns.collected, align: 'right' },
+        { text: formatAmount(entry.grossAmount), x: columns.share, align: 'right' },
+        { text: formatAmount(entry.commissionAmount), x: columns.commission, align: 'right' },
+        { text: formatAmount(entry.netAmount), x: columns.net, align: 'right' },
+      ], 9);
+    }
+
+    pdf.moveDown(20);
+    pdf.text(`Generated ${statement.generatedAt.toISOString()}`, { size: 8 });
+    return pdf.toBuffer();
+  }
+
+  static renderPayoutStatementCsv(statement: PayoutStatement): string {
+    const rows: Array<Array<string | number | undefined>> = [
+      ['Date', 'Type', 'Payment Plan', 'Payment', 'Refund', 'Collected', 'Retailer Share', 'Commission %', 'Commission', 'Net', 'Currency'],
+    ];
+
+    for (const entry of statement.entries) {
+      rows.push([
+        formatDate(entry.earnedAt),
+        entry.entryType,
+        entry.paymentPlanId,
+        entry.paymentId,
+        entry.refundId,
+        entry.collectedAmount.toFixed(2),
+        entry.grossAmount.toFixed(2),
+        entry.commissionPercent.toFixed(2),
+        entry.commissionAmount.toFixed(2),
+        entry.netAmount.toFixed(2),
+        statement.currency,
+      ]);
+    }
+
+    const { batch } = statement;
+    rows.push([
+      batch.periodEnd,
+      'payout',
+      '',
+      '',
+      '',
+      batch.collectedAmount.toFixed(2),
+      batch.grossAmount.toFixed(2),
+      '',
+      batch.commissionAmount.toFixed(2),
+      batch.netAmount.toFixed(2),
+      statement.currency,
+    ]);
+    return rows.map((row) => row.map(csvField).join(',')).join('\n') + '\n';
+  }
+
+  private mapEntry(row: any): SettlementEntry {
+    return {
+      id: row.id,
+      retailerId: row.retailer_id,
+      paymentPlanId: row.payment_plan_id,
+      paymentId: row.payment_id,
+      refundId: row.refund_id || undefined,
+      entryType: row.entry_type,
+      collectedAmount: parseFloat(row.collected_amount),
+      grossAmount: parseFloat(row.gross_amount),
+      commissionPercent: parseFloat(row.commission_percent),
+      commissionAmount: parseFloat(row.commission_amount),
+      netAmount: parseFloat(row.net_amount),
+      payoutBatchId: row.payout_batch_id || undefined,
+      earnedAt: row.earned_at,
+    };
+  }
+
+  private mapBatch(row: any): PayoutBatch {
+    return {
+      id: row.id,
+      retailerId: row.retailer_id,
+      periodStart: formatDate(row.period_start),
+      periodEnd: formatDate(row.period_end),
+      entryCount: row.entry_count,
+      collectedAmount: parseFloat(row.collected_amount),
+      grossAmount: parseFloat(row.gross_amount),
+      commissionAmount: parseFloat(row.commission_amount),
+      netAmount: parseFloat(row.net_amount),
+      status: row.status,
+      payoutReference: row.payout_reference || undefined,
+      failureReason: row.failure_reason || undefined,
+      statusUpdatedBy: row.status_updated_by || undefined,
+      paidAt: row.paid_at || undefined,
+      createdAt: row.created_at,
+    };
+  }
+}
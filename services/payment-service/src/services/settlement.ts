@@ -0,0 +1,179 @@
+/**
+ * Early Settlement Service
+ * Issues time-limited payoff quotes so customers can buy out their vehicle early
+ */
+
+import { Pool } from 'pg';
+import { PaymentAllocationService } from './paymentAllocation';
+import { Queryable } from './transaction';
+
+export interface SettlementConfig {
+  discountPercentage: number; // Discount applied to the outstanding balance
+  quoteValidityHours: number;
+}
+
+export interface SettlementQuote {
+  id: string;
+  paymentPlanId: string;
+  userId: string;
+  outstandingBalance: number;
+  interestRebate: number; // Unearned interest on installments not yet due
+  discountPercentage: number;
+  discountAmount: number;
+  settlementAmount: number;
+  status: 'issued' | 'settled' | 'expired' | 'cancelled';
+  expiresAt: Date;
+  paymentId?: string;
+  settledAt?: Date;
+  createdAt: Date;
+}
+
+export class SettlementService {
+  private pool: Pool;
+  private config: SettlementConfig;
+  private defaultConfig: SettlementConfig = {
+    discountPercentage: 0,
+    quoteValidityHours: 72,
+  };
+
+  constructor(pool: Pool, config?: Partial<SettlementConfig>) {
+    this.pool = pool;
+    this.config = { ...this.defaultConfig, ...config };
+  }
+
+  /**
+   * Calculate the lump sum needed to close a plan today.
+   * Unearned interest is rebated first; the discount applies to what is left.
+   */
+  static calculateSettlementAmount(
+    outstandingBalance: number,
+    discountPercentage: number,
+    interestRebate: number = 0
+  ): { discountAmount: number; settlementAmount: number } {
+    if (discountPercentage < 0 || discountPercentage > 100) {
+      throw new Error('Discount percentage must be between 0 and 100');
+    }
+
+    const balanceAfterRebate = Math.max(0, outstandingBalance - interestRebate);
+    const discountAmount = Math.round(balanceAfterRebate * discountPercentage) / 100;
+    const settlementAmount = Math.round((balanceAfterRebate - discountAmount) * 100) / 100;
+
+    return { discountAmount, settlementAmount };
+  }
+
+  /**
+   * Issue a new settlement quote for a payment plan
+   */
+  async createQuote(plan: any): Promise<SettlementQuote> {
+    if (!['active', 'overdue'].includes(plan.status)) {
+      throw new Error('Only active or overdue payment plans can be settled');
+    }
+
+    // Credit from earlier overpayments is already netted off the outstanding balance; late fees are added on.
+    // Add-on charges on installments not yet due are dropped - the add-ons end with the plan.
+    const balance = await new PaymentAllocationService(this.pool).getPlanBalance(plan);
+    const outstandingBalance = Math.round(
+      (balance.outstandingBalance + balance.penaltyBalance - balance.unearnedAddons) * 100
+    ) / 100;
+    const { unearnedInterest } = balance;
+
+    if (outstandingBalance <= 0) {
+      throw new Error('Payment plan has no outstanding balance');
+    }
+
+    const interestRebate = Math.min(unearnedInterest, outstandingBalance);
+    const { discountAmount, settlementAmount } = SettlementService.calculateSettlementAmount(
+      outstandingBalance,
+      this.config.discountPercentage,
+      interestRebate
+    );
+
+    const expiresAt = new Date();
+    expiresAt.setHours(expiresAt.getHours() + this.config.quoteValidityHours);
+
+    // Only one quote can be open per plan at a time
+    await this.pool.query(
+      `UPDATE settlement_quotes SET status = 'cancelled'
+       WHERE payment_plan_id = $1 AND status = 'issued'`,
+      [plan.id]
+    );
+
+    const result = await this.pool.query(
+      `INSERT INTO settlement_quotes (
+        payment_plan_id, user_id, outstanding_balance, interest_rebate, discount_percentage,
+        discount_amount, settlement_amount, status, expires_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, 'issued', $8)
+      RETURNING *`,
+      [
+        plan.id,
+        plan.user_id,
+        outstandingBalance,
+        interestRebate,
+        this.config.discountPercentage,
+        discountAmount,
+        settlementAmount,
+        expiresAt,
+      ]
+    );
+
+    return this.mapQuote(result.rows[0]);
+  }
+
+  /**
+   * Get a quote that can still be used to settle the given plan
+   */
+  async getValidQuote(quoteId: string, planId: string): Promise<SettlementQuote | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM settlement_quotes
+       WHERE id = $1 AND payment_plan_id = $2 AND status = 'issued' AND expires_at > CURRENT_TIMESTAMP`,
+      [quoteId, planId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapQuote(result.rows[0]);
+  }
+
+  /**
+   * Mark a quote as settled by the given payment
+   */
+  async markQuoteSettled(quoteId: string, paymentId: string, db: Queryable = this.pool): Promise<void> {
+    await db.query(
+      `UPDATE settlement_quotes
+       SET status = 'settled', payment_id = $1, settled_at = CURRENT_TIMESTAMP
+       WHERE id = $2`,
+      [paymentId, quoteId]
+    );
+  }
+
+  /**
+   * Expire quotes that were never used
+   */
+  async expireStaleQuotes(): Promise<number> {
+    const result = await this.pool.query(
+      `UPDATE settlement_quotes SET status = 'expired'
+       WHERE status = 'issued' AND expires_at <= CURRENT_TIMESTAMP`
+    );
+    return result.rowCount || 0;
+  }
+
+  private mapQuote(row: any): SettlementQuote {
+    return {
+      id: row.id,
+      paymentPlanId: row.payment_plan_id,
+      userId: row.user_id,
+      outstandingBalance: parseFloat(row.outstanding_balance),
+      interestRebate: parseFloat(row.interest_rebate || '0'),
+      discountPercentage: parseFloat(row.discount_percentage),
+      discountAmount: parseFloat(row.discount_amount),
+      settlementAmount: parseFloat(row.settlement_amount),
+      status: row.status,
+      expiresAt: row.expires_at,
+      paymentId: row.payment_id || undefined,
+      settledAt: row.settled_at || undefined,
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,579 @@
+/**
+ * Receipt and Statement Service
+ * Every completed payment gets a numbered receipt as proof of payment. Plan statements
+ * list what was charged and paid over a period, with opening and closing balances, and
+ * can be downloaded as PDF or CSV. Deposits are paid before the plan is financed, so
+ * they get receipts but do not move the statement balance. Add-on charges are listed
+ * apart from the amount financed.
+ */
+
+import { Pool } from 'pg';
+import { PaymentAllocationService } from './paymentAllocation';
+import { Queryable } from './transaction';
+import { PdfDocument, PDF_MARGIN, PDF_CONTENT_RIGHT } from './pdfDocument';
+import { PlanAddonType } from './paymentSchedule';
+import { ADDON_LABELS } from './planAddons';
+
+export interface ForeignExchangeDetails {
+  originalAmount: number;
+  originalCurrency: string;
+  exchangeRate: number; // Units of the base currency per unit of the original currency
+}
+
+export interface ReceiptAllocation {
+  type: 'installment' | 'penalty' | 'credit';
+  installmentNumber?: number;
+  addonType?: PlanAddonType; // Set when the amount paid an add-on charge on the installment
+  amount: number;
+}
+
+export interface PaymentReceipt {
+  receiptNumber: string;
+  issuedAt: Date;
+  paymentId: string;
+  paymentPlanId: string;
+  userId: string;
+  vehicleId?: string;
+  paymentType: 'deposit' | 'installment' | 'settlement';
+  autoDebit: boolean;
+  amount: number;
+  currency: string;
+  paymentMethod: string;
+  mobileMoneyProvider?: string;
+  phoneNumberLast4?: string;
+  externalTransactionId?: string;
+  paidAt: Date;
+  refundedAmount: number;
+  foreignExchange?: ForeignExchangeDetails;
+  allocations: ReceiptAllocation[];
+}
+
+export type StatementLineType =
+  | 'financed'
+  | 'restructure'
+  | 'addon_charge'
+  | 'addon_cancellation'
+  | 'payment'
+  | 'penalty'
+  | 'penalty_waiver'
+  | 'refund'
+  | 'settlement_discount';
+
+export interface StatementLine {
+  date: Date;
+  type: StatementLineType;
+  description: string;
+  reference?: string;
+  debit: number; // Increases what the customer owes
+  credit: number; // Reduces what the customer owes
+  balance: number;
+  foreignExchange?: ForeignExchangeDetails;
+}
+
+export interface PlanStatement {
+  paymentPlanId: string;
+  userId: string;
+  vehicleId: string;
+  currency: string;
+  periodStart: Date;
+  periodEnd: Date;
+  openingBalance: number;
+  totalPayments: number;
+  totalPenalties: number;
+  totalAddonCharges: number; // Add-on charges less cancellations
+  totalAdjustments: number; // Everything else: waivers, refunds, restructures, settlement discounts
+  closingBalance: number;
+  lines: StatementLine[];
+  generatedAt: Date;
+}
+
+export const BASE_CURRENCY = 'UGX';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function formatAmount(amount: number): string {
+  return amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+/**
+ * Name printed at the top of receipts, statements and letters
+ */
+export function documentIssuerName(): string {
+  return process.env.RECEIPT_ISSUER_NAME || 'Rent-to-Own Vehicle Marketplace';
+}
+
+export function formatDate(date: Date): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+export function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export class StatementService {
+  private pool: Pool;
+  private allocationService: PaymentAllocationService;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+    this.allocationService = new PaymentAllocationService(pool);
+  }
+
+  /**
+   * Number the receipt for a completed payment. Safe to call more than once.
+   * Pass a transaction's client to number it as part of that transaction.
+   */
+  async issueReceipt(paymentId: string, db: Queryable = this.pool): Promise<string> {
+    await db.query(
+      `INSERT INTO payment_receipts (payment_id, receipt_number)
+       VALUES ($1, 'RCP-' || to_char(CURRENT_DATE, 'YYYY') || '-' || lpad(nextval('payment_receipt_number_seq')::text, 8, '0'))
+       ON CONFLICT (payment_id) DO NOTHING`,
+      [paymentId]
+    );
+    const result = await db.query('SELECT receipt_number FROM payment_receipts WHERE payment_id = $1', [paymentId]);
+    return result.rows[0].receipt_number;
+  }
+
+  /**
+   * The receipt for a payment, or null if the payment never completed.
+   * Payments completed before receipts existed are numbered on first request.
+   */
+  async getReceipt(paymentId: string): Promise<PaymentReceipt | null> {
+    const paymentResult = await this.pool.query(
+      `SELECT p.*, pp.vehicle_id
+       FROM payments p
+       LEFT JOIN payment_plans pp ON p.payment_plan_id = pp.id
+       WHERE p.id = $1 AND p.status IN ('completed', 'refunded')`,
+      [paymentId]
+    );
+    if (paymentResult.rows.length === 0) {
+      return null;
+    }
+    const payment = paymentResult.rows[0];
+
+    await this.issueReceipt(paymentId);
+    const receiptResult = await this.pool.query('SELECT * FROM payment_receipts WHERE payment_id = $1', [paymentId]);
+    const receipt = receiptResult.rows[0];
+
+    // Refund reversals are shown on the statement, not the receipt
+    const allocations = (await this.allocationService.getAllocationsForPayment(paymentId))
+      .filter((row) => !row.refund_id && row.allocation_type !== 'credit_applied')
+      .map((row): ReceiptAllocation => ({
+        type: row.allocation_type,
+        installmentNumber: row.installment_number ?? undefined,
+        addonType: row.addon_type || undefined,
+        amount: parseFloat(row.amount),
+      }));
+
+    return {
+      receiptNumber: receipt.receipt_number,
+      issuedAt: receipt.issued_at,
+      paymentId: payment.id,
+      paymentPlanId: payment.payment_plan_id,
+      userId: payment.user_id,
+      vehicleId: payment.vehicle_id || undefined,
+      paymentType: payment.is_deposit ? 'deposit' : payment.settlement_quote_id ? 'settlement' : 'installment',
+      autoDebit: !!payment.mandate_id,
+      amount: parseFloat(payment.amount),
+      currency: payment.currency || BASE_CURRENCY,
+      paymentMethod: payment.payment_method,
+      mobileMoneyProvider: payment.mobile_money_provider || undefined,
+      phoneNumberLast4: payment.phone_number ? payment.phone_number.slice(-4) : undefined,
+      externalTransactionId: payment.external_transaction_id || undefined,
+      paidAt: payment.processed_at || payment.updated_at,
+      refundedAmount: parseFloat(payment.refunded_amount || '0'),
+      foreignExchange: this.mapForeignExchange(payment),
+      allocations,
+    };
+  }
+
+  /**
+   * Statement of a plan's account between two dates (inclusive)
+   */
+  async getStatement(planId: string, periodStart: Date, periodEnd: Date): Promise<PlanStatement | null> {
+    const planResult = await this.pool.query('SELECT * FROM payment_plans WHERE id = $1', [planId]);
+    if (planResult.rows.length === 0) {
+      return null;
+    }
+    const plan = planResult.rows[0];
+
+    const entries = await this.getLedgerEntries(plan);
+    return StatementService.buildStatement(plan, entries, periodStart, periodEnd);
+  }
+
+  /**
+   * Split a plan's ledger into the opening balance and the lines in the period.
+   * Pure calculation - nothing is written.
+   */
+  static buildStatement(
+    plan: any,
+    entries: Array<Omit<StatementLine, 'balance'>>,
+    periodStart: Date,
+    periodEnd: Date
+  ): PlanStatement {
+    const start = new Date(periodStart);
+    start.setHours(0, 0, 0, 0);
+    const endExclusive = new Date(periodEnd);
+    endExclusive.setHours(0, 0, 0, 0);
+    endExclusive.setDate(endExclusive.getDate() + 1);
+
+    const sorted = [...entries].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+    let balance = 0;
+    for (const entry of sorted.filter((e) => new Date(e.date) < start)) {
+      balance += entry.debit - entry.credit;
+    }
+    const openingBalance = round2(balance);
+
+    let totalPayments = 0;
+    let totalPenalties = 0;
+    let totalAddonCharges = 0;
+    let totalAdjustments = 0;
+    const lines: StatementLine[] = [];
+    for (const entry of sorted.filter((e) => new Date(e.date) >= start && new Date(e.date) < endExclusive)) {
+      balance += entry.debit - entry.credit;
+      lines.push({ ...entry, balance: round2(balance) });
+
+      if (entry.type === 'payment') {
+        totalPayments += entry.credit;
+      } else if (entry.type === 'penalty') {
+        totalPenalties += entry.debit;
+      } else if (entry.type === 'addon_charge' || entry.type === 'addon_cancellation') {
+        totalAddonCharges += entry.debit - entry.credit;
+      } else {
+        totalAdjustments += entry.debit - entry.credit;
+      }
+    }
+
+    return {
+      paymentPlanId: plan.id,
+      userId: plan.user_id,
+      vehicleId: plan.vehicle_id,
+      currency: BASE_CURRENCY,
+      periodStart: start,
+      periodEnd: new Date(endExclusive.getTime() - 1),
+      openingBalance,
+      totalPayments: round2(totalPayments),
+      totalPenalties: round2(totalPenalties),
+      totalAddonCharges: round2(totalAddonCharges),
+      totalAdjustments: round2(totalAdjustments),
+      closingBalance: round2(balance),
+      lines,
+      generatedAt: new Date(),
+    };
+  }
+
+  static renderReceiptPdf(receipt: PaymentReceipt): Buffer {
+    const pdf = new PdfDocument();
+    const valueX = PDF_MARGIN + 150;
+    const field = (label: string, value: string) => pdf.row([{ text: label }, { text: value, x: valueX }]);
+
+    pdf.text(documentIssuerName(), { size: 16, bold: true });
+    pdf.text('Payment Receipt', { size: 12 });
+    pdf.rule();
+
+    field('Receipt number', receipt.receiptNumber);
+    field('Issued', formatDate(receipt.issuedAt));
+    field('Paid on', formatDate(receipt.paidAt));
+    field('Payment ID', receipt.paymentId);
+    field('Payment plan', receipt.paymentPlanId);
+    if (receipt.vehicleId) {
+      field('Vehicle', receipt.vehicleId);
+    }
+    field(
+      'Payment type',
+      { deposit: 'Deposit', installment: 'Installment', settlement: 'Early settlement' }[receipt.paymentType] +
+        (receipt.autoDebit ? ' (auto-debit)' : '')
+    );
+    field('Payment method', receipt.paymentMethod.replace(/_/g, ' '));
+    if (receipt.mobileMoneyProvider) {
+      field('Provider', receipt.mobileMoneyProvider.toUpperCase());
+    }
+    if (receipt.phoneNumberLast4) {
+      field('Phone number', `****${receipt.phoneNumberLast4}`);
+    }
+    if (receipt.externalTransactionId) {
+      field('Transaction reference', receipt.externalTransactionId);
+    }
+
+    pdf.rule();
+    pdf.row([
+      { text: 'Amount paid', bold: true },
+      { text: `${receipt.currency} ${formatAmount(receipt.amount)}`, x: PDF_CONTENT_RIGHT, align: 'right', bold: true },
+    ], 12);
+    if (receipt.foreignExchange) {
+      const fx = receipt.foreignExchange;
+      field('Amount tendered', `${fx.originalCurrency} ${formatAmount(fx.originalAmount)}`);
+      field('Exchange rate', `1 ${fx.originalCurrency} = ${fx.exchangeRate.toFixed(4)} ${receipt.currency}`);
+    }
+    if (receipt.refundedAmount > 0) {
+      field('Refunded', `${receipt.currency} ${formatAmount(receipt.refundedAmount)}`);
+    }
+
+    if (receipt.allocations.length > 0) {
+      pdf.moveDown();
+      pdf.text('Applied to', { bold: true });
+      for (const allocation of receipt.allocations) {
+        const label =
+          allocation.type === 'installment'
+            ? `Installment ${allocation.installmentNumber}` + (allocation.addonType ? ` - ${ADDON_LABELS[allocation.addonType]}` : '')
+            : allocation.type === 'penalty'
+              ? 'Late payment penalty'
+              : 'Held as credit';
+        pdf.row([{ text: label }, { text: formatAmount(allocation.amount), x: PDF_CONTENT_RIGHT, align: 'right' }]);
+      }
+    }
+
+    pdf.moveDown(20);
+    pdf.text('This receipt was generated electronically and is valid without a signature.', { size: 8 });
+    return pdf.toBuffer();
+  }
+
+  static renderStatementPdf(statement: PlanStatement): Buffer {
+    const pdf = new PdfDocument();
+    const columns = { date: PDF_MARGIN, description: PDF_MARGIN + 65, debit: 390, credit: 465, balance: PDF_CONTENT_RIGHT };
+    const summary = (label: string, amount: number, bold: boolean = false) =>
+      pdf.row([
+        { text: label, bold },
+        { text: `${statement.currency} ${formatAmount(amount)}`, x: PDF_CONTENT_RIGHT, align: 'right', bold },
+      ]);
+
+    pdf.text(documentIssuerName(), { size: 16, bold: true });
+    pdf.text('Payment Plan Statement', { size: 12 });
+    pdf.text(`Period: ${formatDate(statement.periodStart)} to ${formatDate(statement.periodEnd)}`);
+    pdf.text(`Payment plan: ${statement.paymentPlanId}`);
+    pdf.text(`Vehicle: ${statement.vehicleId}`);
+    pdf.rule();
+
+    summary('Opening balance', statement.openingBalance);
+    summary('Payments received', statement.totalPayments);
+    summary('Penalties charged', statement.totalPenalties);
+    if (statement.totalAddonCharges !== 0) {
+      summary('Add-on charges', statement.totalAddonCharges);
+    }
+    if (statement.totalAdjustments !== 0) {
+      summary('Other adjustments', statement.totalAdjustments);
+    }
+    summary('Closing balance', statement.closingBalance, true);
+    pdf.moveDown();
+
+    const header = { bold: true, size: 9 };
+    pdf.row([
+      { text: 'Date', x: columns.date, ...header },
+      { text: 'Description', x: columns.description, ...header },
+      { text: 'Debit', x: columns.debit, align: 'right', ...header },
+      { text: 'Credit', x: columns.credit, align: 'right', ...header },
+      { text: 'Balance', x: columns.balance, align: 'right', ...header },
+    ], 9);
+    pdf.rule();
+
+    for (const line of statement.lines) {
+      pdf.row([
+        { text: formatDate(line.date), x: columns.date },
+        { text: line.description, x: columns.description },
+        { text: line.debit ? formatAmount(line.debit) : '', x: columns.debit, align: 'right' },
+        { text: line.credit ? formatAmount(line.credit) : '', x: columns.credit, align: 'right' },
+        { text: formatAmount(line.balance), x: columns.balance, align: 'right' },
+      ], 9);
+      if (line.foreignExchange) {
+        const fx = line.foreignExchange;
+        pdf.text(
+          `Paid ${fx.originalCurrency} ${formatAmount(fx.originalAmount)} at ${fx.exchangeRate.toFixed(4)} ${statement.currency}/${fx.originalCurrency}`,
+          { x: columns.description, size: 8 }
+        );
+      }
+    }
+    if (statement.lines.length === 0) {
+      pdf.text('No transactions in this period.', { size: 9 });
+    }
+
+    pdf.moveDown(20);
+    pdf.text(`Generated ${statement.generatedAt.toISOString()}`, { size: 8 });
+    return pdf.toBuffer();
+  }
+
+  /**
+   * Statement as CSV, bracketed by opening and closing balance rows
+   */
+  static renderStatementCsv(statement: PlanStatement): string {
+    const rows: Array<Array<string | number | undefined>> = [
+      ['Date', 'Type', 'Description', 'Reference', 'Debit', 'Credit', 'Balance', 'Currency', 'Original Amount', 'Original Currency', 'Exchange Rate'],
+      [formatDate(statement.periodStart), 'opening_balance', 'Opening balance', '', '', '', statement.openingBalance.toFixed(2), statement.currency],
+    ];
+
+    for (const line of statement.lines) {
+      rows.push([
+        formatDate(line.date),
+        line.type,
+        line.description,
+        line.reference,
+        line.debit ? line.debit.toFixed(2) : '',
+        line.credit ? line.credit.toFixed(2) : '',
+        line.balance.toFixed(2),
+        statement.currency,
+        line.foreignExchange?.originalAmount.toFixed(2),
+        line.foreignExchange?.originalCurrency,
+        line.foreignExchange?.exchangeRate.toString(),
+      ]);
+    }
+
+    rows.push([formatDate(statement.periodEnd), 'closing_balance', 'Closing balance', '', '', '', statement.closingBalance.toFixed(2), statement.currency]);
+    return rows.map((row) => row.map(csvField).join(',')).join('\n') + '\n';
+  }
+
+  /**
+   * Every movement on the plan's balance since it was opened
+   */
+  private async getLedgerEntries(plan: any): Promise<Array<Omit<StatementLine, 'balance'>>> {
+    const entries: Array<Omit<StatementLine, 'balance'>> = [];
+    const entry = (line: Omit<StatementLine, 'balance' | 'debit' | 'credit'>, amount: number) =>
+      entries.push({ ...line, debit: amount > 0 ? round2(amount) : 0, credit: amount < 0 ? round2(-amount) : 0 });
+
+    // The original schedule without add-ons; plans created before installments were tracked fall back to the financed price
+    const financedResult = await this.pool.query(
+      `SELECT COUNT(*)::int AS installment_count, COALESCE(SUM(amount_due - COALESCE(addon_due, 0)), 0) AS amount
+       FROM payment_installments
+       WHERE payment_plan_id = $1 AND plan_restructure_id IS NULL`,
+      [plan.id]
+    );
+    const financed =
+      financedResult.rows[0].installment_count > 0
+        ? parseFloat(financedResult.rows[0].amount)
+        : parseFloat(plan.vehicle_price) - parseFloat(plan.deposit_amount);
+    entry({ date: plan.created_at, type: 'financed', description: 'Amount financed (including finance charges)' }, financed);
+
+    // A restructure swaps the unpaid part of the superseded installments for the new schedule.
+    // Add-on charges carried across keep their own lines, so they are left out on both sides.
+    const restructureResult = await this.pool.query(
+      `SELECT r.id, r.created_at,
+         (SELECT COALESCE(SUM(amount_due - COALESCE(addon_due, 0)), 0) FROM payment_installments WHERE plan_restructure_id = r.id) AS new_amount,
+         (SELECT COALESCE(SUM((amount_due - COALESCE(addon_due, 0)) - GREATEST(amount_paid - COALESCE(addon_paid, 0), 0)), 0)
+          FROM payment_installments WHERE superseded_by = r.id) AS replaced_amount
+       FROM plan_restructures r
+       WHERE r.payment_plan_id = $1`,
+      [plan.id]
+    );
+    for (const row of restructureResult.rows) {
+      entry(
+        { date: row.created_at, type: 'restructure', description: 'Plan restructured', reference: row.id },
+        parseFloat(row.new_amount) - parseFloat(row.replaced_amount)
+      );
+    }
+
+    // Charges carried over by a restructure were already charged on the installment they came from
+    const addonResult = await this.pool.query(
+      `SELECT c.*, a.addon_type, pi.installment_number
+       FROM installment_addon_charges c
+       JOIN plan_addons a ON c.plan_addon_id = a.id
+       JOIN payment_installments pi ON c.installment_id = pi.id
+       WHERE c.payment_plan_id = $1`,
+      [plan.id]
+    );
+    for (const row of addonResult.rows) {
+      const label = ADDON_LABELS[row.addon_type as PlanAddonType];
+      if (!row.moved_from) {
+        entry(
+          { date: row.created_at, type: 'addon_charge', description: `${label} (installment ${row.installment_number})`, reference: row.id },
+          parseFloat(row.amount)
+        );
+      }
+      if (parseFloat(row.cancelled_amount) > 0 && row.cancelled_at) {
+        entry(
+          {
+            date: row.cancelled_at,
+            type: 'addon_cancellation',
+            description: row.status === 'settled' ? `${label} not charged after early settlement` : `${label} cancelled`,
+            reference: row.id,
+          },
+          -parseFloat(row.cancelled_amount)
+        );
+      }
+    }
+
+    const penaltyResult = await this.pool.query(
+      `SELECT pc.*, pi.installment_number
+       FROM penalty_charges pc
+       LEFT JOIN payment_installments pi ON pc.installment_id = pi.id
+       WHERE pc.payment_plan_id = $1`,
+      [plan.id]
+    );
+    for (const row of penaltyResult.rows) {
+      const description = row.installment_number ? `Late payment penalty (installment ${row.installment_number})` : 'Late payment penalty';
+      entry({ date: row.charge_date, type: 'penalty', description, reference: row.id }, parseFloat(row.amount));
+      if (row.status === 'waived' && row.waived_at) {
+        entry(
+          { date: row.waived_at, type: 'penalty_waiver', description: 'Penalty waived', reference: row.id },
+          -(parseFloat(row.amount) - parseFloat(row.amount_paid))
+        );
+      }
+    }
+
+    const paymentResult = await this.pool.query(
+      `SELECT p.*, r.receipt_number
+       FROM payments p
+       LEFT JOIN payment_receipts r ON r.payment_id = p.id
+       WHERE p.payment_plan_id = $1
+         AND p.status IN ('completed', 'refunded')
+         AND p.is_deposit = false
+         AND p.processed_at IS NOT NULL`,
+      [plan.id]
+    );
+    for (const row of paymentResult.rows) {
+      const description = row.settlement_quote_id
+        ? 'Early settlement payment'
+        : row.mandate_id ? 'Payment received (auto-debit)' : 'Payment received';
+      entry(
+        {
+          date: row.processed_at,
+          type: 'payment',
+          description,
+          reference: row.receipt_number || row.id,
+          foreignExchange: this.mapForeignExchange(row),
+        },
+        -parseFloat(row.amount)
+      );
+    }
+
+    const refundResult = await this.pool.query(
+      `SELECT rf.*
+       FROM payment_refunds rf
+       JOIN payments p ON rf.payment_id = p.id
+       WHERE rf.payment_plan_id = $1 AND rf.status = 'completed' AND p.is_deposit = false`,
+      [plan.id]
+    );
+    for (const row of refundResult.rows) {
+      entry(
+        { date: row.completed_at, type: 'refund', description: `Refund: ${row.reason}`, reference: row.id },
+        parseFloat(row.amount)
+      );
+    }
+
+    const settlementResult = await this.pool.query(
+      `SELECT * FROM settlement_quotes WHERE payment_plan_id = $1 AND status = 'settled' AND settled_at IS NOT NULL`,
+      [plan.id]
+    );
+    for (const row of settlementResult.rows) {
+      const discount = parseFloat(row.interest_rebate || '0') + parseFloat(row.discount_amount || '0');
+      if (discount > 0) {
+        entry(
+          { date: row.settled_at, type: 'settlement_discount', description: 'Early settlement rebate and discount', reference: row.id },
+          -discount
+        );
+      }
+    }
+
+    return entries;
+  }
+
+  private mapForeignExchange(row: any): ForeignExchangeDetails | undefined {
+    if (!row.original_currency || row.original_currency === (row.currency || BASE_CURRENCY) || row.original_amount === null) {
+      return undefined;
+    }
+    return {
+      originalAmount: parseFloat(row.original_amount),
+      originalCurrency: row.original_currency,
+      exchangeRate: parseFloat(row.exchange_rate),
+    };
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Database Transactions
+ * Runs a unit of work on a single pooled connection, committing only if every statement succeeds.
+ */
+
+import { Pool, PoolClient } from 'pg';
+
+// Anything statements can run on: the pool, or a client inside a transaction
+export type Queryable = Pool | PoolClient;
+
+export async function withTransaction<T>(pool: Pool, work: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await work(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Join the caller's transaction when it passes its client, otherwise start one
+export async function inTransaction<T>(
+  pool: Pool,
+  client: PoolClient | undefined,
+  work: (client: PoolClient) => Promise<T>
+): Promise<T> {
+  return client ? work(client) : withTransaction(pool, work);
+}
@@ -0,0 +1,27 @@
+import express from 'express';
+import dotenv from 'dotenv';
+import { MobileMoneySimulator, SimulatorOutcome, simulatorRoutes } from './mobileMoneySimulator';
+
+dotenv.config();
+
+const app = express();
+const PORT = process.env.MOBILE_MONEY_SIMULATOR_PORT || 3090;
+
+// Uses the same credentials as the payment service so its callbacks verify
+const apiKey = process.env.MOBILE_MONEY_API_KEY || '';
+const simulator = new MobileMoneySimulator({
+  apiSecret: process.env.MOBILE_MONEY_API_SECRET || '',
+  callbackDelayMs: parseInt(process.env.MOBILE_MONEY_SIMULATOR_CALLBACK_DELAY_MS || '3000'),
+  defaultOutcome: (process.env.MOBILE_MONEY_SIMULATOR_DEFAULT_OUTCOME as SimulatorOutcome) || 'success',
+});
+
+app.use(express.json());
+app.use(simulatorRoutes(simulator, apiKey));
+
+app.get('/health', (req, res) => {
+  res.json({ status: 'ok', service: 'mobile-money-simulator' });
+});
+
+app.listen(PORT, () => {
+  console.log(`Mobile money simulator running on port ${PORT}`);
+});
@@ -0,0 +1,345 @@
+/**
+ * Mobile Money Provider Simulator
+ * A local stand-in for the MTN/Airtel collection and disbursement APIs, for development and
+ * integration tests. Collections are accepted as pending and settled by a signed callback
+ * after a delay; outcomes can be scripted per phone number.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import * as crypto from 'crypto';
+import { MobileMoneyCallback } from '../services/mobileMoney';
+import { signCallback } from '../services/callbackVerification';
+
+export type SimulatorOutcome = 'success' | 'insufficient_funds' | 'timeout' | 'duplicate_callback';
+
+export type SimulatedTransactionStatus = 'pending' | 'completed' | 'failed';
+
+export interface SimulatorOptions {
+  apiSecret: string; // Shared secret used to sign callbacks
+  callbackDelayMs: number;
+  defaultOutcome: SimulatorOutcome;
+}
+
+export interface ScriptedOutcome {
+  outcome: SimulatorOutcome;
+  callbackDelayMs?: number;
+}
+
+export interface CallbackDelivery {
+  deliveredAt: Date;
+  statusCode?: number;
+  error?: string;
+}
+
+export interface SimulatedTransaction {
+  transactionId: string;
+  type: 'collection' | 'disbursement';
+  provider: string;
+  reference: string;
+  amount: number;
+  phoneNumber: string;
+  outcome: SimulatorOutcome;
+  status: SimulatedTransactionStatus;
+  message?: string;
+  callbackUrl?: string;
+  callbacks: CallbackDelivery[];
+  createdAt: Date;
+}
+
+const FAILURE_MESSAGES: Partial<Record<SimulatorOutcome, string>> = {
+  insufficient_funds: 'Insufficient funds',
+  timeout: 'Transaction timeout',
+};
+
+export const SIMULATOR_OUTCOMES: SimulatorOutcome[] = ['success', 'insufficient_funds', 'timeout', 'duplicate_callback'];
+
+export class MobileMoneySimulator {
+  private options: SimulatorOptions;
+  private initialOptions: SimulatorOptions;
+  private transactions = new Map<string, SimulatedTransaction>();
+  private scripts = new Map<string, ScriptedOutcome[]>();
+
+  constructor(options: SimulatorOptions) {
+    this.options = { ...options };
+    this.initialOptions = { ...options };
+  }
+
+  /**
+   * Queue outcomes for a phone number; each new transaction for that number takes the next one.
+   * Without a phone number the default outcome for every unscripted number is changed.
+   */
+  scriptOutcome(outcome: ScriptedOutcome, phoneNumber?: string, times: number = 1): void {
+    if (!phoneNumber) {
+      this.options.defaultOutcome = outcome.outcome;
+      if (outcome.callbackDelayMs !== undefined) {
+        this.options.callbackDelayMs = outcome.callbackDelayMs;
+      }
+      return;
+    }
+
+    const queue = this.scripts.get(phoneNumber) || [];
+    for (let i = 0; i < times; i++) {
+      queue.push(outcome);
+    }
+    this.scripts.set(phoneNumber, queue);
+  }
+
+  /**
+   * Clear scripted outcomes and recorded transactions, and restore the starting defaults
+   */
+  reset(): void {
+    this.scripts.clear();
+    this.transactions.clear();
+    this.options = { ...this.initialOptions };
+  }
+
+  /**
+   * Accept a collection request. The customer's "approval" arrives later as a callback.
+   */
+  initiateCollection(request: {
+    amount: number;
+    phoneNumber: string;
+    provider: string;
+    reference: string;
+    callbackUrl?: string;
+  }): SimulatedTransaction {
+    const script = this.nextOutcome(request.phoneNumber);
+    const transaction: SimulatedTransaction = {
+      transactionId: this.generateTransactionId(request.provider, 'COL'),
+      type: 'collection',
+      provider: request.provider,
+      reference: request.reference,
+      amount: request.amount,
+      phoneNumber: request.phoneNumber,
+      outcome: script.outcome,
+      status: 'pending',
+      callbackUrl: request.callbackUrl,
+      callbacks: [],
+      createdAt: new Date(),
+    };
+    this.transactions.set(transaction.transactionId, transaction);
+
+    // A timed-out prompt is never answered, so it stays pending and no callback is sent
+    if (script.outcome !== 'timeout') {
+      const delay = script.callbackDelayMs ?? this.options.callbackDelayMs;
+      setTimeout(() => {
+        this.settleCollection(transaction).catch((error) => {
+          console.error(`Simulator failed to settle ${transaction.transactionId}:`, error);
+        });
+      }, delay);
+    }
+
+    return transaction;
+  }
+
+  /**
+   * Send money to a wallet. Disbursements settle immediately; there is no callback.
+   */
+  disburse(request: { amount: number; phoneNumber: string; provider: string; reference: string }): SimulatedTransaction {
+    const script = this.nextOutcome(request.phoneNumber);
+    const failed = script.outcome === 'insufficient_funds' || script.outcome === 'timeout';
+    const transaction: SimulatedTransaction = {
+      transactionId: this.generateTransactionId(request.provider, 'DSB'),
+      type: 'disbursement',
+      provider: request.provider,
+      reference: request.reference,
+      amount: request.amount,
+      phoneNumber: request.phoneNumber,
+      outcome: script.outcome,
+      status: failed ? 'failed' : 'completed',
+      message: FAILURE_MESSAGES[script.outcome],
+      callbacks: [],
+      createdAt: new Date(),
+    };
+    this.transactions.set(transaction.transactionId, transaction);
+    return transaction;
+  }
+
+  getTransaction(transactionId: string): SimulatedTransaction | undefined {
+    return this.transactions.get(transactionId);
+  }
+
+  findDisbursement(reference: string): SimulatedTransaction | undefined {
+    return this.listTransactions().find((transaction) => transaction.type === 'disbursement' && transaction.reference === reference);
+  }
+
+  listTransactions(): SimulatedTransaction[] {
+    return Array.from(this.transactions.values());
+  }
+
+  /**
+   * Record the outcome and deliver the callback (twice for duplicate_callback)
+   */
+  private async settleCollection(transaction: SimulatedTransaction): Promise<void> {
+    const succeeded = transaction.outcome !== 'insufficient_funds';
+    transaction.status = succeeded ? 'completed' : 'failed';
+    transaction.message = FAILURE_MESSAGES[transaction.outcome];
+
+    const deliveries = transaction.outcome === 'duplicate_callback' ? 2 : 1;
+    for (let i = 0; i < deliveries; i++) {
+      await this.deliverCallback(transaction);
+    }
+  }
+
+  private async deliverCallback(transaction: SimulatedTransaction): Promise<void> {
+    if (!transaction.callbackUrl) {
+      return;
+    }
+
+    const callback: MobileMoneyCallback = {
+      provider: transaction.provider,
+      transactionId: transaction.reference,
+      externalTransactionId: transaction.transactionId,
+      status: transaction.status === 'completed' ? 'success' : 'failed',
+      amount: transaction.amount,
+      phoneNumber: transaction.phoneNumber,
+      reference: transaction.reference,
+      timestamp: new Date().toISOString(),
+      // A fresh nonce per delivery, so duplicates exercise idempotent processing rather than replay rejection
+      nonce: crypto.randomUUID(),
+      ...(transaction.message && { message: transaction.message }),
+    };
+    callback.signature = signCallback(callback, this.options.apiSecret);
+
+    try {
+      const response = await fetch(transaction.callbackUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(callback),
+      });
+      transaction.callbacks.push({ deliveredAt: new Date(), statusCode: response.status });
+    } catch (error: any) {
+      transaction.callbacks.push({ deliveredAt: new Date(), error: error.message });
+    }
+  }
+
+  private nextOutcome(phoneNumber: string): ScriptedOutcome {
+    const queue = this.scripts.get(phoneNumber);
+    if (queue && queue.length > 0) {
+      return queue.shift()!;
+    }
+    return { outcome: this.options.defaultOutcome };
+  }
+
+  private generateTransactionId(provider: string, kind: 'COL' | 'DSB'): string {
+    return `SIM-${provider.toUpperCase()}-${kind}-${crypto.randomBytes(6).toString('hex')}`;
+  }
+}
+
+/**
+ * HTTP API for the simulator: the provider endpoints MobileMoneyService calls, plus
+ * /simulator endpoints for scripting outcomes and inspecting what happened
+ */
+export function simulatorRoutes(simulator: MobileMoneySimulator, apiKey?: string): Router {
+  const router = Router();
+
+  // When an API key is configured, provider endpoints require it as X-API-Key, like the real APIs
+  const requireApiKey = (req: Request, res: Response, next: NextFunction) => {
+    if (apiKey && req.headers['x-api-key'] !== apiKey) {
+      return res.status(401).json({ message: 'Invalid API key' });
+    }
+    next();
+  };
+
+  const validateRequest = (body: any): string | null => {
+    if (!body.phoneNumber || !body.provider || !body.reference) {
+      return 'phoneNumber, provider, and reference are required';
+    }
+    if (typeof body.amount !== 'number' || body.amount <= 0) {
+      return 'amount must be a positive number';
+    }
+    return null;
+  };
+
+  /**
+   * Request a collection (debit prompt on the customer's phone)
+   * POST /collections
+   */
+  router.post('/collections', requireApiKey, (req: Request, res: Response) => {
+    const error = validateRequest(req.body);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    const transaction = simulator.initiateCollection(req.body);
+    res.status(202).json({ transactionId: transaction.transactionId, status: transaction.status });
+  });
+
+  /**
+   * Check a collection's status
+   * GET /collections/:transactionId
+   */
+  router.get('/collections/:transactionId', requireApiKey, (req: Request, res: Response) => {
+    const transaction = simulator.getTransaction(req.params.transactionId);
+    if (!transaction || transaction.type !== 'collection') {
+      return res.status(404).json({ message: 'Transaction not found' });
+    }
+
+    res.json({ transactionId: transaction.transactionId, status: transaction.status, message: transaction.message });
+  });
+
+  /**
+   * Send a disbursement
+   * POST /disbursements
+   */
+  router.post('/disbursements', requireApiKey, (req: Request, res: Response) => {
+    const error = validateRequest(req.body);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    const transaction = simulator.disburse(req.body);
+    res.json({ transactionId: transaction.transactionId, status: transaction.status, message: transaction.message });
+  });
+
+  /**
+   * Look up a disbursement by the reference it was sent with
+   * GET /disbursements/:reference
+   */
+  router.get('/disbursements/:reference', requireApiKey, (req: Request, res: Response) => {
+    const transaction = simulator.findDisbursement(req.params.reference);
+    if (!transaction) {
+      return res.status(404).json({ message: 'Disbursement not found' });
+    }
+
+    res.json({ transactionId: transaction.transactionId, status: transaction.status, message: transaction.message });
+  });
+
+  /**
+   * Script outcomes for a phone number, or change the default outcome when phoneNumber is omitted
+   * POST /simulator/scenarios
+   */
+  router.post('/simulator/scenarios', (req: Request, res: Response) => {
+    const { phoneNumber, outcome, callbackDelayMs, times = 1 } = req.body;
+
+    if (!SIMULATOR_OUTCOMES.includes(outcome)) {
+      return res.status(400).json({ message: `outcome must be one of ${SIMULATOR_OUTCOMES.join(', ')}` });
+    }
+
+    if (callbackDelayMs !== undefined && (typeof callbackDelayMs !== 'number' || callbackDelayMs < 0)) {
+      return res.status(400).json({ message: 'callbackDelayMs must be a non-negative number' });
+    }
+
+    simulator.scriptOutcome({ outcome, callbackDelayMs }, phoneNumber, times);
+    res.status(201).json({ phoneNumber: phoneNumber || null, outcome, callbackDelayMs, times });
+  });
+
+  /**
+   * Clear scripted outcomes and recorded transactions
+   * DELETE /simulator/scenarios
+   */
+  router.delete('/simulator/scenarios', (req: Request, res: Response) => {
+    simulator.reset();
+    res.status(204).send();
+  });
+
+  /**
+   * List every transaction the simulator has seen, with its callback deliveries
+   * GET /simulator/transactions
+   */
+  router.get('/simulator/transactions', (req: Request, res: Response) => {
+    res.json({ transactions: simulator.listTransactions() });
+  });
+
+  return router;
+}
@@ -276,6 +276,89 @@ async function subscribeToEvents() {
       }
     });
 
+    // Warn customers before each auto-debit pull
+    await messageQueue.subscribe('payment.events', 'support-service.mandate-pull-scheduled', 'payment.mandate.pull_scheduled', async (message) => {
+      console.log('Auto-debit pull scheduled event received, sending notification:', message);
+      const { userId, amount, dueDate, provider, phoneNumberLast4 } = message.payload;
+      if (userId) {
+        await messageQueue.publish('notifications.queue', 'notification.send', {
+          type: 'notification.send',
+          payload: {
+            notificationId: '',
+            userId,
+            type: 'payment_reminder',
+            channel: 'sms',
+            recipient: '',
+            templateId: 'auto_debit_notice',
+            templateVariables: {
+              name: 'Customer',
+              amount: `UGX ${amount?.toLocaleString() || '0'}`,
+              dueDate: new Date(dueDate).toLocaleDateString(),
+              provider: String(provider || '').toUpperCase(),
+              phoneLast4: phoneNumberLast4 || '',
+            },
+            priority: 'normal',
+          },
+          timestamp: Date.now(),
+        });
+      }
+    });
+
+    // Tell customers why a collection failed and when it will be retried
+    await messageQueue.subscribe('payment.events', 'support-service.retry-scheduled', 'payment.retry.scheduled', async (message) => {
+      console.log('Payment retry scheduled event received, sending notification:', message);
+      const { userId, amount, failureCode, nextRetryAt, provider, attemptsRemaining } = message.payload;
+      if (userId) {
+        await messageQueue.publish('notifications.queue', 'notification.send', {
+          type: 'notification.send',
+          payload: {
+            notificationId: '',
+            userId,
+            type: 'payment_reminder',
+            channel: 'sms',
+            recipient: '',
+            templateId: 'payment_retry_notice',
+            templateVariables: {
+              name: 'Customer',
+              amount: `UGX ${amount?.toLocaleString() || '0'}`,
+              reason: String(failureCode || 'unknown').replace(/_/g, ' '),
+              retryDate: new Date(nextRetryAt).toLocaleString(),
+              provider: String(provider || 'mobile money').toUpperCase(),
+              attemptsRemaining: String(attemptsRemaining ?? 0),
+            },
+            priority: 'normal',
+          },
+          timestamp: Date.now(),
+        });
+      }
+    });
+
+    // Tell customers their transfer letter is ready once the plan is paid off
+    await messageQueue.subscribe('payment.events', 'support-service.ownership-letter-issued', 'payment.ownership.letter_issued', async (message) => {
+      console.log('Ownership transfer letter issued event received, sending notification:', message);
+      const { userId, letterNumber, vehicle } = message.payload;
+      if (userId) {
+        await messageQueue.publish('notifications.queue', 'notification.send', {
+          type: 'notification.send',
+          payload: {
+            notificationId: '',
+            userId,
+            type: 'support',
+            channel: 'sms',
+            recipient: '',
+            templateId: 'ownership_transfer_ready',
+            templateVariables: {
+              name: 'Customer',
+              vehicleName: vehicle ? `${vehicle.year} ${vehicle.make} ${vehicle.model}` : 'Your Vehicle',
+              letterNumber: letterNumber || '',
+            },
+            priority: 'normal',
+          },
+          timestamp: Date.now(),
+        });
+      }
+    });
+
     // Listen for user events
     await messageQueue.subscribe('user.events', 'support-service-queue', 'user.created', async (message) => {
       console.log('User created event received, sending onboarding notification:', message);
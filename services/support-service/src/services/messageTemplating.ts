@@ -75,6 +75,78 @@ export class MessageTemplatingService {
       variables: ['name', 'amount', 'dueDate', 'vehicleName'],
     });
 
+    // Auto-debit pull notice
+    this.templates.set('auto_debit_notice', {
+      id: 'auto_debit_notice',
+      name: 'Auto-Debit Notice',
+      type: 'payment_reminder',
+      channels: ['sms', 'email', 'whatsapp'],
+      subject: 'Auto-debit of {{amount}} on {{dueDate}}',
+      smsTemplate: 'Hi {{name}}, {{amount}} will be collected automatically from your {{provider}} number ending {{phoneLast4}} on {{dueDate}}. Reply or contact support to pause your mandate.',
+      emailTemplate: `
+        <h2>Upcoming Auto-Debit</h2>
+        <p>Hi {{name}},</p>
+        <p>Under your auto-debit mandate, your next installment will be collected automatically.</p>
+        <ul>
+          <li><strong>Amount:</strong> {{amount}}</li>
+          <li><strong>Date:</strong> {{dueDate}}</li>
+          <li><strong>Account:</strong> {{provider}} number ending {{phoneLast4}}</li>
+        </ul>
+        <p>Please ensure funds are available. You can pause or revoke the mandate at any time.</p>
+        <p>Thank you,<br>Rent-to-Own Team</p>
+      `,
+      whatsappTemplate: 'Hi {{name}}, 🔁 {{amount}} will be auto-debited from your {{provider}} number ending {{phoneLast4}} on {{dueDate}}. Please ensure funds are available.',
+      variables: ['name', 'amount', 'dueDate', 'provider', 'phoneLast4'],
+    });
+
+    // Failed collection with another attempt scheduled
+    this.templates.set('payment_retry_notice', {
+      id: 'payment_retry_notice',
+      name: 'Payment Retry Notice',
+      type: 'payment_reminder',
+      channels: ['sms', 'email', 'whatsapp'],
+      subject: 'We could not collect {{amount}} - next attempt {{retryDate}}',
+      smsTemplate: 'Hi {{name}}, we could not collect your installment of {{amount}} ({{reason}}). We will try again on {{retryDate}}. Please make sure your {{provider}} wallet is ready.',
+      emailTemplate: `
+        <h2>Installment Collection Failed</h2>
+        <p>Hi {{name}},</p>
+        <p>We were unable to collect your installment, so we will try again automatically.</p>
+        <ul>
+          <li><strong>Amount:</strong> {{amount}}</li>
+          <li><strong>Reason:</strong> {{reason}}</li>
+          <li><strong>Next attempt:</strong> {{retryDate}}</li>
+          <li><strong>Attempts left after this one:</strong> {{attemptsRemaining}}</li>
+        </ul>
+        <p>Please make sure your {{provider}} wallet has enough funds and your phone is on, or pay now from your account to avoid late fees.</p>
+        <p>Thank you,<br>Rent-to-Own Team</p>
+      `,
+      whatsappTemplate: 'Hi {{name}}, we could not collect {{amount}} ({{reason}}). 🔁 Next attempt: {{retryDate}}. Please make sure your {{provider}} wallet is ready.',
+      variables: ['name', 'amount', 'reason', 'retryDate', 'provider', 'attemptsRemaining'],
+    });
+
+    // Ownership transfer on plan completion
+    this.templates.set('ownership_transfer_ready', {
+      id: 'ownership_transfer_ready',
+      name: 'Ownership Transfer Ready',
+      type: 'support',
+      channels: ['sms', 'email', 'whatsapp'],
+      subject: 'Your {{vehicleName}} is now yours',
+      smsTemplate: 'Congratulations {{name}}! Your plan is paid off and the {{vehicleName}} is now yours. Your transfer letter {{letterNumber}} is ready to download for the logbook transfer.',
+      emailTemplate: `
+        <h2>Congratulations on Completing Your Plan</h2>
+        <p>Hi {{name}},</p>
+        <p>You have made your final payment and ownership of your vehicle is being transferred to you.</p>
+        <ul>
+          <li><strong>Vehicle:</strong> {{vehicleName}}</li>
+          <li><strong>Transfer Letter:</strong> {{letterNumber}}</li>
+        </ul>
+        <p>Download the transfer letter from your account and present it with your logbook to complete the transfer. We will contact you to arrange removal of the tracking device.</p>
+        <p>Thank you,<br>Rent-to-Own Team</p>
+      `,
+      whatsappTemplate: '🎉 Congratulations {{name}}! The {{vehicleName}} is now yours. Transfer letter {{letterNumber}} is ready in your account for the logbook transfer.',
+      variables: ['name', 'vehicleName', 'letterNumber'],
+    });
+
     // Delinquency notice
     this.templates.set('delinquency_notice', {
       id: 'delinquency_notice',
@@ -9,7 +9,12 @@ import cron from 'node-cron';
 import { telematicsRoutes } from './routes/telematics';
 import { processTelematicsData } from './services/riskManagement';
 import { triggerAlerts } from './services/alerts';
-import { checkImmobilization } from './services/immobilization';
+import {
+  checkImmobilization,
+  holdImmobilizationForRestructure,
+  releaseForOwnershipTransfer,
+  immobilizeForRepossession,
+} from './services/immobilization';
 import { updateDrivingBehaviorSummary, publishCreditEvent } from './services/drivingBehavior';
 import { WeatherService } from '../../../lib/external-apis/weather-service';
 
@@ -293,6 +298,31 @@ async function initializeDatabase() {
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       );
 
+      -- Periods during which payment-related immobilization is suspended (e.g. restructured plans)
+      CREATE TABLE IF NOT EXISTS immobilization_holds (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        vehicle_id UUID NOT NULL,
+        user_id UUID,
+        payment_plan_id UUID,
+        reason VARCHAR(255) NOT NULL,
+        hold_until TIMESTAMP NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Vehicles handed over to their owners after the payment plan completed
+      CREATE TABLE IF NOT EXISTS ownership_releases (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        vehicle_id UUID UNIQUE NOT NULL,
+        user_id UUID,
+        payment_plan_id UUID NOT NULL,
+        zones_deactivated INTEGER DEFAULT 0,
+        immobilization_released BOOLEAN DEFAULT false,
+        device_removal_scheduled_for DATE NOT NULL,
+        device_removal_status VARCHAR(20) DEFAULT 'scheduled' CHECK (device_removal_status IN ('scheduled', 'completed')),
+        device_removed_at TIMESTAMP,
+        released_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
       -- Driving behavior summary for credit scoring
       CREATE TABLE IF NOT EXISTS driving_behavior_summary (
         id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -331,6 +361,8 @@ async function initializeDatabase() {
       
       CREATE INDEX IF NOT EXISTS idx_immobilization_vehicle_id ON immobilization_status(vehicle_id);
       CREATE INDEX IF NOT EXISTS idx_immobilization_status ON immobilization_status(status);
+      CREATE INDEX IF NOT EXISTS idx_immobilization_holds_vehicle ON immobilization_holds(vehicle_id, hold_until);
+      CREATE INDEX IF NOT EXISTS idx_ownership_releases_device_removal ON ownership_releases(device_removal_scheduled_for) WHERE device_removal_status = 'scheduled';
       
       CREATE INDEX IF NOT EXISTS idx_driving_behavior_vehicle_user ON driving_behavior_summary(vehicle_id, user_id);
       CREATE INDEX IF NOT EXISTS idx_driving_behavior_date ON driving_behavior_summary(date DESC);
@@ -342,11 +374,52 @@ async function initializeDatabase() {
   }
 }
 
+// Subscribe to payment events
+async function subscribeToEvents() {
+  try {
+    // Each event has its own queue: consumers sharing a queue are handed its messages in turn,
+    // whatever routing key each was bound for
+
+    // Restructured plans get breathing room before any payment-related immobilization
+    await messageQueue.subscribe('payment.events', 'telematics-service.plan-restructured', 'payment.plan.restructured', async (message) => {
+      const { vehicleId, userId, planId, holdUntil } = message.payload;
+      await holdImmobilizationForRestructure(pool, vehicleId, userId, planId, new Date(holdUntil));
+    });
+
+    // A fully paid vehicle belongs to the customer: stop tracking it and schedule the device for removal
+    await messageQueue.subscribe('payment.events', 'telematics-service.plan-completed', 'payment.plan.completed', async (message) => {
+      const { transferId, vehicleId, userId, planId } = message.payload;
+      const release = await releaseForOwnershipTransfer(pool, vehicleId, userId, planId);
+
+      await messageQueue.publish('telematics.events', 'telematics.ownership.released', {
+        type: 'telematics.ownership.released',
+        payload: { transferId, ...release },
+        timestamp: Date.now(),
+      });
+    });
+
+    // Terminated plans: disable the vehicle and tell the recovery team where it is
+    await messageQueue.subscribe('payment.events', 'telematics-service.repossession-ordered', 'payment.default.repossession_ordered', async (message) => {
+      const { caseId, vehicleId, userId } = message.payload;
+      const located = await immobilizeForRepossession(pool, vehicleId, userId);
+
+      await messageQueue.publish('telematics.events', 'telematics.repossession.located', {
+        type: 'telematics.repossession.located',
+        payload: { caseId, ...located },
+        timestamp: Date.now(),
+      });
+    });
+  } catch (error) {
+    console.error('Failed to subscribe to events:', error);
+  }
+}
+
 // Start server
 async function start() {
   try {
     await initializeDatabase();
     await messageQueue.connect();
+    await subscribeToEvents();
 
     server.listen(PORT, () => {
       console.log(`Telematics service running on port ${PORT} `);
@@ -2,7 +2,7 @@ import { Router, Request, Response } from 'express';
 import { Pool } from 'pg';
 import { MessageQueueClient } from '@rent-to-own/message-queue';
 import { NotFoundError, ValidationError } from '@rent-to-own/errors';
-import { releaseImmobilization } from '../services/immobilization';
+import { releaseImmobilization, completeDeviceRemoval, mapOwnershipRelease } from '../services/immobilization';
 
 export function telematicsRoutes(pool: Pool, messageQueue: MessageQueueClient): Router {
   const router = Router();
@@ -444,6 +444,68 @@ export function telematicsRoutes(pool: Pool, messageQueue: MessageQueueClient):
     }
   });
 
+  // List tracking devices due to come out of vehicles handed over to their owners
+  router.get('/device-removals', async (req: Request, res: Response) => {
+    try {
+      const { status = 'scheduled' } = req.query;
+
+      if (!['scheduled', 'completed'].includes(status as string)) {
+        throw new ValidationError('status must be scheduled or completed');
+      }
+
+      const result = await pool.query(
+        `SELECT * FROM ownership_releases
+         WHERE device_removal_status = $1
+         ORDER BY device_removal_scheduled_for ASC`,
+        [status]
+      );
+
+      res.json({
+        success: true,
+        data: { removals: result.rows.map(mapOwnershipRelease) },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
+  // Record that the tracking device has been removed from a released vehicle
+  router.post('/:vehicleId/device-removal/complete', async (req: Request, res: Response) => {
+    try {
+      const { vehicleId } = req.params;
+      const release = await completeDeviceRemoval(pool, vehicleId);
+
+      if (!release) {
+        throw new NotFoundError('Scheduled device removal');
+      }
+
+      await messageQueue.publish('telematics.events', 'telematics.device.removed', {
+        type: 'telematics.device.removed',
+        payload: release,
+        timestamp: Date.now(),
+      });
+
+      res.json({
+        success: true,
+        data: { release },
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+      }
+      throw error;
+    }
+  });
+
   // Get driving behavior summary
   router.get('/:vehicleId/behavior', async (req: Request, res: Response) => {
     try {
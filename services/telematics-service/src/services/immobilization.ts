@@ -2,6 +2,29 @@ import { Pool } from 'pg';
 import { MessageQueueClient } from '@rent-to-own/message-queue';
 import { RiskAssessment } from './riskManagement';
 
+export interface OwnershipRelease {
+  vehicleId: string;
+  userId?: string;
+  paymentPlanId: string;
+  zonesDeactivated: number;
+  immobilizationReleased: boolean;
+  deviceRemovalScheduledFor: Date;
+  deviceRemovalStatus: 'scheduled' | 'completed';
+  releasedAt: Date;
+}
+
+export interface RepossessionLocation {
+  vehicleId: string;
+  immobilized: boolean;
+  immobilizedAt?: Date;
+  location?: {
+    latitude: number;
+    longitude: number;
+    odometerKm?: number;
+    recordedAt: Date;
+  };
+}
+
 export interface ImmobilizationStatus {
   id: string;
   vehicleId: string;
@@ -32,6 +55,17 @@ export async function checkImmobilization(
   }
 
   try {
+    // The platform gives up immobilization rights once the customer owns the vehicle
+    if (await isOwnershipReleased(pool, vehicleId)) {
+      return;
+    }
+
+    // Payment-related immobilization backs off while a restructured plan is in its hold period
+    if (riskAssessment.riskType === 'payment_overdue' && (await hasActiveHold(pool, vehicleId))) {
+      console.log(`Immobilization on hold for vehicle ${vehicleId} (plan restructured)`);
+      return;
+    }
+
     // Check current immobilization status
     const statusResult = await pool.query(
       `SELECT * FROM immobilization_status
@@ -98,6 +132,205 @@ export async function checkImmobilization(
   }
 }
 
+/**
+ * Check whether payment-related immobilization is on hold for a vehicle
+ */
+async function hasActiveHold(pool: Pool, vehicleId: string): Promise<boolean> {
+  const result = await pool.query(
+    `SELECT 1 FROM immobilization_holds
+     WHERE vehicle_id = $1 AND hold_until > CURRENT_TIMESTAMP
+     LIMIT 1`,
+    [vehicleId]
+  );
+  return result.rows.length > 0;
+}
+
+/**
+ * Back off payment-related immobilization after a payment plan is restructured.
+ * Pending warnings are withdrawn; vehicles already immobilized are left for support to release.
+ */
+export async function holdImmobilizationForRestructure(
+  pool: Pool,
+  vehicleId: string,
+  userId: string | undefined,
+  planId: string,
+  holdUntil: Date
+): Promise<void> {
+  await pool.query(
+    `INSERT INTO immobilization_holds (vehicle_id, user_id, payment_plan_id, reason, hold_until)
+     VALUES ($1, $2, $3, 'Payment plan restructured', $4)`,
+    [vehicleId, userId || null, planId, holdUntil]
+  );
+
+  await pool.query(
+    `UPDATE immobilization_status
+     SET status = 'released',
+         released_at = CURRENT_TIMESTAMP,
+         released_reason = 'Payment plan restructured',
+         updated_at = CURRENT_TIMESTAMP
+     WHERE vehicle_id = $1 AND reason = 'Payment overdue' AND status IN ('pending', 'warning_sent')`,
+    [vehicleId]
+  );
+
+  console.log(`Immobilization on hold for vehicle ${vehicleId} until ${holdUntil.toISOString()}`);
+}
+
+/**
+ * Check whether the vehicle has been handed over to its owner
+ */
+async function isOwnershipReleased(pool: Pool, vehicleId: string): Promise<boolean> {
+  const result = await pool.query('SELECT 1 FROM ownership_releases WHERE vehicle_id = $1', [vehicleId]);
+  return result.rows.length > 0;
+}
+
+/**
+ * Hand a vehicle over once its payment plan is complete: geofences are deactivated, any
+ * immobilization is lifted for good and removal of the tracking device is scheduled.
+ * Safe to repeat - the existing release is returned.
+ */
+export async function releaseForOwnershipTransfer(
+  pool: Pool,
+  vehicleId: string,
+  userId: string | undefined,
+  planId: string
+): Promise<OwnershipRelease> {
+  const existing = await pool.query('SELECT * FROM ownership_releases WHERE vehicle_id = $1', [vehicleId]);
+  if (existing.rows.length > 0) {
+    return mapOwnershipRelease(existing.rows[0]);
+  }
+
+  const zonesResult = await pool.query(
+    `UPDATE authorized_zones SET is_active = false, updated_at = CURRENT_TIMESTAMP
+     WHERE vehicle_id = $1 AND is_active = true`,
+    [vehicleId]
+  );
+
+  const immobilizationResult = await pool.query(
+    `UPDATE immobilization_status
+     SET status = 'released',
+         released_at = CURRENT_TIMESTAMP,
+         released_reason = 'Ownership transferred',
+         updated_at = CURRENT_TIMESTAMP
+     WHERE vehicle_id = $1 AND status IN ('pending', 'warning_sent', 'immobilized')
+     RETURNING status`,
+    [vehicleId]
+  );
+  await sendImmobilizationCommand(vehicleId, false);
+
+  const removalDays = parseInt(process.env.DEVICE_REMOVAL_LEAD_DAYS || '7');
+  const scheduledFor = new Date();
+  scheduledFor.setDate(scheduledFor.getDate() + removalDays);
+
+  const result = await pool.query(
+    `INSERT INTO ownership_releases (
+      vehicle_id, user_id, payment_plan_id, zones_deactivated, immobilization_released, device_removal_scheduled_for
+    ) VALUES ($1, $2, $3, $4, $5, $6)
+    ON CONFLICT (vehicle_id) DO NOTHING
+    RETURNING *`,
+    [vehicleId, userId || null, planId, zonesResult.rowCount || 0, (immobilizationResult.rowCount || 0) > 0, scheduledFor]
+  );
+  if (result.rows.length === 0) {
+    // Another delivery of the same event got there first
+    const winner = await pool.query('SELECT * FROM ownership_releases WHERE vehicle_id = $1', [vehicleId]);
+    return mapOwnershipRelease(winner.rows[0]);
+  }
+
+  console.log(`Vehicle ${vehicleId} released to its owner; device removal scheduled for ${scheduledFor.toISOString()}`);
+  return mapOwnershipRelease(result.rows[0]);
+}
+
+/**
+ * Immobilize a vehicle whose plan has been terminated and report where it was last seen,
+ * so the recovery team can collect it. Repossession overrides any restructure hold.
+ */
+export async function immobilizeForRepossession(
+  pool: Pool,
+  vehicleId: string,
+  userId: string | undefined
+): Promise<RepossessionLocation> {
+  let immobilizedAt: Date;
+  const existing = await pool.query(
+    `SELECT immobilized_at FROM immobilization_status
+     WHERE vehicle_id = $1 AND reason = 'Repossession ordered' AND status = 'immobilized'
+     ORDER BY immobilized_at DESC LIMIT 1`,
+    [vehicleId]
+  );
+
+  if (existing.rows.length > 0) {
+    // Already done by an earlier delivery of the same event
+    immobilizedAt = existing.rows[0].immobilized_at;
+  } else {
+    await pool.query(
+      `UPDATE immobilization_status
+       SET status = 'released',
+           released_at = CURRENT_TIMESTAMP,
+           released_reason = 'Superseded by repossession',
+           updated_at = CURRENT_TIMESTAMP
+       WHERE vehicle_id = $1 AND status IN ('pending', 'warning_sent')`,
+      [vehicleId]
+    );
+
+    const result = await pool.query(
+      `INSERT INTO immobilization_status (vehicle_id, user_id, reason, status, immobilized_at)
+       VALUES ($1, $2, 'Repossession ordered', 'immobilized', CURRENT_TIMESTAMP)
+       RETURNING immobilized_at`,
+      [vehicleId, userId || null]
+    );
+    immobilizedAt = result.rows[0].immobilized_at;
+    await sendImmobilizationCommand(vehicleId, true);
+  }
+
+  const locationResult = await pool.query(
+    `SELECT latitude, longitude, odometer_km, timestamp FROM telematics_data
+     WHERE vehicle_id = $1 AND latitude IS NOT NULL AND longitude IS NOT NULL
+     ORDER BY timestamp DESC LIMIT 1`,
+    [vehicleId]
+  );
+  const last = locationResult.rows[0];
+
+  console.log(`Vehicle ${vehicleId} immobilized for repossession`);
+  return {
+    vehicleId,
+    immobilized: true,
+    immobilizedAt,
+    location: last
+      ? {
+          latitude: parseFloat(last.latitude),
+          longitude: parseFloat(last.longitude),
+          odometerKm: last.odometer_km !== null ? parseFloat(last.odometer_km) : undefined,
+          recordedAt: last.timestamp,
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Record that the tracking device has been taken out of a released vehicle
+ */
+export async function completeDeviceRemoval(pool: Pool, vehicleId: string): Promise<OwnershipRelease | null> {
+  const result = await pool.query(
+    `UPDATE ownership_releases
+     SET device_removal_status = 'completed', device_removed_at = CURRENT_TIMESTAMP
+     WHERE vehicle_id = $1 AND device_removal_status = 'scheduled'
+     RETURNING *`,
+    [vehicleId]
+  );
+  return result.rows.length > 0 ? mapOwnershipRelease(result.rows[0]) : null;
+}
+
+export function mapOwnershipRelease(row: any): OwnershipRelease {
+  return {
+    vehicleId: row.vehicle_id,
+    userId: row.user_id || undefined,
+    paymentPlanId: row.payment_plan_id,
+    zonesDeactivated: row.zones_deactivated,
+    immobilizationReleased: row.immobilization_released,
+    deviceRemovalScheduledFor: row.device_removal_scheduled_for,
+    deviceRemovalStatus: row.device_removal_status,
+    releasedAt: row.released_at,
+  };
+}
+
 /**
  * Send immobilization warning to customer
  */
@@ -75,9 +75,10 @@ async function initializeDatabase() {
         mileage INTEGER DEFAULT 0 CHECK (mileage >= 0),
         price DECIMAL(12, 2) NOT NULL CHECK (price > 0),
         deposit_amount DECIMAL(12, 2) NOT NULL CHECK (deposit_amount > 0 AND deposit_amount <= price),
+        daily_payment DECIMAL(12, 2) CHECK (daily_payment > 0),
         weekly_payment DECIMAL(12, 2) CHECK (weekly_payment > 0),
         monthly_payment DECIMAL(12, 2) CHECK (monthly_payment > 0),
-        payment_frequency VARCHAR(20) CHECK (payment_frequency IN ('weekly', 'monthly')),
+        payment_frequency VARCHAR(20) CHECK (payment_frequency IN ('daily', 'weekly', 'monthly')),
         payment_term_months INTEGER CHECK (payment_term_months > 0),
         eligibility_tier VARCHAR(50) CHECK (eligibility_tier IN ('basic', 'standard', 'premium', 'luxury')),
         status VARCHAR(50) DEFAULT 'available' CHECK (status IN ('available', 'reserved', 'rented', 'sold', 'maintenance')),
@@ -89,6 +90,19 @@ async function initializeDatabase() {
       );
     `);
 
+    // Daily payments for motorcycle (boda-boda) plans on existing databases
+    await pool.query(`
+      ALTER TABLE vehicles ADD COLUMN IF NOT EXISTS daily_payment DECIMAL(12, 2) CHECK (daily_payment > 0);
+      ALTER TABLE vehicles DROP CONSTRAINT IF EXISTS vehicles_payment_frequency_check;
+      ALTER TABLE vehicles ADD CONSTRAINT vehicles_payment_frequency_check
+        CHECK (payment_frequency IN ('daily', 'weekly', 'monthly'));
+    `);
+
+    // The retailer selling the vehicle, who is credited with plans taken out on it
+    await pool.query(`
+      ALTER TABLE vehicles ADD COLUMN IF NOT EXISTS retailer_id UUID;
+    `);
+
     // Create vehicle_reservations table with expiry tracking
     await pool.query(`
       CREATE TABLE IF NOT EXISTS vehicle_reservations (
@@ -111,6 +125,7 @@ async function initializeDatabase() {
       CREATE INDEX IF NOT EXISTS idx_vehicles_category ON vehicles(category_id);
       CREATE INDEX IF NOT EXISTS idx_vehicles_eligibility_tier ON vehicles(eligibility_tier);
       CREATE INDEX IF NOT EXISTS idx_vehicles_make_model ON vehicles(make, model);
+      CREATE INDEX IF NOT EXISTS idx_vehicles_retailer ON vehicles(retailer_id);
       CREATE INDEX IF NOT EXISTS idx_reservations_vehicle_id ON vehicle_reservations(vehicle_id);
       CREATE INDEX IF NOT EXISTS idx_reservations_user_id ON vehicle_reservations(user_id);
       CREATE INDEX IF NOT EXISTS idx_reservations_status ON vehicle_reservations(status);
@@ -158,6 +173,48 @@ async function subscribeToEvents() {
       }
     });
 
+    // The customer has paid the vehicle off: it is theirs now. On its own queue, so the shared queue's
+    // other consumers are never handed it
+    await messageQueue.subscribe('payment.events', 'vehicle-service.plan-completed', 'payment.plan.completed', async (message) => {
+      const { transferId, vehicleId, userId } = message.payload;
+
+      const vehicleResult = await pool.query(
+        `UPDATE vehicles SET status = 'sold', updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1
+         RETURNING id, make, model, year, vin, registration_number, color`,
+        [vehicleId]
+      );
+      if (vehicleResult.rows.length === 0) {
+        console.error(`Vehicle ${vehicleId} not found for completed plan`);
+        return;
+      }
+
+      await pool.query(
+        `UPDATE vehicle_reservations SET status = 'completed', updated_at = CURRENT_TIMESTAMP
+         WHERE vehicle_id = $1 AND user_id = $2 AND status IN ('pending', 'approved')`,
+        [vehicleId, userId]
+      );
+
+      const vehicle = vehicleResult.rows[0];
+      await messageQueue.publish('vehicle.events', 'vehicle.sold', {
+        type: 'vehicle.sold',
+        payload: {
+          transferId,
+          vehicleId,
+          userId,
+          vehicle: {
+            make: vehicle.make,
+            model: vehicle.model,
+            year: vehicle.year,
+            vin: vehicle.vin,
+            registrationNumber: vehicle.registration_number,
+            color: vehicle.color,
+          },
+        },
+        timestamp: Date.now(),
+      });
+    });
+
     await messageQueue.subscribe('payment.events', 'vehicle-service-queue', 'payment.failed', async (message) => {
       console.log('Payment failed event received:', message);
       // Handle payment failure - potentially release reservation
@@ -46,7 +46,7 @@ export function vehicleRoutes(pool: Pool, messageQueue: MessageQueueClient): Rou
         let query = `
           SELECT 
             v.id, v.make, v.model, v.year, v.vehicle_type, v.color, v.mileage,
-            v.price, v.deposit_amount, v.weekly_payment, v.monthly_payment,
+            v.price, v.deposit_amount, v.daily_payment, v.weekly_payment, v.monthly_payment,
             v.payment_frequency, v.payment_term_months, v.eligibility_tier,
             v.status, v.description, v.images, v.specifications, v.created_at,
             c.id as category_id, c.name as category_name
@@ -171,9 +171,9 @@ export function vehicleRoutes(pool: Pool, messageQueue: MessageQueueClient): Rou
         const result = await pool.query(
           `SELECT 
             v.id, v.make, v.model, v.year, v.vehicle_type, v.vin, v.registration_number,
-            v.color, v.mileage, v.price, v.deposit_amount, v.weekly_payment,
+            v.color, v.mileage, v.price, v.deposit_amount, v.daily_payment, v.weekly_payment,
             v.monthly_payment, v.payment_frequency, v.payment_term_months,
-            v.eligibility_tier, v.status, v.description, v.images, v.specifications,
+            v.eligibility_tier, v.status, v.description, v.images, v.specifications, v.retailer_id,
             v.created_at, v.updated_at,
             c.id as category_id, c.name as category_name, c.description as category_description
            FROM vehicles v
@@ -227,8 +227,9 @@ export function vehicleRoutes(pool: Pool, messageQueue: MessageQueueClient): Rou
         depositAmount: (v) => validators.required(v) && validators.positiveNumber(v),
         categoryId: (v) => v === undefined || validators.uuid(v),
         eligibilityTier: (v) => v === undefined || validators.enum(['basic', 'standard', 'premium', 'luxury'])(v),
-        paymentFrequency: (v) => v === undefined || validators.enum(['weekly', 'monthly'])(v),
+        paymentFrequency: (v) => v === undefined || validators.enum(['daily', 'weekly', 'monthly'])(v),
         paymentTermMonths: (v) => v === undefined || validators.positiveNumber(v),
+        retailerId: (v) => v === undefined || validators.uuid(v),
       },
     }),
     async (req: Request, res: Response) => {
@@ -245,6 +246,7 @@ export function vehicleRoutes(pool: Pool, messageQueue: MessageQueueClient): Rou
           mileage = 0,
           price,
           depositAmount,
+          dailyPayment,
           weeklyPayment,
           monthlyPayment,
           paymentFrequency,
@@ -252,6 +254,7 @@ export function vehicleRoutes(pool: Pool, messageQueue: MessageQueueClient): Rou
           eligibilityTier,
           description,
           images = [],
+          retailerId,
         } = req.body;
 
         // Validate VIN and populate specs if provided
@@ -327,11 +330,11 @@ export function vehicleRoutes(pool: Pool, messageQueue: MessageQueueClient): Rou
         const result = await pool.query(
           `INSERT INTO vehicles (
             make, model, year, vehicle_type, category_id, vin, registration_number,
-            color, mileage, price, deposit_amount, weekly_payment, monthly_payment,
+            color, mileage, price, deposit_amount, daily_payment, weekly_payment, monthly_payment,
             payment_frequency, payment_term_months, eligibility_tier, description,
-            images, specifications, status
+            images, specifications, retailer_id, status
           ) VALUES (
-            $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, 'available'
+            $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, 'available'
           )
           RETURNING *`,
           [
@@ -346,6 +349,7 @@ export function vehicleRoutes(pool: Pool, messageQueue: MessageQueueClient): Rou
             parseInt(mileage),
             parseFloat(price),
             parseFloat(depositAmount),
+            dailyPayment ? parseFloat(dailyPayment) : null,
             weeklyPayment ? parseFloat(weeklyPayment) : null,
             monthlyPayment ? parseFloat(monthlyPayment) : null,
             paymentFrequency || null,
@@ -354,6 +358,7 @@ export function vehicleRoutes(pool: Pool, messageQueue: MessageQueueClient): Rou
             description || null,
             images,
             JSON.stringify(vehicleSpecs),
+            retailerId || null,
           ]
         );
 
@@ -401,7 +406,8 @@ export function vehicleRoutes(pool: Pool, messageQueue: MessageQueueClient): Rou
         year: (v) => v === undefined || validators.year(v),
         categoryId: (v) => v === undefined || validators.uuid(v),
         eligibilityTier: (v) => v === undefined || validators.enum(['basic', 'standard', 'premium', 'luxury'])(v),
-        paymentFrequency: (v) => v === undefined || validators.enum(['weekly', 'monthly'])(v),
+        paymentFrequency: (v) => v === undefined || validators.enum(['daily', 'weekly', 'monthly'])(v),
+        retailerId: (v) => v === undefined || v === null || validators.uuid(v),
       },
     }),
     async (req: Request, res: Response) => {
@@ -424,6 +430,7 @@ export function vehicleRoutes(pool: Pool, messageQueue: MessageQueueClient): Rou
           'mileage',
           'price',
           'deposit_amount',
+          'daily_payment',
           'weekly_payment',
           'monthly_payment',
           'payment_frequency',
@@ -433,6 +440,7 @@ export function vehicleRoutes(pool: Pool, messageQueue: MessageQueueClient): Rou
           'images',
           'specifications',
           'status',
+          'retailer_id',
         ];
 
         const updateFields: string[] = [];
@@ -440,7 +448,7 @@ export function vehicleRoutes(pool: Pool, messageQueue: MessageQueueClient): Rou
         let paramCount = 1;
 
         for (const [key, value] of Object.entries(updates)) {
-          const dbKey = key === 'categoryId' ? 'category_id' : key;
+          const dbKey = key === 'categoryId' ? 'category_id' : key === 'retailerId' ? 'retailer_id' : key;
           if (allowedFields.includes(dbKey)) {
             if (dbKey === 'specifications' && typeof value === 'object') {
               updateFields.push(`${dbKey} = $${paramCount++}`);
@@ -451,6 +459,7 @@ export function vehicleRoutes(pool: Pool, messageQueue: MessageQueueClient): Rou
             } else if (
               dbKey === 'price' ||
               dbKey === 'deposit_amount' ||
+              dbKey === 'daily_payment' ||
               dbKey === 'weekly_payment' ||
               dbKey === 'monthly_payment'
             ) {
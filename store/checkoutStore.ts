@@ -3,7 +3,8 @@ import { create } from 'zustand'
 export interface CheckoutState {
   vehicleId: string | null
   depositAmount: number | null
-  paymentFrequency: 'weekly' | 'monthly'
+  paymentFrequency: 'daily' | 'weekly' | 'monthly'
+  skipSundays: boolean // Daily plans only
   paymentTermMonths: number | null
   selectedPaymentMethod: 'mobile_money' | 'bank_transfer' | null
   mobileMoneyProvider: 'mtn' | 'airtel' | 'africell' | null
@@ -31,6 +32,7 @@ const defaultCheckout: CheckoutState = {
   vehicleId: null,
   depositAmount: null,
   paymentFrequency: 'monthly',
+  skipSundays: true,
   paymentTermMonths: null,
   selectedPaymentMethod: null,
   mobileMoneyProvider: null,